@@ -18,6 +18,8 @@ import EmbedVideo from "./pages/EmbedVideo";
 import Admin from "./pages/Admin";
 import TrackingRedirect from "./pages/TrackingRedirect";
 import Upload from "./pages/Upload";
+import HiddenContent from "./pages/HiddenContent";
+import Tag from "./pages/Tag";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -45,6 +47,8 @@ const App = () => (
               <Route path="/embed/video/:videoId" element={<EmbedVideo />} />
               <Route path="/admin" element={<Admin />} />
               <Route path="/upload" element={<Upload />} />
+              <Route path="/settings/hidden" element={<HiddenContent />} />
+              <Route path="/tag/:tag" element={<Tag />} />
               <Route path="/:slug" element={<TrackingRedirect />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
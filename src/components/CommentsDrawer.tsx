@@ -0,0 +1,549 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { X, Heart, Trash2, Loader2, Send } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { getOptimizedAvatarUrl } from "@/lib/cloudinary";
+import { cn } from "@/lib/utils";
+
+const COMMENTS_PAGE_SIZE = 20;
+const REPLIES_PAGE_SIZE = 5;
+const MAX_COMMENT_LENGTH = 500;
+
+const COMMENT_SELECT = "id, video_id, user_id, content, created_at, likes_count, replies_count, parent_comment_id, profiles(username, avatar_url)";
+
+interface Comment {
+  id: string;
+  video_id: string;
+  user_id: string;
+  content: string;
+  created_at: string;
+  likes_count: number;
+  replies_count: number;
+  parent_comment_id: string | null;
+  profiles: {
+    username: string;
+    avatar_url: string | null;
+  } | null;
+}
+
+interface ReplyThread {
+  items: Comment[];
+  hasMore: boolean;
+  loading: boolean;
+}
+
+interface CommentsDrawerProps {
+  videoId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the video's total comment count (top-level + replies) whenever it changes */
+  onCountChange?: (count: number) => void;
+}
+
+const formatTimeAgo = (timestamp: string) => {
+  const diffMin = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  const diffHour = Math.floor(diffMin / 60);
+  const diffDay = Math.floor(diffHour / 24);
+  const diffWeek = Math.floor(diffDay / 7);
+
+  if (diffWeek > 0) return `${diffWeek}w`;
+  if (diffDay > 0) return `${diffDay}d`;
+  if (diffHour > 0) return `${diffHour}h`;
+  if (diffMin > 0) return `${diffMin}m`;
+  return "now";
+};
+
+export const CommentsDrawer = ({ videoId, isOpen, onClose, onCountChange }: CommentsDrawerProps) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const userId = user?.id || null;
+
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [replies, setReplies] = useState<Record<string, ReplyThread>>({});
+  const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Ids we inserted/deleted ourselves, so the realtime echo doesn't double-apply
+  const ownChangesRef = useRef<Set<string>>(new Set());
+  // Deletes already taken off the count. A parent delete cascades to its
+  // replies, and their DELETE echoes must not be counted a second time.
+  const countedDeletesRef = useRef<Set<string>>(new Set());
+  // Mirrors for realtime callbacks, which outlive a single render
+  const commentsRef = useRef<Comment[]>([]);
+  const repliesRef = useRef<Record<string, ReplyThread>>({});
+
+  useEffect(() => { commentsRef.current = comments; }, [comments]);
+  useEffect(() => { repliesRef.current = replies; }, [replies]);
+
+  const fetchLikedIds = useCallback(async (ids: string[]) => {
+    if (!userId || ids.length === 0) return;
+    const { data } = await supabase
+      .from("comment_likes")
+      .select("comment_id")
+      .eq("user_id", userId)
+      .in("comment_id", ids);
+    if (!data || data.length === 0) return;
+    setLikedIds(prev => {
+      const next = new Set(prev);
+      data.forEach(r => next.add(r.comment_id));
+      return next;
+    });
+  }, [userId]);
+
+  const fetchComments = useCallback(async (offset: number) => {
+    const { data, error, count } = await supabase
+      .from("comments")
+      .select(COMMENT_SELECT, { count: "exact" })
+      .eq("video_id", videoId)
+      .is("parent_comment_id", null)
+      .order("created_at", { ascending: false })
+      .range(offset, offset + COMMENTS_PAGE_SIZE - 1);
+    if (error) throw error;
+    const page = (data || []) as Comment[];
+    fetchLikedIds(page.map(c => c.id));
+    return { page, count: count || 0 };
+  }, [videoId, fetchLikedIds]);
+
+  // Initial load each time the drawer opens
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setReplies({});
+      setLikedIds(new Set());
+      try {
+        const [{ page }, { count }] = await Promise.all([
+          fetchComments(0),
+          supabase.from("comments").select("*", { count: "exact", head: true }).eq("video_id", videoId),
+        ]);
+        if (cancelled) return;
+        setComments(page);
+        setHasMore(page.length >= COMMENTS_PAGE_SIZE);
+        setTotalCount(count || 0);
+      } catch (error) {
+        console.error("[Comments] Failed to load:", error);
+        toast.error("Failed to load comments");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    load();
+
+    return () => { cancelled = true; };
+  }, [isOpen, videoId, fetchComments]);
+
+  const adjustCount = useCallback((delta: number) => {
+    setTotalCount(prev => Math.max(0, prev + delta));
+  }, []);
+
+  // Report the live total to the caller once the real count has loaded
+  useEffect(() => {
+    if (!isOpen || isLoading) return;
+    onCountChange?.(totalCount);
+  }, [isOpen, isLoading, totalCount, onCountChange]);
+
+  // Live updates from other viewers while the drawer is open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const channel = supabase
+      .channel(`comments-${videoId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "comments", filter: `video_id=eq.${videoId}` },
+        async (payload) => {
+          const row = payload.new as Comment;
+          const isKnown = (id: string) => ownChangesRef.current.has(id)
+            || commentsRef.current.some(c => c.id === id)
+            || Object.values(repliesRef.current).some(t => t.items.some(c => c.id === id));
+          if (isKnown(row.id)) return;
+          const { data } = await supabase.from("comments").select(COMMENT_SELECT).eq("id", row.id).maybeSingle();
+          // Checked again: our own post or a page load may have added it meanwhile
+          if (!data || isKnown(row.id)) return;
+          const comment = data as Comment;
+          adjustCount(1);
+          if (!comment.parent_comment_id) {
+            setComments(prev => prev.some(c => c.id === comment.id) ? prev : [comment, ...prev]);
+          } else {
+            setReplies(prev => {
+              const thread = prev[comment.parent_comment_id!];
+              if (!thread || thread.hasMore) return prev;
+              return { ...prev, [comment.parent_comment_id!]: { ...thread, items: [...thread.items, comment] } };
+            });
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "comments", filter: `video_id=eq.${videoId}` },
+        (payload) => {
+          const row = payload.new as Comment;
+          const patch = (c: Comment) => c.id === row.id
+            ? { ...c, likes_count: row.likes_count, replies_count: row.replies_count, content: row.content }
+            : c;
+          setComments(prev => prev.map(patch));
+          setReplies(prev => {
+            const next: Record<string, ReplyThread> = {};
+            for (const [parentId, thread] of Object.entries(prev)) {
+              next[parentId] = { ...thread, items: thread.items.map(patch) };
+            }
+            return next;
+          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        // DELETE events can't be filtered server-side; only react to rows we have loaded
+        { event: "DELETE", schema: "public", table: "comments" },
+        (payload) => {
+          const id = (payload.old as { id?: string }).id;
+          if (!id || ownChangesRef.current.has(id) || countedDeletesRef.current.has(id)) return;
+          const topLevel = commentsRef.current.find(c => c.id === id);
+          const isLoadedReply = Object.values(repliesRef.current).some(t => t.items.some(c => c.id === id));
+          if (topLevel) {
+            // replies_count covers the cascaded replies, less any whose echo came first
+            const replyIds = (repliesRef.current[id]?.items || []).map(c => c.id);
+            const alreadyCounted = replyIds.filter(r => countedDeletesRef.current.has(r)).length;
+            replyIds.forEach(r => countedDeletesRef.current.add(r));
+            adjustCount(-Math.max(1, 1 + topLevel.replies_count - alreadyCounted));
+          } else if (isLoadedReply) {
+            adjustCount(-1);
+          } else {
+            return;
+          }
+          countedDeletesRef.current.add(id);
+
+          setComments(prev => prev.filter(c => c.id !== id));
+          setReplies(prev => {
+            const next: Record<string, ReplyThread> = {};
+            for (const [parentId, thread] of Object.entries(prev)) {
+              if (parentId === id) continue;
+              next[parentId] = { ...thread, items: thread.items.filter(c => c.id !== id) };
+            }
+            return next;
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [isOpen, videoId, adjustCount]);
+
+  const loadMore = async () => {
+    if (isLoadingMore || !hasMore) return;
+    setIsLoadingMore(true);
+    try {
+      const { page } = await fetchComments(comments.length);
+      setComments(prev => {
+        const seen = new Set(prev.map(c => c.id));
+        return [...prev, ...page.filter(c => !seen.has(c.id))];
+      });
+      setHasMore(page.length >= COMMENTS_PAGE_SIZE);
+    } catch {
+      toast.error("Failed to load comments");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const loadReplies = async (parent: Comment) => {
+    const thread = replies[parent.id] || { items: [], hasMore: true, loading: false };
+    if (thread.loading) return;
+    setReplies(prev => ({ ...prev, [parent.id]: { ...thread, loading: true } }));
+    try {
+      const offset = thread.items.length;
+      const { data, error } = await supabase
+        .from("comments")
+        .select(COMMENT_SELECT)
+        .eq("parent_comment_id", parent.id)
+        .order("created_at", { ascending: true })
+        .range(offset, offset + REPLIES_PAGE_SIZE - 1);
+      if (error) throw error;
+      const page = (data || []) as Comment[];
+      fetchLikedIds(page.map(c => c.id));
+      setReplies(prev => {
+        const existing = prev[parent.id]?.items || [];
+        const seen = new Set(existing.map(c => c.id));
+        return {
+          ...prev,
+          [parent.id]: {
+            items: [...existing, ...page.filter(c => !seen.has(c.id))],
+            hasMore: page.length >= REPLIES_PAGE_SIZE,
+            loading: false,
+          },
+        };
+      });
+    } catch {
+      toast.error("Failed to load replies");
+      setReplies(prev => ({ ...prev, [parent.id]: { ...thread, loading: false } }));
+    }
+  };
+
+  const hideReplies = (parentId: string) => {
+    setReplies(prev => {
+      const next = { ...prev };
+      delete next[parentId];
+      return next;
+    });
+  };
+
+  const startReply = (comment: Comment) => {
+    if (!userId) { navigate("/auth"); return; }
+    // Replies are one level deep — replying to a reply threads under its parent
+    const parent = comment.parent_comment_id
+      ? comments.find(c => c.id === comment.parent_comment_id) || comment
+      : comment;
+    setReplyTo(parent);
+    if (comment.parent_comment_id && comment.profiles?.username) {
+      setDraft(`@${comment.profiles.username} `);
+    }
+    inputRef.current?.focus();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) { navigate("/auth"); return; }
+    const content = draft.trim();
+    if (!content || isPosting) return;
+
+    setIsPosting(true);
+    // The id is registered before the insert so its realtime echo, which can
+    // arrive before the insert resolves, isn't counted a second time
+    const id = crypto.randomUUID ? crypto.randomUUID() : undefined;
+    if (id) ownChangesRef.current.add(id);
+    try {
+      const { data, error } = await supabase
+        .from("comments")
+        .insert({ id, video_id: videoId, user_id: userId, content, parent_comment_id: replyTo?.id || null })
+        .select(COMMENT_SELECT)
+        .single();
+      if (error) throw error;
+      const comment = data as Comment;
+      ownChangesRef.current.add(comment.id);
+      adjustCount(1);
+
+      if (replyTo) {
+        const parentId = replyTo.id;
+        setComments(prev => prev.map(c => c.id === parentId ? { ...c, replies_count: c.replies_count + 1 } : c));
+        setReplies(prev => {
+          const thread = prev[parentId] || { items: [], hasMore: false, loading: false };
+          if (thread.items.some(c => c.id === comment.id)) return prev;
+          return { ...prev, [parentId]: { ...thread, items: [...thread.items, comment] } };
+        });
+      } else {
+        setComments(prev => prev.some(c => c.id === comment.id) ? prev : [comment, ...prev]);
+      }
+      setDraft("");
+      setReplyTo(null);
+    } catch (error) {
+      if (id) ownChangesRef.current.delete(id);
+      console.error("[Comments] Failed to post:", error);
+      toast.error("Failed to post comment");
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    if (!userId || comment.user_id !== userId) return;
+    try {
+      const { error } = await supabase.from("comments").delete().eq("id", comment.id);
+      if (error) throw error;
+      ownChangesRef.current.add(comment.id);
+
+      if (comment.parent_comment_id) {
+        const parentId = comment.parent_comment_id;
+        adjustCount(-1);
+        setComments(prev => prev.map(c => c.id === parentId ? { ...c, replies_count: Math.max(0, c.replies_count - 1) } : c));
+        setReplies(prev => {
+          const thread = prev[parentId];
+          if (!thread) return prev;
+          return { ...prev, [parentId]: { ...thread, items: thread.items.filter(c => c.id !== comment.id) } };
+        });
+      } else {
+        // Replies are removed by ON DELETE CASCADE and each one decrements comments_count
+        repliesRef.current[comment.id]?.items.forEach(r => ownChangesRef.current.add(r.id));
+        adjustCount(-(1 + comment.replies_count));
+        setComments(prev => prev.filter(c => c.id !== comment.id));
+        hideReplies(comment.id);
+      }
+      if (replyTo?.id === comment.id) setReplyTo(null);
+    } catch {
+      toast.error("Failed to delete comment");
+    }
+  };
+
+  const toggleCommentLike = async (comment: Comment) => {
+    if (!userId) { navigate("/auth"); return; }
+    const wasLiked = likedIds.has(comment.id);
+    const delta = wasLiked ? -1 : 1;
+
+    const applyLike = (liked: boolean, d: number) => {
+      setLikedIds(prev => {
+        const next = new Set(prev);
+        if (liked) next.add(comment.id); else next.delete(comment.id);
+        return next;
+      });
+      const p = (c: Comment) => c.id === comment.id ? { ...c, likes_count: Math.max(0, c.likes_count + d) } : c;
+      setComments(prev => prev.map(p));
+      if (comment.parent_comment_id) {
+        const parentId = comment.parent_comment_id;
+        setReplies(prev => {
+          const thread = prev[parentId];
+          if (!thread) return prev;
+          return { ...prev, [parentId]: { ...thread, items: thread.items.map(p) } };
+        });
+      }
+    };
+
+    applyLike(!wasLiked, delta);
+    try {
+      const { error } = wasLiked
+        ? await supabase.from("comment_likes").delete().eq("comment_id", comment.id).eq("user_id", userId)
+        : await supabase.from("comment_likes").insert({ comment_id: comment.id, user_id: userId });
+      if (error) throw error;
+    } catch {
+      applyLike(wasLiked, -delta);
+      toast.error("Failed to update like");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const renderComment = (comment: Comment, isReply = false) => {
+    const username = comment.profiles?.username || "unknown";
+    const isLiked = likedIds.has(comment.id);
+    return (
+      <div key={comment.id} className={cn("flex items-start gap-3", isReply && "pl-11")}>
+        <button onClick={() => { onClose(); navigate(`/profile/${comment.user_id}`); }}
+          className={cn("flex-shrink-0 rounded-full bg-secondary overflow-hidden", isReply ? "w-6 h-6" : "w-8 h-8")}>
+          {comment.profiles?.avatar_url ? (
+            <img src={getOptimizedAvatarUrl(comment.profiles.avatar_url, 64)} alt={username} className="w-full h-full object-cover" loading="lazy" decoding="async" />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center text-xs font-bold text-secondary-foreground">
+              {username[0]?.toUpperCase() || "?"}
+            </div>
+          )}
+        </button>
+
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-muted-foreground">
+            <span className="font-semibold text-foreground">@{username}</span> · {formatTimeAgo(comment.created_at)}
+          </p>
+          <p className="text-sm break-words whitespace-pre-wrap">{comment.content}</p>
+          <div className="flex items-center gap-4 mt-1 text-xs text-muted-foreground">
+            <button onClick={() => startReply(comment)} className="hover:text-foreground font-semibold">Reply</button>
+            {comment.user_id === userId && (
+              <button onClick={() => handleDelete(comment)} className="hover:text-destructive" aria-label="Delete comment">
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        <button onClick={() => toggleCommentLike(comment)} className="flex flex-col items-center gap-0.5 flex-shrink-0" aria-label="Like comment">
+          <Heart className={cn("h-4 w-4", isLiked ? "fill-primary text-primary" : "text-muted-foreground")} />
+          <span className="text-[10px] text-muted-foreground">{comment.likes_count}</span>
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[100] bg-black/80 flex items-end md:items-center md:justify-center" onClick={onClose}>
+      <div className="bg-background w-full md:max-w-lg rounded-t-2xl md:rounded-2xl flex flex-col h-[70dvh]" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold">{totalCount} {totalCount === 1 ? "comment" : "comments"}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-accent rounded-full transition-colors">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : comments.length === 0 ? (
+            <div className="text-center text-muted-foreground py-8">
+              <p>No comments yet</p>
+              <p className="text-sm">Be the first to comment</p>
+            </div>
+          ) : (
+            <>
+              {comments.map(comment => {
+                const thread = replies[comment.id];
+                const loaded = thread?.items.length || 0;
+                const remaining = Math.max(0, comment.replies_count - loaded);
+                return (
+                  <div key={comment.id} className="space-y-3">
+                    {renderComment(comment)}
+                    {thread?.items.map(reply => renderComment(reply, true))}
+                    {comment.replies_count > 0 && (
+                      <div className="pl-11 flex items-center gap-4 text-xs text-muted-foreground font-semibold">
+                        {remaining > 0 && (thread?.hasMore ?? true) && (
+                          <button onClick={() => loadReplies(comment)} disabled={thread?.loading} className="hover:text-foreground">
+                            {thread?.loading ? "Loading..." : `View ${remaining} ${remaining === 1 ? "reply" : "replies"}`}
+                          </button>
+                        )}
+                        {loaded > 0 && (
+                          <button onClick={() => hideReplies(comment.id)} className="hover:text-foreground">Hide</button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {hasMore && (
+                <button onClick={loadMore} disabled={isLoadingMore} className="w-full py-2 text-sm text-muted-foreground hover:text-foreground">
+                  {isLoadingMore ? "Loading..." : "Load more comments"}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="border-t border-border p-3" style={{ paddingBottom: 'calc(0.75rem + env(safe-area-inset-bottom, 0px))' }}>
+          {replyTo && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground mb-2">
+              <span>Replying to @{replyTo.profiles?.username || "unknown"}</span>
+              <button onClick={() => { setReplyTo(null); setDraft(""); }} className="hover:text-foreground">Cancel</button>
+            </div>
+          )}
+          {userId ? (
+            <form onSubmit={handleSubmit} className="flex items-center gap-2">
+              <input
+                ref={inputRef}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value.slice(0, MAX_COMMENT_LENGTH))}
+                placeholder={replyTo ? "Add a reply..." : "Add a comment..."}
+                className="flex-1 bg-secondary rounded-full px-4 py-2 text-sm outline-none focus:ring-1 focus:ring-primary"
+              />
+              <button type="submit" disabled={!draft.trim() || isPosting}
+                className="p-2 rounded-full bg-primary text-primary-foreground disabled:opacity-50">
+                {isPosting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              </button>
+            </form>
+          ) : (
+            <button onClick={() => navigate("/auth")} className="w-full py-2 rounded-full bg-primary text-primary-foreground text-sm font-semibold">
+              Log in to comment
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,39 +1,17 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Loader2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Trash2, Upload } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-
-const CATEGORIES = [
-  { id: "beauty", name: "Beauty" },
-  { id: "real", name: "Real" },
-  { id: "public", name: "Public" },
-  { id: "homemade", name: "Homemade" },
-  { id: "pov", name: "POV" },
-  { id: "mom", name: "Mom" },
-  { id: "milf", name: "MILF" },
-  { id: "amateur", name: "Amateur" },
-  { id: "latina", name: "Latina" },
-  { id: "asian", name: "Asian" },
-  { id: "big_ass", name: "Big Ass" },
-  { id: "big_tits", name: "Big Tits" },
-  { id: "lesbian", name: "Lesbian" },
-  { id: "blonde", name: "Blonde" },
-  { id: "brunettes", name: "Brunettes" },
-  { id: "red_head", name: "Red Head" },
-  { id: "small", name: "Small" },
-  { id: "stepsis", name: "Stepsis" },
-  { id: "anal", name: "Anal" },
-  { id: "blowjob", name: "Blowjob" },
-  { id: "teen", name: "Teen" },
-  { id: "goth", name: "Goth" },
-  { id: "cumshot", name: "Cumshot" },
-  { id: "squirt", name: "Squirt" },
-];
+import { useCategories } from "@/hooks/use-categories";
+import {
+  CAPTION_LANGUAGES, fetchVideoCaptions, uploadVideoCaption, deleteVideoCaption, type VideoCaption,
+} from "@/lib/captions";
 
 interface EditVideoDialogProps {
   open: boolean;
@@ -42,6 +20,8 @@ interface EditVideoDialogProps {
   initialDescription: string | null;
   initialTags: string[] | null;
   onSaved: (description: string, tags: string[]) => void;
+  /** Captions are saved as soon as they're uploaded or removed */
+  onCaptionsChanged?: () => void;
 }
 
 export const EditVideoDialog = ({
@@ -51,10 +31,16 @@ export const EditVideoDialog = ({
   initialDescription,
   initialTags,
   onSaved,
+  onCaptionsChanged,
 }: EditVideoDialogProps) => {
+  const { categories } = useCategories();
   const [description, setDescription] = useState("");
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [isSaving, setIsSaving] = useState(false);
+  const [captions, setCaptions] = useState<VideoCaption[]>([]);
+  const [captionLanguage, setCaptionLanguage] = useState("en");
+  const [captionBusy, setCaptionBusy] = useState<string | null>(null);
+  const captionInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (open) {
@@ -63,6 +49,47 @@ export const EditVideoDialog = ({
     }
   }, [open, initialDescription, initialTags]);
 
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    fetchVideoCaptions(videoId)
+      .then((rows) => { if (!cancelled) setCaptions(rows); })
+      .catch((error) => console.error("Failed to load captions:", error));
+    return () => { cancelled = true; };
+  }, [open, videoId]);
+
+  const handleCaptionFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setCaptionBusy(captionLanguage);
+    try {
+      await uploadVideoCaption(videoId, captionLanguage, file);
+      setCaptions(await fetchVideoCaptions(videoId));
+      onCaptionsChanged?.();
+      toast.success("Captions uploaded");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to upload captions");
+    } finally {
+      setCaptionBusy(null);
+    }
+  };
+
+  const handleCaptionDelete = async (caption: VideoCaption) => {
+    setCaptionBusy(caption.language);
+    try {
+      await deleteVideoCaption(caption);
+      setCaptions(prev => prev.filter(c => c.id !== caption.id));
+      onCaptionsChanged?.();
+      toast.success("Captions removed");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to remove captions");
+    } finally {
+      setCaptionBusy(null);
+    }
+  };
+
   const toggleCategory = (categoryId: string) => {
     setSelectedCategories(prev =>
       prev.includes(categoryId)
@@ -118,25 +145,78 @@ export const EditVideoDialog = ({
           <div className="space-y-3">
             <Label className="text-white/80">Categories</Label>
             <div className="grid grid-cols-2 gap-3">
-              {CATEGORIES.map((category) => (
-                <div key={category.id} className="flex items-center space-x-2">
+              {categories.map((category) => (
+                <div key={category.slug} className="flex items-center space-x-2">
                   <Checkbox
-                    id={`edit-category-${category.id}`}
-                    checked={selectedCategories.includes(category.id)}
-                    onCheckedChange={() => toggleCategory(category.id)}
+                    id={`edit-category-${category.slug}`}
+                    checked={selectedCategories.includes(category.slug)}
+                    onCheckedChange={() => toggleCategory(category.slug)}
                     className="border-white/30 data-[state=checked]:bg-primary data-[state=checked]:border-primary"
                   />
                   <label
-                    htmlFor={`edit-category-${category.id}`}
+                    htmlFor={`edit-category-${category.slug}`}
                     className="text-sm font-medium leading-none cursor-pointer text-white/90"
                   >
-                    {category.name}
+                    {category.display_name}
                   </label>
                 </div>
               ))}
             </div>
           </div>
 
+          {/* Captions */}
+          <div className="space-y-3">
+            <Label className="text-white/80">Captions</Label>
+            {captions.length > 0 && (
+              <div className="space-y-2">
+                {captions.map((caption) => (
+                  <div key={caption.id} className="flex items-center justify-between rounded-xl bg-white/5 border border-white/10 px-3 py-2">
+                    <span className="text-sm text-white/90">
+                      {caption.label} <span className="text-white/40">({caption.language})</span>
+                    </span>
+                    <button
+                      onClick={() => handleCaptionDelete(caption)}
+                      disabled={captionBusy !== null}
+                      className="p-1 text-white/60 hover:text-destructive disabled:opacity-50"
+                      aria-label={`Remove ${caption.label} captions`}
+                    >
+                      {captionBusy === caption.language ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Select value={captionLanguage} onValueChange={setCaptionLanguage}>
+                <SelectTrigger className="flex-1 rounded-xl bg-white/5 border-white/10 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[70]">
+                  {CAPTION_LANGUAGES.map(({ code, label }) => (
+                    <SelectItem key={code} value={code}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={() => captionInputRef.current?.click()}
+                disabled={captionBusy !== null}
+                className="border-white/20 bg-white/10 text-white hover:bg-white/20"
+              >
+                {captionBusy === captionLanguage ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Upload className="h-4 w-4 mr-2" />}
+                {captions.some(c => c.language === captionLanguage) ? "Replace" : "Upload"}
+              </Button>
+            </div>
+            <p className="text-xs text-white/40">WebVTT (.vtt) or SubRip (.srt), one file per language</p>
+            <input
+              ref={captionInputRef}
+              type="file"
+              accept=".vtt,.srt,text/vtt"
+              onChange={handleCaptionFile}
+              className="hidden"
+            />
+          </div>
+
           {/* Buttons */}
           <div className="flex flex-col gap-3 pt-2">
             <Button onClick={handleSave} disabled={isSaving} className="w-full">
@@ -1,23 +1,37 @@
 import { useState, useEffect, useRef, memo, useCallback } from "react";
-import { Heart, Share2, Bookmark, MoreVertical, Trash2, Pencil, Volume2, VolumeX, RefreshCw } from "lucide-react";
+import { Heart, MessageCircle, Share2, Bookmark, MoreVertical, Trash2, Pencil, Volume2, VolumeX, RefreshCw, ThumbsDown, UserX, EyeOff, Settings, Gauge, Captions, Play } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { ShareDrawer } from "./ShareDrawer";
+import { CommentsDrawer } from "./CommentsDrawer";
 import { getThumbnailUrl, getOptimizedAvatarUrl } from "@/lib/cloudinary";
 import { EditVideoDialog } from "./EditVideoDialog";
 import { useWatchMetrics } from "@/hooks/use-watch-metrics";
-import { activate as activateVideo, deactivateVideo, IS_IOS_WEB } from "@/lib/playbackController";
+import { usePlaybackQoe } from "@/hooks/use-playback-qoe";
+import { useCaptions } from "@/hooks/use-captions";
+import { usePlayerShortcuts } from "@/hooks/use-feed-shortcuts";
+import { activate as activateVideo, deactivateVideo, warmPlayer, coolPlayer, IS_IOS_WEB } from "@/lib/playbackController";
 import { getEffectiveMuted, setEffectiveMuted, onMuteChange } from "@/lib/globalMute";
+import { QUALITY_PREFERENCES, getQualityPreference, setQualityPreference, onQualityPreferenceChange, type QualityPreference } from "@/lib/playbackQuality";
 import { getGuestClientId, getGuestLikes, setGuestLikes } from "@/lib/guestLikes";
+import { hideFromFeed, unhideFromFeed, type FeedHideKind } from "@/lib/feedHides";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
+const LONG_PRESS_MS = 500;
+
 interface Video {
   id: string;
   title: string;
@@ -30,6 +44,7 @@ interface Video {
   thumbnail_url: string | null;
   views_count: number;
   likes_count: number;
+  comments_count?: number;
   tags: string[] | null;
   user_id: string;
   profiles: {
@@ -43,15 +58,20 @@ interface FeedItemProps {
   index: number;
   isActive: boolean;
   hasEntered: boolean;
+  /** Current or one of the next items: keep a pre-buffered player ready */
+  shouldWarm?: boolean;
   currentUserId: string | null;
   feedSource?: string | null;
+  experimentVariantId?: string | null;
   onViewTracked: (videoId: string, watchDuration?: number) => void;
   onDelete?: (videoId: string) => void;
+  /** Called after a "Not interested" / hide action so the feed can drop matching items */
+  onHide?: (videoId: string, kind: FeedHideKind, target: string) => void;
 }
 
 export const FeedItem = memo(({ 
-  video, index, isActive, hasEntered, currentUserId, 
-  feedSource = null, onViewTracked, onDelete,
+  video, index, isActive, hasEntered, shouldWarm = false, currentUserId, 
+  feedSource = null, experimentVariantId = null, onViewTracked, onDelete, onHide,
 }: FeedItemProps) => {
   const navigate = useNavigate();
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -60,15 +80,24 @@ export const FeedItem = memo(({
   
 
   const {
-    markLoadStart, markStartupFailure, stopWatching, getMetrics,
+    markLoadStart, markStartupQuality, markStartupFailure, stopWatching, getMetrics,
   } = useWatchMetrics({
     videoId: video.id, userId: currentUserId, isActive, videoRef,
-    videoIndex: index, feedSource,
+    videoIndex: index, feedSource, experimentVariantId,
     onViewRecorded: () => {
       const metrics = getMetrics();
       onViewTracked(video.id, metrics.watchDurationSeconds);
     },
   });
+
+  const { beginPlayback, report: reportPlaybackEvent } = usePlaybackQoe({
+    videoId: video.id, userId: currentUserId, isActive, videoRef, feedSource,
+  });
+
+  // Cues sit above the bottom info overlay
+  const {
+    tracks: captionTracks, hasCaptions, captionsOn, toggleCaptions, reloadCaptions,
+  } = useCaptions({ videoId: video.id, enabled: isActive || shouldWarm, videoRef, cueLine: -5 });
   
   // UI state
   const [isLiked, setIsLiked] = useState(false);
@@ -76,12 +105,16 @@ export const FeedItem = memo(({
   const [isSaved, setIsSaved] = useState(false);
   const [savesCount, setSavesCount] = useState(0);
   const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+  const [commentsCount, setCommentsCount] = useState(video.comments_count ?? 0);
   const [isMuted, setIsMuted] = useState(getEffectiveMuted());
   const [showMuteIcon, setShowMuteIcon] = useState(false);
   const [playbackFailed, setPlaybackFailed] = useState(false);
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [localVideo, setLocalVideo] = useState(video);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [qualityPreference, setQualityPreferenceState] = useState(getQualityPreference());
   
   // Progress bar
   const [progress, setProgress] = useState(0);
@@ -93,8 +126,15 @@ export const FeedItem = memo(({
   const lastTapTimeRef = useRef<number>(0);
   const singleTapTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  // Long-press opens the overflow menu
+  const longPressTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const longPressFiredRef = useRef(false);
+
   const posterSrc = getThumbnailUrl(video.cloudflare_video_id, video.thumbnail_url);
 
+  // Quality preference is shared by every feed item
+  useEffect(() => onQualityPreferenceChange(setQualityPreferenceState), []);
+
   // Sync global mute state
   useEffect(() => {
     if (IS_IOS_WEB) return; // iOS uses per-video mute via effectiveMuted
@@ -122,6 +162,7 @@ export const FeedItem = memo(({
     setPlaybackFailed(false);
     setIsPlaying(false);
     markLoadStart();
+    beginPlayback();
 
     return activateVideo(videoEl, video.cloudflare_video_id, video.video_url, wantsMuted, {
       onPlaying: (actuallyMuted: boolean) => {
@@ -132,10 +173,13 @@ export const FeedItem = memo(({
       },
       onFailed: () => {
         markStartupFailure(10000);
+        reportPlaybackEvent({ type: 'startup_failed' });
         setPlaybackFailed(true);
       },
+      onEvent: reportPlaybackEvent,
+      onStartupQuality: markStartupQuality,
     });
-  }, [video.cloudflare_video_id, video.video_url, video.id, markLoadStart, markStartupFailure]);
+  }, [video.cloudflare_video_id, video.video_url, video.id, markLoadStart, markStartupQuality, markStartupFailure, beginPlayback, reportPlaybackEvent]);
 
   // Core activation lifecycle
   useEffect(() => {
@@ -157,6 +201,15 @@ export const FeedItem = memo(({
     };
   }, [isActive, hasEntered, video.id]);
 
+  // Pre-buffer while upcoming. The current item stays "warm" so turning
+  // active doesn't cool the buffer it's about to play from.
+  useEffect(() => {
+    const videoEl = videoRef.current;
+    if (!videoEl || !shouldWarm || !hasEntered) return;
+    warmPlayer(videoEl, video.cloudflare_video_id);
+    return () => coolPlayer(videoEl);
+  }, [shouldWarm, hasEntered, video.cloudflare_video_id]);
+
   // Resume playback on app foreground
   useEffect(() => {
     if (!isActive || !hasEntered) return;
@@ -341,6 +394,10 @@ export const FeedItem = memo(({
 
   const handleVideoTap = useCallback((e: React.MouseEvent<HTMLVideoElement>) => {
     e.preventDefault();
+    if (longPressFiredRef.current) {
+      longPressFiredRef.current = false;
+      return;
+    }
     const now = Date.now();
     const timeSinceLastTap = now - lastTapTimeRef.current;
     const rect = e.currentTarget.getBoundingClientRect();
@@ -365,6 +422,40 @@ export const FeedItem = memo(({
     }
   }, [unmute, triggerHeartAnimation, isLiked, toggleLike]);
 
+  const cancelLongPress = useCallback(() => {
+    if (longPressTimeoutRef.current) {
+      clearTimeout(longPressTimeoutRef.current);
+      longPressTimeoutRef.current = null;
+    }
+  }, []);
+
+  const handleVideoTouchStart = useCallback(() => {
+    longPressFiredRef.current = false;
+    cancelLongPress();
+    longPressTimeoutRef.current = setTimeout(() => {
+      longPressTimeoutRef.current = null;
+      longPressFiredRef.current = true;
+      setIsMenuOpen(true);
+    }, LONG_PRESS_MS);
+  }, [cancelLongPress]);
+
+  useEffect(() => cancelLongPress, [cancelLongPress]);
+
+  const handleHide = async (kind: FeedHideKind, target: string, message: string) => {
+    try {
+      const hideId = await hideFromFeed(kind, target);
+      onHide?.(video.id, kind, target);
+      toast(message, {
+        action: {
+          label: "Undo",
+          onClick: () => {
+            unhideFromFeed(hideId).catch(() => toast.error("Failed to undo"));
+          },
+        },
+      });
+    } catch { toast.error("Failed to update your feed"); }
+  };
+
   const toggleSave = async () => {
     if (!currentUserId) { navigate("/auth"); return; }
     try {
@@ -382,6 +473,16 @@ export const FeedItem = memo(({
     } catch { toast.error("Failed to save video"); }
   };
 
+  // Desktop keyboard controls for the active item
+  const { pausedByUser } = usePlayerShortcuts({
+    videoRef, enabled: isActive && hasEntered,
+    onToggleMute: toggleMute,
+    onLike: toggleLike,
+    onSave: toggleSave,
+    onComments: () => setIsCommentsOpen(true),
+    onShare: () => setIsShareOpen(true),
+  });
+
   const handleDelete = async (e: React.MouseEvent) => {
     e.stopPropagation();
     if (!currentUserId || video.user_id !== currentUserId) return;
@@ -418,9 +519,17 @@ export const FeedItem = memo(({
             preload="none"
             style={{ opacity: isPlaying ? 1 : 0, transition: 'opacity 150ms ease' }}
             onClick={handleVideoTap}
+            onTouchStart={handleVideoTouchStart}
+            onTouchMove={cancelLongPress}
+            onTouchEnd={cancelLongPress}
+            onContextMenu={(e) => e.preventDefault()}
             onTimeUpdate={handleTimeUpdate}
             onLoadedMetadata={handleLoadedMetadata}
-          />
+          >
+            {captionTracks.map(track => (
+              <track key={track.language} kind="subtitles" src={track.src} srcLang={track.language} label={track.label} />
+            ))}
+          </video>
         </div>
       </div>
 
@@ -441,6 +550,15 @@ export const FeedItem = memo(({
         </div>
       )}
 
+      {/* Paused with Space */}
+      {pausedByUser && isActive && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-30">
+          <div className="bg-black/50 rounded-full p-4">
+            <Play className="h-12 w-12 text-white fill-white" />
+          </div>
+        </div>
+      )}
+
       {/* Mute indicator */}
       {showMuteIcon && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-30">
@@ -459,6 +577,13 @@ export const FeedItem = memo(({
           <span className="text-white text-xs font-semibold drop-shadow">{likesCount}</span>
         </button>
 
+        <button onClick={() => setIsCommentsOpen(true)} className="flex flex-col items-center gap-1">
+          <div className="w-11 h-11 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-sm hover:scale-110 transition-transform">
+            <MessageCircle className="h-6 w-6 text-white" />
+          </div>
+          <span className="text-white text-xs font-semibold drop-shadow">{commentsCount}</span>
+        </button>
+
         <button onClick={toggleSave} className="flex flex-col items-center gap-1">
           <div className="w-11 h-11 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-sm hover:scale-110 transition-transform">
             <Bookmark className={cn("h-6 w-6", isSaved ? "fill-yellow-500 text-yellow-500" : "text-white")} />
@@ -478,25 +603,71 @@ export const FeedItem = memo(({
           </div>
         </button>
 
-        {isOwnVideo && (
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <button className="flex flex-col items-center">
-                <div className="w-11 h-11 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-sm hover:scale-110 transition-transform">
-                  <MoreVertical className="h-6 w-6 text-white" />
-                </div>
-              </button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end" className="bg-background border-border z-50">
-              <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setIsEditOpen(true); }} className="cursor-pointer">
-                <Pencil className="h-4 w-4 mr-2" /> Edit
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={handleDelete} className="text-destructive focus:text-destructive cursor-pointer">
-                <Trash2 className="h-4 w-4 mr-2" /> Delete
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
+        {hasCaptions && (
+          <button onClick={toggleCaptions} className="flex flex-col items-center" aria-pressed={captionsOn} aria-label="Captions">
+            <div className={cn("w-11 h-11 flex items-center justify-center rounded-full backdrop-blur-sm hover:scale-110 transition-transform", captionsOn ? "bg-white/90" : "bg-black/40")}>
+              <Captions className={cn("h-5 w-5", captionsOn ? "text-black" : "text-white")} />
+            </div>
+          </button>
         )}
+
+        <DropdownMenu open={isMenuOpen} onOpenChange={setIsMenuOpen}>
+          <DropdownMenuTrigger asChild>
+            <button className="flex flex-col items-center">
+              <div className="w-11 h-11 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-sm hover:scale-110 transition-transform">
+                <MoreVertical className="h-6 w-6 text-white" />
+              </div>
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="bg-background border-border z-50">
+            {isOwnVideo ? (
+              <>
+                <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setIsEditOpen(true); }} className="cursor-pointer">
+                  <Pencil className="h-4 w-4 mr-2" /> Edit
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={handleDelete} className="text-destructive focus:text-destructive cursor-pointer">
+                  <Trash2 className="h-4 w-4 mr-2" /> Delete
+                </DropdownMenuItem>
+              </>
+            ) : (
+              <>
+                <DropdownMenuItem onClick={() => handleHide('video', video.id, "Video hidden")} className="cursor-pointer">
+                  <ThumbsDown className="h-4 w-4 mr-2" /> Not interested
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleHide('creator', video.user_id, `Hidden videos from @${video.profiles.username}`)} className="cursor-pointer">
+                  <UserX className="h-4 w-4 mr-2" /> Hide videos from @{video.profiles.username}
+                </DropdownMenuItem>
+                {localVideo.tags?.map(tag => (
+                  <DropdownMenuItem key={tag} onClick={() => handleHide('category', tag, `Hidden #${tag}`)} className="cursor-pointer">
+                    <EyeOff className="h-4 w-4 mr-2" /> Hide #{tag}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => navigate("/settings/hidden")} className="cursor-pointer">
+                  <Settings className="h-4 w-4 mr-2" /> Manage hidden content
+                </DropdownMenuItem>
+              </>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger className="cursor-pointer">
+                <Gauge className="h-4 w-4 mr-2" /> Video quality
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="bg-background border-border">
+                <DropdownMenuRadioGroup
+                  value={qualityPreference}
+                  onValueChange={(value) => setQualityPreference(value as QualityPreference)}
+                >
+                  {QUALITY_PREFERENCES.map(({ value, label }) => (
+                    <DropdownMenuRadioItem key={value} value={value} className="cursor-pointer">
+                      {label}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
       {/* Bottom info */}
@@ -526,6 +697,8 @@ export const FeedItem = memo(({
       </div>
 
       <ShareDrawer videoId={video.id} videoTitle={video.title} username={video.profiles.username} isOpen={isShareOpen} onClose={() => setIsShareOpen(false)} />
+      <CommentsDrawer videoId={video.id} isOpen={isCommentsOpen} onClose={() => setIsCommentsOpen(false)}
+        onCountChange={setCommentsCount} />
 
       {/* Progress bar */}
       {isActive && (
@@ -543,7 +716,8 @@ export const FeedItem = memo(({
 
       <EditVideoDialog open={isEditOpen} onOpenChange={setIsEditOpen} videoId={video.id}
         initialDescription={localVideo.description} initialTags={localVideo.tags}
-        onSaved={(desc, tags) => setLocalVideo(prev => ({ ...prev, description: desc, tags }))} />
+        onSaved={(desc, tags) => setLocalVideo(prev => ({ ...prev, description: desc, tags }))}
+        onCaptionsChanged={reloadCaptions} />
     </div>
   );
 });
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { UserPlus, Check, Users } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+
+export interface SuggestedCreator {
+  id: string;
+  username: string;
+  avatar_url: string | null;
+  followers_count: number;
+}
+
+interface FollowingEmptyStateProps {
+  userId: string | null;
+  followingCount: number;
+  suggestedCreators: SuggestedCreator[];
+  onFollowed: () => void;
+}
+
+export const FollowingEmptyState = ({ userId, followingCount, suggestedCreators, onFollowed }: FollowingEmptyStateProps) => {
+  const navigate = useNavigate();
+  const [followedIds, setFollowedIds] = useState<Set<string>>(new Set());
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  if (!userId) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[100dvh] bg-black gap-4 px-6 text-center">
+        <Users className="h-12 w-12 text-white/40" />
+        <p className="text-white text-lg font-semibold">See videos from creators you follow</p>
+        <p className="text-white/50 text-sm">Sign in to build your Following feed.</p>
+        <Button onClick={() => navigate("/auth")}>Sign in</Button>
+      </div>
+    );
+  }
+
+  const handleFollow = async (creatorId: string) => {
+    setPendingId(creatorId);
+    try {
+      const { error } = await supabase
+        .from("follows")
+        .insert({
+          follower_id: userId,
+          following_id: creatorId,
+        });
+
+      if (error) throw error;
+      setFollowedIds(prev => new Set(prev).add(creatorId));
+      toast.success("Following");
+    } catch (error) {
+      console.error("Error following creator:", error);
+      toast.error("Failed to update");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center h-[100dvh] bg-black gap-6 px-6 pt-16 pb-24">
+      <div className="text-center">
+        <p className="text-white text-lg font-semibold">
+          {followingCount > 0 ? "No new videos from people you follow" : "You're not following anyone yet"}
+        </p>
+        <p className="text-white/50 text-sm mt-1">
+          {suggestedCreators.length > 0 ? "Follow popular creators to fill your feed" : "Follow creators from their profile to see their videos here"}
+        </p>
+      </div>
+
+      {suggestedCreators.length > 0 && (
+        <div className="w-full max-w-sm space-y-2 overflow-y-auto">
+          {suggestedCreators.map((creator) => {
+            const isFollowed = followedIds.has(creator.id);
+            return (
+              <div
+                key={creator.id}
+                className="flex items-center gap-3 p-3 bg-white/5 rounded-lg"
+              >
+                <div
+                  className="flex items-center gap-3 flex-1 min-w-0 cursor-pointer"
+                  onClick={() => navigate(`/profile/${creator.id}`)}
+                >
+                  <div className="w-10 h-10 rounded-full overflow-hidden bg-white/10 flex-shrink-0">
+                    {creator.avatar_url ? (
+                      <img
+                        src={creator.avatar_url}
+                        alt={creator.username}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center text-white font-bold">
+                        {creator.username[0]?.toUpperCase()}
+                      </div>
+                    )}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-semibold text-white truncate">{creator.username}</p>
+                    <p className="text-white/50 text-xs">{creator.followers_count} followers</p>
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant={isFollowed ? "outline" : "default"}
+                  onClick={() => handleFollow(creator.id)}
+                  disabled={isFollowed || pendingId === creator.id}
+                >
+                  {isFollowed ? <Check className="h-4 w-4" /> : <UserPlus className="h-4 w-4" />}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {followedIds.size > 0 && (
+        <Button onClick={onFollowed}>Show their videos</Button>
+      )}
+    </div>
+  );
+};
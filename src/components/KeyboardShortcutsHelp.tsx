@@ -0,0 +1,63 @@
+import { useState, useEffect } from "react";
+import { Keyboard } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { FEED_SHORTCUTS, isFeedKeyEvent } from "@/hooks/use-feed-shortcuts";
+
+interface KeyboardShortcutsHelpProps {
+  /** Positions the (desktop-only) help button */
+  className?: string;
+}
+
+/** Shortcut list for the feed, modal and video page; opens with ? or the keyboard button */
+export const KeyboardShortcutsHelp = ({ className }: KeyboardShortcutsHelpProps) => {
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "?" || !isFeedKeyEvent(e)) return;
+      e.preventDefault();
+      setOpen(true);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        aria-label="Keyboard shortcuts"
+        className={cn(
+          "hidden md:flex p-2 bg-black/50 backdrop-blur-sm hover:bg-black/70 rounded-full transition-colors",
+          className
+        )}
+      >
+        <Keyboard className="h-6 w-6 text-white" />
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-sm rounded-2xl bg-zinc-900 border-white/10 text-white z-[60]">
+          <DialogHeader>
+            <DialogTitle className="text-white text-lg">Keyboard shortcuts</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            {FEED_SHORTCUTS.map(({ keys, label }) => (
+              <div key={label} className="flex items-center justify-between text-sm">
+                <span className="text-white/80">{label}</span>
+                <span className="flex items-center gap-1">
+                  {keys.map((key) => (
+                    <kbd key={key} className="min-w-[1.75rem] px-1.5 py-0.5 rounded-md border border-white/20 bg-white/10 text-center text-xs font-semibold">
+                      {key}
+                    </kbd>
+                  ))}
+                </span>
+              </div>
+            ))}
+            <p className="pt-2 text-xs text-white/40">The mouse wheel also moves one video at a time.</p>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
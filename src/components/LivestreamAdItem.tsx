@@ -1,17 +1,12 @@
 import { useState, useEffect, useRef, memo, useMemo } from "react";
-import { supabase } from "@/integrations/supabase/client";
 import { Radio, Users, ChevronRight } from "lucide-react";
 import { getThumbnailUrl } from "@/lib/cloudinary";
 import { activate as activateVideo, deactivateVideo } from "@/lib/playbackController";
-
-interface Ad {
-  id: string;
-  title: string;
-  video_url: string;
-  thumbnail_url: string | null;
-  external_link: string;
-  cloudflare_video_id?: string | null;
-}
+import { getAdClickUrl } from "@/lib/adTracking";
+import { DEFAULT_AD_SETTINGS, type Ad } from "@/lib/adRotation";
+import { fireVastPixels } from "@/lib/vast";
+import { useAdViewability } from "@/hooks/use-ad-viewability";
+import { useVastAd } from "@/hooks/use-vast-ad";
 
 interface LivestreamAdItemProps {
   ad: Ad;
@@ -19,15 +14,36 @@ interface LivestreamAdItemProps {
   isActive: boolean;
   shouldPreload?: boolean;
   currentUserId: string | null;
+  /** Feed the ad was served in, reported with clicks as utm_content */
+  feedSource?: string;
+  /** Viewable impression threshold, from ad_settings */
+  viewability?: { minVisibleMs: number; minVisibleRatio: number };
+  /** VAST tag had no fill or its media failed; the feed swaps in one of our own ads */
+  onNoFill?: (adId: string) => void;
 }
 
-export const LivestreamAdItem = memo(({ ad, index, isActive, shouldPreload = false, currentUserId }: LivestreamAdItemProps) => {
+const DEFAULT_VIEWABILITY = {
+  minVisibleMs: DEFAULT_AD_SETTINGS.viewability_min_ms,
+  minVisibleRatio: DEFAULT_AD_SETTINGS.viewability_min_visible,
+};
+
+export const LivestreamAdItem = memo(({ ad, index, isActive, shouldPreload = false, currentUserId, feedSource, viewability = DEFAULT_VIEWABILITY, onNoFill }: LivestreamAdItemProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const viewTrackedRef = useRef(false);
+  const containerRef = useRef<HTMLDivElement>(null);
   const navOffset = 'calc(64px + env(safe-area-inset-bottom, 0px))';
 
   const posterSrc = getThumbnailUrl(ad.cloudflare_video_id, ad.thumbnail_url);
 
+  const isVast = !!ad.vast_tag_url;
+  const { vast, reportMediaError } = useVastAd({
+    tagUrl: ad.vast_tag_url,
+    isActive,
+    shouldPreload,
+    videoRef,
+    onNoFill: () => onNoFill?.(ad.id),
+  });
+  const mediaUrl = isVast ? vast?.mediaUrl : ad.video_url;
+
   // Random viewer count - stable per ad per session
   const viewerCount = useMemo(() => {
     return Math.floor(3256 + Math.random() * (8965 - 3256));
@@ -54,47 +70,42 @@ export const LivestreamAdItem = memo(({ ad, index, isActive, shouldPreload = fal
       deactivateVideo(videoEl);
       return;
     }
+    // VAST ads wait for the tag to resolve
+    if (!mediaUrl) return;
 
-    const cancel = activateVideo(videoEl, ad.cloudflare_video_id, ad.video_url, true, {
+    const cancel = activateVideo(videoEl, isVast ? null : ad.cloudflare_video_id, mediaUrl, true, {
       onPlaying: () => {},
-      onFailed: () => {},
+      onFailed: isVast ? reportMediaError : () => {},
     });
 
     return cancel;
-  }, [isActive, ad.id]);
-
-  // Track ad view
-  useEffect(() => {
-    if (!isActive || viewTrackedRef.current) return;
-    viewTrackedRef.current = true;
-
-    const viewerId = localStorage.getItem('anonymous_viewer_id_v1') || 'unknown';
-    const sessionId = localStorage.getItem('video_session_v2') || 'unknown';
-
-    supabase.from("ad_views").insert({
-      ad_id: ad.id,
-      viewer_id: viewerId,
-      session_id: sessionId,
-      user_id: currentUserId || null,
-    }).then(() => {});
-  }, [isActive, ad.id, currentUserId]);
+  }, [isActive, ad.id, mediaUrl]);
+
+  // Impressions count only once the ad has been viewable
+  useAdViewability({
+    adId: ad.id,
+    isActive,
+    videoRef,
+    containerRef,
+    currentUserId,
+    minVisibleMs: viewability.minVisibleMs,
+    minVisibleRatio: viewability.minVisibleRatio,
+  });
 
   const handleClick = () => {
-    const viewerId = localStorage.getItem('anonymous_viewer_id_v1') || 'unknown';
-    const sessionId = localStorage.getItem('video_session_v2') || 'unknown';
-
-    supabase.from("ad_clicks").insert({
-      ad_id: ad.id,
-      viewer_id: viewerId,
-      session_id: sessionId,
-      user_id: currentUserId || null,
-    }).then(() => {});
-
-    window.open(ad.external_link, '_blank', 'noopener,noreferrer');
+    if (!isVast) {
+      window.open(getAdClickUrl(ad.id, feedSource), '_blank', 'noopener,noreferrer');
+      return;
+    }
+    if (!vast?.clickThrough) return;
+    fireVastPixels(vast.clickTracking);
+    fetch(getAdClickUrl(ad.id, feedSource, true), { mode: 'no-cors', keepalive: true }).catch(() => {});
+    window.open(vast.clickThrough, '_blank', 'noopener,noreferrer');
   };
 
   return (
     <div
+      ref={containerRef}
       className="relative w-full h-[100dvh] flex-shrink-0 bg-black snap-start snap-always cursor-pointer"
       data-video-index={index}
       onClick={handleClick}
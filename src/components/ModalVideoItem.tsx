@@ -1,12 +1,15 @@
 import { useState, useEffect, useRef, memo, useCallback } from "react";
-import { Heart, Share2, Bookmark, Volume2, VolumeX, MoreVertical, Trash2, Pencil, RefreshCw } from "lucide-react";
+import { Heart, MessageCircle, Share2, Bookmark, Volume2, VolumeX, MoreVertical, Trash2, Pencil, RefreshCw, Captions, Play } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { getThumbnailUrl, getOptimizedAvatarUrl } from "@/lib/cloudinary";
 import { activate as activateVideo, deactivateVideo, IS_IOS_WEB } from "@/lib/playbackController";
 import { useWatchMetrics } from "@/hooks/use-watch-metrics";
+import { useCaptions } from "@/hooks/use-captions";
+import { usePlayerShortcuts } from "@/hooks/use-feed-shortcuts";
 import { getEffectiveMuted, setEffectiveMuted, onMuteChange } from "@/lib/globalMute";
 import { ShareDrawer } from "./ShareDrawer";
+import { CommentsDrawer } from "./CommentsDrawer";
 import { EditVideoDialog } from "./EditVideoDialog";
 import {
   DropdownMenu,
@@ -27,6 +30,7 @@ interface Video {
   thumbnail_url: string | null;
   views_count: number;
   likes_count: number;
+  comments_count?: number;
   user_id: string;
   tags: string[] | null;
   profiles: {
@@ -61,16 +65,23 @@ export const ModalVideoItem = memo(({
   const progressBarRef = useRef<HTMLDivElement>(null);
   
 
-  const { markLoadStart, markStartupFailure, stopWatching } = useWatchMetrics({
+  const { markLoadStart, markStartupQuality, markStartupFailure, stopWatching } = useWatchMetrics({
     videoId: video.id, userId: currentUserId, isActive, videoRef,
     videoIndex: index, feedSource: 'modal',
   });
 
+  // Cues sit above the bottom info overlay
+  const {
+    tracks: captionTracks, hasCaptions, captionsOn, toggleCaptions, reloadCaptions,
+  } = useCaptions({ videoId: video.id, enabled: isActive, videoRef, cueLine: -5 });
+
   const [isMuted, setIsMuted] = useState(getEffectiveMuted());
   const [showMuteIcon, setShowMuteIcon] = useState(false);
   const [playbackFailed, setPlaybackFailed] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+  const [commentsCount, setCommentsCount] = useState(video.comments_count ?? 0);
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [localVideo, setLocalVideo] = useState(video);
   const [progress, setProgress] = useState(0);
@@ -118,6 +129,7 @@ export const ModalVideoItem = memo(({
         markStartupFailure(10000);
         setPlaybackFailed(true);
       },
+      onStartupQuality: markStartupQuality,
     });
 
     return () => {
@@ -216,6 +228,16 @@ export const ModalVideoItem = memo(({
     document.addEventListener('touchmove', move); document.addEventListener('touchend', end);
   }, [seekToPosition]);
 
+  // Desktop keyboard controls for the active item
+  const { pausedByUser } = usePlayerShortcuts({
+    videoRef, enabled: isActive,
+    onToggleMute: toggleMute,
+    onLike: () => onToggleLike(video.id),
+    onSave: () => onToggleSave(video.id),
+    onComments: () => setIsCommentsOpen(true),
+    onShare: () => setIsShareOpen(true),
+  });
+
   const handleProfileClick = () => { onClose(); navigate(`/profile/${video.user_id}`); };
   const handleCategoryClick = (tag: string) => { onClose(); window.location.href = `/?category=${encodeURIComponent(tag)}`; };
 
@@ -237,7 +259,11 @@ export const ModalVideoItem = memo(({
         onClick={handleVideoTap}
         onTimeUpdate={isActive ? handleTimeUpdate : undefined}
         onLoadedMetadata={isActive ? handleLoadedMetadata : undefined}
-      />
+      >
+        {captionTracks.map(track => (
+          <track key={track.language} kind="subtitles" src={track.src} srcLang={track.language} label={track.label} />
+        ))}
+      </video>
 
       {playbackFailed && isActive && (
         <div className="absolute inset-0 flex items-center justify-center z-30 bg-black/30 pointer-events-none">
@@ -254,6 +280,14 @@ export const ModalVideoItem = memo(({
         </div>
       ))}
 
+      {pausedByUser && isActive && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-30">
+          <div className="bg-black/50 rounded-full p-4">
+            <Play className="h-12 w-12 text-white fill-white" />
+          </div>
+        </div>
+      )}
+
       {showMuteIcon && isActive && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-30">
           <div className="bg-black/50 rounded-full p-4 animate-scale-in">
@@ -270,6 +304,13 @@ export const ModalVideoItem = memo(({
           <span className="text-white text-xs font-semibold drop-shadow">{likesCount}</span>
         </button>
 
+        <button onClick={() => setIsCommentsOpen(true)} className="flex flex-col items-center gap-1">
+          <div className="w-11 h-11 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-sm hover:scale-110 transition-transform">
+            <MessageCircle className="h-6 w-6 text-white" />
+          </div>
+          <span className="text-white text-xs font-semibold drop-shadow">{commentsCount}</span>
+        </button>
+
         <button onClick={() => onToggleSave(video.id)} className="flex flex-col items-center gap-1">
           <div className="w-11 h-11 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-sm hover:scale-110 transition-transform">
             <Bookmark className={cn("h-6 w-6", isSaved ? "fill-yellow-500 text-yellow-500" : "text-white")} />
@@ -289,6 +330,14 @@ export const ModalVideoItem = memo(({
           </div>
         </button>
 
+        {hasCaptions && (
+          <button onClick={toggleCaptions} className="flex flex-col items-center" aria-pressed={captionsOn} aria-label="Captions">
+            <div className={cn("w-11 h-11 flex items-center justify-center rounded-full backdrop-blur-sm hover:scale-110 transition-transform", captionsOn ? "bg-white/90" : "bg-black/40")}>
+              <Captions className={cn("h-5 w-5", captionsOn ? "text-black" : "text-white")} />
+            </div>
+          </button>
+        )}
+
         {isOwnVideo && (
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -336,6 +385,8 @@ export const ModalVideoItem = memo(({
       </div>
 
       <ShareDrawer videoId={video.id} videoTitle={video.title} username={video.profiles?.username || 'unknown'} isOpen={isShareOpen} onClose={() => setIsShareOpen(false)} />
+      <CommentsDrawer videoId={video.id} isOpen={isCommentsOpen} onClose={() => setIsCommentsOpen(false)}
+        onCountChange={setCommentsCount} />
 
       {isActive && (
         <div ref={progressBarRef} className="absolute left-0 right-0 h-6 z-[60] cursor-pointer group" style={{ bottom: navOffset }}
@@ -352,7 +403,8 @@ export const ModalVideoItem = memo(({
 
       <EditVideoDialog open={isEditOpen} onOpenChange={setIsEditOpen} videoId={video.id}
         initialDescription={localVideo.description} initialTags={localVideo.tags}
-        onSaved={(desc, tags) => { setLocalVideo(prev => ({ ...prev, description: desc, tags })); onVideoUpdated?.(video.id, desc, tags); }} />
+        onSaved={(desc, tags) => { setLocalVideo(prev => ({ ...prev, description: desc, tags })); onVideoUpdated?.(video.id, desc, tags); }}
+        onCaptionsChanged={reloadCaptions} />
     </div>
   );
 });
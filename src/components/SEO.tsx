@@ -21,6 +21,8 @@ interface SEOProps {
   type?: "website" | "video.other" | "profile";
   noIndex?: boolean;
   videoData?: VideoStructuredData;
+  /** Page-specific JSON-LD, used instead of the default WebSite data */
+  structuredData?: Record<string, unknown>;
   videoEmbed?: {
     mp4Url: string;
     embedUrl: string;
@@ -100,12 +102,15 @@ export const SEO = ({
   type = "website",
   noIndex = false,
   videoData,
+  structuredData: pageStructuredData,
   videoEmbed,
 }: SEOProps) => {
   const fullTitle = title ? `${title} | ${defaults.siteName}` : defaults.title;
   const structuredData = videoData
     ? generateVideoStructuredData(videoData)
-    : type === "website"
+    : pageStructuredData
+      ? pageStructuredData
+      : type === "website"
       ? generateWebsiteStructuredData()
       : null;
 
@@ -164,7 +169,7 @@ export const SEO = ({
       {structuredData && <script type="application/ld+json">{JSON.stringify(structuredData)}</script>}
 
       {/* Organization structured data for homepage */}
-      {type === "website" && !videoData && (
+      {type === "website" && !videoData && !pageStructuredData && (
         <script type="application/ld+json">{JSON.stringify(generateOrganizationStructuredData())}</script>
       )}
     </Helmet>
@@ -229,6 +234,41 @@ export const generateCategorySEO = (category: string) => ({
   url: `${defaults.url}/feed?category=${encodeURIComponent(category)}`,
 });
 
+// Export helper for generating tag landing page metadata
+export const generateTagSEO = (
+  tag: string,
+  stats: { videoCount: number; totalViews: number },
+  videos: { id: string; title: string; thumbnail_url?: string | null }[]
+) => {
+  const url = `${defaults.url}/tag/${encodeURIComponent(tag)}`;
+  const description = `Watch ${stats.videoCount} #${tag} short porn clips with ${stats.totalViews.toLocaleString()} views on ${defaults.siteName}. Top and newest #${tag} videos, updated daily.`;
+  return {
+    title: `#${tag} Porn Clips & Short Videos`,
+    description,
+    keywords: `${tag} porn clips, ${tag} short porn videos, #${tag}, free ${tag} xxx, ${tag} mobile porn`,
+    image: videos[0]?.thumbnail_url || defaults.image,
+    url,
+    structuredData: {
+      "@context": "https://schema.org",
+      "@type": "CollectionPage",
+      name: `#${tag}`,
+      description,
+      url,
+      isPartOf: { "@type": "WebSite", name: defaults.siteName, url: defaults.url },
+      mainEntity: {
+        "@type": "ItemList",
+        numberOfItems: stats.videoCount,
+        itemListElement: videos.map((video, i) => ({
+          "@type": "ListItem",
+          position: i + 1,
+          url: `${defaults.url}/video/${video.id}`,
+          name: video.title,
+        })),
+      },
+    },
+  };
+};
+
 // Export helper for generating profile page metadata
 export const generateProfileSEO = (profile: {
   username: string;
@@ -1,7 +1,9 @@
 import { useState, useRef, useEffect, useCallback, memo } from "react";
-import { Loader2, RefreshCw, Play, Volume2, VolumeX } from "lucide-react";
+import { Loader2, RefreshCw, Play, Volume2, VolumeX, Captions } from "lucide-react";
 import { getVideoSource, getThumbnailUrl } from "@/lib/cloudinary";
 import { getGlobalMuted, setGlobalMuted, onMuteChange } from "@/lib/globalMute";
+import { useCaptions } from "@/hooks/use-captions";
+import { cn } from "@/lib/utils";
 
 interface Video {
   id: string;
@@ -39,6 +41,10 @@ export const SinglePlayer = memo(({
   const [showMuteIcon, setShowMuteIcon] = useState(false);
   const [currentVideoId, setCurrentVideoId] = useState<string | null>(null);
 
+  const { tracks: captionTracks, hasCaptions, captionsOn, toggleCaptions } = useCaptions({
+    videoId: video?.id, enabled: !!video, videoRef, cueLine: -3,
+  });
+
   // Compute video sources
   const primarySrc = video ? getVideoSource(video.cloudflare_video_id, video.video_url) : "";
   const fallbackSrc = video?.video_url || "";
@@ -280,7 +286,11 @@ export const SinglePlayer = memo(({
         onWaiting={handleWaiting}
         onStalled={handleStalled}
         onError={handleError}
-      />
+      >
+        {captionTracks.map(track => (
+          <track key={track.language} kind="subtitles" src={track.src} srcLang={track.language} label={track.label} />
+        ))}
+      </video>
       
       {/* Tap area for mute toggle - pointer-events-auto only here */}
       <div 
@@ -332,6 +342,21 @@ export const SinglePlayer = memo(({
         </div>
       )}
 
+      {/* Captions toggle, above the mute indicator */}
+      {hasCaptions && (
+        <button
+          onClick={toggleCaptions}
+          aria-pressed={captionsOn}
+          aria-label="Captions"
+          className={cn(
+            "absolute bottom-[170px] right-4 z-20 w-10 h-10 flex items-center justify-center rounded-full backdrop-blur-sm pointer-events-auto",
+            captionsOn ? "bg-white/90" : "bg-black/50"
+          )}
+        >
+          <Captions className={cn("h-5 w-5", captionsOn ? "text-black" : "text-white")} />
+        </button>
+      )}
+
       {/* Mute indicator in corner */}
       <div className="absolute bottom-[120px] right-4 z-20 w-10 h-10 flex items-center justify-center rounded-full bg-black/50 backdrop-blur-sm pointer-events-none">
         {isMuted ? (
@@ -5,37 +5,11 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { useCategories } from "@/hooks/use-categories";
 import { Loader2, Upload, X, Check } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
 
-const CATEGORIES = [
-  { id: "beauty", name: "Beauty" },
-  { id: "real", name: "Real" },
-  { id: "public", name: "Public" },
-  { id: "homemade", name: "Homemade" },
-  { id: "pov", name: "POV" },
-  { id: "mom", name: "Mom" },
-  { id: "milf", name: "MILF" },
-  { id: "amateur", name: "Amateur" },
-  { id: "latina", name: "Latina" },
-  { id: "asian", name: "Asian" },
-  { id: "big_ass", name: "Big Ass" },
-  { id: "big_tits", name: "Big Tits" },
-  { id: "lesbian", name: "Lesbian" },
-  { id: "blonde", name: "Blonde" },
-  { id: "brunettes", name: "Brunettes" },
-  { id: "red_head", name: "Red Head" },
-  { id: "small", name: "Small" },
-  { id: "stepsis", name: "Stepsis" },
-  { id: "anal", name: "Anal" },
-  { id: "blowjob", name: "Blowjob" },
-  { id: "teen", name: "Teen" },
-  { id: "goth", name: "Goth" },
-  { id: "cumshot", name: "Cumshot" },
-  { id: "squirt", name: "Squirt" },
-];
-
 interface UploadModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -45,6 +19,7 @@ interface UploadModalProps {
 type UploadStage = 'idle' | 'uploading' | 'processing' | 'complete' | 'error';
 
 export const UploadModal = ({ open, onOpenChange, userId }: UploadModalProps) => {
+  const { categories } = useCategories();
   const [uploadStage, setUploadStage] = useState<UploadStage>('idle');
   const [uploadProgress, setUploadProgress] = useState(0);
   const [videoFile, setVideoFile] = useState<File | null>(null);
@@ -404,22 +379,22 @@ export const UploadModal = ({ open, onOpenChange, userId }: UploadModalProps) =>
           <div className="space-y-3">
             <Label>Categories</Label>
             <div className="grid grid-cols-2 gap-3">
-              {CATEGORIES.map((category) => (
+              {categories.map((category) => (
                 <div
-                  key={category.id}
+                  key={category.slug}
                   className="flex items-center space-x-2"
                 >
                   <Checkbox
-                    id={`category-${category.id}`}
-                    checked={selectedCategories.includes(category.id)}
-                    onCheckedChange={() => toggleCategory(category.id)}
+                    id={`category-${category.slug}`}
+                    checked={selectedCategories.includes(category.slug)}
+                    onCheckedChange={() => toggleCategory(category.slug)}
                     disabled={isUploading}
                   />
                   <label
-                    htmlFor={`category-${category.id}`}
+                    htmlFor={`category-${category.slug}`}
                     className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
                   >
-                    {category.name}
+                    {category.display_name}
                   </label>
                 </div>
               ))}
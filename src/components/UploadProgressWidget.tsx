@@ -1,20 +1,112 @@
-import { useUpload } from "@/contexts/UploadContext";
-import { Loader2, Check, X } from "lucide-react";
+import { useState } from "react";
+import { useUpload, type UploadItem, type UploadItemStatus } from "@/contexts/UploadContext";
+import { Loader2, Check, X, RotateCcw, ChevronUp, ChevronDown, ArrowUp, ArrowDown } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+
+const STATUS_LABELS: Record<UploadItemStatus, string> = {
+  pending: 'Queued',
+  uploading: 'Uploading',
+  processing: 'Processing',
+  failed: 'Failed',
+  done: 'Posted',
+};
+
+const UploadRow = ({ item, canMoveUp, canMoveDown }: { item: UploadItem; canMoveUp: boolean; canMoveDown: boolean }) => {
+  const { cancelUpload, retryUpload, moveUpload } = useUpload();
+  const canCancel = item.status === 'pending' || item.status === 'uploading' || item.status === 'failed';
+
+  return (
+    <div className="py-2 space-y-1.5">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-medium text-foreground truncate">{item.file.name}</p>
+          <p className={`text-[11px] ${item.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {STATUS_LABELS[item.status]}
+            {item.status === 'uploading' && ` ${item.progress}%`}
+          </p>
+        </div>
+        {item.status === 'pending' && (
+          <>
+            <button
+              onClick={() => moveUpload(item.id, -1)}
+              disabled={!canMoveUp}
+              className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+              aria-label="Move up"
+            >
+              <ArrowUp className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={() => moveUpload(item.id, 1)}
+              disabled={!canMoveDown}
+              className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+              aria-label="Move down"
+            >
+              <ArrowDown className="h-3.5 w-3.5" />
+            </button>
+          </>
+        )}
+        {item.status === 'failed' && (
+          <button
+            onClick={() => retryUpload(item.id)}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label="Retry"
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+          </button>
+        )}
+        {item.status === 'done' && <Check className="h-3.5 w-3.5 text-green-500" />}
+        {item.status === 'processing' && <Loader2 className="h-3.5 w-3.5 animate-spin text-primary" />}
+        {canCancel && (
+          <button
+            onClick={() => cancelUpload(item.id)}
+            className="text-muted-foreground hover:text-destructive"
+            aria-label="Cancel"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+      {(item.status === 'uploading' || item.status === 'processing') && (
+        <Progress value={item.progress} className="h-1" />
+      )}
+      {item.status === 'failed' && item.error && (
+        <p className="text-[11px] text-destructive/90 break-words">{item.error}</p>
+      )}
+    </div>
+  );
+};
 
 export const UploadProgressWidget = () => {
-  const { uploadState, dismiss } = useUpload();
+  const { items, dismiss } = useUpload();
+  const [expanded, setExpanded] = useState(false);
+
+  if (items.length === 0) return null;
 
-  if (uploadState.status === 'idle') return null;
+  const active = items.filter(i => i.status === 'pending' || i.status === 'uploading' || i.status === 'processing');
+  const failedCount = items.filter(i => i.status === 'failed').length;
+  const doneCount = items.filter(i => i.status === 'done').length;
+  const uploading = items.filter(i => i.status === 'uploading');
+  const progress = uploading.length > 0
+    ? Math.round(uploading.reduce((sum, i) => sum + i.progress, 0) / uploading.length)
+    : 100;
+  const pendingIds = items.filter(i => i.status === 'pending').map(i => i.id);
 
-  const isComplete = uploadState.status === 'complete';
-  const isError = uploadState.status === 'error';
-  const isActive = uploadState.status === 'uploading' || uploadState.status === 'processing';
-  const showBatchInfo = uploadState.totalInBatch > 1;
+  let summary: string;
+  if (active.length > 0) {
+    summary = uploading.length > 0 ? `Uploading ${progress}%` : 'Processing...';
+  } else if (failedCount > 0) {
+    summary = `${failedCount} failed`;
+  } else {
+    summary = doneCount > 1 ? `${doneCount} videos posted!` : 'Posted!';
+  }
 
   return (
-    <div className="fixed top-3 left-3 z-[100] flex items-center gap-2 bg-card border border-border rounded-full px-3 py-2 shadow-lg animate-in slide-in-from-left-2 fade-in duration-300">
-      {isActive && (
-        <>
+    <div className="fixed top-3 left-3 z-[100] animate-in slide-in-from-left-2 fade-in duration-300">
+      <button
+        onClick={() => setExpanded(e => !e)}
+        className="flex items-center gap-2 bg-card border border-border rounded-full px-3 py-2 shadow-lg"
+      >
+        {active.length > 0 ? (
           <div className="relative h-6 w-6">
             <svg className="h-6 w-6 -rotate-90" viewBox="0 0 24 24">
               <circle cx="12" cy="12" r="10" fill="none" stroke="hsl(var(--muted))" strokeWidth="2.5" />
@@ -23,45 +115,56 @@ export const UploadProgressWidget = () => {
                 stroke="hsl(var(--primary))"
                 strokeWidth="2.5"
                 strokeDasharray={`${2 * Math.PI * 10}`}
-                strokeDashoffset={`${2 * Math.PI * 10 * (1 - uploadState.progress / 100)}`}
+                strokeDashoffset={`${2 * Math.PI * 10 * (1 - progress / 100)}`}
                 strokeLinecap="round"
                 className="transition-all duration-300"
               />
             </svg>
             <Loader2 className="absolute inset-0 m-auto h-3 w-3 animate-spin text-primary" />
           </div>
-          <span className="text-xs font-medium text-foreground whitespace-nowrap">
-            {uploadState.status === 'uploading' ? 'Uploading' : 'Processing'}
-            {showBatchInfo && ` ${uploadState.currentIndex}/${uploadState.totalInBatch}`}
-            {!showBatchInfo && '...'}
-            {uploadState.queueCount > 0 && (
-              <span className="text-muted-foreground ml-1">+{uploadState.queueCount}</span>
-            )}
-          </span>
-        </>
-      )}
-      {isComplete && (
-        <>
-          <div className="h-6 w-6 rounded-full bg-green-500 flex items-center justify-center">
-            <Check className="h-3.5 w-3.5 text-white" />
-          </div>
-          <span className="text-xs font-medium text-foreground">
-            {showBatchInfo ? `${uploadState.totalInBatch} videos posted!` : 'Posted!'}
-          </span>
-        </>
-      )}
-      {isError && (
-        <>
+        ) : failedCount > 0 ? (
           <div className="h-6 w-6 rounded-full bg-destructive flex items-center justify-center">
             <X className="h-3.5 w-3.5 text-white" />
           </div>
-          <span className="text-xs font-medium text-foreground">Failed</span>
-        </>
-      )}
-      {(isComplete || isError) && (
-        <button onClick={dismiss} className="ml-1 text-muted-foreground hover:text-foreground">
-          <X className="h-3.5 w-3.5" />
-        </button>
+        ) : (
+          <div className="h-6 w-6 rounded-full bg-green-500 flex items-center justify-center">
+            <Check className="h-3.5 w-3.5 text-white" />
+          </div>
+        )}
+        <span className="text-xs font-medium text-foreground whitespace-nowrap">
+          {summary}
+          {items.length > 1 && (
+            <span className="text-muted-foreground ml-1">{doneCount}/{items.length}</span>
+          )}
+        </span>
+        {expanded ? (
+          <ChevronUp className="h-3.5 w-3.5 text-muted-foreground" />
+        ) : (
+          <ChevronDown className="h-3.5 w-3.5 text-muted-foreground" />
+        )}
+      </button>
+
+      {expanded && (
+        <div className="mt-2 w-72 max-h-[60vh] overflow-y-auto bg-card border border-border rounded-xl shadow-lg px-3 py-1 divide-y divide-border">
+          {items.map(item => {
+            const pendingIndex = pendingIds.indexOf(item.id);
+            return (
+              <UploadRow
+                key={item.id}
+                item={item}
+                canMoveUp={pendingIndex > 0}
+                canMoveDown={pendingIndex >= 0 && pendingIndex < pendingIds.length - 1}
+              />
+            );
+          })}
+          {(doneCount > 0 || failedCount > 0) && (
+            <div className="py-2 flex justify-end">
+              <button onClick={dismiss} className="text-xs text-muted-foreground hover:text-foreground">
+                Clear finished
+              </button>
+            </div>
+          )}
+        </div>
       )}
     </div>
   );
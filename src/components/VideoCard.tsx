@@ -5,6 +5,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { ShareDrawer } from "./ShareDrawer";
+import { usePlayerShortcuts } from "@/hooks/use-feed-shortcuts";
 import { getVideoSource, getThumbnailUrl, supportsHlsNatively } from "@/lib/cloudinary";
 import {
   DropdownMenu,
@@ -586,6 +587,15 @@ export const VideoCard = memo(({
     }
   };
 
+  // Desktop keyboard controls; there are no comments here, so C opens share
+  const { pausedByUser } = usePlayerShortcuts({
+    videoRef, enabled: isTrulyActive && shouldLoadSrc,
+    onToggleMute: toggleMute,
+    onLike: toggleLike,
+    onSave: toggleSave,
+    onShare: () => setIsShareOpen(true),
+  });
+
   const handleDelete = async (e: React.MouseEvent) => {
     e.stopPropagation();
     if (!currentUserId || video.user_id !== currentUserId) return;
@@ -693,6 +703,15 @@ export const VideoCard = memo(({
         </div>
       )}
 
+      {/* Paused with Space */}
+      {pausedByUser && isTrulyActive && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-20">
+          <div className="bg-black/50 rounded-full p-4">
+            <Play className="h-12 w-12 text-white fill-white" />
+          </div>
+        </div>
+      )}
+
       {/* Mute/Unmute indicator */}
       {showMuteIcon && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-20">
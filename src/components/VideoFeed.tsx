@@ -4,9 +4,12 @@ import { FeedItem } from "./FeedItem";
 import { LivestreamAdItem } from "./LivestreamAdItem";
 import { Loader2, RefreshCw } from "lucide-react";
 import { useEntryGate } from "./EntryGate";
+import { FollowingEmptyState, type SuggestedCreator } from "./FollowingEmptyState";
 
-import { createAdPicker, type Ad } from "@/lib/adRotation";
+import { createAdPicker, DEFAULT_AD_SETTINGS, type Ad, type AdSettings, type AdStats } from "@/lib/adRotation";
 import { prefetchHlsManifest } from "@/lib/prefetch";
+import { useFeedNavigation } from "@/hooks/use-feed-shortcuts";
+import type { FeedHideKind } from "@/lib/feedHides";
 
 const PAGE_SIZE = 10;
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
@@ -28,6 +31,7 @@ interface Video {
   thumbnail_url: string | null;
   views_count: number;
   likes_count: number;
+  comments_count?: number;
   tags: string[] | null;
   user_id: string;
   profiles: {
@@ -46,6 +50,7 @@ interface VideoFeedProps {
   searchQuery: string;
   categoryFilter: string;
   userId: string | null;
+  mode?: 'for_you' | 'following' | 'trending';
 }
 
 interface FeedCursor {
@@ -53,6 +58,17 @@ interface FeedCursor {
   id: string;
 }
 
+// get-following-feed pages chronologically
+interface FollowingCursor {
+  created_at: string;
+  id: string;
+}
+
+// get-trending pages by precomputed rank
+interface TrendingCursor {
+  rank: number;
+}
+
 const getOrCreateViewerId = (): string => {
   const key = 'anonymous_viewer_id_v1';
   let viewerId = localStorage.getItem(key);
@@ -119,9 +135,12 @@ const addSessionWatchData = (entry: SessionWatchEntry) => {
   } catch {}
 };
 
-export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProps) => {
+export const VideoFeed = ({ searchQuery, categoryFilter, userId, mode = 'for_you' }: VideoFeedProps) => {
   const { hasEntered } = useEntryGate();
-  const feedSource = searchQuery ? 'search' : categoryFilter ? 'category_feed' : 'main_feed';
+  // Search and category filters always browse For You
+  const isFollowing = mode === 'following' && !searchQuery && !categoryFilter;
+  const isTrending = mode === 'trending' && !searchQuery && !categoryFilter;
+  const feedSource = searchQuery ? 'search' : categoryFilter ? 'category_feed' : isFollowing ? 'following_feed' : isTrending ? 'trending_feed' : 'main_feed';
   
   const [videos, setVideos] = useState<Video[]>([]);
   const [ads, setAds] = useState<Ad[]>([]);
@@ -130,6 +149,9 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
   const [activeIndex, setActiveIndex] = useState(0);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [hasMore, setHasMore] = useState(true);
+  const [experimentVariantId, setExperimentVariantId] = useState<string | null>(null);
+  const [followingCount, setFollowingCount] = useState(0);
+  const [suggestedCreators, setSuggestedCreators] = useState<SuggestedCreator[]>([]);
   
   // Scroll settle state (used only for preload, not for active playback)
   const [isScrollSettled, setIsScrollSettled] = useState(true);
@@ -140,43 +162,55 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
   const containerRef = useRef<HTMLDivElement>(null);
   const loadedIdsRef = useRef<Set<string>>(new Set());
   const hasFetchedRef = useRef(false);
-  const cursorRef = useRef<FeedCursor | null>(null);
+  const cursorRef = useRef<FeedCursor | FollowingCursor | TrendingCursor | null>(null);
 
   // Ad picker ref (stable across renders, regenerated when ads change)
   const adPickerRef = useRef<ReturnType<typeof createAdPicker>>(() => null);
+  const [adSettings, setAdSettings] = useState<AdSettings>(DEFAULT_AD_SETTINGS);
+  // Picks per ad slot, so loading another page doesn't reshuffle ads already placed
+  const adSlotsRef = useRef<Map<number, Ad | null>>(new Map());
+  // VAST ads whose tag had no fill; their slots are re-picked from our own ads
+  const [noFillAdIds, setNoFillAdIds] = useState<Set<string>>(new Set());
+  const handleAdNoFill = useCallback((adId: string) => {
+    setNoFillAdIds(prev => (prev.has(adId) ? prev : new Set(prev).add(adId)));
+  }, []);
 
-  // Fetch active ads + their performance stats, then build the picker
+  // Fetch active ads, rotation settings and bandit stats, then build the picker
   useEffect(() => {
     const fetchAds = async () => {
       try {
-        const { data: adsData } = await supabase
-          .from("ads")
-          .select("id, title, video_url, thumbnail_url, external_link, cloudflare_video_id")
-          .eq("is_active", true);
-        const adsList: Ad[] = adsData || [];
-        setAds(adsList);
-
-        if (adsList.length === 0) return;
-
-        // Fetch view & click counts for each ad
-        const adIds = adsList.map(a => a.id);
-        const [{ data: viewsData }, { data: clicksData }] = await Promise.all([
-          supabase.from("ad_views").select("ad_id").in("ad_id", adIds),
-          supabase.from("ad_clicks").select("ad_id").in("ad_id", adIds),
+        const [{ data: adsData }, { data: settingsData }, { data: statsData, error: statsError }] = await Promise.all([
+          supabase
+            .from("ads")
+            .select("id, title, video_url, thumbnail_url, external_link, cloudflare_video_id, vast_tag_url, target_categories, target_feed_sources, priority")
+            .eq("is_active", true),
+          supabase
+            .from("ad_settings")
+            .select("cadence, frequency_cap, frequency_window_hours, viewability_min_ms, viewability_min_visible")
+            .maybeSingle(),
+          supabase.rpc("get_ad_rotation_stats", { p_viewer_id: getOrCreateViewerId() }),
         ]);
-
-        const statsMap = new Map<string, { views: number; clicks: number }>();
-        adIds.forEach(id => statsMap.set(id, { views: 0, clicks: 0 }));
-        (viewsData || []).forEach((r: { ad_id: string }) => {
-          const s = statsMap.get(r.ad_id);
-          if (s) s.views++;
-        });
-        (clicksData || []).forEach((r: { ad_id: string }) => {
-          const s = statsMap.get(r.ad_id);
-          if (s) s.clicks++;
+        if (statsError) console.error("[VideoFeed] Failed to fetch ad stats:", statsError);
+
+        // The stats RPC only returns ads that are in schedule and under their paced daily cap
+        const servable = new Set((statsData || []).map(r => r.ad_id));
+        const adsList: Ad[] = (adsData || []).filter(ad => servable.has(ad.id));
+        const settings = { ...DEFAULT_AD_SETTINGS, ...(settingsData || {}) };
+
+        const statsMap = new Map<string, AdStats>();
+        const viewerImpressions = new Map<string, number>();
+        (statsData || []).forEach(r => {
+          statsMap.set(r.ad_id, { views: r.views, clicks: r.clicks });
+          viewerImpressions.set(r.ad_id, r.viewer_impressions);
         });
 
-        adPickerRef.current = createAdPicker(adsList, statsMap);
+        adPickerRef.current = createAdPicker(adsList, statsMap, {
+          viewerImpressions,
+          frequencyCap: settings.frequency_cap,
+        });
+        adSlotsRef.current.clear();
+        setAdSettings(settings);
+        setAds(adsList);
       } catch (err) {
         console.error("[VideoFeed] Failed to fetch ads:", err);
       }
@@ -184,18 +218,84 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
     fetchAds();
   }, []);
 
+  const adViewability = useMemo(() => ({
+    minVisibleMs: adSettings.viewability_min_ms,
+    minVisibleRatio: adSettings.viewability_min_visible,
+  }), [adSettings]);
+
   const feedEntries: FeedEntry[] = useMemo(() => {
     if (ads.length === 0) return videos.map(v => ({ type: 'video' as const, data: v }));
     const entries: FeedEntry[] = [];
     for (let i = 0; i < videos.length; i++) {
       entries.push({ type: 'video', data: videos[i] });
-      if ((i + 1) % 10 === 0 && ads.length > 0) {
-        const picked = adPickerRef.current();
+      if ((i + 1) % adSettings.cadence === 0) {
+        const cached = adSlotsRef.current.get(i);
+        if (cached === undefined || (cached && noFillAdIds.has(cached.id))) {
+          adSlotsRef.current.set(i, adPickerRef.current({
+            feedSource,
+            categoryFilter,
+            tags: videos[i].tags,
+            excludeAdIds: noFillAdIds,
+          }));
+        }
+        const picked = adSlotsRef.current.get(i);
         if (picked) entries.push({ type: 'ad', data: picked });
       }
     }
     return entries;
-  }, [videos, ads]);
+  }, [videos, ads, adSettings.cadence, feedSource, categoryFilter, noFillAdIds]);
+
+  const loadFollowingFirstPage = async () => {
+    if (!userId) {
+      setVideos([]);
+      setHasMore(false);
+      return;
+    }
+    const { data, error } = await supabase.functions.invoke('get-following-feed', {
+      body: { userId, cursor: null, limit: PAGE_SIZE }
+    });
+    if (error) throw error;
+    const resultVideos = data?.videos || [];
+    cursorRef.current = data?.nextCursor || null;
+    loadedIdsRef.current.clear();
+    resultVideos.forEach((v: Video) => loadedIdsRef.current.add(v.id));
+    setVideos(resultVideos);
+    setHasMore(data?.hasMore ?? false);
+    setFollowingCount(data?.followingCount ?? 0);
+    setSuggestedCreators(data?.suggestedCreators || []);
+    setExperimentVariantId(null);
+    if (resultVideos.length > 1) {
+      prefetchHlsManifest(resultVideos[1].cloudflare_video_id);
+    }
+  };
+
+  const loadTrendingFirstPage = async () => {
+    const { data, error } = await supabase.functions.invoke('get-trending', {
+      body: { kind: 'videos', userId, viewerId: getOrCreateViewerId(), cursor: null, limit: PAGE_SIZE }
+    });
+    if (error) throw error;
+    const resultVideos = data?.videos || [];
+    cursorRef.current = data?.nextCursor || null;
+    loadedIdsRef.current.clear();
+    resultVideos.forEach((v: Video) => loadedIdsRef.current.add(v.id));
+    setVideos(resultVideos);
+    setHasMore(data?.hasMore ?? false);
+    setExperimentVariantId(null);
+    if (resultVideos.length > 1) {
+      prefetchHlsManifest(resultVideos[1].cloudflare_video_id);
+    }
+  };
+
+  const handleFollowedFromEmptyState = async () => {
+    setLoading(true);
+    try {
+      await loadFollowingFirstPage();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load videos");
+    } finally {
+      setLoading(false);
+    }
+  };
 
   // Fetch videos
   useEffect(() => {
@@ -205,7 +305,7 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
     const fetchVideos = async () => {
       try {
         if (searchQuery) {
-          let url = `${SUPABASE_URL}/rest/v1/videos?select=id,title,description,video_url,optimized_video_url,stream_url,cloudinary_public_id,cloudflare_video_id,thumbnail_url,views_count,likes_count,tags,user_id,profiles(username,avatar_url)&order=created_at.desc&limit=${PAGE_SIZE * 2}`;
+          let url = `${SUPABASE_URL}/rest/v1/videos?select=id,title,description,video_url,optimized_video_url,stream_url,cloudinary_public_id,cloudflare_video_id,thumbnail_url,views_count,likes_count,comments_count,tags,user_id,profiles(username,avatar_url)&order=created_at.desc&limit=${PAGE_SIZE * 2}`;
           url += `&or=(title.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%)`;
           const response = await fetch(url, {
             headers: { 'apikey': SUPABASE_KEY, 'Authorization': `Bearer ${SUPABASE_KEY}`, 'Content-Type': 'application/json' },
@@ -220,6 +320,10 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
           results.forEach((v: Video) => loadedIdsRef.current.add(v.id));
           setVideos(results.slice(0, PAGE_SIZE));
           setHasMore(results.length >= PAGE_SIZE);
+        } else if (isFollowing) {
+          await loadFollowingFirstPage();
+        } else if (isTrending) {
+          await loadTrendingFirstPage();
         } else {
           const viewerId = getOrCreateViewerId();
           const sessionId = getOrCreateSessionId();
@@ -233,6 +337,7 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
           resultVideos.forEach((v: Video) => loadedIdsRef.current.add(v.id));
           setVideos(resultVideos);
           setHasMore(data?.hasMore ?? resultVideos.length >= PAGE_SIZE);
+          setExperimentVariantId(data?.experimentVariantId ?? null);
           // Pre-warm HLS manifest for video[1] so transition is fast
           if (resultVideos.length > 1) {
             prefetchHlsManifest(resultVideos[1].cloudflare_video_id);
@@ -261,7 +366,7 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
       if (containerRef.current) containerRef.current.scrollTop = 0;
       try {
         if (searchQuery) {
-          let url = `${SUPABASE_URL}/rest/v1/videos?select=id,title,description,video_url,optimized_video_url,stream_url,cloudinary_public_id,cloudflare_video_id,thumbnail_url,views_count,likes_count,tags,user_id,profiles(username,avatar_url)&order=created_at.desc&limit=${PAGE_SIZE}`;
+          let url = `${SUPABASE_URL}/rest/v1/videos?select=id,title,description,video_url,optimized_video_url,stream_url,cloudinary_public_id,cloudflare_video_id,thumbnail_url,views_count,likes_count,comments_count,tags,user_id,profiles(username,avatar_url)&order=created_at.desc&limit=${PAGE_SIZE}`;
           url += `&or=(title.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%)`;
           const response = await fetch(url, {
             headers: { 'apikey': SUPABASE_KEY, 'Authorization': `Bearer ${SUPABASE_KEY}`, 'Content-Type': 'application/json' },
@@ -276,6 +381,7 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
           results.forEach((v: Video) => loadedIdsRef.current.add(v.id));
           setVideos(results);
           setHasMore(results.length >= PAGE_SIZE);
+          setExperimentVariantId(null);
         } else if (categoryFilter) {
           const viewerId = getOrCreateViewerId();
           const sessionId = getOrCreateSessionId();
@@ -289,6 +395,7 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
           resultVideos.forEach((v: Video) => loadedIdsRef.current.add(v.id));
           setVideos(resultVideos);
           setHasMore(data?.hasMore ?? resultVideos.length >= PAGE_SIZE);
+          setExperimentVariantId(data?.experimentVariantId ?? null);
         }
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to load videos");
@@ -350,6 +457,11 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
     };
   }, [feedEntries]);
 
+  // Desktop: arrow keys / J·K and the wheel step one item at a time
+  useFeedNavigation({
+    containerRef, activeIndex, count: feedEntries.length, enabled: !loading && feedEntries.length > 0,
+  });
+
   // Prefetch HLS manifests for upcoming videos when scroll settles
   useEffect(() => {
     if (!isScrollSettled) return;
@@ -377,7 +489,7 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
       try {
         if (searchQuery) {
           const offset = videos.length;
-          let url = `${SUPABASE_URL}/rest/v1/videos?select=id,title,description,video_url,optimized_video_url,stream_url,cloudinary_public_id,cloudflare_video_id,thumbnail_url,views_count,likes_count,tags,user_id,profiles(username,avatar_url)&order=created_at.desc&offset=${offset}&limit=${PAGE_SIZE}`;
+          let url = `${SUPABASE_URL}/rest/v1/videos?select=id,title,description,video_url,optimized_video_url,stream_url,cloudinary_public_id,cloudflare_video_id,thumbnail_url,views_count,likes_count,comments_count,tags,user_id,profiles(username,avatar_url)&order=created_at.desc&offset=${offset}&limit=${PAGE_SIZE}`;
           url += `&or=(title.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%)`;
           const response = await fetch(url, {
             headers: { 'apikey': SUPABASE_KEY, 'Authorization': `Bearer ${SUPABASE_KEY}`, 'Content-Type': 'application/json' },
@@ -388,6 +500,26 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
           newVideos.forEach((v: Video) => loadedIdsRef.current.add(v.id));
           setVideos(prev => [...prev, ...newVideos]);
           setHasMore(newVideos.length > 0);
+        } else if (isFollowing) {
+          const { data, error } = await supabase.functions.invoke('get-following-feed', {
+            body: { userId, cursor: cursorRef.current, limit: PAGE_SIZE }
+          });
+          if (error) throw error;
+          const newVideos = (data?.videos || []).filter((v: Video) => !loadedIdsRef.current.has(v.id));
+          newVideos.forEach((v: Video) => loadedIdsRef.current.add(v.id));
+          cursorRef.current = data?.nextCursor || null;
+          setVideos(prev => [...prev, ...newVideos]);
+          setHasMore(data?.hasMore ?? false);
+        } else if (isTrending) {
+          const { data, error } = await supabase.functions.invoke('get-trending', {
+            body: { kind: 'videos', userId, viewerId: getOrCreateViewerId(), cursor: cursorRef.current, limit: PAGE_SIZE }
+          });
+          if (error) throw error;
+          const newVideos = (data?.videos || []).filter((v: Video) => !loadedIdsRef.current.has(v.id));
+          newVideos.forEach((v: Video) => loadedIdsRef.current.add(v.id));
+          cursorRef.current = data?.nextCursor || null;
+          setVideos(prev => [...prev, ...newVideos]);
+          setHasMore(data?.hasMore ?? false);
         } else {
           const viewerId = getOrCreateViewerId();
           const sessionId = getOrCreateSessionId();
@@ -409,7 +541,7 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
       }
     };
     loadMore();
-  }, [activeIndex, feedEntries.length, hasMore, isLoadingMore, loading, searchQuery, categoryFilter, userId]);
+  }, [activeIndex, feedEntries.length, hasMore, isLoadingMore, loading, searchQuery, categoryFilter, userId, isFollowing, isTrending]);
 
   const handleViewTracked = useCallback((videoId: string, watchDuration?: number) => {
     addSessionViewedId(videoId);
@@ -419,6 +551,21 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
     }
   }, [videos]);
 
+  // Drop the hidden video and anything upcoming that matches; already
+  // watched items above stay so the scroll position doesn't jump
+  const handleHide = useCallback((videoId: string, kind: FeedHideKind, target: string) => {
+    setVideos(prev => {
+      const from = prev.findIndex(v => v.id === videoId);
+      if (from < 0) return prev;
+      return prev.filter((v, i) => {
+        if (i < from) return true;
+        if (kind === 'video') return v.id !== target;
+        if (kind === 'creator') return v.user_id !== target;
+        return !v.tags?.some(tag => tag.toLowerCase() === target.toLowerCase());
+      });
+    });
+  }, []);
+
   const handleRetry = () => { window.location.reload(); };
 
   if (loading) {
@@ -441,11 +588,22 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
     );
   }
 
+  if (videos.length === 0 && isFollowing) {
+    return (
+      <FollowingEmptyState
+        userId={userId}
+        followingCount={followingCount}
+        suggestedCreators={suggestedCreators}
+        onFollowed={handleFollowedFromEmptyState}
+      />
+    );
+  }
+
   if (videos.length === 0) {
     return (
       <div className="flex items-center justify-center h-[100dvh] bg-black">
         <p className="text-primary text-lg">
-          {searchQuery ? "No videos found" : categoryFilter ? `No videos in ${categoryFilter}` : "No videos yet"}
+          {searchQuery ? "No videos found" : categoryFilter ? `No videos in ${categoryFilter}` : isTrending ? "Nothing is trending right now" : "No videos yet"}
         </p>
       </div>
     );
@@ -472,7 +630,8 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
           const shouldPreload = Math.abs(index - activeIndex) <= 1;
           return (
             <LivestreamAdItem key={key} ad={entry.data} index={index}
-              isActive={index === activeIndex} shouldPreload={shouldPreload} currentUserId={userId} />
+              isActive={index === activeIndex} shouldPreload={shouldPreload} currentUserId={userId} feedSource={feedSource}
+              viewability={adViewability} onNoFill={handleAdNoFill} />
           );
         }
 
@@ -485,9 +644,12 @@ export const VideoFeed = ({ searchQuery, categoryFilter, userId }: VideoFeedProp
             index={index}
             isActive={isItemActive}
             hasEntered={hasEntered}
+            shouldWarm={index >= activeIndex && index <= activeIndex + 2}
             currentUserId={userId}
             feedSource={feedSource}
+            experimentVariantId={experimentVariantId}
             onViewTracked={handleViewTracked}
+            onHide={handleHide}
           />
         );
       })}
@@ -8,6 +8,8 @@ import { getGuestClientId, getGuestLikes, setGuestLikes } from "@/lib/guestLikes
 import { prefetchHlsManifest } from "@/lib/prefetch";
 import { preloadImage } from "@/lib/cloudinary";
 import { ModalVideoItem } from "./ModalVideoItem";
+import { KeyboardShortcutsHelp } from "./KeyboardShortcutsHelp";
+import { useFeedNavigation } from "@/hooks/use-feed-shortcuts";
 
 interface Video {
   id: string;
@@ -21,6 +23,7 @@ interface Video {
   thumbnail_url: string | null;
   views_count: number;
   likes_count: number;
+  comments_count?: number;
   user_id: string;
   tags: string[] | null;
   profiles: {
@@ -133,6 +136,10 @@ export const VideoModal = ({ isOpen, onClose, initialVideoId, userId, videos: pr
     };
   }, [videos, isLoading]);
 
+  useFeedNavigation({
+    containerRef: scrollContainerRef, activeIndex, count: videos.length, enabled: isOpen && !isLoading,
+  });
+
   // === PREFETCHING (matching main feed) ===
   useEffect(() => {
     if (!isScrollSettled) return;
@@ -159,7 +166,7 @@ export const VideoModal = ({ isOpen, onClose, initialVideoId, userId, videos: pr
     try {
       const { data, error } = await supabase
         .from("videos")
-        .select(`id, title, description, video_url, optimized_video_url, stream_url, cloudinary_public_id, cloudflare_video_id, thumbnail_url, views_count, likes_count, user_id, tags, profiles(username, avatar_url)`)
+        .select(`id, title, description, video_url, optimized_video_url, stream_url, cloudinary_public_id, cloudflare_video_id, thumbnail_url, views_count, likes_count, comments_count, user_id, tags, profiles(username, avatar_url)`)
         .order("created_at", { ascending: false })
         .limit(50);
       if (error) throw error;
@@ -313,6 +320,8 @@ export const VideoModal = ({ isOpen, onClose, initialVideoId, userId, videos: pr
         <X className="h-6 w-6 text-white" />
       </button>
 
+      <KeyboardShortcutsHelp className="fixed top-4 right-4 z-50" />
+
       <div
         ref={scrollContainerRef}
         className="h-screen overflow-y-scroll snap-y snap-mandatory scrollbar-hide"
@@ -10,10 +10,12 @@ import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { toast } from "sonner";
 import { 
   Plus, Loader2, Trash2, ExternalLink, Eye, MousePointer, 
-  Upload, Radio, TrendingUp, Play, AlertTriangle, CheckCircle2, CloudIcon
+  Upload, Radio, TrendingUp, Play, AlertTriangle, CheckCircle2, CloudIcon, Settings2, Save, CalendarClock, Code2
 } from "lucide-react";
 import { LivestreamAdItem } from "@/components/LivestreamAdItem";
 import { getCloudflareThumbnailUrl } from "@/lib/cloudinary";
+import { AD_FEED_SOURCES } from "@/lib/adRotation";
+import { useCategories } from "@/hooks/use-categories";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -29,17 +31,307 @@ import {
 interface Ad {
   id: string;
   title: string;
-  video_url: string;
+  video_url: string | null;
   thumbnail_url: string | null;
-  external_link: string;
+  external_link: string | null;
+  vast_tag_url: string | null;
   is_active: boolean;
   created_at: string;
   cloudflare_video_id: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  daily_impression_cap: number | null;
+  target_categories: string[];
+  target_feed_sources: string[];
+  priority: number;
   views_count?: number;
+  today_views_count?: number;
   clicks_count?: number;
+  valid_clicks_count?: number;
+  completed_views_count?: number;
   ctr?: number;
 }
 
+type AdSettingsForm = Record<
+  "cadence" | "frequency_cap" | "frequency_window_hours" | "viewability_min_ms" | "viewability_min_visible",
+  string
+>;
+
+const AD_SETTINGS_FIELDS: { key: keyof AdSettingsForm; label: string; step: string; min: number; max: number }[] = [
+  { key: "cadence", label: "Ad after every N videos", step: "1", min: 3, max: 100 },
+  { key: "frequency_cap", label: "Max views per ad per viewer (0 = off)", step: "1", min: 0, max: 100 },
+  { key: "frequency_window_hours", label: "Frequency window (hours)", step: "1", min: 1, max: 720 },
+  { key: "viewability_min_ms", label: "Viewable after (ms played)", step: "100", min: 0, max: 30000 },
+  { key: "viewability_min_visible", label: "Viewable share on screen", step: "0.05", min: 0.05, max: 1 },
+];
+
+type UtmForm = Record<"utm_source" | "utm_medium" | "utm_campaign", string>;
+
+const UTM_FIELDS: { key: keyof UtmForm; label: string }[] = [
+  { key: "utm_source", label: "utm_source" },
+  { key: "utm_medium", label: "utm_medium" },
+  { key: "utm_campaign", label: "utm_campaign ({ad_id} allowed)" },
+];
+
+const AdRotationSettingsPanel = () => {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<AdSettingsForm | null>(null);
+  const [utm, setUtm] = useState<UtmForm>({ utm_source: "", utm_medium: "", utm_campaign: "" });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || form) return;
+    supabase
+      .from("ad_settings")
+      .select("*")
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error || !data) {
+          toast.error("Failed to load ad settings");
+          return;
+        }
+        setForm(Object.fromEntries(AD_SETTINGS_FIELDS.map(f => [f.key, String(data[f.key])])) as AdSettingsForm);
+        setUtm({ utm_source: data.utm_source, utm_medium: data.utm_medium, utm_campaign: data.utm_campaign });
+      });
+  }, [open, form]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    const values = Object.fromEntries(AD_SETTINGS_FIELDS.map(f => [f.key, Number(form[f.key])]));
+    const invalid = AD_SETTINGS_FIELDS.find(f => {
+      const value = values[f.key];
+      return !Number.isFinite(value) || (Number.isInteger(Number(f.step)) && !Number.isInteger(value)) || value < f.min || value > f.max;
+    });
+    if (invalid) {
+      toast.error(`${invalid.label} is out of range`);
+      return;
+    }
+    setSaving(true);
+    const { error } = await supabase
+      .from("ad_settings")
+      .update({
+        ...values,
+        utm_source: utm.utm_source.trim(),
+        utm_medium: utm.utm_medium.trim(),
+        utm_campaign: utm.utm_campaign.trim(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", true);
+    setSaving(false);
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Ad settings apply from the next feed load");
+    }
+  };
+
+  return (
+    <div className="rounded-md border">
+      <button onClick={() => setOpen(o => !o)} className="w-full flex items-center gap-2 px-4 py-3 text-sm font-medium">
+        <Settings2 className="h-4 w-4" />
+        Rotation, frequency & UTM
+        <span className="ml-auto text-xs text-muted-foreground">{open ? "Hide" : "Settings"}</span>
+      </button>
+      {open && (
+        <div className="border-t px-4 py-3 space-y-3">
+          {!form ? (
+            <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+          ) : (
+            <>
+              <p className="text-xs text-muted-foreground">
+                Ads are picked by Thompson sampling on their click-through rate: proven ads get most slots,
+                new ads still get enough views to prove themselves. Viewers stop seeing an ad once they hit the frequency cap.
+                A view only counts once the ad has played for the viewable time with enough of it on screen; CTR is over those views.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {AD_SETTINGS_FIELDS.map(f => (
+                  <div key={f.key} className="space-y-1">
+                    <Label htmlFor={`ad-settings-${f.key}`} className="text-xs">{f.label}</Label>
+                    <Input
+                      id={`ad-settings-${f.key}`}
+                      type="number"
+                      step={f.step}
+                      min={f.min}
+                      max={f.max}
+                      value={form[f.key]}
+                      onChange={(e) => setForm({ ...form, [f.key]: e.target.value })}
+                      className="h-8"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Added to ad links on click unless the link already sets them (empty = skip). utm_content is always the feed the click came from.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {UTM_FIELDS.map(f => (
+                  <div key={f.key} className="space-y-1">
+                    <Label htmlFor={`ad-settings-${f.key}`} className="text-xs">{f.label}</Label>
+                    <Input
+                      id={`ad-settings-${f.key}`}
+                      value={utm[f.key]}
+                      onChange={(e) => setUtm({ ...utm, [f.key]: e.target.value })}
+                      className="h-8"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <Button size="sm" variant="outline" onClick={handleSave} disabled={saving}>
+                  {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                  Save
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const truncateLink = (link: string) => (link.length > 40 ? link.substring(0, 40) + "..." : link);
+
+// datetime-local inputs work in local time; the table stores timestamptz
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const campaignStatus = (ad: Ad): { label: string; className: string } => {
+  const now = Date.now();
+  if (ad.starts_at && new Date(ad.starts_at).getTime() > now) {
+    return { label: "Scheduled", className: "text-blue-500 border-blue-500/30" };
+  }
+  if (ad.ends_at && new Date(ad.ends_at).getTime() <= now) {
+    return { label: "Ended", className: "text-muted-foreground" };
+  }
+  if (ad.daily_impression_cap && (ad.today_views_count || 0) >= ad.daily_impression_cap) {
+    return { label: "Daily cap reached", className: "text-yellow-500 border-yellow-500/30" };
+  }
+  return { label: "Running", className: "text-green-500 border-green-500/30" };
+};
+
+const AdCampaignEditor = ({ ad, onSaved }: { ad: Ad; onSaved: (ad: Ad) => void }) => {
+  const { categories } = useCategories();
+  const [startsAt, setStartsAt] = useState(toLocalInput(ad.starts_at));
+  const [endsAt, setEndsAt] = useState(toLocalInput(ad.ends_at));
+  const [dailyCap, setDailyCap] = useState(ad.daily_impression_cap ? String(ad.daily_impression_cap) : "");
+  const [priority, setPriority] = useState(String(ad.priority));
+  const [targetCategories, setTargetCategories] = useState<string[]>(ad.target_categories);
+  const [targetFeedSources, setTargetFeedSources] = useState<string[]>(ad.target_feed_sources);
+  const [saving, setSaving] = useState(false);
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const handleSave = async () => {
+    const cap = dailyCap.trim() ? Number(dailyCap) : null;
+    const priorityValue = Number(priority);
+    if (cap !== null && (!Number.isInteger(cap) || cap < 1)) {
+      toast.error("Daily cap must be a whole number above 0, or empty for no cap");
+      return;
+    }
+    if (!Number.isInteger(priorityValue) || priorityValue < 1 || priorityValue > 10) {
+      toast.error("Priority must be between 1 and 10");
+      return;
+    }
+    const starts = startsAt ? new Date(startsAt).toISOString() : null;
+    const ends = endsAt ? new Date(endsAt).toISOString() : null;
+    if (starts && ends && starts >= ends) {
+      toast.error("End must be after start");
+      return;
+    }
+
+    const update = {
+      starts_at: starts,
+      ends_at: ends,
+      daily_impression_cap: cap,
+      priority: priorityValue,
+      target_categories: targetCategories,
+      target_feed_sources: targetFeedSources,
+    };
+    setSaving(true);
+    const { error } = await supabase
+      .from("ads")
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq("id", ad.id);
+    setSaving(false);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    onSaved({ ...ad, ...update });
+    toast.success("Campaign saved");
+  };
+
+  return (
+    <div className="rounded-md border px-3 py-3 space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor={`campaign-start-${ad.id}`} className="text-xs">Starts</Label>
+          <Input id={`campaign-start-${ad.id}`} type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} className="h-8" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`campaign-end-${ad.id}`} className="text-xs">Ends</Label>
+          <Input id={`campaign-end-${ad.id}`} type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} className="h-8" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`campaign-cap-${ad.id}`} className="text-xs">Daily impression cap</Label>
+          <Input id={`campaign-cap-${ad.id}`} type="number" min={1} step="1" placeholder="No cap" value={dailyCap} onChange={(e) => setDailyCap(e.target.value)} className="h-8" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`campaign-priority-${ad.id}`} className="text-xs">Priority (1–10)</Label>
+          <Input id={`campaign-priority-${ad.id}`} type="number" min={1} max={10} step="1" value={priority} onChange={(e) => setPriority(e.target.value)} className="h-8" />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs font-medium">Feeds <span className="text-muted-foreground font-normal">(none selected = all)</span></p>
+        <div className="flex flex-wrap gap-1.5">
+          {AD_FEED_SOURCES.map(source => (
+            <Badge
+              key={source.value}
+              variant={targetFeedSources.includes(source.value) ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setTargetFeedSources(toggle(targetFeedSources, source.value))}
+            >
+              {source.label}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs font-medium">Categories <span className="text-muted-foreground font-normal">(matches the category feed or the video before the ad; none = all)</span></p>
+        <div className="flex flex-wrap gap-1.5">
+          {categories.map(category => (
+            <Badge
+              key={category.slug}
+              variant={targetCategories.includes(category.slug.toLowerCase()) ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setTargetCategories(toggle(targetCategories, category.slug.toLowerCase()))}
+            >
+              {category.display_name}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Daily caps reset at midnight UTC and are paced evenly through the day.
+        </p>
+        <Button size="sm" variant="outline" onClick={handleSave} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
 export const AdminAds = () => {
   const [ads, setAds] = useState<Ad[]>([]);
   const [loading, setLoading] = useState(true);
@@ -48,10 +340,13 @@ export const AdminAds = () => {
   const [uploading, setUploading] = useState(false);
   const [previewAd, setPreviewAd] = useState<Ad | null>(null);
   const [migratingIds, setMigratingIds] = useState<Set<string>>(new Set());
+  const [editingCampaignId, setEditingCampaignId] = useState<string | null>(null);
   // Form state
   const [title, setTitle] = useState("");
   const [externalLink, setExternalLink] = useState("");
   const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [creativeSource, setCreativeSource] = useState<"upload" | "vast">("upload");
+  const [vastTagUrl, setVastTagUrl] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const fetchAds = async () => {
@@ -64,21 +359,39 @@ export const AdminAds = () => {
 
       if (error) throw error;
 
+      // Daily caps count from midnight UTC, same as get_ad_rotation_stats
+      const dayStart = new Date();
+      dayStart.setUTCHours(0, 0, 0, 0);
+
+      // CTR only counts clicks since viewable impressions began, same as
+      // get_ad_rotation_stats: older clicks have no viewable view to match
+      const { data: settings } = await supabase.from("ad_settings").select("viewability_since").maybeSingle();
+      const clicksSince = settings?.viewability_since ?? new Date().toISOString();
+
       const adsWithStats = await Promise.all(
         (adsData || []).map(async (ad: any) => {
-          const [viewsRes, clicksRes] = await Promise.all([
-            supabase.from("ad_views").select("id", { count: "exact", head: true }).eq("ad_id", ad.id),
+          const [viewsRes, completedRes, clicksRes, validClicksRes, ctrClicksRes, todayRes] = await Promise.all([
+            supabase.from("ad_views").select("id", { count: "exact", head: true }).eq("ad_id", ad.id).eq("viewable", true),
+            supabase.from("ad_views").select("id", { count: "exact", head: true }).eq("ad_id", ad.id).eq("viewable", true).eq("completed", true),
             supabase.from("ad_clicks").select("id", { count: "exact", head: true }).eq("ad_id", ad.id),
+            supabase.from("ad_clicks").select("id", { count: "exact", head: true }).eq("ad_id", ad.id).eq("is_valid", true),
+            supabase.from("ad_clicks").select("id", { count: "exact", head: true }).eq("ad_id", ad.id).eq("is_valid", true).gte("clicked_at", clicksSince),
+            supabase.from("ad_views").select("id", { count: "exact", head: true }).eq("ad_id", ad.id).gte("viewed_at", dayStart.toISOString()),
           ]);
           
           const views = viewsRes.count || 0;
           const clicks = clicksRes.count || 0;
+          const validClicks = validClicksRes.count || 0;
+          const ctrClicks = ctrClicksRes.count || 0;
           
           return {
             ...ad,
             views_count: views,
+            completed_views_count: completedRes.count || 0,
+            today_views_count: todayRes.count || 0,
             clicks_count: clicks,
-            ctr: views > 0 ? Math.round((clicks / views) * 10000) / 100 : 0,
+            valid_clicks_count: validClicks,
+            ctr: views > 0 ? Math.round((ctrClicks / views) * 10000) / 100 : 0,
           };
         })
       );
@@ -96,6 +409,46 @@ export const AdminAds = () => {
     fetchAds();
   }, []);
 
+  const resetForm = () => {
+    setTitle("");
+    setExternalLink("");
+    setVideoFile(null);
+    setVastTagUrl("");
+    setShowForm(false);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  // Third-party ads only need a tag; the client resolves it at play time
+  const handleCreateVast = async () => {
+    if (!title.trim() || !vastTagUrl.trim()) {
+      toast.error("Please enter a title and VAST tag URL");
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase.from("ads").insert({
+        title: title.trim(),
+        vast_tag_url: vastTagUrl.trim(),
+        is_active: true,
+        created_by: user.id,
+      });
+      if (error) throw error;
+
+      toast.success("VAST ad created");
+      resetForm();
+      fetchAds();
+    } catch (err) {
+      console.error("Error creating VAST ad:", err);
+      toast.error("Failed to create ad");
+    } finally {
+      setCreating(false);
+    }
+  };
+
   const handleUploadAndCreate = async () => {
     if (!title.trim() || !externalLink.trim() || !videoFile) {
       toast.error("Please fill in all fields and select a video");
@@ -138,11 +491,7 @@ export const AdminAds = () => {
       if (insertError) throw insertError;
 
       toast.success("Ad created — processing on Cloudflare...");
-      setTitle("");
-      setExternalLink("");
-      setVideoFile(null);
-      setShowForm(false);
-      if (fileInputRef.current) fileInputRef.current.value = "";
+      resetForm();
       
       // Refresh list then trigger Cloudflare migration for this ad
       await fetchAds();
@@ -186,7 +535,7 @@ export const AdminAds = () => {
   };
 
   const migrateAllAds = async () => {
-    const unmigrated = ads.filter(a => !a.cloudflare_video_id);
+    const unmigrated = ads.filter(a => !a.cloudflare_video_id && !a.vast_tag_url);
     if (unmigrated.length === 0) {
       toast.info("All ads are already on Cloudflare");
       return;
@@ -227,7 +576,7 @@ export const AdminAds = () => {
     }
   };
 
-  const unmigratedCount = ads.filter(a => !a.cloudflare_video_id).length;
+  const unmigratedCount = ads.filter(a => !a.cloudflare_video_id && !a.vast_tag_url).length;
 
   if (loading) {
     return (
@@ -253,6 +602,8 @@ export const AdminAds = () => {
         </Button>
       </div>
 
+      <AdRotationSettingsPanel />
+
       {/* Cloudflare Migration Warning */}
       {unmigratedCount > 0 && (
         <Card className="border-yellow-500/50 bg-yellow-500/10">
@@ -289,34 +640,72 @@ export const AdminAds = () => {
               />
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="ad-link">External Link</Label>
-              <Input
-                id="ad-link"
-                placeholder="https://example.com/landing-page"
-                value={externalLink}
-                onChange={(e) => setExternalLink(e.target.value)}
-              />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant={creativeSource === "upload" ? "default" : "outline"}
+                onClick={() => setCreativeSource("upload")}
+              >
+                Upload video
+              </Button>
+              <Button
+                size="sm"
+                variant={creativeSource === "vast" ? "default" : "outline"}
+                onClick={() => setCreativeSource("vast")}
+              >
+                VAST tag
+              </Button>
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="ad-video">Video File</Label>
-              <Input
-                ref={fileInputRef}
-                id="ad-video"
-                type="file"
-                accept="video/*"
-                onChange={(e) => setVideoFile(e.target.files?.[0] || null)}
-              />
-              {videoFile && (
+            {creativeSource === "vast" ? (
+              <div className="space-y-2">
+                <Label htmlFor="ad-vast">VAST Tag URL</Label>
+                <Input
+                  id="ad-vast"
+                  placeholder="https://ads.example.com/vast?slot=feed (or /vast/inline.xml to test)"
+                  value={vastTagUrl}
+                  onChange={(e) => setVastTagUrl(e.target.value)}
+                />
                 <p className="text-xs text-muted-foreground">
-                  Selected: {videoFile.name} ({(videoFile.size / 1024 / 1024).toFixed(1)} MB)
+                  VAST 3/4. Media, click-through and tracking come from the tag; when it has no fill the slot shows one of our own ads.
                 </p>
-              )}
-            </div>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="ad-link">External Link</Label>
+                  <Input
+                    id="ad-link"
+                    placeholder="https://example.com/landing-page"
+                    value={externalLink}
+                    onChange={(e) => setExternalLink(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="ad-video">Video File</Label>
+                  <Input
+                    ref={fileInputRef}
+                    id="ad-video"
+                    type="file"
+                    accept="video/*"
+                    onChange={(e) => setVideoFile(e.target.files?.[0] || null)}
+                  />
+                  {videoFile && (
+                    <p className="text-xs text-muted-foreground">
+                      Selected: {videoFile.name} ({(videoFile.size / 1024 / 1024).toFixed(1)} MB)
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
 
             <div className="flex gap-2">
-              <Button onClick={handleUploadAndCreate} disabled={creating} className="gap-2">
+              <Button
+                onClick={creativeSource === "vast" ? handleCreateVast : handleUploadAndCreate}
+                disabled={creating}
+                className="gap-2"
+              >
                 {creating ? (
                   <>
                     <Loader2 className="h-4 w-4 animate-spin" />
@@ -358,15 +747,17 @@ export const AdminAds = () => {
             <div className="text-2xl font-bold">
               {ads.reduce((sum, a) => sum + (a.views_count || 0), 0).toLocaleString()}
             </div>
-            <p className="text-xs text-muted-foreground">Total Views</p>
+            <p className="text-xs text-muted-foreground">Viewable Impressions</p>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="pt-6">
             <div className="text-2xl font-bold">
-              {ads.reduce((sum, a) => sum + (a.clicks_count || 0), 0).toLocaleString()}
+              {ads.reduce((sum, a) => sum + (a.valid_clicks_count || 0), 0).toLocaleString()}
             </div>
-            <p className="text-xs text-muted-foreground">Total Clicks</p>
+            <p className="text-xs text-muted-foreground">
+              Valid Clicks · {ads.reduce((sum, a) => sum + (a.clicks_count || 0), 0).toLocaleString()} raw
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -391,7 +782,11 @@ export const AdminAds = () => {
                     className="relative w-24 h-36 rounded-lg overflow-hidden bg-muted flex-shrink-0 cursor-pointer group"
                     onClick={() => setPreviewAd(ad)}
                   >
-                    {ad.cloudflare_video_id ? (
+                    {ad.vast_tag_url ? (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <Code2 className="h-8 w-8 text-muted-foreground" />
+                      </div>
+                    ) : ad.cloudflare_video_id ? (
                       <img
                         src={getCloudflareThumbnailUrl(ad.cloudflare_video_id)}
                         className="w-full h-full object-cover"
@@ -399,7 +794,7 @@ export const AdminAds = () => {
                       />
                     ) : (
                       <video
-                        src={ad.video_url}
+                        src={ad.video_url ?? undefined}
                         className="w-full h-full object-cover"
                         muted
                         preload="metadata"
@@ -422,17 +817,17 @@ export const AdminAds = () => {
                     <div className="flex items-start justify-between">
                       <div>
                         <h3 className="font-semibold truncate">{ad.title}</h3>
-                        <a
-                          href={ad.external_link}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-xs text-primary hover:underline flex items-center gap-1"
-                        >
-                          <ExternalLink className="h-3 w-3" />
-                          {ad.external_link.length > 40
-                            ? ad.external_link.substring(0, 40) + "..."
-                            : ad.external_link}
-                        </a>
+                        {(ad.vast_tag_url || ad.external_link) && (
+                          <a
+                            href={ad.vast_tag_url || ad.external_link || undefined}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-xs text-primary hover:underline flex items-center gap-1"
+                          >
+                            {ad.vast_tag_url ? <Code2 className="h-3 w-3" /> : <ExternalLink className="h-3 w-3" />}
+                            {truncateLink(ad.vast_tag_url || ad.external_link || "")}
+                          </a>
+                        )}
                       </div>
                       <div className="flex items-center gap-2">
                         <Switch
@@ -465,7 +860,11 @@ export const AdminAds = () => {
 
                     {/* Cloudflare status */}
                     <div className="flex items-center gap-2">
-                      {ad.cloudflare_video_id ? (
+                      {ad.vast_tag_url ? (
+                        <Badge variant="outline" className="text-blue-500 border-blue-500/30 text-[10px] gap-1">
+                          <Code2 className="h-3 w-3" /> VAST tag
+                        </Badge>
+                      ) : ad.cloudflare_video_id ? (
                         <Badge variant="outline" className="text-green-500 border-green-500/30 text-[10px] gap-1">
                           <CheckCircle2 className="h-3 w-3" /> Cloudflare
                         </Badge>
@@ -484,15 +883,52 @@ export const AdminAds = () => {
                       )}
                     </div>
 
+                    {/* Campaign */}
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline" className={`text-[10px] ${campaignStatus(ad).className}`}>
+                        {campaignStatus(ad).label}
+                      </Badge>
+                      {ad.daily_impression_cap && (
+                        <span className="text-xs text-muted-foreground">
+                          {(ad.today_views_count || 0).toLocaleString()} / {ad.daily_impression_cap.toLocaleString()} today
+                        </span>
+                      )}
+                      {ad.priority !== 5 && (
+                        <span className="text-xs text-muted-foreground">Priority {ad.priority}</span>
+                      )}
+                      {[...ad.target_feed_sources.map(v => AD_FEED_SOURCES.find(s => s.value === v)?.label ?? v), ...ad.target_categories].map(target => (
+                        <Badge key={target} variant="secondary" className="text-[10px]">{target}</Badge>
+                      ))}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs gap-1"
+                        onClick={() => setEditingCampaignId(editingCampaignId === ad.id ? null : ad.id)}
+                      >
+                        <CalendarClock className="h-3.5 w-3.5" />
+                        {editingCampaignId === ad.id ? "Close" : "Campaign"}
+                      </Button>
+                    </div>
+                    {editingCampaignId === ad.id && (
+                      <AdCampaignEditor
+                        ad={ad}
+                        onSaved={(saved) => setAds(prev => prev.map(a => a.id === saved.id ? saved : a))}
+                      />
+                    )}
+
                     {/* Stats Row */}
                     <div className="flex items-center gap-4 text-sm">
                       <span className="flex items-center gap-1 text-muted-foreground">
                         <Eye className="h-3.5 w-3.5" />
-                        {(ad.views_count || 0).toLocaleString()} views
+                        {(ad.views_count || 0).toLocaleString()} viewable
+                      </span>
+                      <span className="flex items-center gap-1 text-muted-foreground">
+                        <CheckCircle2 className="h-3.5 w-3.5" />
+                        {ad.views_count ? Math.round(((ad.completed_views_count || 0) / ad.views_count) * 100) : 0}% completed
                       </span>
                       <span className="flex items-center gap-1 text-muted-foreground">
                         <MousePointer className="h-3.5 w-3.5" />
-                        {(ad.clicks_count || 0).toLocaleString()} clicks
+                        {(ad.valid_clicks_count || 0).toLocaleString()} valid / {(ad.clicks_count || 0).toLocaleString()} raw clicks
                       </span>
                       <span className="flex items-center gap-1 text-muted-foreground">
                         <TrendingUp className="h-3.5 w-3.5" />
@@ -0,0 +1,319 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { CATEGORIES_QUERY_KEY, type Category } from "@/hooks/use-categories";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Plus, Save, Trash2, Tags, Loader2, ImageIcon } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+const ADMIN_CATEGORIES_KEY = ["admin-categories"];
+
+const toSlug = (value: string) =>
+  value.trim().toLowerCase().replace(/[\s-]+/g, "_").replace(/[^a-z0-9_]/g, "");
+
+const parseSynonyms = (value: string) =>
+  Array.from(new Set(value.split(",").map((s) => s.trim().toLowerCase()).filter(Boolean)));
+
+const CategoryEditor = ({ category, videoCount }: { category: Category; videoCount: number }) => {
+  const queryClient = useQueryClient();
+  const [displayName, setDisplayName] = useState(category.display_name);
+  const [synonymsText, setSynonymsText] = useState(category.synonyms.join(", "));
+  const [sortOrder, setSortOrder] = useState(String(category.sort_order));
+  const [coverImageUrl, setCoverImageUrl] = useState(category.cover_image_url || "");
+
+  useEffect(() => {
+    setDisplayName(category.display_name);
+    setSynonymsText(category.synonyms.join(", "));
+    setSortOrder(String(category.sort_order));
+    setCoverImageUrl(category.cover_image_url || "");
+  }, [category]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ADMIN_CATEGORIES_KEY });
+    queryClient.invalidateQueries({ queryKey: CATEGORIES_QUERY_KEY });
+  };
+
+  const saveCategory = useMutation({
+    mutationFn: async () => {
+      if (!displayName.trim()) throw new Error("Display name is required");
+      const { error } = await supabase
+        .from("categories")
+        .update({
+          display_name: displayName.trim(),
+          synonyms: parseSynonyms(synonymsText),
+          sort_order: parseInt(sortOrder) || 0,
+          cover_image_url: coverImageUrl.trim() || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("slug", category.slug);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success(`"${category.slug}" saved`);
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const toggleActive = useMutation({
+    mutationFn: async (isActive: boolean) => {
+      const { error } = await supabase
+        .from("categories")
+        .update({ is_active: isActive, updated_at: new Date().toISOString() })
+        .eq("slug", category.slug);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const deleteCategory = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from("categories").delete().eq("slug", category.slug);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Category deleted");
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  return (
+    <div className="border border-border rounded-lg p-3 space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="w-12 h-12 rounded-md bg-muted flex items-center justify-center overflow-hidden shrink-0">
+          {coverImageUrl ? (
+            <img src={coverImageUrl} alt={displayName} className="w-full h-full object-cover" />
+          ) : (
+            <ImageIcon className="h-5 w-5 text-muted-foreground" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="font-mono">{category.slug}</Badge>
+            <span className="text-xs text-muted-foreground">{videoCount} videos</span>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`active-${category.slug}`} className="text-xs">Active</Label>
+          <Switch
+            id={`active-${category.slug}`}
+            checked={category.is_active}
+            onCheckedChange={(checked) => toggleActive.mutate(checked)}
+            disabled={toggleActive.isPending}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-[1fr_100px]">
+        <div className="space-y-1">
+          <Label htmlFor={`name-${category.slug}`} className="text-xs">Display name</Label>
+          <Input
+            id={`name-${category.slug}`}
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`sort-${category.slug}`} className="text-xs">Sort order</Label>
+          <Input
+            id={`sort-${category.slug}`}
+            type="number"
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value)}
+            className="h-8"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`cover-${category.slug}`} className="text-xs">Cover image URL</Label>
+        <Input
+          id={`cover-${category.slug}`}
+          value={coverImageUrl}
+          onChange={(e) => setCoverImageUrl(e.target.value)}
+          placeholder="https://..."
+          className="h-8"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`synonyms-${category.slug}`} className="text-xs">Search synonyms (comma separated)</Label>
+        <Textarea
+          id={`synonyms-${category.slug}`}
+          value={synonymsText}
+          onChange={(e) => setSynonymsText(e.target.value)}
+          rows={2}
+          className="text-xs"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" variant="ghost" className="text-destructive" disabled={deleteCategory.isPending}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete "{category.display_name}"?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Videos keep the "{category.slug}" tag but the category disappears from browse, search and upload.
+                Deactivating it is usually enough.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => deleteCategory.mutate()}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+        <Button size="sm" variant="outline" onClick={() => saveCategory.mutate()} disabled={saveCategory.isPending}>
+          <Save className="h-4 w-4 mr-1" />
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const AdminCategories = () => {
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState("");
+  const [newSlug, setNewSlug] = useState("");
+
+  const { data: categories = [], isLoading } = useQuery({
+    queryKey: ADMIN_CATEGORIES_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("*")
+        .order("sort_order", { ascending: true });
+      if (error) throw error;
+      return data as Category[];
+    },
+  });
+
+  const { data: videoCounts = {} } = useQuery({
+    queryKey: ["admin-category-video-counts"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("videos").select("tags");
+      if (error) throw error;
+      const counts: Record<string, number> = {};
+      for (const v of data || []) {
+        for (const tag of v.tags || []) {
+          counts[tag] = (counts[tag] || 0) + 1;
+        }
+      }
+      return counts;
+    },
+  });
+
+  const createCategory = useMutation({
+    mutationFn: async () => {
+      const slug = toSlug(newSlug || newName);
+      if (!slug || !newName.trim()) throw new Error("Name is required");
+      if (categories.some((c) => c.slug === slug)) throw new Error(`"${slug}" already exists`);
+      const maxSort = categories.reduce((max, c) => Math.max(max, c.sort_order), 0);
+      const { error } = await supabase
+        .from("categories")
+        .insert({ slug, display_name: newName.trim(), sort_order: maxSort + 10 });
+      if (error) throw error;
+      return slug;
+    },
+    onSuccess: (slug) => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_CATEGORIES_KEY });
+      queryClient.invalidateQueries({ queryKey: CATEGORIES_QUERY_KEY });
+      setNewName("");
+      setNewSlug("");
+      toast.success(`Category "${slug}" created`);
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const activeCount = categories.filter((c) => c.is_active).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            New category
+          </CardTitle>
+          <CardDescription>
+            The slug is what gets stored in video tags and used in category URLs. It can't be changed later.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              placeholder="Display name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <Input
+              placeholder={toSlug(newName) || "slug"}
+              value={newSlug}
+              onChange={(e) => setNewSlug(e.target.value)}
+              className="font-mono sm:max-w-[200px]"
+            />
+            <Button onClick={() => createCategory.mutate()} disabled={createCategory.isPending || !newName.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Create
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Categories</CardTitle>
+          <CardDescription>
+            {activeCount} active of {categories.length}. Lower sort order shows first.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : categories.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No categories yet.</p>
+          ) : (
+            <div className="grid gap-3 lg:grid-cols-2">
+              {categories.map((category) => (
+                <CategoryEditor
+                  key={category.slug}
+                  category={category}
+                  videoCount={videoCounts[category.slug] || 0}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
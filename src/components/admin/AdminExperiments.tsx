@@ -0,0 +1,480 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Plus, Play, Square, Trash2, Split, Save, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface Variant {
+  id: string;
+  key: string;
+  name: string;
+  weights: Json;
+  traffic_weight: number;
+}
+
+interface VariantStats {
+  id: string;
+  key: string;
+  name: string;
+  views: number;
+  viewers: number;
+  sessions: number;
+  avgVideosPerSession: number;
+  medianVideosPerSession: number;
+  avgWatchTimePerView: number;
+  avgWatchTimePerSession: number;
+  avgCompletion: number;
+  scrollContinuationRate: number;
+  returnRate: number;
+}
+
+interface ExperimentComparison {
+  variants: VariantStats[];
+  /** Only the newest views were summarized */
+  truncated: boolean;
+}
+
+const STATUS_VARIANT: Record<string, "default" | "secondary" | "outline"> = {
+  running: "default",
+  draft: "secondary",
+  stopped: "outline",
+};
+
+const VariantEditor = ({ variant, locked }: { variant: Variant; locked: boolean }) => {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(variant.name);
+  const [traffic, setTraffic] = useState(String(variant.traffic_weight));
+  const [weightsText, setWeightsText] = useState(JSON.stringify(variant.weights, null, 2));
+
+  useEffect(() => {
+    setName(variant.name);
+    setTraffic(String(variant.traffic_weight));
+    setWeightsText(JSON.stringify(variant.weights, null, 2));
+  }, [variant]);
+
+  const saveVariant = useMutation({
+    mutationFn: async () => {
+      let weights: Json;
+      try {
+        weights = JSON.parse(weightsText || "{}");
+      } catch {
+        throw new Error("Weights must be valid JSON");
+      }
+      if (!weights || typeof weights !== "object" || Array.isArray(weights)) {
+        throw new Error("Weights must be a JSON object");
+      }
+      const { error } = await supabase
+        .from("ranking_experiment_variants")
+        .update({ name: name.trim() || variant.key, traffic_weight: Math.max(0, parseInt(traffic) || 0), weights })
+        .eq("id", variant.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ranking-experiments"] });
+      toast.success(`Variant "${variant.key}" saved`);
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  return (
+    <div className="border border-border rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className="font-mono">{variant.key}</Badge>
+        <Input value={name} onChange={(e) => setName(e.target.value)} disabled={locked} className="h-8" />
+        <div className="flex items-center gap-1">
+          <Label htmlFor={`traffic-${variant.id}`} className="text-xs whitespace-nowrap">Traffic</Label>
+          <Input
+            id={`traffic-${variant.id}`}
+            type="number"
+            min={0}
+            value={traffic}
+            onChange={(e) => setTraffic(e.target.value)}
+            disabled={locked}
+            className="h-8 w-20"
+          />
+        </div>
+      </div>
+      <Textarea
+        value={weightsText}
+        onChange={(e) => setWeightsText(e.target.value)}
+        disabled={locked}
+        rows={4}
+        className="font-mono text-xs"
+        placeholder='{ "completion": 0.25, "hook": 0.2 }'
+      />
+      {!locked && (
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" onClick={() => saveVariant.mutate()} disabled={saveVariant.isPending}>
+            <Save className="h-4 w-4 mr-1" />
+            Save
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const AdminExperiments = () => {
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newVariantKey, setNewVariantKey] = useState("");
+
+  const { data: experiments = [], isLoading } = useQuery({
+    queryKey: ["ranking-experiments"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("ranking_experiments")
+        .select("*, ranking_experiment_variants(id, key, name, weights, traffic_weight)")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const selected = experiments.find((e) => e.id === selectedId) || null;
+  const selectedVariants: Variant[] = [...(selected?.ranking_experiment_variants || [])]
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  const { data: comparison, isLoading: comparisonLoading } = useQuery({
+    queryKey: ["ranking-experiment-stats", selectedId],
+    enabled: !!selectedId && selected?.status !== "draft",
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke(
+        `admin-stats?experimentId=${encodeURIComponent(selectedId as string)}`,
+        { method: "GET" }
+      );
+      if (error) throw error;
+      return { variants: data?.variants || [], truncated: !!data?.truncated } as ExperimentComparison;
+    },
+  });
+
+  const createExperiment = useMutation({
+    mutationFn: async () => {
+      if (!newName.trim()) throw new Error("Name is required");
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+      const { data, error } = await supabase
+        .from("ranking_experiments")
+        .insert({ name: newName.trim(), description: newDescription.trim() || null, created_by: user.id })
+        .select("id")
+        .single();
+      if (error) throw error;
+      // Every experiment starts with a control on the current defaults and one treatment to edit
+      const { error: variantsError } = await supabase.from("ranking_experiment_variants").insert([
+        { experiment_id: data.id, key: "control", name: "Control (current weights)", weights: {} },
+        { experiment_id: data.id, key: "treatment", name: "Treatment", weights: {} },
+      ]);
+      if (variantsError) throw variantsError;
+      return data.id;
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: ["ranking-experiments"] });
+      setNewName("");
+      setNewDescription("");
+      setSelectedId(id);
+      toast.success("Experiment created");
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const addVariant = useMutation({
+    mutationFn: async () => {
+      const key = newVariantKey.trim().toLowerCase().replace(/[^a-z0-9-_]/g, "");
+      if (!key || !selectedId) throw new Error("Variant key is required");
+      const { error } = await supabase
+        .from("ranking_experiment_variants")
+        .insert({ experiment_id: selectedId, key, name: key, weights: {} });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ranking-experiments"] });
+      setNewVariantKey("");
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const setStatus = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "running" | "stopped" }) => {
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from("ranking_experiments")
+        .update(status === "running"
+          ? { status, started_at: now, ended_at: null, updated_at: now }
+          : { status, ended_at: now, updated_at: now })
+        .eq("id", id);
+      if (error) {
+        // Unique index allows only one running experiment
+        if (error.code === "23505") throw new Error("Stop the running experiment first");
+        throw error;
+      }
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["ranking-experiments"] });
+      queryClient.invalidateQueries({ queryKey: ["ranking-experiment-stats"] });
+      toast.success(status === "running" ? "Experiment started" : "Experiment stopped");
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const deleteExperiment = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("ranking_experiments").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["ranking-experiments"] });
+      if (selectedId === id) setSelectedId(null);
+      toast.success("Experiment deleted");
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const control = comparison?.variants.find((v) => v.key === "control");
+  const relative = (value: number, base: number | undefined) => {
+    if (!base || base === 0) return null;
+    const diff = ((value - base) / base) * 100;
+    return (
+      <span className={`ml-1 text-xs ${diff > 0 ? "text-green-500" : diff < 0 ? "text-destructive" : "text-muted-foreground"}`}>
+        ({diff > 0 ? "+" : ""}{diff.toFixed(1)}%)
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Create experiment */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Plus className="h-5 w-5" />
+            New Ranking Experiment
+          </CardTitle>
+          <CardDescription>
+            Viewers are split deterministically by user, viewer or session id. Variant weights are partial overrides of the current For You weights.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="experiment-name">Name</Label>
+              <Input
+                id="experiment-name"
+                placeholder="e.g. hook-heavy-v1"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+              />
+            </div>
+            <div className="flex-[2] space-y-1">
+              <Label htmlFor="experiment-description">Hypothesis</Label>
+              <Input
+                id="experiment-description"
+                placeholder="More hook weight increases session depth"
+                value={newDescription}
+                onChange={(e) => setNewDescription(e.target.value)}
+              />
+            </div>
+            <div className="flex items-end">
+              <Button onClick={() => createExperiment.mutate()} disabled={!newName.trim() || createExperiment.isPending}>
+                <Plus className="h-4 w-4 mr-1" />
+                Create
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Experiments table */}
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Variants</TableHead>
+                <TableHead className="text-right">Started</TableHead>
+                <TableHead className="w-[140px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : experiments.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    No experiments yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                experiments.map((exp) => (
+                  <TableRow
+                    key={exp.id}
+                    className={`cursor-pointer ${exp.id === selectedId ? "bg-muted/50" : ""}`}
+                    onClick={() => setSelectedId(exp.id)}
+                  >
+                    <TableCell>
+                      <div className="font-medium">{exp.name}</div>
+                      {exp.description && <div className="text-xs text-muted-foreground">{exp.description}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANT[exp.status] || "secondary"}>{exp.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{exp.ranking_experiment_variants?.length || 0}</TableCell>
+                    <TableCell className="text-right text-muted-foreground text-sm">
+                      {exp.started_at ? format(new Date(exp.started_at), "MMM d, yyyy") : "—"}
+                    </TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <div className="flex gap-1">
+                        {exp.status === "running" ? (
+                          <Button variant="ghost" size="icon" className="h-8 w-8" title="Stop"
+                            onClick={() => setStatus.mutate({ id: exp.id, status: "stopped" })}>
+                            <Square className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <Button variant="ghost" size="icon" className="h-8 w-8" title="Start"
+                            onClick={() => setStatus.mutate({ id: exp.id, status: "running" })}>
+                            <Play className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive hover:text-destructive"
+                          title="Delete"
+                          disabled={exp.status === "running"}
+                          onClick={() => {
+                            if (confirm(`Delete experiment "${exp.name}"? Tagged views keep their data but lose the variant link.`)) {
+                              deleteExperiment.mutate(exp.id);
+                            }
+                          }}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <>
+          {/* Variant comparison */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Split className="h-5 w-5" />
+                {selected.name}: Variant Comparison
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {selected.status === "draft" ? (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  Start the experiment to collect results.
+                </p>
+              ) : comparisonLoading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left py-2 font-medium">Variant</th>
+                        <th className="text-right py-2 font-medium">Viewers</th>
+                        <th className="text-right py-2 font-medium">Sessions</th>
+                        <th className="text-right py-2 font-medium">Videos/Session</th>
+                        <th className="text-right py-2 font-medium">Avg Watch (s)</th>
+                        <th className="text-right py-2 font-medium">Watch/Session (s)</th>
+                        <th className="text-right py-2 font-medium">Return Rate</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(comparison?.variants || []).map((row) => (
+                        <tr key={row.id} className="border-b border-border/50">
+                          <td className="py-2 font-medium">{row.name}</td>
+                          <td className="text-right py-2">{row.viewers.toLocaleString()}</td>
+                          <td className="text-right py-2">{row.sessions.toLocaleString()}</td>
+                          <td className="text-right py-2">
+                            {row.avgVideosPerSession}
+                            {row.key !== "control" && relative(row.avgVideosPerSession, control?.avgVideosPerSession)}
+                          </td>
+                          <td className="text-right py-2">
+                            {row.avgWatchTimePerView}s
+                            {row.key !== "control" && relative(row.avgWatchTimePerView, control?.avgWatchTimePerView)}
+                          </td>
+                          <td className="text-right py-2">
+                            {row.avgWatchTimePerSession}s
+                            {row.key !== "control" && relative(row.avgWatchTimePerSession, control?.avgWatchTimePerSession)}
+                          </td>
+                          <td className="text-right py-2">
+                            {row.returnRate}%
+                            {row.key !== "control" && relative(row.returnRate, control?.returnRate)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-muted-foreground mt-3">
+                    Return rate = share of a variant's viewers who came back on a later day.
+                  </p>
+                  {comparison?.truncated && (
+                    <p className="text-xs text-yellow-500 mt-1">
+                      Results cover only the most recent experiment views (up to 50,000); older views were not counted.
+                    </p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Variant configs */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Variants</CardTitle>
+              <CardDescription>
+                {selected.status === "draft"
+                  ? "Traffic is relative (50/50 = even split). Weights use the keys of RankingWeights, e.g. completion, hook, startup, exploration."
+                  : "Variants are locked once the experiment has started."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {selectedVariants.map((variant) => (
+                <VariantEditor key={variant.id} variant={variant} locked={selected.status !== "draft"} />
+              ))}
+              {selected.status === "draft" && (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="new-variant-key"
+                    value={newVariantKey}
+                    onChange={(e) => setNewVariantKey(e.target.value.toLowerCase().replace(/[^a-z0-9-_]/g, ""))}
+                    className="max-w-xs"
+                  />
+                  <Button variant="outline" onClick={() => addVariant.mutate()} disabled={!newVariantKey || addVariant.isPending}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Variant
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,388 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Loader2, FlaskConical, Play, RotateCcw, ArrowUp, ArrowDown } from "lucide-react";
+import { subDays, subHours } from "date-fns";
+
+type Weights = Record<string, number>;
+
+interface SideSummary {
+  predictedCompletion: number;
+  predictedHookRate: number;
+  engagedRecall: number;
+}
+
+interface ReplayResult {
+  candidates: number;
+  totalSessions: number;
+  sessionsReplayed: number;
+  topN: number;
+  summary: {
+    spearman: number;
+    topNOverlap: number;
+    baseline: SideSummary;
+    candidate: SideSummary;
+  };
+  movers: {
+    videoId: string;
+    title?: string;
+    baselineRank: number;
+    candidateRank: number;
+    delta: number;
+  }[];
+  sessions: {
+    sessionId: string;
+    startedAt: string;
+    watched: number;
+    engaged: number;
+    spearman: number;
+    overlap: number;
+  }[];
+}
+
+// Same order as RankingWeights in supabase/functions/_shared/feed-ranking.ts
+const WEIGHT_FIELDS: { key: string; label: string; step: number }[] = [
+  { key: "completion", label: "Completion", step: 0.01 },
+  { key: "watchTime", label: "Watch time", step: 0.01 },
+  { key: "hook", label: "Hook", step: 0.01 },
+  { key: "startup", label: "Startup", step: 0.01 },
+  { key: "affinity", label: "Affinity", step: 0.01 },
+  { key: "likes", label: "Likes", step: 0.01 },
+  { key: "shares", label: "Shares", step: 0.01 },
+  { key: "recency", label: "Recency", step: 0.01 },
+  { key: "views", label: "Views", step: 0.01 },
+  { key: "exploration", label: "Exploration", step: 0.01 },
+  { key: "topPerformerBoost", label: "Top performer boost", step: 0.01 },
+  { key: "categoryBoostPerTag", label: "Category boost / tag", step: 0.01 },
+  { key: "categoryBoostCap", label: "Category boost cap", step: 0.01 },
+  { key: "recencyDecayDays", label: "Recency decay (days)", step: 1 },
+];
+
+const WINDOW_PRESETS = [
+  { label: "24h", value: "24h" },
+  { label: "3d", value: "3d" },
+  { label: "7d", value: "7d" },
+];
+
+const getWindow = (preset: string) => {
+  const end = new Date();
+  const start = preset === "24h" ? subHours(end, 24) : subDays(end, preset === "3d" ? 3 : 7);
+  return { startDate: start.toISOString(), endDate: end.toISOString() };
+};
+
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+
+const DeltaCell = ({ baseline, candidate, format }: { baseline: number; candidate: number; format: (n: number) => string }) => {
+  const diff = candidate - baseline;
+  return (
+    <td className={`text-right py-2 ${diff > 0 ? "text-green-500" : diff < 0 ? "text-destructive" : "text-muted-foreground"}`}>
+      {diff > 0 ? "+" : ""}{format(diff)}
+    </td>
+  );
+};
+
+export const AdminRankingReplay = () => {
+  const [defaults, setDefaults] = useState<Weights | null>(null);
+  const [weights, setWeights] = useState<Weights>({});
+  const [windowPreset, setWindowPreset] = useState("3d");
+  const [maxSessions, setMaxSessions] = useState(100);
+  const [topN, setTopN] = useState(10);
+  const [loadingDefaults, setLoadingDefaults] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<ReplayResult | null>(null);
+
+  const fetchDefaults = useCallback(async () => {
+    setLoadingDefaults(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("ranking-replay", {
+        body: { action: "defaults" },
+      });
+      if (error) throw new Error(error.message);
+      setDefaults(data.weights);
+      setWeights(data.weights);
+    } catch (err) {
+      console.error("[RankingReplay] Defaults error:", err);
+      toast.error("Failed to load current ranking weights");
+    } finally {
+      setLoadingDefaults(false);
+    }
+  }, []);
+
+  useEffect(() => { fetchDefaults(); }, [fetchDefaults]);
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("ranking-replay", {
+        body: { ...getWindow(windowPreset), weights, maxSessions, topN },
+      });
+      if (error) throw new Error(error.message);
+      if (data?.error) throw new Error(data.error);
+      setResult(data);
+    } catch (err) {
+      console.error("[RankingReplay] Replay error:", err);
+      toast.error(err instanceof Error ? err.message : "Replay failed");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const changedCount = defaults
+    ? WEIGHT_FIELDS.filter(f => weights[f.key] !== defaults[f.key]).length
+    : 0;
+
+  if (loadingDefaults) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <FlaskConical className="h-5 w-5" />
+            Ranking Replay
+          </CardTitle>
+          <CardDescription>
+            Re-rank the For You pool for real sessions with alternative weights and compare against the live config.
+            Affinity and in-session signals are not replayed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+            {WEIGHT_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`weight-${field.key}`} className="text-xs">
+                  {field.label}
+                  {defaults && weights[field.key] !== defaults[field.key] && (
+                    <span className="text-muted-foreground"> (was {defaults[field.key]})</span>
+                  )}
+                </Label>
+                <Input
+                  id={`weight-${field.key}`}
+                  type="number"
+                  step={field.step}
+                  min={0}
+                  value={weights[field.key] ?? ""}
+                  onChange={(e) => setWeights(prev => ({ ...prev, [field.key]: parseFloat(e.target.value) || 0 }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-end gap-3 flex-wrap">
+            <div className="space-y-1">
+              <Label className="text-xs">Window</Label>
+              <div className="flex gap-2">
+                {WINDOW_PRESETS.map((preset) => (
+                  <Button
+                    key={preset.value}
+                    variant={windowPreset === preset.value ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setWindowPreset(preset.value)}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1 w-28">
+              <Label htmlFor="replay-sessions" className="text-xs">Max sessions</Label>
+              <Input
+                id="replay-sessions"
+                type="number"
+                min={1}
+                max={300}
+                value={maxSessions}
+                onChange={(e) => setMaxSessions(parseInt(e.target.value) || 1)}
+              />
+            </div>
+            <div className="space-y-1 w-20">
+              <Label htmlFor="replay-topn" className="text-xs">Top N</Label>
+              <Input
+                id="replay-topn"
+                type="number"
+                min={1}
+                max={50}
+                value={topN}
+                onChange={(e) => setTopN(parseInt(e.target.value) || 1)}
+              />
+            </div>
+            <Button variant="outline" size="sm" onClick={() => defaults && setWeights(defaults)} disabled={changedCount === 0}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+            <Button size="sm" onClick={handleRun} disabled={running}>
+              {running ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+              Run replay
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {changedCount} knob{changedCount !== 1 ? "s" : ""} changed
+            </span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <Card>
+              <CardContent className="pt-6 text-center">
+                <div className="text-3xl font-bold">{result.summary.spearman.toFixed(2)}</div>
+                <p className="text-sm text-muted-foreground mt-1">Avg rank correlation (Spearman)</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6 text-center">
+                <div className="text-3xl font-bold">{pct(result.summary.topNOverlap)}</div>
+                <p className="text-sm text-muted-foreground mt-1">Avg top-{result.topN} overlap</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Predicted Top-{result.topN} Quality</CardTitle>
+              <CardDescription>
+                {result.sessionsReplayed.toLocaleString()} of {result.totalSessions.toLocaleString()} sessions replayed
+                over {result.candidates} candidate videos
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-2 font-medium">Metric</th>
+                      <th className="text-right py-2 font-medium">Current</th>
+                      <th className="text-right py-2 font-medium">Candidate</th>
+                      <th className="text-right py-2 font-medium">Δ</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr className="border-b border-border/50">
+                      <td className="py-2 font-medium">Avg completion</td>
+                      <td className="text-right py-2">{result.summary.baseline.predictedCompletion}%</td>
+                      <td className="text-right py-2">{result.summary.candidate.predictedCompletion}%</td>
+                      <DeltaCell
+                        baseline={result.summary.baseline.predictedCompletion}
+                        candidate={result.summary.candidate.predictedCompletion}
+                        format={(n) => `${n.toFixed(1)}pp`}
+                      />
+                    </tr>
+                    <tr className="border-b border-border/50">
+                      <td className="py-2 font-medium">Hook rate</td>
+                      <td className="text-right py-2">{result.summary.baseline.predictedHookRate}%</td>
+                      <td className="text-right py-2">{result.summary.candidate.predictedHookRate}%</td>
+                      <DeltaCell
+                        baseline={result.summary.baseline.predictedHookRate}
+                        candidate={result.summary.candidate.predictedHookRate}
+                        format={(n) => `${n.toFixed(1)}pp`}
+                      />
+                    </tr>
+                    <tr className="border-b border-border/50">
+                      <td className="py-2 font-medium">Engaged-video recall</td>
+                      <td className="text-right py-2">{pct(result.summary.baseline.engagedRecall)}</td>
+                      <td className="text-right py-2">{pct(result.summary.candidate.engagedRecall)}</td>
+                      <DeltaCell
+                        baseline={result.summary.baseline.engagedRecall}
+                        candidate={result.summary.candidate.engagedRecall}
+                        format={(n) => `${Math.round(n * 100)}pp`}
+                      />
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground mt-3">
+                Recall = share of videos a session actually watched past 2s that land in the top {result.topN}.
+                The current config served those sessions, so its recall is biased upward.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Biggest Rank Movers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {result.movers.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No rank changes.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left py-2 font-medium">Video</th>
+                        <th className="text-right py-2 font-medium">Avg rank (current)</th>
+                        <th className="text-right py-2 font-medium">Avg rank (candidate)</th>
+                        <th className="text-right py-2 font-medium">Move</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.movers.map((m) => (
+                        <tr key={m.videoId} className="border-b border-border/50">
+                          <td className="py-2 font-medium truncate max-w-[240px]">{m.title || m.videoId}</td>
+                          <td className="text-right py-2">{m.baselineRank}</td>
+                          <td className="text-right py-2">{m.candidateRank}</td>
+                          <td className={`text-right py-2 ${m.delta > 0 ? "text-green-500" : "text-destructive"}`}>
+                            <span className="inline-flex items-center gap-1">
+                              {m.delta > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+                              {Math.abs(m.delta)}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Sessions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-2 font-medium">Session</th>
+                      <th className="text-right py-2 font-medium">Watched</th>
+                      <th className="text-right py-2 font-medium">Engaged</th>
+                      <th className="text-right py-2 font-medium">Spearman</th>
+                      <th className="text-right py-2 font-medium">Top-{result.topN} overlap</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.sessions.map((s) => (
+                      <tr key={s.sessionId} className="border-b border-border/50">
+                        <td className="py-2 font-mono text-xs">
+                          {s.sessionId.substring(0, 8)}…
+                          <span className="text-muted-foreground ml-2">{new Date(s.startedAt).toLocaleString()}</span>
+                        </td>
+                        <td className="text-right py-2">{s.watched}</td>
+                        <td className="text-right py-2">{s.engaged}</td>
+                        <td className="text-right py-2">{s.spearman.toFixed(2)}</td>
+                        <td className="text-right py-2">{pct(s.overlap)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
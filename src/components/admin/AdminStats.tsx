@@ -450,10 +450,15 @@ export const AdminStats = ({ datePreset, onDatePresetChange }: AdminStatsProps)
           return;
         }
 
+        // Views are viewable-only, so clicks from before viewable impressions
+        // began are left out of CTR (same cutover as get_ad_rotation_stats)
+        const { data: settings } = await supabase.from("ad_settings").select("viewability_since").maybeSingle();
+        const clicksSince = settings?.viewability_since ?? new Date().toISOString();
+
         const perAd = await Promise.all(
           adsData.map(async (ad: any) => {
-            let viewsQuery = supabase.from("ad_views").select("id", { count: "exact", head: true }).eq("ad_id", ad.id);
-            let clicksQuery = supabase.from("ad_clicks").select("id", { count: "exact", head: true }).eq("ad_id", ad.id);
+            let viewsQuery = supabase.from("ad_views").select("id", { count: "exact", head: true }).eq("ad_id", ad.id).eq("viewable", true);
+            let clicksQuery = supabase.from("ad_clicks").select("id", { count: "exact", head: true }).eq("ad_id", ad.id).eq("is_valid", true).gte("clicked_at", clicksSince);
 
             if (datePreset !== "lifetime") {
               const presetDates = getDateRangeForPreset(datePreset);
@@ -1078,7 +1083,7 @@ export const AdminStats = ({ datePreset, onDatePresetChange }: AdminStatsProps)
         <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Ad Performance</h3>
         <div className="grid gap-4 grid-cols-2 md:grid-cols-3">
           <StatCard
-            title="Total Ad Views"
+            title="Viewable Ad Impressions"
             value={adStats?.totalViews ?? 0}
             icon={Eye}
             color="text-blue-500"
@@ -7,11 +7,22 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { AlertDialog, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Search, Loader2, ChevronLeft, ChevronRight, Trash2, Eye, Heart, Bookmark, Percent, ArrowUpDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Search, Loader2, ChevronLeft, ChevronRight, Trash2, Eye, Heart, Bookmark, Percent, ArrowUpDown, FlaskConical, Save } from "lucide-react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { VideoThumbnail } from "@/components/VideoThumbnail";
 
+interface VideoExploration {
+  status: "testing" | "graduated" | "retired";
+  impressions: number;
+  hook_rate: number;
+  decided_at: string | null;
+  decision_reason: string | null;
+}
+
 interface VideoItem {
   id: string;
   title: string;
@@ -33,6 +44,7 @@ interface VideoItem {
   startup_stall_rate: number;
   startup_retry_rate: number;
   startup_samples: number;
+  exploration: VideoExploration | null;
   created_at: string;
   user_id: string;
   uploader_email: string;
@@ -63,6 +75,152 @@ const VideoThumbnailCell = ({ video }: { video: VideoItem }) => (
   </div>
 );
 
+const EXPLORATION_BADGE: Record<VideoExploration["status"], { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  testing: { label: "Testing", variant: "secondary" },
+  graduated: { label: "Graduated", variant: "default" },
+  retired: { label: "Retired", variant: "destructive" },
+};
+
+const DECISION_REASONS: Record<string, string> = {
+  target_reached: "hit impression target",
+  early_low_hook: "low hook rate, stopped early",
+  timeout: "test window ended",
+  timeout_low_data: "test window ended with too few impressions",
+  dead: "filtered as dead",
+};
+
+const ExplorationCell = ({ exploration }: { exploration: VideoExploration | null }) => {
+  if (!exploration) return <span className="text-muted-foreground">—</span>;
+  const badge = EXPLORATION_BADGE[exploration.status];
+  const hookRate = exploration.hook_rate >= 0 ? `${Math.round(exploration.hook_rate * 100)}% hook` : "no data";
+  return (
+    <div className="flex flex-col items-center gap-0.5">
+      <Badge variant={badge.variant} className="text-[10px] px-1.5 py-0">{badge.label}</Badge>
+      <span className="text-[11px] text-muted-foreground whitespace-nowrap">
+        {exploration.impressions} imp · {hookRate}
+      </span>
+      {exploration.decision_reason && (
+        <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+          {DECISION_REASONS[exploration.decision_reason] ?? exploration.decision_reason}
+        </span>
+      )}
+    </div>
+  );
+};
+
+type ExplorationSettingsForm = Record<
+  "reserved_slot_share" | "impression_target" | "graduation_hook_rate" | "early_retire_impressions" | "early_retire_hook_rate" | "max_test_days",
+  string
+>;
+
+const EXPLORATION_FIELDS: { key: keyof ExplorationSettingsForm; label: string; step: string; min: number; max?: number }[] = [
+  { key: "reserved_slot_share", label: "Reserved slot share", step: "0.01", min: 0, max: 0.5 },
+  { key: "impression_target", label: "Impression target", step: "1", min: 1 },
+  { key: "graduation_hook_rate", label: "Graduate at hook rate ≥", step: "0.01", min: 0, max: 1 },
+  { key: "early_retire_impressions", label: "Early retire after impressions", step: "1", min: 1 },
+  { key: "early_retire_hook_rate", label: "Early retire below hook rate", step: "0.01", min: 0, max: 1 },
+  { key: "max_test_days", label: "Max test days", step: "1", min: 1, max: 7 },
+];
+
+const ExplorationSettingsPanel = () => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [enabled, setEnabled] = useState(true);
+  const [form, setForm] = useState<ExplorationSettingsForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || form) return;
+    supabase
+      .from("feed_exploration_settings")
+      .select("*")
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error || !data) {
+          toast({ title: "Error", description: "Failed to load exploration settings", variant: "destructive" });
+          return;
+        }
+        setEnabled(data.enabled);
+        setForm(Object.fromEntries(EXPLORATION_FIELDS.map(f => [f.key, String(data[f.key])])) as ExplorationSettingsForm);
+      });
+  }, [open, form, toast]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    const values = Object.fromEntries(EXPLORATION_FIELDS.map(f => [f.key, Number(form[f.key])]));
+    const invalid = EXPLORATION_FIELDS.find(f => {
+      const value = values[f.key];
+      return !Number.isFinite(value) || value < f.min || (f.max !== undefined && value > f.max);
+    });
+    if (invalid) {
+      toast({ title: "Invalid value", description: `${invalid.label} is out of range`, variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const { error } = await supabase
+      .from("feed_exploration_settings")
+      .update({ ...values, enabled, updated_at: new Date().toISOString() })
+      .eq("id", true);
+    setSaving(false);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Saved", description: "Exploration settings apply from the next feed request" });
+    }
+  };
+
+  return (
+    <div className="rounded-md border">
+      <button onClick={() => setOpen(o => !o)} className="w-full flex items-center gap-2 px-4 py-3 text-sm font-medium">
+        <FlaskConical className="h-4 w-4" />
+        New upload exploration
+        <span className="ml-auto text-xs text-muted-foreground">{open ? "Hide" : "Settings"}</span>
+      </button>
+      {open && (
+        <div className="border-t px-4 py-3 space-y-3">
+          {!form ? (
+            <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+          ) : (
+            <>
+              <p className="text-xs text-muted-foreground">
+                New uploads get a guaranteed share of For You slots until they reach the impression target,
+                with more slots going to videos that hook viewers. Tests then graduate into normal ranking or are retired from For You.
+              </p>
+              <div className="flex items-center gap-2">
+                <Switch id="exploration-enabled" checked={enabled} onCheckedChange={setEnabled} />
+                <Label htmlFor="exploration-enabled">Enabled</Label>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {EXPLORATION_FIELDS.map(f => (
+                  <div key={f.key} className="space-y-1">
+                    <Label htmlFor={`exploration-${f.key}`} className="text-xs">{f.label}</Label>
+                    <Input
+                      id={`exploration-${f.key}`}
+                      type="number"
+                      step={f.step}
+                      min={f.min}
+                      max={f.max}
+                      value={form[f.key]}
+                      onChange={(e) => setForm({ ...form, [f.key]: e.target.value })}
+                      className="h-8"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <Button size="sm" variant="outline" onClick={handleSave} disabled={saving}>
+                  {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                  Save
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const AdminVideos = () => {
   const { session } = useAuth();
   const { toast } = useToast();
@@ -226,6 +384,8 @@ export const AdminVideos = () => {
 
   return (
     <div className="space-y-4">
+      <ExplorationSettingsPanel />
+
       <div className="flex flex-col sm:flex-row gap-3">
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -286,14 +446,15 @@ export const AdminVideos = () => {
               <TableHead className="hidden xl:table-cell text-center">TTFF</TableHead>
               <TableHead className="hidden 2xl:table-cell text-center">Fast&lt;2s</TableHead>
               <TableHead className="hidden 2xl:table-cell text-center">Stall</TableHead>
+              <TableHead className="hidden xl:table-cell text-center">Exploration</TableHead>
               <TableHead className="w-[50px]"></TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {loading && videos.length === 0 ? (
-              <TableRow><TableCell colSpan={13} className="text-center py-8"><Loader2 className="h-6 w-6 animate-spin mx-auto" /></TableCell></TableRow>
+              <TableRow><TableCell colSpan={14} className="text-center py-8"><Loader2 className="h-6 w-6 animate-spin mx-auto" /></TableCell></TableRow>
             ) : videos.length === 0 ? (
-              <TableRow><TableCell colSpan={13} className="text-center py-8 text-muted-foreground">No videos found</TableCell></TableRow>
+              <TableRow><TableCell colSpan={14} className="text-center py-8 text-muted-foreground">No videos found</TableCell></TableRow>
             ) : (
               videos.map((video) => (
                 <TableRow key={video.id} className={loading ? "opacity-50" : ""}>
@@ -317,6 +478,7 @@ export const AdminVideos = () => {
                   </TableCell>
                   <TableCell className="hidden 2xl:table-cell text-center">{formatPercent(video.startup_fast_start_rate)}</TableCell>
                   <TableCell className="hidden 2xl:table-cell text-center">{formatPercent(video.startup_stall_rate)}</TableCell>
+                  <TableCell className="hidden xl:table-cell text-center"><ExplorationCell exploration={video.exploration} /></TableCell>
                   <TableCell>
                     <Button variant="ghost" size="icon" onClick={() => setDeleteVideo(video)} className="text-destructive hover:text-destructive hover:bg-destructive/10">
                       <Trash2 className="h-4 w-4" />
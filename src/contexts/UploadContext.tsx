@@ -1,32 +1,69 @@
 import { createContext, useContext, useState, useCallback, useRef, useEffect, ReactNode } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-
-type UploadStatus = 'idle' | 'uploading' | 'processing' | 'complete' | 'error';
-
-interface QueuedUpload {
+import {
+  uploadResumable,
+  getFileFingerprint,
+  loadPendingUploads,
+  savePendingUpload,
+  removePendingUpload,
+  UploadExpiredError,
+  UploadAbortedError,
+  type PendingUpload,
+} from "@/lib/tusUpload";
+
+export type UploadItemStatus = 'pending' | 'uploading' | 'processing' | 'failed' | 'done';
+
+export interface UploadItem {
+  id: string;
   file: File;
   description: string;
   categories: string[];
   userId: string;
-}
-
-interface UploadState {
-  status: UploadStatus;
+  status: UploadItemStatus;
+  /** Upload byte progress, 0–100 */
   progress: number;
   videoId: string | null;
-  queueCount: number; // how many are waiting (excluding current)
-  currentIndex: number; // 1-based index of current upload in batch
-  totalInBatch: number; // total uploads in this batch
+  error: string | null;
+  /** When processing started, for the poll timeout */
+  processingSince: number | null;
 }
 
 interface UploadContextType {
-  uploadState: UploadState;
+  items: UploadItem[];
   startUpload: (file: File, description: string, categories: string[], userId: string) => void;
+  cancelUpload: (id: string) => void;
+  retryUpload: (id: string) => void;
+  /** Moves a pending item earlier (-1) or later (1) in the queue */
+  moveUpload: (id: string, direction: -1 | 1) => void;
+  /** Removes done and failed items */
   dismiss: () => void;
   isUploading: boolean;
+  /** Interrupted uploads (e.g. by a reload); picking the same file resumes them */
+  pendingUploads: PendingUpload[];
+  discardPendingUpload: (fingerprint: string) => Promise<void>;
 }
 
+interface StreamUpload {
+  videoId: string;
+  uploadUrl: string;
+  cloudflareUploadId: string;
+}
+
+// Parallel byte uploads; processing happens on Cloudflare and doesn't count
+const MAX_CONCURRENT_UPLOADS = 2;
+const POLL_INTERVAL_MS = 3000;
+// The webhook finishes slow videos later and notifies the uploader
+const PROCESSING_POLL_TIMEOUT_MS = 10 * 60 * 1000;
+const AUTO_CLEAR_MS = 3000;
+
+const createStreamUpload = async (body: Record<string, unknown>): Promise<StreamUpload> => {
+  const { data, error } = await supabase.functions.invoke('create-stream-upload', { body });
+  if (error) throw error;
+  if (!data?.uploadUrl) throw new Error(data?.error || "Could not start upload");
+  return data as StreamUpload;
+};
+
 const UploadContext = createContext<UploadContextType | null>(null);
 
 export const useUpload = () => {
@@ -35,201 +72,259 @@ export const useUpload = () => {
   return ctx;
 };
 
-const initialState: UploadState = {
-  status: 'idle',
-  progress: 0,
-  videoId: null,
-  queueCount: 0,
-  currentIndex: 0,
-  totalInBatch: 0,
-};
-
 export const UploadProvider = ({ children }: { children: ReactNode }) => {
-  const [uploadState, setUploadState] = useState<UploadState>(initialState);
-  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const progressRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const queueRef = useRef<QueuedUpload[]>([]);
-  const isProcessingRef = useRef(false);
-  const batchTotalRef = useRef(0);
-  const batchIndexRef = useRef(0);
-
-  const isUploading = uploadState.status === 'uploading' || uploadState.status === 'processing';
-
-  // Warn before closing tab during active upload
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>(() => loadPendingUploads());
+  // Mirror of `items` for the scheduler, which runs outside render
+  const itemsRef = useRef<UploadItem[]>([]);
+  const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
+
+  const commit = useCallback((next: UploadItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  }, []);
+
+  const updateItem = useCallback((id: string, patch: Partial<UploadItem>) => {
+    commit(itemsRef.current.map(item => item.id === id ? { ...item, ...patch } : item));
+  }, [commit]);
+
+  const isUploading = items.some(i => i.status === 'pending' || i.status === 'uploading' || i.status === 'processing');
+  const hasActiveBytes = items.some(i => i.status === 'uploading');
+
+  // Warn before closing tab while bytes are still going up
   useEffect(() => {
-    if (!isUploading) return;
+    if (!hasActiveBytes) return;
     const handler = (e: BeforeUnloadEvent) => {
       e.preventDefault();
       e.returnValue = '';
     };
     window.addEventListener('beforeunload', handler);
     return () => window.removeEventListener('beforeunload', handler);
-  }, [isUploading]);
+  }, [hasActiveBytes]);
 
-  const cleanupTimers = useCallback(() => {
-    if (pollRef.current) { clearInterval(pollRef.current); pollRef.current = null; }
-    if (timeoutRef.current) { clearTimeout(timeoutRef.current); timeoutRef.current = null; }
-    if (progressRef.current) { clearInterval(progressRef.current); progressRef.current = null; }
-  }, []);
+  const runItem = useCallback(async (item: UploadItem) => {
+    const fingerprint = getFileFingerprint(item.file, item.userId);
+    const controller = new AbortController();
+    abortControllersRef.current.set(item.id, controller);
+    updateItem(item.id, { status: 'uploading', progress: 0, error: null });
 
-  const dismiss = useCallback(() => {
-    cleanupTimers();
-    queueRef.current = [];
-    isProcessingRef.current = false;
-    batchTotalRef.current = 0;
-    batchIndexRef.current = 0;
-    setUploadState(initialState);
-  }, [cleanupTimers]);
-
-  const simulateProgress = useCallback((stage: 'uploading' | 'processing') => {
-    if (progressRef.current) clearInterval(progressRef.current);
-    const max = stage === 'uploading' ? 45 : 95;
-    const step = stage === 'uploading' ? 5 : 2;
-    const interval = stage === 'uploading' ? 200 : 500;
-    progressRef.current = setInterval(() => {
-      setUploadState(prev => {
-        if (prev.progress >= max) {
-          if (progressRef.current) clearInterval(progressRef.current);
-          return prev;
+    try {
+      const resumed = loadPendingUploads().find(e => e.fingerprint === fingerprint);
+
+      let upload: StreamUpload;
+      if (resumed) {
+        upload = resumed;
+        await supabase.from('videos').update({
+          description: item.description.trim() || null,
+          tags: item.categories.length > 0 ? item.categories : null,
+        }).eq('id', resumed.videoId);
+      } else {
+        upload = await createStreamUpload({
+          uploadLength: item.file.size,
+          description: item.description,
+          categories: item.categories,
+        });
+      }
+      if (controller.signal.aborted) {
+        // Cancelled while the link was being issued; drop the placeholder it created
+        if (!resumed) {
+          await supabase.from('videos').delete().eq('id', upload.videoId).eq('processing_status', 'uploading');
         }
-        return { ...prev, progress: prev.progress + step };
+        throw new UploadAbortedError();
+      }
+
+      const persist = (bytesUploaded: number) => {
+        savePendingUpload({
+          fingerprint,
+          userId: item.userId,
+          videoId: upload.videoId,
+          uploadUrl: upload.uploadUrl,
+          cloudflareUploadId: upload.cloudflareUploadId,
+          fileName: item.file.name,
+          fileSize: item.file.size,
+          bytesUploaded,
+          createdAt: resumed?.createdAt ?? Date.now(),
+        });
+      };
+      persist(resumed?.bytesUploaded ?? 0);
+      setPendingUploads(loadPendingUploads());
+      updateItem(item.id, { videoId: upload.videoId });
+
+      const runUpload = () => uploadResumable({
+        uploadUrl: upload.uploadUrl,
+        file: item.file,
+        signal: controller.signal,
+        onProgress: (sent, total) => {
+          updateItem(item.id, { progress: Math.min(99, Math.floor((sent / total) * 100)) });
+        },
+        onChunkComplete: persist,
       });
-    }, interval);
-  }, []);
 
-  const processNext = useCallback(async () => {
-    if (queueRef.current.length === 0) {
-      isProcessingRef.current = false;
-      batchTotalRef.current = 0;
-      batchIndexRef.current = 0;
-      return;
+      try {
+        await runUpload();
+      } catch (err) {
+        if (!(err instanceof UploadExpiredError)) throw err;
+        // Link expired (e.g. resumed much later): get a new one for the same video and start over
+        upload = await createStreamUpload({ uploadLength: item.file.size, videoId: upload.videoId });
+        persist(0);
+        await runUpload();
+      }
+
+      removePendingUpload(fingerprint);
+      setPendingUploads(loadPendingUploads());
+      updateItem(item.id, { status: 'processing', progress: 100, processingSince: Date.now() });
+
+      // Fire processing in background; the poll below picks up the result
+      supabase.functions.invoke('process-video-cloudflare', {
+        body: { videoId: upload.videoId, cloudflareUploadId: upload.cloudflareUploadId }
+      }).catch(err => console.error('Video processing error:', err));
+    } catch (error) {
+      setPendingUploads(loadPendingUploads());
+      if (error instanceof UploadAbortedError) return; // cancelUpload already removed it
+      const canResume = loadPendingUploads().some(e => e.fingerprint === fingerprint);
+      const message = error instanceof Error ? error.message : "Upload failed";
+      updateItem(item.id, {
+        status: 'failed',
+        error: canResume ? `${message}. Retry to resume.` : message,
+      });
+    } finally {
+      abortControllersRef.current.delete(item.id);
     }
+  }, [updateItem]);
+
+  // Start pending items while there's room under the concurrency limit
+  const pump = useCallback(() => {
+    let active = itemsRef.current.filter(i => i.status === 'uploading').length;
+    for (const item of itemsRef.current) {
+      if (active >= MAX_CONCURRENT_UPLOADS) break;
+      if (item.status !== 'pending') continue;
+      active++;
+      runItem(item).finally(pump);
+    }
+  }, [runItem]);
+
+  // One poll for every item waiting on Cloudflare
+  const processingIds = items.filter(i => i.status === 'processing' && i.videoId).map(i => i.videoId).join(',');
+  useEffect(() => {
+    if (!processingIds) return;
+    const interval = setInterval(async () => {
+      const waiting = itemsRef.current.filter(i => i.status === 'processing' && i.videoId);
+      if (waiting.length === 0) return;
+      const { data } = await supabase
+        .from('videos')
+        .select('id, processing_status, processing_error')
+        .in('id', waiting.map(i => i.videoId as string));
+      const byId = new Map((data || []).map(v => [v.id, v]));
+
+      for (const item of waiting) {
+        const video = byId.get(item.videoId as string);
+        if (video?.processing_status === 'completed') {
+          updateItem(item.id, { status: 'done' });
+          toast.success("Video posted!");
+        } else if (video?.processing_status === 'failed') {
+          updateItem(item.id, { status: 'failed', error: video.processing_error || "Processing failed" });
+          toast.error(video.processing_error || "Video processing failed.");
+        } else if (item.processingSince && Date.now() - item.processingSince > PROCESSING_POLL_TIMEOUT_MS) {
+          updateItem(item.id, { status: 'done' });
+          toast.success("Still processing. We'll let you know when it's live.");
+        }
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [processingIds, updateItem]);
 
-    isProcessingRef.current = true;
-    const item = queueRef.current.shift()!;
-    batchIndexRef.current += 1;
+  // Clear the widget shortly after everything finished cleanly
+  useEffect(() => {
+    if (items.length === 0 || isUploading || items.some(i => i.status === 'failed')) return;
+    const timer = setTimeout(() => commit([]), AUTO_CLEAR_MS);
+    return () => clearTimeout(timer);
+  }, [items, isUploading, commit]);
 
-    setUploadState({
-      status: 'uploading',
+  const startUpload = useCallback((file: File, description: string, categories: string[], userId: string) => {
+    const item: UploadItem = {
+      id: crypto.randomUUID ? crypto.randomUUID() : `upload_${Date.now()}_${Math.random().toString(36).substring(2)}`,
+      file,
+      description,
+      categories,
+      userId,
+      status: 'pending',
       progress: 0,
       videoId: null,
-      queueCount: queueRef.current.length,
-      currentIndex: batchIndexRef.current,
-      totalInBatch: batchTotalRef.current,
-    });
-    simulateProgress('uploading');
-
-    try {
-      const fileExt = item.file.name.split(".").pop();
-      const fileName = `${Math.random().toString(36).substring(2)}-${Date.now()}.${fileExt}`;
-      const filePath = `${item.userId}/${fileName}`;
-
-      const { error: uploadError } = await supabase.storage.from("videos").upload(filePath, item.file);
-      if (uploadError) throw uploadError;
-
-      setUploadState(prev => ({ ...prev, progress: 50 }));
-
-      const { data: { publicUrl } } = supabase.storage.from("videos").getPublicUrl(filePath);
-
-      const { data: insertData, error: insertError } = await supabase.from("videos").insert({
-        user_id: item.userId,
-        title: `Video ${Date.now()}`,
-        description: item.description.trim() || null,
-        video_url: publicUrl,
-        tags: item.categories.length > 0 ? item.categories : null,
-        processing_status: 'pending',
-      }).select('id').single();
-
-      if (insertError) throw insertError;
-
-      setUploadState(prev => ({
-        ...prev,
-        status: 'processing',
-        progress: 50,
-        videoId: insertData.id,
-      }));
-      simulateProgress('processing');
-
-      // Fire processing in background
-      supabase.functions.invoke('process-video-cloudflare', {
-        body: { videoUrl: publicUrl, videoId: insertData.id }
-      }).catch(err => console.error('Video processing error:', err));
-
-      // Poll for completion, then move to next
-      await new Promise<void>((resolve) => {
-        const startTime = Date.now();
-        pollRef.current = setInterval(async () => {
-          const { data } = await supabase
-            .from('videos')
-            .select('processing_status')
-            .eq('id', insertData.id)
-            .single();
-
-          if (data?.processing_status === 'completed' || data?.processing_status === 'failed') {
-            cleanupTimers();
-            if (data.processing_status === 'completed') {
-              toast.success(`Video ${batchIndexRef.current}/${batchTotalRef.current} uploaded!`);
-            } else {
-              toast.error(`Video ${batchIndexRef.current}/${batchTotalRef.current} processing failed.`);
-            }
-            resolve();
-          } else if (Date.now() - startTime > 120000) {
-            // Timeout — assume success and move on
-            cleanupTimers();
-            toast.success(`Video ${batchIndexRef.current}/${batchTotalRef.current} uploaded!`);
-            resolve();
-          }
-        }, 2000);
-      });
-
-    } catch (error: any) {
-      cleanupTimers();
-      toast.error(error.message || `Upload ${batchIndexRef.current} failed`);
+      error: null,
+      processingSince: null,
+    };
+    const queuedBehind = itemsRef.current.filter(i => i.status === 'pending' || i.status === 'uploading').length;
+    commit([...itemsRef.current, item]);
+    if (queuedBehind >= MAX_CONCURRENT_UPLOADS) {
+      toast.success("Added to upload queue");
     }
-
-    // Process next in queue or finish
-    if (queueRef.current.length > 0) {
-      processNext();
-    } else {
-      setUploadState({
-        status: 'complete',
-        progress: 100,
-        videoId: null,
-        queueCount: 0,
-        currentIndex: batchIndexRef.current,
-        totalInBatch: batchTotalRef.current,
-      });
-      setTimeout(() => {
-        setUploadState(initialState);
-        isProcessingRef.current = false;
-        batchTotalRef.current = 0;
-        batchIndexRef.current = 0;
-      }, 3000);
+    pump();
+  }, [commit, pump]);
+
+  const discardPendingUpload = useCallback(async (fingerprint: string) => {
+    const entry = loadPendingUploads().find(e => e.fingerprint === fingerprint);
+    removePendingUpload(fingerprint);
+    setPendingUploads(loadPendingUploads());
+    if (entry) {
+      // Only the placeholder row; anything already processing is left alone
+      await supabase.from('videos').delete().eq('id', entry.videoId).eq('processing_status', 'uploading');
     }
-  }, [cleanupTimers, simulateProgress]);
+  }, []);
 
-  const startUpload = useCallback((file: File, description: string, categories: string[], userId: string) => {
-    queueRef.current.push({ file, description, categories, userId });
-    batchTotalRef.current += 1;
-
-    // Update queue count in UI
-    setUploadState(prev => ({
-      ...prev,
-      queueCount: queueRef.current.length,
-      totalInBatch: batchTotalRef.current,
-    }));
-
-    // If nothing is currently processing, start
-    if (!isProcessingRef.current) {
-      processNext();
+  const cancelUpload = useCallback((id: string) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (!item || item.status === 'processing' || item.status === 'done') return;
+    abortControllersRef.current.get(id)?.abort();
+    commit(itemsRef.current.filter(i => i.id !== id));
+    if (item.status === 'uploading' || item.status === 'failed') {
+      discardPendingUpload(getFileFingerprint(item.file, item.userId));
+    }
+    pump();
+  }, [commit, discardPendingUpload, pump]);
+
+  const retryUpload = useCallback((id: string) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (!item || item.status !== 'failed') return;
+    // A failure after the upload finished can't be resumed; start a fresh upload
+    if (item.videoId && !loadPendingUploads().some(e => e.videoId === item.videoId)) {
+      updateItem(id, { status: 'pending', progress: 0, error: null, videoId: null, processingSince: null });
     } else {
-      toast.success("Added to upload queue");
+      updateItem(id, { status: 'pending', error: null });
     }
-  }, [processNext]);
+    pump();
+  }, [updateItem, pump]);
+
+  const moveUpload = useCallback((id: string, direction: -1 | 1) => {
+    const list = [...itemsRef.current];
+    const from = list.findIndex(i => i.id === id);
+    if (from < 0 || list[from].status !== 'pending') return;
+    // Swap with the nearest pending neighbour; started items keep their place
+    let to = from + direction;
+    while (to >= 0 && to < list.length && list[to].status !== 'pending') to += direction;
+    if (to < 0 || to >= list.length) return;
+    [list[from], list[to]] = [list[to], list[from]];
+    commit(list);
+  }, [commit]);
+
+  const dismiss = useCallback(() => {
+    commit(itemsRef.current.filter(i => i.status !== 'done' && i.status !== 'failed'));
+  }, [commit]);
+
+  const activeVideoIds = new Set(items.filter(i => i.status === 'uploading' && i.videoId).map(i => i.videoId));
 
   return (
-    <UploadContext.Provider value={{ uploadState, startUpload, dismiss, isUploading }}>
+    <UploadContext.Provider value={{
+      items,
+      startUpload,
+      cancelUpload,
+      retryUpload,
+      moveUpload,
+      dismiss,
+      isUploading,
+      // In-flight uploads are persisted too, but aren't waiting on the user
+      pendingUploads: pendingUploads.filter(p => !activeVideoIds.has(p.videoId)),
+      discardPendingUpload,
+    }}>
       {children}
     </UploadContext.Provider>
   );
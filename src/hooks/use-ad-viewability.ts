@@ -0,0 +1,142 @@
+import { useRef, useCallback, useEffect, type RefObject } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { postKeepalive } from '@/lib/keepalive';
+
+// Played-through threshold when the loop wraps before `ended` would fire
+const COMPLETION_RATIO = 0.9;
+// Larger currentTime jumps are seeks / stalls recovering, not watching
+const MAX_TICK_SECONDS = 1;
+
+interface UseAdViewabilityOptions {
+  adId: string;
+  isActive: boolean;
+  videoRef: RefObject<HTMLVideoElement>;
+  containerRef: RefObject<HTMLElement>;
+  currentUserId: string | null;
+  /** Continuous visible playback needed before the impression counts */
+  minVisibleMs: number;
+  /** Share of the ad that must be on screen, 0-1 */
+  minVisibleRatio: number;
+}
+
+/**
+ * Viewable ad impressions.
+ *
+ * Playback only counts while the ad is the active item, the tab is visible
+ * and at least `minVisibleRatio` of it is on screen. Once that has lasted
+ * `minVisibleMs` without interruption the exposure is viewable. When the ad
+ * is scrolled away, unmounted or the page hides, one `ad_views` row is
+ * written with the visible watch time and whether it played through.
+ * Exposures that never became viewable aren't recorded.
+ */
+export function useAdViewability({
+  adId,
+  isActive,
+  videoRef,
+  containerRef,
+  currentUserId,
+  minVisibleMs,
+  minVisibleRatio,
+}: UseAdViewabilityOptions) {
+  const visibleRatioRef = useRef(0);
+  const lastTimeRef = useRef<number | null>(null);
+  const streakMsRef = useRef(0);
+  const watchMsRef = useRef(0);
+  const viewableRef = useRef(false);
+  const completedRef = useRef(false);
+
+  // Ends the current exposure; the next activation starts a fresh one
+  const flush = useCallback((beacon: boolean) => {
+    const viewable = viewableRef.current;
+    const watchMs = watchMsRef.current;
+    const completed = completedRef.current;
+    lastTimeRef.current = null;
+    streakMsRef.current = 0;
+    watchMsRef.current = 0;
+    viewableRef.current = false;
+    completedRef.current = false;
+    if (!viewable) return;
+
+    const duration = videoRef.current?.duration;
+    const row = {
+      ad_id: adId,
+      viewer_id: localStorage.getItem('anonymous_viewer_id_v1') || 'unknown',
+      session_id: localStorage.getItem('video_session_v2') || 'unknown',
+      user_id: currentUserId || null,
+      viewable: true,
+      watch_ms: Math.round(watchMs),
+      ad_duration_ms: duration && Number.isFinite(duration) ? Math.round(duration * 1000) : null,
+      completed,
+    };
+
+    if (!beacon) {
+      supabase.from('ad_views').insert(row).then(({ error }) => {
+        if (error) console.error('[AdViewability] Failed to record impression:', error);
+      });
+      return;
+    }
+
+    postKeepalive('ad_views', row);
+  }, [adId, currentUserId, videoRef]);
+
+  // How much of the ad is on screen
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        visibleRatioRef.current = entry.intersectionRatio;
+      },
+      { threshold: [0, 0.25, 0.5, 0.75, 1] }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  // Accumulate visible playback while active; flush when the ad goes inactive
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isActive || !video) return;
+
+    const onTimeUpdate = () => {
+      const t = video.currentTime;
+      const last = lastTimeRef.current;
+      lastTimeRef.current = t;
+      if (last === null) return;
+
+      let delta = t - last;
+      if (delta < 0) {
+        // Looped back to the start
+        if (video.duration && last >= video.duration * COMPLETION_RATIO) completedRef.current = true;
+        delta = t;
+      }
+      if (delta > MAX_TICK_SECONDS) return;
+
+      if (visibleRatioRef.current >= minVisibleRatio && document.visibilityState === 'visible') {
+        watchMsRef.current += delta * 1000;
+        streakMsRef.current += delta * 1000;
+        if (streakMsRef.current >= minVisibleMs) viewableRef.current = true;
+      } else {
+        streakMsRef.current = 0;
+      }
+    };
+
+    const onEnded = () => {
+      completedRef.current = true;
+    };
+
+    video.addEventListener('timeupdate', onTimeUpdate);
+    video.addEventListener('ended', onEnded);
+    return () => {
+      video.removeEventListener('timeupdate', onTimeUpdate);
+      video.removeEventListener('ended', onEnded);
+      flush(false);
+    };
+  }, [isActive, videoRef, minVisibleMs, minVisibleRatio, flush]);
+
+  useEffect(() => {
+    const handlePageHide = () => flush(true);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [flush]);
+}
@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback, type RefObject } from 'react';
+import { loadCaptionTracks, pickCaptionTrack, type CaptionTrack } from '@/lib/captions';
+import { getCaptionsEnabled, setCaptionsEnabled, onCaptionsChange } from '@/lib/globalCaptions';
+
+interface UseCaptionsOptions {
+  videoId: string | null | undefined;
+  /** Tracks are fetched once the item is active or about to be */
+  enabled: boolean;
+  videoRef: RefObject<HTMLVideoElement>;
+  /**
+   * Line (counted from the bottom when negative) for cues that don't set
+   * their own, so captions clear overlays drawn over the video.
+   */
+  cueLine?: number;
+}
+
+/**
+ * Captions for one player. Render `tracks` as <track> children of the
+ * video; the hook shows the best-matching language while the global CC
+ * toggle is on and keeps every other track disabled.
+ */
+export function useCaptions({ videoId, enabled, videoRef, cueLine }: UseCaptionsOptions) {
+  const [tracks, setTracks] = useState<CaptionTrack[]>([]);
+  const [captionsOn, setCaptionsOn] = useState(getCaptionsEnabled());
+  // Bumped after the creator edits captions
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => onCaptionsChange(setCaptionsOn), []);
+
+  useEffect(() => {
+    setTracks([]);
+    if (!videoId || !enabled) return;
+    let cancelled = false;
+    const { tracks: pending, release } = loadCaptionTracks(videoId);
+    pending.then((loaded) => {
+      if (!cancelled) setTracks(loaded);
+    });
+    return () => {
+      cancelled = true;
+      release();
+    };
+  }, [videoId, enabled, revision]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || tracks.length === 0) return;
+    const chosen = captionsOn ? pickCaptionTrack(tracks)?.language : null;
+
+    const placeCues = (textTrack: TextTrack) => {
+      if (cueLine === undefined || !textTrack.activeCues) return;
+      for (const cue of Array.from(textTrack.activeCues)) {
+        if (cue instanceof VTTCue && cue.line === 'auto') cue.line = cueLine;
+      }
+    };
+
+    // Track elements render after this effect's commit; the playback
+    // controller's source swaps can also reset modes, so re-apply on both
+    const applyModes = () => {
+      for (const textTrack of Array.from(video.textTracks)) {
+        if (textTrack.kind !== 'subtitles' && textTrack.kind !== 'captions') continue;
+        const mode = textTrack.language === chosen ? 'showing' : 'disabled';
+        if (textTrack.mode !== mode) textTrack.mode = mode;
+        textTrack.oncuechange = mode === 'showing' ? () => placeCues(textTrack) : null;
+      }
+    };
+
+    applyModes();
+    video.textTracks.addEventListener('addtrack', applyModes);
+    video.addEventListener('loadedmetadata', applyModes);
+    return () => {
+      video.textTracks.removeEventListener('addtrack', applyModes);
+      video.removeEventListener('loadedmetadata', applyModes);
+      for (const textTrack of Array.from(video.textTracks)) textTrack.oncuechange = null;
+    };
+  }, [tracks, captionsOn, cueLine, videoRef]);
+
+  const toggleCaptions = useCallback(() => {
+    setCaptionsEnabled(!getCaptionsEnabled());
+  }, []);
+
+  /** Refetches after uploads or deletes (the caption cache is already invalidated) */
+  const reloadCaptions = useCallback(() => setRevision(r => r + 1), []);
+
+  return { tracks, hasCaptions: tracks.length > 0, captionsOn, toggleCaptions, reloadCaptions };
+}
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Category = Tables<"categories">;
+
+export const CATEGORIES_QUERY_KEY = ["categories"] as const;
+
+/**
+ * Active categories in display order. Shared through the query cache so the
+ * feed, search, upload and edit dialogs all read one request.
+ */
+export const useCategories = () => {
+  const { data = [], isLoading } = useQuery({
+    queryKey: CATEGORIES_QUERY_KEY,
+    staleTime: 5 * 60 * 1000,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("*")
+        .eq("is_active", true)
+        .order("sort_order", { ascending: true });
+      if (error) throw error;
+      return data as Category[];
+    },
+  });
+
+  return { categories: data, loading: isLoading };
+};
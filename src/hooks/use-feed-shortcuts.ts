@@ -0,0 +1,202 @@
+import { useState, useEffect, useRef, type RefObject } from 'react';
+
+/** Shown in the shortcuts help overlay */
+export const FEED_SHORTCUTS: { keys: string[]; label: string }[] = [
+  { keys: ['↑', 'K'], label: 'Previous video' },
+  { keys: ['↓', 'J'], label: 'Next video' },
+  { keys: ['Space'], label: 'Pause / play' },
+  { keys: ['M'], label: 'Mute / unmute' },
+  { keys: ['L'], label: 'Like' },
+  { keys: ['S'], label: 'Save' },
+  { keys: ['C'], label: 'Comments' },
+  { keys: ['Shift+C'], label: 'Share' },
+  { keys: ['←', '→'], label: 'Seek 5 seconds' },
+  { keys: ['?'], label: 'Show shortcuts' },
+];
+
+const SEEK_STEP_S = 5;
+// Wheel: pixels of vertical delta that count as one "next"
+const WHEEL_THRESHOLD_PX = 40;
+// A gesture (including trackpad inertia) ends after this much wheel silence
+const WHEEL_IDLE_MS = 180;
+// Lets the smooth scroll land before the next gesture can move again
+const WHEEL_MIN_LOCK_MS = 450;
+const LINE_HEIGHT_PX = 16;
+// A target the scroll never reached (interrupted by a drag) stops counting
+const TARGET_TTL_MS = 1000;
+
+/**
+ * Keys belong to the feed only when nothing else wants them: no modifier
+ * (Shift is allowed for ? and Shift+C), no text field focused, and no
+ * dialog, drawer or menu open on top.
+ */
+export function isFeedKeyEvent(e: KeyboardEvent): boolean {
+  if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return false;
+  const target = e.target as HTMLElement | null;
+  if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return false;
+  return !document.querySelector('[role="dialog"], [role="alertdialog"], [role="menu"], [role="listbox"]');
+}
+
+interface UseFeedNavigationOptions {
+  containerRef: RefObject<HTMLElement>;
+  activeIndex: number;
+  count: number;
+  enabled?: boolean;
+}
+
+/**
+ * Desktop navigation for a snap-scrolling feed: ↑/↓ or J/K, and the mouse
+ * wheel. A wheel gesture moves exactly one item however long its inertia
+ * runs, instead of the browser's free scroll fighting the snap points.
+ */
+export function useFeedNavigation({ containerRef, activeIndex, count, enabled = true }: UseFeedNavigationOptions) {
+  // Presses during a smooth scroll count from where it's heading
+  const stateRef = useRef({ activeIndex, count, target: null as number | null, targetAt: 0 });
+  stateRef.current.activeIndex = activeIndex;
+  stateRef.current.count = count;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) return;
+
+    const step = (delta: number) => {
+      const state = stateRef.current;
+      const heading = state.target !== null && state.target !== state.activeIndex
+        && performance.now() - state.targetAt < TARGET_TTL_MS;
+      const from = heading ? state.target! : state.activeIndex;
+      const to = Math.max(0, Math.min(from + delta, state.count - 1));
+      if (to === from) return;
+      state.target = to;
+      state.targetAt = performance.now();
+      container.scrollTo({ top: to * container.clientHeight, behavior: 'smooth' });
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!isFeedKeyEvent(e) || e.shiftKey) return;
+      const key = e.key.toLowerCase();
+      if (key === 'arrowdown' || key === 'j') step(1);
+      else if (key === 'arrowup' || key === 'k') step(-1);
+      else return;
+      e.preventDefault();
+    };
+
+    let accumulated = 0;
+    let lastWheelAt = 0;
+    let lockedAt: number | null = null;
+
+    const onWheel = (e: WheelEvent) => {
+      // Pinch-zoom and horizontal swipes are left to the browser
+      if (e.ctrlKey || Math.abs(e.deltaY) <= Math.abs(e.deltaX)) return;
+      e.preventDefault();
+
+      const now = performance.now();
+      const gap = now - lastWheelAt;
+      lastWheelAt = now;
+
+      if (lockedAt !== null) {
+        if (now - lockedAt < WHEEL_MIN_LOCK_MS || gap < WHEEL_IDLE_MS) return;
+        lockedAt = null;
+      }
+      if (gap > WHEEL_IDLE_MS) accumulated = 0;
+
+      accumulated += e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * LINE_HEIGHT_PX : e.deltaY;
+      if (Math.abs(accumulated) < WHEEL_THRESHOLD_PX) return;
+
+      step(accumulated > 0 ? 1 : -1);
+      accumulated = 0;
+      lockedAt = now;
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    container.addEventListener('wheel', onWheel, { passive: false });
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      container.removeEventListener('wheel', onWheel);
+    };
+  }, [containerRef, enabled]);
+}
+
+interface UsePlayerShortcutsOptions {
+  videoRef: RefObject<HTMLVideoElement>;
+  /** Only the active item listens */
+  enabled: boolean;
+  onToggleMute?: () => void;
+  onLike?: () => void;
+  onSave?: () => void;
+  /** Surfaces without comments leave this out; C then opens share */
+  onComments?: () => void;
+  onShare?: () => void;
+}
+
+/**
+ * Per-video keys: Space, M, L, S, C / Shift+C and ←/→. Returns whether the
+ * viewer paused with Space, so the item can show a play indicator.
+ */
+export function usePlayerShortcuts({ videoRef, enabled, ...handlers }: UsePlayerShortcutsOptions) {
+  const [pausedByUser, setPausedByUser] = useState(false);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    setPausedByUser(false);
+    const video = videoRef.current;
+    if (!enabled || !video) return;
+
+    const onPlay = () => setPausedByUser(false);
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!isFeedKeyEvent(e)) return;
+      const { onToggleMute, onLike, onSave, onComments, onShare } = handlersRef.current;
+
+      switch (e.key) {
+        case ' ':
+          // A focused button would also be "clicked" by the Space keyup
+          if (document.activeElement instanceof HTMLElement) document.activeElement.blur();
+          if (video.paused) {
+            video.play().catch(() => {});
+          } else {
+            video.pause();
+            setPausedByUser(true);
+          }
+          break;
+        case 'ArrowLeft':
+        case 'ArrowRight': {
+          if (!video.duration) return;
+          const delta = e.key === 'ArrowRight' ? SEEK_STEP_S : -SEEK_STEP_S;
+          video.currentTime = Math.max(0, Math.min(video.currentTime + delta, video.duration - 0.1));
+          break;
+        }
+        case 'm': case 'M':
+          if (!onToggleMute) return;
+          onToggleMute();
+          break;
+        case 'l': case 'L':
+          if (!onLike) return;
+          onLike();
+          break;
+        case 's': case 'S':
+          if (!onSave) return;
+          onSave();
+          break;
+        case 'c': case 'C': {
+          const open = e.shiftKey ? onShare : onComments || onShare;
+          if (!open) return;
+          open();
+          break;
+        }
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    video.addEventListener('play', onPlay);
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      video.removeEventListener('play', onPlay);
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, [videoRef, enabled]);
+
+  return { pausedByUser };
+}
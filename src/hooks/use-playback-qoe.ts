@@ -0,0 +1,90 @@
+import { useRef, useCallback, useEffect, type RefObject } from 'react';
+import { createPlaybackId, recordPlaybackEvent, type PlaybackEvent } from '@/lib/playbackTelemetry';
+
+interface UsePlaybackQoeOptions {
+  videoId: string;
+  userId: string | null;
+  isActive: boolean;
+  videoRef: RefObject<HTMLVideoElement>;
+  feedSource?: string | null;
+}
+
+/**
+ * QoE events for one feed item.
+ *
+ * `beginPlayback` starts a new playback (one per activation, including
+ * retries from the UI); `report` records an event against it and is passed
+ * to the playback controller as `onEvent`. The hook itself watches the
+ * video element for the first frame and for rebuffers: a `waiting` after
+ * the first frame that isn't caused by a seek or loop wrap starts a stall,
+ * the next `playing` ends it. A stall still open when the item goes
+ * inactive is closed with detail "abandoned".
+ */
+export function usePlaybackQoe({ videoId, userId, isActive, videoRef, feedSource = null }: UsePlaybackQoeOptions) {
+  const playbackIdRef = useRef<string | null>(null);
+  const startedAtRef = useRef(0);
+  const firstFrameRef = useRef(false);
+  const stallStartRef = useRef<number | null>(null);
+
+  const report = useCallback((event: PlaybackEvent) => {
+    const playbackId = playbackIdRef.current;
+    if (!playbackId) return;
+    recordPlaybackEvent({ videoId, playbackId, userId, feedSource }, event);
+  }, [videoId, userId, feedSource]);
+
+  const beginPlayback = useCallback(() => {
+    playbackIdRef.current = createPlaybackId();
+    startedAtRef.current = performance.now();
+    firstFrameRef.current = false;
+    stallStartRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isActive || !video) return;
+
+    const endStall = (detail?: string) => {
+      const start = stallStartRef.current;
+      if (start === null) return;
+      stallStartRef.current = null;
+      report({ type: 'rebuffer_end', valueMs: performance.now() - start, detail });
+    };
+
+    const onPlaying = () => {
+      if (!playbackIdRef.current) return;
+      if (!firstFrameRef.current) {
+        firstFrameRef.current = true;
+        report({ type: 'first_frame', valueMs: performance.now() - startedAtRef.current });
+        return;
+      }
+      endStall();
+    };
+
+    // Last position seen by timeupdate; a `waiting` behind it on a looping
+    // video is the wrap back to the start, not a stall
+    let lastTime = video.currentTime;
+    const onTimeUpdate = () => {
+      lastTime = video.currentTime;
+    };
+
+    const onWaiting = () => {
+      if (!firstFrameRef.current || video.seeking || stallStartRef.current !== null) return;
+      if (video.loop && video.currentTime < lastTime) return;
+      stallStartRef.current = performance.now();
+      report({ type: 'rebuffer_start' });
+    };
+
+    video.addEventListener('playing', onPlaying);
+    video.addEventListener('waiting', onWaiting);
+    video.addEventListener('timeupdate', onTimeUpdate);
+    return () => {
+      video.removeEventListener('playing', onPlaying);
+      video.removeEventListener('waiting', onWaiting);
+      video.removeEventListener('timeupdate', onTimeUpdate);
+      endStall('abandoned');
+      playbackIdRef.current = null;
+    };
+  }, [isActive, videoRef, report]);
+
+  return { beginPlayback, report };
+}
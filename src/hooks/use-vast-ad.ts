@@ -0,0 +1,92 @@
+import { useState, useEffect, useRef, type RefObject } from 'react';
+import { fetchVastAd, fireVastPixels, VAST_ERROR, type VastAd, type VastTrackingEvent } from '@/lib/vast';
+
+const QUARTILES: [number, VastTrackingEvent][] = [
+  [0.25, 'firstQuartile'],
+  [0.5, 'midpoint'],
+  [0.75, 'thirdQuartile'],
+];
+
+interface UseVastAdOptions {
+  tagUrl: string | null | undefined;
+  isActive: boolean;
+  shouldPreload: boolean;
+  videoRef: RefObject<HTMLVideoElement>;
+  onNoFill?: () => void;
+}
+
+/**
+ * Resolves an ad's VAST tag once it's about to be shown and fires the
+ * creative's impression / start / quartile / complete pixels from the video
+ * element. Each event fires once per ad response; the loop doesn't refire them.
+ *
+ * `vast` is undefined until resolved (or when the ad has no tag), null on no fill.
+ */
+export function useVastAd({ tagUrl, isActive, shouldPreload, videoRef, onNoFill }: UseVastAdOptions) {
+  const [vast, setVast] = useState<VastAd | null | undefined>(undefined);
+  const requestedRef = useRef(false);
+  const firedRef = useRef<Set<VastTrackingEvent | 'impression'>>(new Set());
+  const onNoFillRef = useRef(onNoFill);
+  onNoFillRef.current = onNoFill;
+
+  useEffect(() => {
+    if (!tagUrl || requestedRef.current || (!isActive && !shouldPreload)) return;
+    requestedRef.current = true;
+    fetchVastAd(tagUrl).then(result => {
+      setVast(result);
+      if (!result) onNoFillRef.current?.();
+    });
+  }, [tagUrl, isActive, shouldPreload]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!vast || !isActive || !video) return;
+    const fired = firedRef.current;
+
+    const fire = (event: VastTrackingEvent) => {
+      if (fired.has(event)) return;
+      fired.add(event);
+      fireVastPixels(vast.tracking[event]);
+    };
+
+    const onPlaying = () => {
+      if (!fired.has('impression')) {
+        fired.add('impression');
+        fireVastPixels(vast.impressions);
+      }
+      fire('start');
+    };
+
+    const onTimeUpdate = () => {
+      const duration = Number.isFinite(video.duration) && video.duration > 0 ? video.duration : vast.durationSec;
+      if (!duration) return;
+      const progress = video.currentTime / duration;
+      for (const [threshold, event] of QUARTILES) {
+        if (progress >= threshold) fire(event);
+      }
+      // `loop` means `ended` never fires; treat reaching the last moment as complete
+      if (fired.has('thirdQuartile') && progress >= 0.98) fire('complete');
+    };
+
+    const onEnded = () => fire('complete');
+
+    video.addEventListener('playing', onPlaying);
+    video.addEventListener('timeupdate', onTimeUpdate);
+    video.addEventListener('ended', onEnded);
+    return () => {
+      video.removeEventListener('playing', onPlaying);
+      video.removeEventListener('timeupdate', onTimeUpdate);
+      video.removeEventListener('ended', onEnded);
+    };
+  }, [vast, isActive, videoRef]);
+
+  /** The media file wouldn't play: report it and fall back like a no fill */
+  const reportMediaError = () => {
+    if (!vast) return;
+    fireVastPixels(vast.errors, VAST_ERROR.MEDIA_FAILED);
+    setVast(null);
+    onNoFillRef.current?.();
+  };
+
+  return { vast, reportMediaError };
+}
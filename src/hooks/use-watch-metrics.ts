@@ -1,5 +1,7 @@
 import { useRef, useCallback, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { postKeepalive } from '@/lib/keepalive';
+import type { StartupQuality } from '@/lib/playbackQuality';
 
 // Session expiry: 30 minutes of inactivity
 const SESSION_EXPIRY_MS = 30 * 60 * 1000;
@@ -68,6 +70,16 @@ const updateScrollDepth = (index: number): void => {
   }
 };
 
+// Startup rendition columns of a video_views row
+const startupQualityColumns = (quality: StartupQuality | null) => ({
+  quality_preference: quality?.preference ?? null,
+  startup_height: quality?.height ?? null,
+  startup_bitrate: quality?.bitrate ?? null,
+  startup_estimate_kbps: quality?.estimateBps != null ? Math.round(quality.estimateBps / 1000) : null,
+  startup_quality_source: quality?.source ?? null,
+  startup_warm: quality ? !!quality.warm : null,
+});
+
 interface WatchMetrics {
   videoId: string;
   viewerId: string; // auth.user.id OR anonymous_id (ALWAYS filled)
@@ -78,6 +90,7 @@ interface WatchMetrics {
   watchCompletionPercent: number | null;
   timeToFirstFrameMs: number | null;
   feedSource: string | null;
+  experimentVariantId: string | null;
 }
 
 interface UseWatchMetricsProps {
@@ -87,6 +100,7 @@ interface UseWatchMetricsProps {
   videoRef: React.RefObject<HTMLVideoElement>;
   videoIndex?: number;
   feedSource?: string | null;
+  experimentVariantId?: string | null; // ranking experiment variant that served this feed
   onViewRecorded?: () => void;
 }
 
@@ -97,12 +111,14 @@ export const useWatchMetrics = ({
   videoRef,
   videoIndex = 0,
   feedSource = null,
+  experimentVariantId = null,
   onViewRecorded,
 }: UseWatchMetricsProps) => {
   // Timing refs
   const loadStartTimeRef = useRef<number>(0);
   const ttffRef = useRef<number | null>(null);
   const ttffRecordedRef = useRef(false);
+  const startupQualityRef = useRef<StartupQuality | null>(null);
   
   // Watch time tracking - use timeupdate deltas for accuracy
   const lastTimeUpdateRef = useRef<number>(0);
@@ -119,6 +135,7 @@ export const useWatchMetrics = ({
     if (lastVideoIdRef.current !== videoId) {
       ttffRef.current = null;
       ttffRecordedRef.current = false;
+      startupQualityRef.current = null;
       totalWatchTimeRef.current = 0;
       hasRecordedViewRef.current = false;
       isActivelyPlayingRef.current = false;
@@ -141,6 +158,11 @@ export const useWatchMetrics = ({
     ttffRecordedRef.current = false;
   }, []);
 
+  // Startup rendition picked by the playback controller, logged with the view
+  const markStartupQuality = useCallback((quality: StartupQuality) => {
+    startupQualityRef.current = quality;
+  }, []);
+
   // Record startup failure as synthetic slow TTFF so reliability scoring can downrank bad assets
   const markStartupFailure = useCallback((fallbackTtffMs: number = 10000) => {
     if (ttffRecordedRef.current) return;
@@ -261,8 +283,9 @@ export const useWatchMetrics = ({
       watchCompletionPercent: completionPercent,
       timeToFirstFrameMs: ttffRef.current,
       feedSource,
+      experimentVariantId,
     };
-  }, [videoId, userId, videoRef, feedSource]);
+  }, [videoId, userId, videoRef, feedSource, experimentVariantId]);
 
   // Send metrics to database
   const sendMetrics = useCallback(async () => {
@@ -289,7 +312,9 @@ export const useWatchMetrics = ({
       watch_completion_percent: metrics.watchCompletionPercent,
       time_to_first_frame_ms: metrics.timeToFirstFrameMs,
       feed_source: metrics.feedSource,
+      experiment_variant_id: metrics.experimentVariantId,
       video_position: videoPosition,
+      ...startupQualityColumns(startupQualityRef.current),
     };
 
     // Track test mode logging
@@ -344,7 +369,7 @@ export const useWatchMetrics = ({
     
     hasRecordedViewRef.current = true;
 
-    const payload = JSON.stringify({
+    const row = {
       video_id: metrics.videoId,
       user_id: metrics.authUserId,
       viewer_id: metrics.viewerId,
@@ -354,8 +379,10 @@ export const useWatchMetrics = ({
       watch_completion_percent: metrics.watchCompletionPercent,
       time_to_first_frame_ms: metrics.timeToFirstFrameMs,
       feed_source: metrics.feedSource,
+      experiment_variant_id: metrics.experimentVariantId,
       video_position: parseInt(localStorage.getItem('session_video_count') || '0', 10),
-    });
+      ...startupQualityColumns(startupQualityRef.current),
+    };
 
     if (isTrackTestMode()) {
       console.log('[TrackTest] Sending beacon:', {
@@ -365,24 +392,8 @@ export const useWatchMetrics = ({
       });
     }
 
-    const url = `${import.meta.env.VITE_SUPABASE_URL}/rest/v1/video_views`;
-    const headers = {
-      'Content-Type': 'application/json',
-      'apikey': import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
-      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-      'Prefer': 'return=minimal',
-    };
+    postKeepalive('video_views', row);
 
-    // Use fetch with keepalive for reliability during unload
-    fetch(url, {
-      method: 'POST',
-      headers,
-      body: payload,
-      keepalive: true,
-    }).catch(() => {
-      // Silent fail - best effort
-    });
-    
     if (import.meta.env.DEV || isTrackTestMode()) {
       console.log('[Metrics] Beacon sent on pagehide:', metrics.videoId);
     }
@@ -452,7 +463,9 @@ export const useWatchMetrics = ({
             watch_completion_percent: completionPercent,
             time_to_first_frame_ms: ttffRef.current,
             feed_source: feedSource,
+            experiment_variant_id: experimentVariantId,
             video_position: vp,
+            ...startupQualityColumns(startupQualityRef.current),
           };
 
           if (isTrackTestMode()) {
@@ -475,10 +488,11 @@ export const useWatchMetrics = ({
         }
       }
     };
-  }, [videoId, userId, feedSource]);
+  }, [videoId, userId, feedSource, experimentVariantId]);
 
   return {
     markLoadStart,
+    markStartupQuality,
     markStartupFailure,
     stopWatching,
     sendMetrics,
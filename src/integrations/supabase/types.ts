@@ -18,24 +18,39 @@ export type Database = {
         Row: {
           ad_id: string
           clicked_at: string
+          feed_source: string | null
           id: string
+          invalid_reason: string | null
+          ip_hash: string | null
+          is_valid: boolean
           session_id: string | null
+          user_agent: string | null
           user_id: string | null
           viewer_id: string | null
         }
         Insert: {
           ad_id: string
           clicked_at?: string
+          feed_source?: string | null
           id?: string
+          invalid_reason?: string | null
+          ip_hash?: string | null
+          is_valid?: boolean
           session_id?: string | null
+          user_agent?: string | null
           user_id?: string | null
           viewer_id?: string | null
         }
         Update: {
           ad_id?: string
           clicked_at?: string
+          feed_source?: string | null
           id?: string
+          invalid_reason?: string | null
+          ip_hash?: string | null
+          is_valid?: boolean
           session_id?: string | null
+          user_agent?: string | null
           user_id?: string | null
           viewer_id?: string | null
         }
@@ -49,30 +64,84 @@ export type Database = {
           },
         ]
       }
+      ad_settings: {
+        Row: {
+          cadence: number
+          frequency_cap: number
+          frequency_window_hours: number
+          id: boolean
+          updated_at: string
+          utm_campaign: string
+          utm_medium: string
+          utm_source: string
+          viewability_min_ms: number
+          viewability_min_visible: number
+          viewability_since: string
+        }
+        Insert: {
+          cadence?: number
+          frequency_cap?: number
+          frequency_window_hours?: number
+          id?: boolean
+          updated_at?: string
+          utm_campaign?: string
+          utm_medium?: string
+          utm_source?: string
+          viewability_min_ms?: number
+          viewability_min_visible?: number
+          viewability_since?: string
+        }
+        Update: {
+          cadence?: number
+          frequency_cap?: number
+          frequency_window_hours?: number
+          id?: boolean
+          updated_at?: string
+          utm_campaign?: string
+          utm_medium?: string
+          utm_source?: string
+          viewability_min_ms?: number
+          viewability_min_visible?: number
+          viewability_since?: string
+        }
+        Relationships: []
+      }
       ad_views: {
         Row: {
+          ad_duration_ms: number | null
           ad_id: string
+          completed: boolean
           id: string
           session_id: string | null
           user_id: string | null
+          viewable: boolean
           viewed_at: string
           viewer_id: string | null
+          watch_ms: number | null
         }
         Insert: {
+          ad_duration_ms?: number | null
           ad_id: string
+          completed?: boolean
           id?: string
           session_id?: string | null
           user_id?: string | null
+          viewable?: boolean
           viewed_at?: string
           viewer_id?: string | null
+          watch_ms?: number | null
         }
         Update: {
+          ad_duration_ms?: number | null
           ad_id?: string
+          completed?: boolean
           id?: string
           session_id?: string | null
           user_id?: string | null
+          viewable?: boolean
           viewed_at?: string
           viewer_id?: string | null
+          watch_ms?: number | null
         }
         Relationships: [
           {
@@ -89,37 +158,91 @@ export type Database = {
           cloudflare_video_id: string | null
           created_at: string
           created_by: string
-          external_link: string
+          daily_impression_cap: number | null
+          ends_at: string | null
+          external_link: string | null
           id: string
           is_active: boolean
+          priority: number
+          starts_at: string | null
+          target_categories: string[]
+          target_feed_sources: string[]
           thumbnail_url: string | null
           title: string
           updated_at: string
-          video_url: string
+          vast_tag_url: string | null
+          video_url: string | null
         }
         Insert: {
           cloudflare_video_id?: string | null
           created_at?: string
           created_by: string
-          external_link: string
+          daily_impression_cap?: number | null
+          ends_at?: string | null
+          external_link?: string | null
           id?: string
           is_active?: boolean
+          priority?: number
+          starts_at?: string | null
+          target_categories?: string[]
+          target_feed_sources?: string[]
           thumbnail_url?: string | null
           title: string
           updated_at?: string
-          video_url: string
+          vast_tag_url?: string | null
+          video_url?: string | null
         }
         Update: {
           cloudflare_video_id?: string | null
           created_at?: string
           created_by?: string
-          external_link?: string
+          daily_impression_cap?: number | null
+          ends_at?: string | null
+          external_link?: string | null
           id?: string
           is_active?: boolean
+          priority?: number
+          starts_at?: string | null
+          target_categories?: string[]
+          target_feed_sources?: string[]
           thumbnail_url?: string | null
           title?: string
           updated_at?: string
-          video_url?: string
+          vast_tag_url?: string | null
+          video_url?: string | null
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          cover_image_url: string | null
+          created_at: string
+          display_name: string
+          is_active: boolean
+          slug: string
+          sort_order: number
+          synonyms: string[]
+          updated_at: string
+        }
+        Insert: {
+          cover_image_url?: string | null
+          created_at?: string
+          display_name: string
+          is_active?: boolean
+          slug: string
+          sort_order?: number
+          synonyms?: string[]
+          updated_at?: string
+        }
+        Update: {
+          cover_image_url?: string | null
+          created_at?: string
+          display_name?: string
+          is_active?: boolean
+          slug?: string
+          sort_order?: number
+          synonyms?: string[]
+          updated_at?: string
         }
         Relationships: []
       }
@@ -252,6 +375,69 @@ export type Database = {
           },
         ]
       }
+      feed_exploration_settings: {
+        Row: {
+          early_retire_hook_rate: number
+          early_retire_impressions: number
+          enabled: boolean
+          graduation_hook_rate: number
+          id: boolean
+          impression_target: number
+          max_test_days: number
+          reserved_slot_share: number
+          updated_at: string
+        }
+        Insert: {
+          early_retire_hook_rate?: number
+          early_retire_impressions?: number
+          enabled?: boolean
+          graduation_hook_rate?: number
+          id?: boolean
+          impression_target?: number
+          max_test_days?: number
+          reserved_slot_share?: number
+          updated_at?: string
+        }
+        Update: {
+          early_retire_hook_rate?: number
+          early_retire_impressions?: number
+          enabled?: boolean
+          graduation_hook_rate?: number
+          id?: boolean
+          impression_target?: number
+          max_test_days?: number
+          reserved_slot_share?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      feed_hides: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          target: string
+          user_id: string | null
+          viewer_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          target: string
+          user_id?: string | null
+          viewer_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          target?: string
+          user_id?: string | null
+          viewer_id?: string | null
+        }
+        Relationships: []
+      }
       follows: {
         Row: {
           created_at: string
@@ -442,6 +628,62 @@ export type Database = {
           },
         ]
       }
+      playback_events: {
+        Row: {
+          bitrate: number | null
+          created_at: string
+          detail: string | null
+          event_type: string
+          feed_source: string | null
+          id: string
+          level: number | null
+          playback_id: string
+          session_id: string | null
+          user_id: string | null
+          value_ms: number | null
+          video_id: string
+          viewer_id: string
+        }
+        Insert: {
+          bitrate?: number | null
+          created_at?: string
+          detail?: string | null
+          event_type: string
+          feed_source?: string | null
+          id?: string
+          level?: number | null
+          playback_id: string
+          session_id?: string | null
+          user_id?: string | null
+          value_ms?: number | null
+          video_id: string
+          viewer_id: string
+        }
+        Update: {
+          bitrate?: number | null
+          created_at?: string
+          detail?: string | null
+          event_type?: string
+          feed_source?: string | null
+          id?: string
+          level?: number | null
+          playback_id?: string
+          session_id?: string | null
+          user_id?: string | null
+          value_ms?: number | null
+          video_id?: string
+          viewer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "playback_events_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profile_views: {
         Row: {
           created_at: string
@@ -528,6 +770,80 @@ export type Database = {
         }
         Relationships: []
       }
+      ranking_experiment_variants: {
+        Row: {
+          created_at: string
+          experiment_id: string
+          id: string
+          key: string
+          name: string
+          traffic_weight: number
+          weights: Json
+        }
+        Insert: {
+          created_at?: string
+          experiment_id: string
+          id?: string
+          key: string
+          name: string
+          traffic_weight?: number
+          weights?: Json
+        }
+        Update: {
+          created_at?: string
+          experiment_id?: string
+          id?: string
+          key?: string
+          name?: string
+          traffic_weight?: number
+          weights?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ranking_experiment_variants_experiment_id_fkey"
+            columns: ["experiment_id"]
+            isOneToOne: false
+            referencedRelation: "ranking_experiments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ranking_experiments: {
+        Row: {
+          created_at: string
+          created_by: string
+          description: string | null
+          ended_at: string | null
+          id: string
+          name: string
+          started_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          description?: string | null
+          ended_at?: string | null
+          id?: string
+          name: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          ended_at?: string | null
+          id?: string
+          name?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       saved_videos: {
         Row: {
           created_at: string
@@ -647,6 +963,24 @@ export type Database = {
           },
         ]
       }
+      tag_follows: {
+        Row: {
+          created_at: string
+          tag: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          tag: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          tag?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       tracking_clicks: {
         Row: {
           clicked_at: string
@@ -706,6 +1040,80 @@ export type Database = {
         }
         Relationships: []
       }
+      trending_hashtags: {
+        Row: {
+          computed_at: string
+          lift: number
+          rank: number
+          recent_events: number
+          recent_views: number
+          score: number
+          tag: string
+          video_count: number
+        }
+        Insert: {
+          computed_at?: string
+          lift: number
+          rank: number
+          recent_events?: number
+          recent_views?: number
+          score: number
+          tag: string
+          video_count?: number
+        }
+        Update: {
+          computed_at?: string
+          lift?: number
+          rank?: number
+          recent_events?: number
+          recent_views?: number
+          score?: number
+          tag?: string
+          video_count?: number
+        }
+        Relationships: []
+      }
+      trending_videos: {
+        Row: {
+          baseline_rate: number
+          computed_at: string
+          lift: number
+          rank: number
+          recent_events: number
+          recent_views: number
+          score: number
+          video_id: string
+        }
+        Insert: {
+          baseline_rate?: number
+          computed_at?: string
+          lift: number
+          rank: number
+          recent_events?: number
+          recent_views?: number
+          score: number
+          video_id: string
+        }
+        Update: {
+          baseline_rate?: number
+          computed_at?: string
+          lift?: number
+          rank?: number
+          recent_events?: number
+          recent_views?: number
+          score?: number
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trending_videos_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: true
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_category_preferences: {
         Row: {
           category: string
@@ -769,11 +1177,219 @@ export type Database = {
         }
         Relationships: []
       }
+      video_captions: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          label: string
+          language: string
+          storage_path: string
+          updated_at: string
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          label: string
+          language: string
+          storage_path: string
+          updated_at?: string
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          label?: string
+          language?: string
+          storage_path?: string
+          updated_at?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_captions_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      video_exploration: {
+        Row: {
+          decided_at: string | null
+          decision_reason: string | null
+          hook_passes: number
+          hook_rate: number
+          impressions: number
+          started_at: string
+          status: string
+          updated_at: string
+          video_id: string
+        }
+        Insert: {
+          decided_at?: string | null
+          decision_reason?: string | null
+          hook_passes?: number
+          hook_rate?: number
+          impressions?: number
+          started_at?: string
+          status?: string
+          updated_at?: string
+          video_id: string
+        }
+        Update: {
+          decided_at?: string | null
+          decision_reason?: string | null
+          hook_passes?: number
+          hook_rate?: number
+          impressions?: number
+          started_at?: string
+          status?: string
+          updated_at?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_exploration_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: true
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      video_feed_score_runs: {
+        Row: {
+          completion_p85: number
+          computed_at: string
+          duration_ms: number | null
+          id: string
+          top_performer_count: number
+          video_count: number
+          watch_duration_p85: number
+        }
+        Insert: {
+          completion_p85?: number
+          computed_at?: string
+          duration_ms?: number | null
+          id?: string
+          top_performer_count?: number
+          video_count?: number
+          watch_duration_p85?: number
+        }
+        Update: {
+          completion_p85?: number
+          computed_at?: string
+          duration_ms?: number | null
+          id?: string
+          top_performer_count?: number
+          video_count?: number
+          watch_duration_p85?: number
+        }
+        Relationships: []
+      }
+      video_feed_scores: {
+        Row: {
+          avg_completion: number
+          avg_stall_count: number
+          avg_stall_ms: number
+          avg_ttff_ms: number
+          avg_watch_duration: number
+          computed_at: string
+          early_skip_rate: number
+          fast_start_rate: number
+          fatal_error_rate: number
+          hook_rate: number
+          is_top_performer: boolean
+          muted_fallback_rate: number
+          qoe_samples: number
+          retry_rate: number
+          rewatch_signal: number
+          share_count: number
+          slow_start_rate: number
+          stall_rate: number
+          startup_samples: number
+          ttff_p50_ms: number | null
+          ttff_p90_ms: number | null
+          video_id: string
+          view_count: number
+        }
+        Insert: {
+          avg_completion?: number
+          avg_stall_count?: number
+          avg_stall_ms?: number
+          avg_ttff_ms?: number
+          avg_watch_duration?: number
+          computed_at?: string
+          early_skip_rate?: number
+          fast_start_rate?: number
+          fatal_error_rate?: number
+          hook_rate?: number
+          is_top_performer?: boolean
+          muted_fallback_rate?: number
+          qoe_samples?: number
+          retry_rate?: number
+          rewatch_signal?: number
+          share_count?: number
+          slow_start_rate?: number
+          stall_rate?: number
+          startup_samples?: number
+          ttff_p50_ms?: number | null
+          ttff_p90_ms?: number | null
+          video_id: string
+          view_count?: number
+        }
+        Update: {
+          avg_completion?: number
+          avg_stall_count?: number
+          avg_stall_ms?: number
+          avg_ttff_ms?: number
+          avg_watch_duration?: number
+          computed_at?: string
+          early_skip_rate?: number
+          fast_start_rate?: number
+          fatal_error_rate?: number
+          hook_rate?: number
+          is_top_performer?: boolean
+          muted_fallback_rate?: number
+          qoe_samples?: number
+          retry_rate?: number
+          rewatch_signal?: number
+          share_count?: number
+          slow_start_rate?: number
+          stall_rate?: number
+          startup_samples?: number
+          ttff_p50_ms?: number | null
+          ttff_p90_ms?: number | null
+          video_id?: string
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_feed_scores_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: true
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       video_views: {
         Row: {
+          experiment_variant_id: string | null
           feed_source: string | null
           id: string
+          quality_preference: string | null
           session_id: string | null
+          startup_bitrate: number | null
+          startup_estimate_kbps: number | null
+          startup_height: number | null
+          startup_quality_source: string | null
+          startup_warm: boolean | null
           time_to_first_frame_ms: number | null
           user_id: string | null
           video_duration_seconds: number | null
@@ -785,9 +1401,16 @@ export type Database = {
           watch_duration_seconds: number | null
         }
         Insert: {
+          experiment_variant_id?: string | null
           feed_source?: string | null
           id?: string
+          quality_preference?: string | null
           session_id?: string | null
+          startup_bitrate?: number | null
+          startup_estimate_kbps?: number | null
+          startup_height?: number | null
+          startup_quality_source?: string | null
+          startup_warm?: boolean | null
           time_to_first_frame_ms?: number | null
           user_id?: string | null
           video_duration_seconds?: number | null
@@ -799,9 +1422,16 @@ export type Database = {
           watch_duration_seconds?: number | null
         }
         Update: {
+          experiment_variant_id?: string | null
           feed_source?: string | null
           id?: string
+          quality_preference?: string | null
           session_id?: string | null
+          startup_bitrate?: number | null
+          startup_estimate_kbps?: number | null
+          startup_height?: number | null
+          startup_quality_source?: string | null
+          startup_warm?: boolean | null
           time_to_first_frame_ms?: number | null
           user_id?: string | null
           video_duration_seconds?: number | null
@@ -813,6 +1443,13 @@ export type Database = {
           watch_duration_seconds?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "video_views_experiment_variant_id_fkey"
+            columns: ["experiment_variant_id"]
+            isOneToOne: false
+            referencedRelation: "ranking_experiment_variants"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "video_views_user_id_fkey"
             columns: ["user_id"]
@@ -838,6 +1475,7 @@ export type Database = {
       }
       videos: {
         Row: {
+          cloudflare_upload_id: string | null
           cloudflare_video_id: string | null
           cloudinary_public_id: string | null
           comments_count: number
@@ -859,6 +1497,7 @@ export type Database = {
           views_count: number
         }
         Insert: {
+          cloudflare_upload_id?: string | null
           cloudflare_video_id?: string | null
           cloudinary_public_id?: string | null
           comments_count?: number
@@ -880,6 +1519,7 @@ export type Database = {
           views_count?: number
         }
         Update: {
+          cloudflare_upload_id?: string | null
           cloudflare_video_id?: string | null
           cloudinary_public_id?: string | null
           comments_count?: number
@@ -954,11 +1594,40 @@ export type Database = {
       }
     }
     Functions: {
+      bump_category_preference: {
+        Args: {
+          p_category: string
+          p_comments?: number
+          p_likes?: number
+          p_shares?: number
+          p_user_id: string
+          p_views?: number
+          p_weight: number
+        }
+        Returns: undefined
+      }
       decrement_likes_count: {
         Args: { video_id_param: string }
         Returns: undefined
       }
+      get_ad_rotation_stats: {
+        Args: { p_viewer_id: string }
+        Returns: {
+          ad_id: string
+          clicks: number
+          viewer_impressions: number
+          views: number
+        }[]
+      }
       get_email_by_username: { Args: { p_username: string }; Returns: string }
+      get_tag_stats: {
+        Args: { p_tag: string }
+        Returns: {
+          follower_count: number
+          total_views: number
+          video_count: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -970,6 +1639,14 @@ export type Database = {
         Args: { video_id_param: string }
         Returns: undefined
       }
+      replace_trending: {
+        Args: { p_hashtags: Json; p_videos: Json }
+        Returns: undefined
+      }
+      view_preference_weight: {
+        Args: { p_completion_percent: number; p_watch_seconds: number }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import { createAdPicker, type Ad, type AdSlotContext, type AdStats } from '@/lib/adRotation';
+
+// mulberry32: a small seeded PRNG so every run draws the same numbers
+function seededRng(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const ad = (id: string, overrides: Partial<Ad> = {}): Ad => ({
+  id,
+  title: id,
+  video_url: `https://cdn.example/${id}.mp4`,
+  thumbnail_url: null,
+  external_link: null,
+  ...overrides,
+});
+
+const slot: AdSlotContext = { feedSource: 'main_feed' };
+
+const shareOf = (picks: string[], id: string) => picks.filter(p => p === id).length / picks.length;
+
+/**
+ * Serves `impressions` ads, each to a new viewer (a fresh picker, as on a
+ * feed load), and clicks with each ad's true CTR. Returns the ids shown.
+ */
+function simulate(ads: Ad[], trueCtr: Record<string, number>, impressions: number, seed: number): string[] {
+  const rng = seededRng(seed);
+  const stats = new Map<string, AdStats>();
+  const picks: string[] = [];
+  for (let i = 0; i < impressions; i++) {
+    const picked = createAdPicker(ads, stats, { rng })(slot)!;
+    const current = stats.get(picked.id) || { views: 0, clicks: 0 };
+    const clicked = rng() < trueCtr[picked.id];
+    stats.set(picked.id, { views: current.views + 1, clicks: current.clicks + (clicked ? 1 : 0) });
+    picks.push(picked.id);
+  }
+  return picks;
+}
+
+/** First picks of `draws` new viewers, with stats frozen */
+function firstPicks(ads: Ad[], stats: Map<string, AdStats>, draws: number, seed: number): string[] {
+  const rng = seededRng(seed);
+  return Array.from({ length: draws }, () => createAdPicker(ads, stats, { rng })(slot)!.id);
+}
+
+describe('createAdPicker convergence', () => {
+  const ads = [ad('low'), ad('mid'), ad('best')];
+  const trueCtr = { low: 0.02, mid: 0.03, best: 0.05 };
+
+  it.each([1, 2, 3, 4, 5])('shifts impressions to the best CTR over time (seed %i)', (seed) => {
+    const picks = simulate(ads, trueCtr, 5000, seed);
+    const firstWindow = picks.slice(0, 1000);
+    const lastWindow = picks.slice(-1000);
+
+    expect(shareOf(lastWindow, 'best')).toBeGreaterThan(shareOf(firstWindow, 'best'));
+    expect(shareOf(lastWindow, 'best')).toBeGreaterThan(0.85);
+    expect(shareOf(lastWindow, 'low')).toBeLessThan(shareOf(firstWindow, 'low'));
+  });
+});
+
+describe('createAdPicker with little data', () => {
+  it('spreads picks across ads that have no stats yet', () => {
+    const picks = firstPicks([ad('a'), ad('b'), ad('c')], new Map(), 3000, 7);
+    for (const id of ['a', 'b', 'c']) {
+      expect(shareOf(picks, id)).toBeGreaterThan(0.25);
+      expect(shareOf(picks, id)).toBeLessThan(0.42);
+    }
+  });
+
+  it('gives a new ad a real share next to proven ads', () => {
+    const stats = new Map<string, AdStats>([
+      ['good', { views: 3000, clicks: 90 }],
+      ['poor', { views: 3000, clicks: 30 }],
+    ]);
+    const picks = firstPicks([ad('good'), ad('poor'), ad('new')], stats, 3000, 11);
+
+    // The new ad starts at the pooled 2% CTR with wide uncertainty, so it
+    // wins some draws against the proven 3% ad; the proven 1% ad almost none
+    expect(shareOf(picks, 'new')).toBeGreaterThan(0.1);
+    expect(shareOf(picks, 'new')).toBeLessThan(shareOf(picks, 'good'));
+    expect(shareOf(picks, 'poor')).toBeLessThan(0.02);
+  });
+
+  it('does not let one lucky click take over', () => {
+    const stats = new Map<string, AdStats>([
+      ['proven', { views: 3000, clicks: 150 }],
+      ['lucky', { views: 1, clicks: 1 }],
+    ]);
+    const picks = firstPicks([ad('proven'), ad('lucky')], stats, 3000, 13);
+    expect(shareOf(picks, 'lucky')).toBeLessThan(0.75);
+    expect(shareOf(picks, 'proven')).toBeGreaterThan(0.25);
+  });
+
+  it('counts no more clicks than views', () => {
+    const stats = new Map<string, AdStats>([
+      ['proven', { views: 3000, clicks: 150 }],
+      ['broken', { views: 1, clicks: 500 }],
+      ['lucky', { views: 1, clicks: 1 }],
+    ]);
+    const lucky = firstPicks([ad('proven'), ad('lucky')], stats, 2000, 17);
+    const broken = firstPicks([ad('proven'), ad('broken')], stats, 2000, 17);
+    expect(shareOf(broken, 'broken')).toBe(shareOf(lucky, 'lucky'));
+  });
+});
+
+describe('createAdPicker frequency cap', () => {
+  it('skips ads the viewer already saw up to the cap', () => {
+    const pick = createAdPicker([ad('a'), ad('b')], new Map(), {
+      viewerImpressions: new Map([['a', 3]]),
+      frequencyCap: 3,
+      rng: seededRng(1),
+    });
+    expect(pick(slot)?.id).toBe('b');
+    expect(pick(slot)?.id).toBe('b');
+  });
+
+  it('counts picks from this session and returns null once every ad is capped', () => {
+    const pick = createAdPicker([ad('a'), ad('b')], new Map(), {
+      viewerImpressions: new Map([['a', 1]]),
+      frequencyCap: 2,
+      rng: seededRng(2),
+    });
+    const picks = Array.from({ length: 4 }, () => pick(slot)?.id ?? null);
+    expect(picks.filter(id => id === 'a')).toHaveLength(1);
+    expect(picks.filter(id => id === 'b')).toHaveLength(2);
+    expect(picks[3]).toBeNull();
+  });
+
+  it('does not cap when the cap is 0', () => {
+    const pick = createAdPicker([ad('a')], new Map(), {
+      viewerImpressions: new Map([['a', 100]]),
+      frequencyCap: 0,
+      rng: seededRng(3),
+    });
+    for (let i = 0; i < 5; i++) expect(pick(slot)?.id).toBe('a');
+  });
+
+  it('never shows the same ad twice in a row while another is eligible', () => {
+    const stats = new Map<string, AdStats>([
+      ['best', { views: 5000, clicks: 500 }],
+      ['other', { views: 5000, clicks: 5 }],
+    ]);
+    const pick = createAdPicker([ad('best'), ad('other')], stats, { rng: seededRng(4) });
+    const picks = Array.from({ length: 20 }, () => pick(slot)!.id);
+    for (let i = 1; i < picks.length; i++) expect(picks[i]).not.toBe(picks[i - 1]);
+  });
+});
+
+describe('createAdPicker targeting', () => {
+  const ads = [
+    ad('everywhere'),
+    ad('following-only', { target_feed_sources: ['following_feed'] }),
+    ad('cooking', { target_categories: ['Cooking'] }),
+  ];
+  const picksFor = (target: AdSlotContext) => {
+    const pick = createAdPicker(ads, new Map(), { rng: seededRng(5) });
+    return new Set(Array.from({ length: 30 }, () => pick(target)?.id));
+  };
+
+  it('fills a slot only with ads targeting its feed', () => {
+    expect(picksFor({ feedSource: 'main_feed' })).toEqual(new Set(['everywhere']));
+    expect(picksFor({ feedSource: 'following_feed' })).toEqual(new Set(['everywhere', 'following-only']));
+  });
+
+  it('matches categories by the category filter or the surrounding tags, ignoring case', () => {
+    expect(picksFor({ feedSource: 'category_feed', categoryFilter: 'cooking' })).toEqual(new Set(['everywhere', 'cooking']));
+    expect(picksFor({ feedSource: 'main_feed', tags: ['COOKING', 'pasta'] })).toEqual(new Set(['everywhere', 'cooking']));
+  });
+
+  it('returns null when no ad targets the slot', () => {
+    const pick = createAdPicker([ads[1]], new Map(), { rng: seededRng(6) });
+    expect(pick({ feedSource: 'search' })).toBeNull();
+  });
+});
+
+describe('createAdPicker priority', () => {
+  it('gives a higher-priority campaign more picks at the same CTR', () => {
+    const stats = new Map<string, AdStats>([
+      ['boosted', { views: 2000, clicks: 60 }],
+      ['neutral', { views: 2000, clicks: 60 }],
+    ]);
+    const picks = firstPicks([ad('boosted', { priority: 8 }), ad('neutral')], stats, 2000, 19);
+    expect(shareOf(picks, 'boosted')).toBeGreaterThan(0.9);
+  });
+});
@@ -1,106 +1,188 @@
 /**
- * Performance-based ad rotation.
+ * Bandit ad rotation (Thompson sampling).
  *
- * - Ranks ads by CTR (clicks / views).
- * - Splits into top-performing (top 50% by CTR) and test/lower ads.
- * - Picks a top ad ~70% of the time, test ad ~30%.
+ * - Each ad's CTR is a Beta posterior over clicks / views. The prior is
+ *   centred on the pooled CTR of all ads, so an ad with no data starts as
+ *   "average" with wide uncertainty instead of 0% or 100%.
+ * - Every pick draws one sample per ad and shows the highest draw: proven
+ *   ads win most slots, uncertain ones still get enough to prove themselves.
+ *   Campaign priority scales the draw (5 = neutral).
+ * - Campaign targeting: an ad only fills slots whose feed source and
+ *   category / surrounding video tags match its targets. Schedules and daily
+ *   cap pacing are applied server-side before ads reach the picker.
+ * - Per-viewer frequency cap: ads the viewer has already seen `frequency_cap`
+ *   times in the cap window (across sessions) are skipped.
  * - Never shows the same ad twice in a row.
  */
 
-interface AdWithStats {
-  id: string;
-  title: string;
-  video_url: string;
-  thumbnail_url: string | null;
-  external_link: string;
-  views_count?: number;
-  clicks_count?: number;
-  ctr?: number;
-}
-
 export interface Ad {
   id: string;
   title: string;
-  video_url: string;
+  /** Null for VAST-tag ads */
+  video_url: string | null;
   thumbnail_url: string | null;
-  external_link: string;
+  external_link: string | null;
   cloudflare_video_id?: string | null;
+  /** Third-party VAST 3/4 tag, played instead of our own video */
+  vast_tag_url?: string | null;
+  /** Empty = every category */
+  target_categories?: string[];
+  /** Empty = every feed */
+  target_feed_sources?: string[];
+  priority?: number;
+}
+
+export const AD_FEED_SOURCES = [
+  { value: 'main_feed', label: 'For You' },
+  { value: 'following_feed', label: 'Following' },
+  { value: 'trending_feed', label: 'Trending' },
+  { value: 'category_feed', label: 'Category' },
+  { value: 'search', label: 'Search' },
+] as const;
+
+export type AdFeedSource = typeof AD_FEED_SOURCES[number]['value'];
+
+/** Where an ad slot sits: the feed it's in and what surrounds it */
+export interface AdSlotContext {
+  feedSource: AdFeedSource;
+  categoryFilter?: string;
+  /** Tags of the video right before the slot */
+  tags?: string[] | null;
+  /** e.g. VAST ads whose tag had no fill this session */
+  excludeAdIds?: Set<string>;
 }
 
-const TOP_AD_PROBABILITY = 0.7;
+const NEUTRAL_PRIORITY = 5;
 
-function pickRandom<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
+export interface AdStats {
+  views: number;
+  clicks: number;
 }
 
-/**
- * Given ads with their stats, build a picker that returns the next ad
- * respecting performance weighting and no-repeat constraint.
- */
-export function createAdPicker(ads: Ad[], adStats: Map<string, { views: number; clicks: number }>) {
-  if (ads.length === 0) return () => null;
-  if (ads.length === 1) return () => ads[0];
+/** Mirrors the single `ad_settings` row, edited in AdminAds */
+export interface AdSettings {
+  /** An ad after every N videos */
+  cadence: number;
+  /** Max impressions of one ad per viewer inside the window, 0 = no cap */
+  frequency_cap: number;
+  frequency_window_hours: number;
+  /** Visible playback before an ad view counts as an impression */
+  viewability_min_ms: number;
+  /** Share of the ad on screen for that playback to count, 0-1 */
+  viewability_min_visible: number;
+}
 
-  // Calculate CTR for each ad
-  const adsWithCtr: AdWithStats[] = ads.map(ad => {
-    const stats = adStats.get(ad.id) || { views: 0, clicks: 0 };
-    const ctr = stats.views > 0 ? stats.clicks / stats.views : 0;
-    return { ...ad, views_count: stats.views, clicks_count: stats.clicks, ctr };
-  });
+export const DEFAULT_AD_SETTINGS: AdSettings = {
+  cadence: 10,
+  frequency_cap: 3,
+  frequency_window_hours: 24,
+  viewability_min_ms: 2000,
+  viewability_min_visible: 0.5,
+};
+
+// Pseudo-views behind the pooled-CTR prior
+const PRIOR_STRENGTH = 50;
+const MIN_PRIOR_CTR = 0.001;
+const MAX_PRIOR_CTR = 0.5;
+
+function sampleStandardNormal(rng: () => number): number {
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Marsaglia-Tsang; shapes below 1 use the Gamma(shape + 1) * U^(1/shape) boost
+function sampleGamma(shape: number, rng: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, rng) * Math.pow(1 - rng(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleStandardNormal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = 1 - rng();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
 
-  // Sort by CTR descending
-  adsWithCtr.sort((a, b) => (b.ctr ?? 0) - (a.ctr ?? 0));
+export function sampleBeta(alpha: number, beta: number, rng: () => number = Math.random): number {
+  const x = sampleGamma(alpha, rng);
+  const y = sampleGamma(beta, rng);
+  return x / (x + y);
+}
 
-  // Split: top half = top performers, bottom half = test ads
-  // Ads with 0 views are always "test" so they get exposure
-  const splitIndex = Math.max(1, Math.ceil(adsWithCtr.length / 2));
+function matchesSlot(ad: Ad, slot: AdSlotContext): boolean {
+  if (slot.excludeAdIds?.has(ad.id)) return false;
 
-  const topAds: Ad[] = [];
-  const testAds: Ad[] = [];
+  const feeds = ad.target_feed_sources || [];
+  if (feeds.length > 0 && !feeds.includes(slot.feedSource)) return false;
 
-  adsWithCtr.forEach((ad, i) => {
-    // Ads with fewer than 10 views go to test pool regardless of position
-    if ((ad.views_count ?? 0) < 10) {
-      testAds.push(ad);
-    } else if (i < splitIndex) {
-      topAds.push(ad);
-    } else {
-      testAds.push(ad);
-    }
-  });
+  const categories = (ad.target_categories || []).map(c => c.toLowerCase());
+  if (categories.length === 0) return true;
+  if (slot.categoryFilter && categories.includes(slot.categoryFilter.toLowerCase())) return true;
+  return (slot.tags || []).some(tag => categories.includes(tag.toLowerCase()));
+}
 
-  // If one pool is empty, everything goes to the other
-  if (topAds.length === 0) {
-    topAds.push(...testAds);
-    testAds.length = 0;
-  }
-  if (testAds.length === 0) {
-    testAds.push(...topAds);
-  }
+interface PickerOptions {
+  /** Impressions per ad this viewer already had inside the cap window */
+  viewerImpressions?: Map<string, number>;
+  frequencyCap?: number;
+  rng?: () => number;
+}
+
+/**
+ * Given ads with their stats, build a picker that returns the next ad for a
+ * slot, or null when no ad targets it or every match hit the frequency cap.
+ */
+export function createAdPicker(
+  ads: Ad[],
+  adStats: Map<string, AdStats>,
+  { viewerImpressions = new Map(), frequencyCap = 0, rng = Math.random }: PickerOptions = {}
+): (slot: AdSlotContext) => Ad | null {
+  if (ads.length === 0) return () => null;
+
+  let pooledViews = 0;
+  let pooledClicks = 0;
+  adStats.forEach(s => {
+    pooledViews += s.views;
+    pooledClicks += Math.min(s.clicks, s.views);
+  });
+  const priorCtr = Math.min(MAX_PRIOR_CTR, Math.max(MIN_PRIOR_CTR, pooledViews > 0 ? pooledClicks / pooledViews : 0.01));
+  const priorAlpha = priorCtr * PRIOR_STRENGTH;
+  const priorBeta = (1 - priorCtr) * PRIOR_STRENGTH;
 
+  // Session picks count toward the cap as soon as they're placed in the feed
+  const shown = new Map(viewerImpressions);
   let lastAdId: string | null = null;
 
-  return (): Ad => {
-    const useTop = Math.random() < TOP_AD_PROBABILITY;
-    const pool = useTop ? topAds : testAds;
-
-    let candidate = pickRandom(pool);
-
-    // Avoid same ad twice in a row
-    if (candidate.id === lastAdId && ads.length > 1) {
-      // Try from the other pool first
-      const otherPool = useTop ? testAds : topAds;
-      const alternatives = otherPool.filter(a => a.id !== lastAdId);
-      if (alternatives.length > 0) {
-        candidate = pickRandom(alternatives);
-      } else {
-        // Pick a different one from same pool
-        const sameDiff = pool.filter(a => a.id !== lastAdId);
-        if (sameDiff.length > 0) candidate = pickRandom(sameDiff);
+  return (slot) => {
+    let eligible = ads.filter(ad =>
+      (frequencyCap <= 0 || (shown.get(ad.id) || 0) < frequencyCap) && matchesSlot(ad, slot)
+    );
+    if (eligible.length === 0) return null;
+    if (eligible.length > 1) eligible = eligible.filter(ad => ad.id !== lastAdId);
+
+    let best = eligible[0];
+    let bestDraw = -1;
+    for (const ad of eligible) {
+      const stats = adStats.get(ad.id) || { views: 0, clicks: 0 };
+      const clicks = Math.min(stats.clicks, stats.views);
+      const weight = (ad.priority ?? NEUTRAL_PRIORITY) / NEUTRAL_PRIORITY;
+      const draw = weight * sampleBeta(priorAlpha + clicks, priorBeta + stats.views - clicks, rng);
+      if (draw > bestDraw) {
+        best = ad;
+        bestDraw = draw;
       }
     }
 
-    lastAdId = candidate.id;
-    return candidate;
+    lastAdId = best.id;
+    shown.set(best.id, (shown.get(best.id) || 0) + 1);
+    return best;
   };
 }
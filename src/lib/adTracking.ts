@@ -0,0 +1,18 @@
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+/**
+ * Ad clicks go through the ad-click edge function, which logs the click,
+ * flags duplicates / bots, appends UTM parameters and redirects to the
+ * advertiser. It's a plain navigation, so it works from window.open.
+ * VAST ads open their own click-through and only log (logOnly).
+ */
+export const getAdClickUrl = (adId: string, feedSource?: string | null, logOnly = false): string => {
+  const params = new URLSearchParams({
+    ad: adId,
+    viewer: localStorage.getItem('anonymous_viewer_id_v1') || '',
+    session: localStorage.getItem('video_session_v2') || '',
+  });
+  if (feedSource) params.set('source', feedSource);
+  if (logOnly) params.set('redirect', '0');
+  return `${SUPABASE_URL}/functions/v1/ad-click?${params.toString()}`;
+};
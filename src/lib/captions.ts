@@ -0,0 +1,228 @@
+/**
+ * Video captions.
+ *
+ * Creators attach one WebVTT file per language from EditVideoDialog; SRT
+ * files are converted to WebVTT before upload. Files live in the public
+ * `captions` bucket and are linked to the video through `video_captions`.
+ *
+ * Players get the tracks from loadCaptionTracks(): the files are fetched
+ * and handed to <track> as blob URLs, because a cross-origin <track> src
+ * would need `crossorigin` on the <video>, which would also change how the
+ * video itself is requested. Each player releases its tracks when it stops
+ * rendering them; a blob URL is only revoked once it has left the cache and
+ * no player holds it.
+ */
+import { supabase } from '@/integrations/supabase/client';
+
+export const CAPTIONS_BUCKET = 'captions';
+export const MAX_CAPTION_FILE_BYTES = 512 * 1024;
+// Feed items come and go quickly; keep the tracks of recently seen videos
+const TRACK_CACHE_SIZE = 50;
+
+export const CAPTION_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'pt', label: 'Português' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'nl', label: 'Nederlands' },
+  { code: 'pl', label: 'Polski' },
+  { code: 'tr', label: 'Türkçe' },
+  { code: 'ru', label: 'Русский' },
+  { code: 'uk', label: 'Українська' },
+  { code: 'ar', label: 'العربية' },
+  { code: 'hi', label: 'हिन्दी' },
+  { code: 'id', label: 'Bahasa Indonesia' },
+  { code: 'vi', label: 'Tiếng Việt' },
+  { code: 'th', label: 'ไทย' },
+  { code: 'ja', label: '日本語' },
+  { code: 'ko', label: '한국어' },
+  { code: 'zh', label: '中文' },
+];
+
+export interface VideoCaption {
+  id: string;
+  video_id: string;
+  language: string;
+  label: string;
+  storage_path: string;
+  updated_at: string;
+}
+
+/** A caption ready for a <track> element */
+export interface CaptionTrack {
+  language: string;
+  label: string;
+  src: string;
+}
+
+// ---- Files ----
+
+/** Converts SubRip to WebVTT: header, and "." instead of "," in timestamps */
+export function srtToVtt(srt: string): string {
+  const body = srt
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/(\d{1,2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2')
+    .trim();
+  return `WEBVTT\n\n${body}\n`;
+}
+
+/**
+ * Reads a .vtt or .srt file as WebVTT text.
+ * Throws with a user-facing message when the file isn't usable.
+ */
+export async function readCaptionFile(file: File): Promise<string> {
+  if (file.size > MAX_CAPTION_FILE_BYTES) throw new Error('Caption file is too large (max 512 KB)');
+
+  const text = await file.text();
+  const isSrt = /\.srt$/i.test(file.name);
+  const vtt = isSrt ? srtToVtt(text) : text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+  if (!/^WEBVTT/.test(vtt)) throw new Error('Not a WebVTT file (missing WEBVTT header)');
+  if (!vtt.includes('-->')) throw new Error('Caption file has no cues');
+  return vtt;
+}
+
+// ---- Storage ----
+
+export async function fetchVideoCaptions(videoId: string): Promise<VideoCaption[]> {
+  const { data, error } = await supabase
+    .from('video_captions')
+    .select('id, video_id, language, label, storage_path, updated_at')
+    .eq('video_id', videoId)
+    .order('language');
+  if (error) throw error;
+  return data || [];
+}
+
+/** Uploads (or replaces) the captions for one language */
+export async function uploadVideoCaption(videoId: string, language: string, file: File): Promise<void> {
+  const vtt = await readCaptionFile(file);
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Sign in to upload captions');
+
+  const path = `${user.id}/${videoId}/${language}.vtt`;
+  const { error: uploadError } = await supabase.storage
+    .from(CAPTIONS_BUCKET)
+    .upload(path, new Blob([vtt], { type: 'text/vtt' }), { upsert: true, contentType: 'text/vtt' });
+  if (uploadError) throw uploadError;
+
+  const label = CAPTION_LANGUAGES.find(l => l.code === language)?.label || language;
+  const { error } = await supabase
+    .from('video_captions')
+    .upsert({
+      video_id: videoId,
+      language,
+      label,
+      storage_path: path,
+      created_by: user.id,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'video_id,language' });
+  if (error) throw error;
+
+  invalidateCaptionTracks(videoId);
+}
+
+export async function deleteVideoCaption(caption: VideoCaption): Promise<void> {
+  const { error } = await supabase.from('video_captions').delete().eq('id', caption.id);
+  if (error) throw error;
+
+  // The row is what players read; a leftover file is harmless
+  const { error: removeError } = await supabase.storage.from(CAPTIONS_BUCKET).remove([caption.storage_path]);
+  if (removeError) console.error('[Captions] Failed to remove caption file:', removeError);
+
+  invalidateCaptionTracks(caption.video_id);
+}
+
+// ---- Tracks ----
+
+interface TrackEntry {
+  tracks: Promise<CaptionTrack[]>;
+  /** Players currently rendering these blob URLs */
+  holders: number;
+  /** Out of the cache; revoked when the last holder releases it */
+  evicted: boolean;
+}
+
+const trackCache = new Map<string, TrackEntry>();
+
+function revokeTracks(pending: Promise<CaptionTrack[]>) {
+  pending.then(tracks => tracks.forEach(t => URL.revokeObjectURL(t.src))).catch(() => {});
+}
+
+export function invalidateCaptionTracks(videoId: string) {
+  const entry = trackCache.get(videoId);
+  if (!entry) return;
+  trackCache.delete(videoId);
+  entry.evicted = true;
+  if (entry.holders === 0) revokeTracks(entry.tracks);
+}
+
+async function fetchTracks(videoId: string): Promise<CaptionTrack[]> {
+  const captions = await fetchVideoCaptions(videoId);
+  const tracks = await Promise.all(captions.map(async (caption): Promise<CaptionTrack | null> => {
+    const { data } = supabase.storage.from(CAPTIONS_BUCKET).getPublicUrl(caption.storage_path);
+    // updated_at busts the CDN cache when a language is replaced
+    const res = await fetch(`${data.publicUrl}?v=${encodeURIComponent(caption.updated_at)}`);
+    if (!res.ok) return null;
+    const blob = new Blob([await res.text()], { type: 'text/vtt' });
+    return { language: caption.language, label: caption.label, src: URL.createObjectURL(blob) };
+  }));
+  return tracks.filter((t): t is CaptionTrack => t !== null);
+}
+
+/**
+ * Caption tracks of a video, cached per video. `tracks` resolves to [] on
+ * failure. Call `release` once the player no longer renders them.
+ */
+export function loadCaptionTracks(videoId: string): { tracks: Promise<CaptionTrack[]>; release: () => void } {
+  let entry = trackCache.get(videoId);
+  if (entry) {
+    // Refresh recency
+    trackCache.delete(videoId);
+    trackCache.set(videoId, entry);
+  } else {
+    const tracks: Promise<CaptionTrack[]> = fetchTracks(videoId).catch((error) => {
+      console.error('[Captions] Failed to load captions:', error);
+      if (trackCache.get(videoId)?.tracks === tracks) trackCache.delete(videoId);
+      return [];
+    });
+    entry = { tracks, holders: 0, evicted: false };
+    trackCache.set(videoId, entry);
+
+    if (trackCache.size > TRACK_CACHE_SIZE) {
+      const oldest = trackCache.keys().next().value as string;
+      invalidateCaptionTracks(oldest);
+    }
+  }
+
+  const held = entry;
+  held.holders++;
+  let released = false;
+  return {
+    tracks: held.tracks,
+    release: () => {
+      if (released) return;
+      released = true;
+      held.holders--;
+      if (held.evicted && held.holders === 0) revokeTracks(held.tracks);
+    },
+  };
+}
+
+/** Track to show: the browser language, then English, then the first one */
+export function pickCaptionTrack<T extends { language: string }>(tracks: T[]): T | null {
+  if (tracks.length === 0) return null;
+  const preferred = (typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : [])
+    .map(l => l.toLowerCase());
+  for (const lang of preferred) {
+    const exact = tracks.find(t => t.language.toLowerCase() === lang);
+    if (exact) return exact;
+    const base = tracks.find(t => t.language.toLowerCase() === lang.split('-')[0]);
+    if (base) return base;
+  }
+  return tracks.find(t => t.language === 'en') || tracks[0];
+}
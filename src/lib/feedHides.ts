@@ -0,0 +1,56 @@
+// "Not interested" / "Hide creator" / "Hide category" feedback.
+// Stored server-side (feed-hides function) per user, or per anonymous viewer
+// id for guests, so the feed functions can exclude them. Guests are not
+// authenticated: anyone holding a guest's viewer id can list or undo their
+// hides (see the feed-hides function).
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type FeedHideKind = 'video' | 'creator' | 'category';
+
+export interface FeedHide {
+  id: string;
+  kind: FeedHideKind;
+  /** Video id, creator user id or category slug */
+  target: string;
+  created_at: string;
+  label: string;
+  imageUrl: string | null;
+  cloudflareVideoId?: string | null;
+}
+
+// Same key VideoFeed and use-watch-metrics use
+const getViewerId = (): string => {
+  const key = 'anonymous_viewer_id_v1';
+  let viewerId = localStorage.getItem(key);
+  if (!viewerId) {
+    viewerId = crypto.randomUUID ? crypto.randomUUID() :
+      `anon_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+    localStorage.setItem(key, viewerId);
+  }
+  return viewerId;
+};
+
+const invokeFeedHides = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('feed-hides', {
+    body: { ...body, viewerId: getViewerId() },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data;
+};
+
+/** Returns the hide id, for undo */
+export const hideFromFeed = async (kind: FeedHideKind, target: string): Promise<string> => {
+  const data = await invokeFeedHides({ action: 'hide', kind, target });
+  return data.id;
+};
+
+export const unhideFromFeed = async (id: string): Promise<void> => {
+  await invokeFeedHides({ action: 'unhide', id });
+};
+
+export const listFeedHides = async (): Promise<FeedHide[]> => {
+  const data = await invokeFeedHides({ action: 'list' });
+  return data.hides || [];
+};
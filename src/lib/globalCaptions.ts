@@ -0,0 +1,31 @@
+// Captions on/off preference, read by useCaptions in every player.
+// Off by default; once a user turns captions on, every video that has
+// captions shows them, and the choice is kept across visits.
+
+const CAPTIONS_KEY = 'captions_enabled_v1';
+
+const readStored = (): boolean => {
+  try {
+    return localStorage.getItem(CAPTIONS_KEY) === '1';
+  } catch {
+    return false;
+  }
+};
+
+let captionsEnabled = readStored();
+const listeners = new Set<(enabled: boolean) => void>();
+
+export const getCaptionsEnabled = () => captionsEnabled;
+
+export const setCaptionsEnabled = (enabled: boolean) => {
+  captionsEnabled = enabled;
+  try {
+    localStorage.setItem(CAPTIONS_KEY, enabled ? '1' : '0');
+  } catch { /* storage full or disabled */ }
+  listeners.forEach(fn => fn(enabled));
+};
+
+export const onCaptionsChange = (fn: (enabled: boolean) => void) => {
+  listeners.add(fn);
+  return () => { listeners.delete(fn); };
+};
@@ -0,0 +1,26 @@
+/**
+ * Inserts that have to survive the page going away.
+ *
+ * The Supabase client's fetch is cancelled on unload, so pagehide /
+ * visibilitychange handlers post straight to the REST endpoint with
+ * `keepalive: true` instead. Best effort: errors are swallowed.
+ */
+import type { Database, TablesInsert } from '@/integrations/supabase/types';
+
+type TableName = keyof Database['public']['Tables'];
+
+export function postKeepalive<T extends TableName>(table: T, rows: TablesInsert<T> | TablesInsert<T>[]) {
+  fetch(`${import.meta.env.VITE_SUPABASE_URL}/rest/v1/${table}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'apikey': import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+      'Prefer': 'return=minimal',
+    },
+    body: JSON.stringify(rows),
+    keepalive: true,
+  }).catch(() => {
+    // Silent fail - best effort
+  });
+}
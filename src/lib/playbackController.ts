@@ -1,5 +1,5 @@
 /**
- * Global Playback Controller v6
+ * Global Playback Controller v7
  * 
  * Key change from v5: supports "play unmuted from the start" to avoid
  * iOS Safari killing playback when muted→unmuted is flipped post-play.
@@ -9,10 +9,33 @@
  * 
  * The caller passes wantsMuted. The onPlaying callback receives the actual
  * mute state so the UI can reflect reality without any post-play mute toggling.
+ *
+ * QoE events the controller sees (full retries, muted fallback, hls.js level
+ * switches and fatal errors) go to the optional onEvent callback.
+ *
+ * Startup quality: hls.js starts on the level playbackQuality picks (user
+ * preference, measured throughput, navigator.connection, rendered size);
+ * native HLS gets a Cloudflare bandwidth hint instead. The choice is reported
+ * through onStartupQuality so it can be logged with the view.
+ *
+ * v7 adds a warm pool: upcoming feed items (see warmPlayer) get a paused
+ * hls.js instance that buffers their first seconds once the current video is
+ * playing. activate() adopts that instance instead of attaching from scratch,
+ * so the swipe starts from buffered data.
  */
 
-import Hls from "hls.js";
+import Hls, { PlaylistLevelType } from "hls.js";
 import { getCloudflareStreamUrl, supportsHlsNatively } from "@/lib/cloudinary";
+import type { PlaybackEvent } from "@/lib/playbackTelemetry";
+import {
+  getBandwidthEstimate,
+  getEffectivePreference,
+  nativeStartupHint,
+  onQualityPreferenceChange,
+  pickStartupLevel,
+  recordThroughputSample,
+  type StartupQuality,
+} from "@/lib/playbackQuality";
 
 const UA = typeof navigator !== "undefined" ? navigator.userAgent : "";
 const IS_MOBILE = /iPhone|iPad|iPod|Android|Mobile/i.test(UA);
@@ -21,12 +44,39 @@ export const IS_IOS_WEB = /iPhone|iPad|iPod/i.test(UA) ||
 
 const RELEASE_GAP_MS = IS_MOBILE ? 80 : 20;
 
+// Buffer limits for the playing video
+const ACTIVE_BUFFER = {
+  maxBufferLength: 4,
+  maxMaxBufferLength: 15,
+  maxBufferSize: 20 * 1000 * 1000,
+};
+// Warm instances only hold the first segments
+const WARM_BUFFER = {
+  maxBufferLength: 2,
+  maxMaxBufferLength: 2,
+  maxBufferSize: 3 * 1000 * 1000,
+};
+// Current video + this many warm ones
+const WARM_MAX = 2;
+// Below this estimate warming would compete with the video on screen
+const WARM_MIN_BPS = 1_500_000;
+
 // ---- Singleton state ----
 let hls: Hls | null = null;
 let activeEl: HTMLVideoElement | null = null;
 let token = 0;
 let chain: Promise<void> = Promise.resolve();
 
+interface WarmEntry {
+  cloudflareVideoId: string;
+  /** null until the pool has room and the current video is playing */
+  instance: Hls | null;
+  quality: StartupQuality | null;
+}
+const warmPool = new Map<HTMLVideoElement, WarmEntry>();
+// Warming waits until the active video's playback is verified
+let activeSettled = false;
+
 const log = (tag: string, id: string, extra: Record<string, unknown> = {}) => {
   console.log(`[PC:${tag}]`, id.slice(0, 8), { ...extra, t: Date.now() % 100000 });
 };
@@ -54,6 +104,23 @@ function teardown(id: string) {
 
 const delay = (ms: number) => new Promise<void>(r => setTimeout(r, ms));
 
+/** Data saver locks hls.js to its level; Auto and High hand over to ABR after the start. */
+function applyLevelLock(instance: Hls, el: HTMLVideoElement) {
+  instance.loadLevel = getEffectivePreference() === "data-saver"
+    ? pickStartupLevel(instance.levels, el).levelIndex
+    : -1;
+}
+
+// A preference change applies to the video already playing, not only the next one
+onQualityPreferenceChange(() => {
+  if (hls && activeEl) applyLevelLock(hls, activeEl);
+});
+
+interface AttachListeners {
+  onEvent: (event: PlaybackEvent) => void;
+  onStartupQuality: (quality: StartupQuality) => void;
+}
+
 /** Poll until readyState >= 2, stale, or timeout. */
 function pollReady(el: HTMLVideoElement, ms: number, stale: () => boolean): Promise<boolean> {
   return new Promise(resolve => {
@@ -85,12 +152,127 @@ function verifyPlayback(el: HTMLVideoElement, ms: number, stale: () => boolean):
   });
 }
 
+function createHls(buffer: typeof ACTIVE_BUFFER): Hls {
+  const estimate = getBandwidthEstimate();
+  const instance = new Hls({
+    ...buffer,
+    startLevel: 0,
+    // Loading starts once the startup level is picked from the manifest
+    autoStartLoad: false,
+    ...(estimate ? { abrEwmaDefaultEstimate: estimate.bps } : {}),
+    capLevelToPlayerSize: true,
+    lowLatencyMode: false,
+    backBufferLength: 3,
+    enableWorker: true,
+  });
+  instance.on(Hls.Events.FRAG_LOADED, (_e, data) => {
+    if (data.frag.type !== PlaylistLevelType.MAIN) return;
+    const { loaded, loading } = data.frag.stats;
+    recordThroughputSample(loaded, loading.end - loading.start);
+  });
+  return instance;
+}
+
+function startAtPickedLevel(instance: Hls, el: HTMLVideoElement, onPicked: (quality: StartupQuality) => void) {
+  instance.on(Hls.Events.MANIFEST_PARSED, () => {
+    const quality = pickStartupLevel(instance.levels, el);
+    if (quality.levelIndex >= 0) instance.startLevel = quality.levelIndex;
+    instance.startLoad();
+    onPicked(quality);
+  });
+}
+
+/** QoE events and logging for the instance that is on screen */
+function wireActive(instance: Hls, cloudflareVideoId: string, listeners: AttachListeners) {
+  instance.on(Hls.Events.ERROR, (_e, data) => {
+    if (!data.fatal) return;
+    log("hls:fatal", cloudflareVideoId, { type: data.type, details: data.details });
+    listeners.onEvent({ type: "fatal_error", detail: `hls:${data.type}:${data.details}` });
+  });
+  instance.on(Hls.Events.LEVEL_SWITCHED, (_e, data) => {
+    const level = instance.levels[data.level];
+    listeners.onEvent({
+      type: "level_switch",
+      level: data.level,
+      bitrate: level?.bitrate,
+      detail: level?.height ? `${level.height}p` : undefined,
+    });
+  });
+}
+
+// ---- Warm pool ----
+
+/** How many warm instances the device and network can afford right now */
+function warmCapacity(): number {
+  if (supportsHlsNatively() || !Hls.isSupported()) return 0;
+  if (getEffectivePreference() === "data-saver") return 0;
+  const estimate = getBandwidthEstimate();
+  if (estimate && estimate.bps < WARM_MIN_BPS) return 0;
+  const memoryGb = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  if (memoryGb !== undefined && memoryGb < 2) return memoryGb < 1 ? 0 : 1;
+  return WARM_MAX;
+}
+
+function destroyWarm(el: HTMLVideoElement) {
+  const entry = warmPool.get(el);
+  if (!entry) return;
+  warmPool.delete(el);
+  if (entry.instance) {
+    try { entry.instance.destroy(); } catch { /* */ }
+    hardRelease(el);
+  }
+}
+
+function attachWarm(el: HTMLVideoElement, entry: WarmEntry) {
+  el.muted = true;
+  el.autoplay = false;
+  el.preload = "auto";
+  const instance = createHls(WARM_BUFFER);
+  entry.instance = instance;
+  startAtPickedLevel(instance, el, (quality) => { entry.quality = quality; });
+  instance.on(Hls.Events.ERROR, (_e, data) => {
+    if (!data.fatal) return;
+    // Activation attaches from scratch instead
+    log("warm:fatal", entry.cloudflareVideoId, { details: data.details });
+    destroyWarm(el);
+  });
+  instance.attachMedia(el);
+  instance.loadSource(getCloudflareStreamUrl(entry.cloudflareVideoId));
+  log("warm:attach", entry.cloudflareVideoId);
+}
+
+/** Attaches queued warm requests while there is capacity */
+function pumpWarm() {
+  if (!activeSettled) return;
+  const capacity = warmCapacity();
+  let attached = Array.from(warmPool.values()).filter(e => e.instance).length;
+  for (const [el, entry] of warmPool) {
+    if (attached >= capacity) break;
+    if (entry.instance || el === activeEl) continue;
+    attachWarm(el, entry);
+    attached++;
+  }
+}
+
+/** Hands a warm instance for this element and video to activation, if there is one */
+function takeWarm(el: HTMLVideoElement, cloudflareVideoId: string): WarmEntry | null {
+  const entry = warmPool.get(el);
+  if (!entry) return null;
+  warmPool.delete(el);
+  if (entry.instance && entry.cloudflareVideoId === cloudflareVideoId) return entry;
+  if (entry.instance) {
+    try { entry.instance.destroy(); } catch { /* */ }
+  }
+  return null;
+}
+
 /** Attach HLS source to video element. */
 function attachSource(
   el: HTMLVideoElement,
   cloudflareVideoId: string | null | undefined,
   fallbackUrl: string,
-  muted: boolean
+  muted: boolean,
+  listeners: AttachListeners
 ): boolean {
   // Set the desired mute state FROM THE START — never force muted=true
   // so iOS doesn't treat a later unmute as a new autoplay attempt.
@@ -114,26 +296,41 @@ function attachSource(
   }
   
   if (supportsHlsNatively()) {
-    el.src = getCloudflareStreamUrl(cloudflareVideoId);
-    log("attach:native", cloudflareVideoId, { muted });
+    const { hintMbps, quality } = nativeStartupHint();
+    const url = getCloudflareStreamUrl(cloudflareVideoId);
+    el.src = hintMbps !== null ? `${url}?clientBandwidthHint=${hintMbps}` : url;
+    listeners.onStartupQuality(quality);
+    log("attach:native", cloudflareVideoId, { muted, hintMbps });
     return false;
   }
   
+  const warm = takeWarm(el, cloudflareVideoId);
+  if (warm?.instance) {
+    const warmInstance = warm.instance;
+    hls = warmInstance;
+    // Buffer like the playing video from here on
+    Object.assign(warmInstance.config, ACTIVE_BUFFER);
+    wireActive(warmInstance, cloudflareVideoId, listeners);
+    const report = (quality: StartupQuality) => {
+      applyLevelLock(warmInstance, el);
+      listeners.onStartupQuality({ ...quality, warm: true });
+    };
+    // The warm MANIFEST_PARSED handler runs first and fills in warm.quality
+    if (warm.quality) report(warm.quality);
+    else warmInstance.once(Hls.Events.MANIFEST_PARSED, () => report(warm.quality!));
+    log("attach:warm", cloudflareVideoId, { muted, readyState: el.readyState });
+    return true;
+  }
+
   if (Hls.isSupported()) {
-    const hlsInstance = new Hls({
-      maxBufferLength: 4,
-      maxMaxBufferLength: 15,
-      maxBufferSize: 20 * 1000 * 1000,
-      startLevel: 0,
-      capLevelToPlayerSize: true,
-      lowLatencyMode: false,
-      backBufferLength: 3,
-      enableWorker: true,
-    });
+    const hlsInstance = createHls(ACTIVE_BUFFER);
     hls = hlsInstance;
-    hlsInstance.on(Hls.Events.ERROR, (_e, data) => {
-      if (data.fatal) log("hls:fatal", cloudflareVideoId, { type: data.type, details: data.details });
+    startAtPickedLevel(hlsInstance, el, (quality) => {
+      applyLevelLock(hlsInstance, el);
+      listeners.onStartupQuality(quality);
+      log("quality:start", cloudflareVideoId, { ...quality });
     });
+    wireActive(hlsInstance, cloudflareVideoId, listeners);
     hlsInstance.attachMedia(el);
     hlsInstance.loadSource(getCloudflareStreamUrl(cloudflareVideoId));
     log("attach:hls.js", cloudflareVideoId, { muted });
@@ -197,6 +394,10 @@ export interface ActivateCallbacks {
   /** Called when playback is verified. actuallyMuted tells the component the real audio state. */
   onPlaying: (actuallyMuted: boolean) => void;
   onFailed: () => void;
+  /** QoE telemetry for the current activation; not called once it's stale */
+  onEvent?: (event: PlaybackEvent) => void;
+  /** The startup rendition that was chosen, called again if the full retry re-attaches */
+  onStartupQuality?: (quality: StartupQuality) => void;
 }
 
 /**
@@ -215,8 +416,18 @@ export function activate(
   const id = cloudflareVideoId || "fallback";
   let cancelled = false;
   const stale = () => myToken !== token || cancelled;
+  const emit = (event: PlaybackEvent) => {
+    if (!stale()) callbacks.onEvent?.(event);
+  };
+  const listeners: AttachListeners = {
+    onEvent: emit,
+    onStartupQuality: (quality) => {
+      if (!stale()) callbacks.onStartupQuality?.(quality);
+    },
+  };
 
   log("activate:queued", id, { wantsMuted });
+  activeSettled = false;
 
   chain = chain.then(async () => {
     if (stale()) { log("activate:stale", id); return; }
@@ -228,7 +439,7 @@ export function activate(
 
     // 2. Attach with desired mute state
     activeEl = el;
-    attachSource(el, cloudflareVideoId, fallbackUrl, wantsMuted);
+    attachSource(el, cloudflareVideoId, fallbackUrl, wantsMuted, listeners);
     if (stale()) return;
 
     // 3. Wait for readiness
@@ -243,12 +454,13 @@ export function activate(
     // 5. If failed, one full retry (always muted for safety)
     if (!result.success && !stale()) {
       log("retry:full", id);
+      emit({ type: "retry" });
       destroyHls();
       hardRelease(el);
       await delay(200);
       if (stale()) return;
       
-      attachSource(el, cloudflareVideoId, fallbackUrl, true); // retry always muted
+      attachSource(el, cloudflareVideoId, fallbackUrl, true, listeners); // retry always muted
       if (stale()) return;
       
       const retryReady = await pollReady(el, 2500, stale);
@@ -264,9 +476,15 @@ export function activate(
     // 6. Report result
     if (result.success) {
       log("success", id, { ct: el.currentTime, muted: result.actuallyMuted });
+      activeSettled = true;
+      pumpWarm();
+      // Either attemptPlay's muted retry or the muted full retry
+      if (result.actuallyMuted && !wantsMuted) emit({ type: "muted_fallback" });
       if (!stale()) callbacks.onPlaying(result.actuallyMuted);
     } else {
       log("failed", id);
+      // Native / progressive playback has no hls.js error event; report the media error
+      if (el.error) emit({ type: "fatal_error", detail: `media:${el.error.code}` });
       if (!stale()) callbacks.onFailed();
     }
   }).catch((err) => {
@@ -277,19 +495,41 @@ export function activate(
   return () => { cancelled = true; };
 }
 
-/** Deactivate a video element. */
+/** Deactivate a video element. Warm elements keep their buffer until cooled. */
 export function deactivateVideo(el: HTMLVideoElement) {
   if (activeEl === el) {
     chain = chain.then(() => {
       if (activeEl === el) { teardown("deactivate"); }
     }).catch(() => {});
-  } else {
+  } else if (!warmPool.has(el)) {
     hardRelease(el);
   }
 }
 
+/**
+ * Asks for an element to be pre-buffered for when it becomes active. The
+ * request waits until the current video is playing and the pool has room;
+ * it's dropped again with coolPlayer. Only hls.js playback is warmed.
+ */
+export function warmPlayer(el: HTMLVideoElement, cloudflareVideoId: string | null | undefined) {
+  if (!cloudflareVideoId || el === activeEl) return;
+  const existing = warmPool.get(el);
+  if (existing?.cloudflareVideoId === cloudflareVideoId) return;
+  destroyWarm(el);
+  warmPool.set(el, { cloudflareVideoId, instance: null, quality: null });
+  pumpWarm();
+}
+
+/** Releases a warm element's instance and buffer; no-op once it was activated. */
+export function coolPlayer(el: HTMLVideoElement) {
+  destroyWarm(el);
+  pumpWarm();
+}
+
 export function releaseAll() {
   token++;
+  activeSettled = false;
+  Array.from(warmPool.keys()).forEach(destroyWarm);
   destroyHls();
   if (activeEl) { hardRelease(activeEl); activeEl = null; }
   chain = Promise.resolve();
@@ -0,0 +1,196 @@
+// Startup quality policy for hls.js players (feed and modal, through the
+// playback controller). The user picks Data saver / Auto / High in the feed,
+// stored per device; pickStartupLevel() decides which rendition to start on
+// from measured throughput of earlier segments, navigator.connection and the
+// element's rendered size.
+
+export type QualityPreference = 'data-saver' | 'auto' | 'high';
+
+export const QUALITY_PREFERENCES: { value: QualityPreference; label: string }[] = [
+  { value: 'data-saver', label: 'Data saver' },
+  { value: 'auto', label: 'Auto' },
+  { value: 'high', label: 'High' },
+];
+
+/** How the startup level was decided, logged with the view */
+export type StartupQualitySource = 'data_saver' | 'high' | 'throughput' | 'connection' | 'default' | 'native_hint';
+
+export interface StartupQuality {
+  preference: QualityPreference;
+  /** hls.js level index; -1 when the browser picks (native HLS) */
+  levelIndex: number;
+  height: number | null;
+  bitrate: number | null;
+  estimateBps: number | null;
+  source: StartupQualitySource;
+  /** Started from a pre-buffered warm player */
+  warm?: boolean;
+}
+
+export interface RenditionLevel {
+  width: number;
+  height: number;
+  bitrate: number;
+}
+
+const PREFERENCE_KEY = 'video_quality_pref_v1';
+const THROUGHPUT_KEY = 'playback_throughput_v1';
+// Networks change (wifi ↔ cellular); older measurements are ignored
+const THROUGHPUT_MAX_AGE_MS = 30 * 60 * 1000;
+const THROUGHPUT_EWMA_ALPHA = 0.3;
+// Only this share of the estimate is spent, so the first segments arrive faster than realtime
+const BANDWIDTH_SAFETY = 0.7;
+// Data saver stays at or below this short-side resolution
+const DATA_SAVER_MAX_SHORT_SIDE = 360;
+
+// Typical downlink per effectiveType when the browser gives no downlink figure
+const EFFECTIVE_TYPE_BPS: Record<string, number> = {
+  'slow-2g': 50_000,
+  '2g': 250_000,
+  '3g': 1_000_000,
+  '4g': 5_000_000,
+};
+
+// Non-standard Network Information API (Chromium)
+interface NetworkInformation {
+  effectiveType?: string;
+  downlink?: number; // Mbps
+  saveData?: boolean;
+}
+
+const getConnection = (): NetworkInformation | null =>
+  (typeof navigator !== 'undefined' && (navigator as Navigator & { connection?: NetworkInformation }).connection) || null;
+
+// ---- Preference ----
+
+const listeners = new Set<(preference: QualityPreference) => void>();
+
+export const getQualityPreference = (): QualityPreference => {
+  const stored = localStorage.getItem(PREFERENCE_KEY);
+  return QUALITY_PREFERENCES.some(p => p.value === stored) ? (stored as QualityPreference) : 'auto';
+};
+
+export const setQualityPreference = (preference: QualityPreference) => {
+  localStorage.setItem(PREFERENCE_KEY, preference);
+  listeners.forEach(fn => fn(preference));
+};
+
+export const onQualityPreferenceChange = (fn: (preference: QualityPreference) => void) => {
+  listeners.add(fn);
+  return () => { listeners.delete(fn); };
+};
+
+// ---- Throughput ----
+
+/** Folds one segment download into the persisted throughput estimate */
+export function recordThroughputSample(bytes: number, durationMs: number) {
+  if (bytes <= 0 || durationMs <= 0) return;
+  const sampleBps = (bytes * 8 * 1000) / durationMs;
+  const previous = getThroughputEstimate();
+  const bps = previous === null ? sampleBps : previous + THROUGHPUT_EWMA_ALPHA * (sampleBps - previous);
+  try {
+    localStorage.setItem(THROUGHPUT_KEY, JSON.stringify({ bps: Math.round(bps), at: Date.now() }));
+  } catch { /* storage full or disabled */ }
+}
+
+export function getThroughputEstimate(): number | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(THROUGHPUT_KEY) || 'null');
+    if (!stored || typeof stored.bps !== 'number' || Date.now() - stored.at > THROUGHPUT_MAX_AGE_MS) return null;
+    return stored.bps;
+  } catch {
+    return null;
+  }
+}
+
+/** Bandwidth to plan the start with: measured throughput first, then the connection hint */
+export function getBandwidthEstimate(): { bps: number; source: 'throughput' | 'connection' } | null {
+  const measured = getThroughputEstimate();
+  if (measured !== null) return { bps: measured, source: 'throughput' };
+  const connection = getConnection();
+  if (connection?.downlink) return { bps: connection.downlink * 1_000_000, source: 'connection' };
+  if (connection?.effectiveType && EFFECTIVE_TYPE_BPS[connection.effectiveType]) {
+    return { bps: EFFECTIVE_TYPE_BPS[connection.effectiveType], source: 'connection' };
+  }
+  return null;
+}
+
+/** The browser-wide "reduce data usage" flag counts as Data saver */
+export const getEffectivePreference = (): QualityPreference =>
+  getConnection()?.saveData ? 'data-saver' : getQualityPreference();
+
+// ---- Policy ----
+
+/**
+ * Highest level index worth loading for an element of this size: the first
+ * level (by bitrate) that already fills the element at device resolution.
+ */
+function renderCapIndex(levels: RenditionLevel[], order: number[], el: HTMLVideoElement): number {
+  const dpr = window.devicePixelRatio || 1;
+  const boxW = el.clientWidth * dpr;
+  const boxH = el.clientHeight * dpr;
+  if (!boxW || !boxH) return order[order.length - 1];
+  for (const i of order) {
+    const { width, height } = levels[i];
+    if (width && height && Math.min(boxW / width, boxH / height) <= 1) return i;
+  }
+  return order[order.length - 1];
+}
+
+/** Picks the hls.js level to start on. Levels need not be sorted. */
+export function pickStartupLevel(levels: RenditionLevel[], el: HTMLVideoElement): StartupQuality {
+  const preference = getEffectivePreference();
+  const estimate = getBandwidthEstimate();
+  const order = levels.map((_, i) => i).sort((a, b) => levels[a].bitrate - levels[b].bitrate);
+  const result = (levelIndex: number, source: StartupQualitySource): StartupQuality => ({
+    preference,
+    levelIndex,
+    height: levels[levelIndex]?.height || null,
+    bitrate: levels[levelIndex]?.bitrate || null,
+    estimateBps: estimate ? Math.round(estimate.bps) : null,
+    source,
+  });
+
+  if (order.length === 0) return result(-1, 'default');
+
+  if (preference === 'data-saver') {
+    const fitting = order.filter(i => Math.min(levels[i].width, levels[i].height) <= DATA_SAVER_MAX_SHORT_SIDE);
+    return result(fitting.length > 0 ? fitting[fitting.length - 1] : order[0], 'data_saver');
+  }
+
+  const capIndex = renderCapIndex(levels, order, el);
+  const allowed = order.slice(0, order.indexOf(capIndex) + 1);
+
+  if (preference === 'high') return result(capIndex, 'high');
+
+  // Without any signal, start on the lowest level like before
+  if (!estimate) return result(order[0], 'default');
+
+  const budget = estimate.bps * BANDWIDTH_SAFETY;
+  const affordable = allowed.filter(i => levels[i].bitrate <= budget);
+  return result(affordable.length > 0 ? affordable[affordable.length - 1] : order[0], estimate.source);
+}
+
+/**
+ * Native HLS (Safari) picks its own rendition; Cloudflare Stream accepts a
+ * bandwidth hint in Mbps on the manifest URL to steer the first one.
+ */
+export function nativeStartupHint(): { hintMbps: number | null; quality: StartupQuality } {
+  const preference = getEffectivePreference();
+  const estimate = getBandwidthEstimate();
+  let hintMbps: number | null = null;
+  if (preference === 'data-saver') hintMbps = 0.5;
+  else if (preference === 'high') hintMbps = 20;
+  else if (estimate) hintMbps = Math.max(0.1, Math.round(estimate.bps * BANDWIDTH_SAFETY / 100_000) / 10);
+  return {
+    hintMbps,
+    quality: {
+      preference,
+      levelIndex: -1,
+      height: null,
+      bitrate: null,
+      estimateBps: estimate ? Math.round(estimate.bps) : null,
+      source: 'native_hint',
+    },
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Playback QoE telemetry.
+ *
+ * Events from the playback controller and the feed's video element are
+ * queued here and written to `playback_events` in batches: every
+ * FLUSH_INTERVAL_MS, as soon as MAX_BATCH events are waiting, and with a
+ * keepalive beacon when the page is hidden. refresh-feed-scores aggregates
+ * them per video for the ranker's startup reliability score.
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { postKeepalive } from '@/lib/keepalive';
+
+const FLUSH_INTERVAL_MS = 10000;
+const MAX_BATCH = 25;
+// Keeps a broken connection from growing the queue without bound
+const MAX_QUEUE = 200;
+
+export type PlaybackEventType =
+  | 'first_frame'
+  | 'startup_failed'
+  | 'retry'
+  | 'muted_fallback'
+  | 'rebuffer_start'
+  | 'rebuffer_end'
+  | 'level_switch'
+  | 'fatal_error';
+
+export interface PlaybackEvent {
+  type: PlaybackEventType;
+  /** first_frame: time to first frame; rebuffer_end: stall duration */
+  valueMs?: number;
+  /** level_switch: hls.js level index and its bitrate */
+  level?: number;
+  bitrate?: number;
+  detail?: string;
+}
+
+export interface PlaybackContext {
+  videoId: string;
+  playbackId: string;
+  userId: string | null;
+  feedSource: string | null;
+}
+
+interface PlaybackEventRow {
+  video_id: string;
+  playback_id: string;
+  viewer_id: string;
+  session_id: string | null;
+  user_id: string | null;
+  event_type: PlaybackEventType;
+  value_ms: number | null;
+  level: number | null;
+  bitrate: number | null;
+  detail: string | null;
+  feed_source: string | null;
+  created_at: string;
+}
+
+let queue: PlaybackEventRow[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let listening = false;
+
+export const createPlaybackId = (): string =>
+  crypto.randomUUID ? crypto.randomUUID() : `pb_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+
+function takeBatch(): PlaybackEventRow[] {
+  if (flushTimer) { clearTimeout(flushTimer); flushTimer = null; }
+  const batch = queue;
+  queue = [];
+  return batch;
+}
+
+function flush() {
+  const batch = takeBatch();
+  if (batch.length === 0) return;
+  supabase.from('playback_events').insert(batch).then(({ error }) => {
+    if (error) console.error('[PlaybackTelemetry] Failed to record events:', error);
+  });
+}
+
+function flushBeacon() {
+  const batch = takeBatch();
+  if (batch.length === 0) return;
+  postKeepalive('playback_events', batch);
+}
+
+function listenForPageHide() {
+  if (listening || typeof window === 'undefined') return;
+  listening = true;
+  window.addEventListener('pagehide', flushBeacon);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushBeacon();
+  });
+}
+
+export function recordPlaybackEvent(ctx: PlaybackContext, event: PlaybackEvent) {
+  listenForPageHide();
+  if (queue.length >= MAX_QUEUE) return;
+
+  queue.push({
+    video_id: ctx.videoId,
+    playback_id: ctx.playbackId,
+    viewer_id: ctx.userId || localStorage.getItem('anonymous_viewer_id_v1') || 'unknown',
+    session_id: localStorage.getItem('video_session_v2'),
+    user_id: ctx.userId,
+    event_type: event.type,
+    value_ms: event.valueMs !== undefined ? Math.max(0, Math.round(event.valueMs)) : null,
+    level: event.level ?? null,
+    bitrate: event.bitrate ?? null,
+    detail: event.detail?.slice(0, 200) ?? null,
+    feed_source: ctx.feedSource,
+    created_at: new Date().toISOString(),
+  });
+
+  if (queue.length >= MAX_BATCH) {
+    flush();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flush, FLUSH_INTERVAL_MS);
+  }
+}
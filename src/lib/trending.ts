@@ -0,0 +1,22 @@
+// Trending hashtags, precomputed server-side from engagement velocity
+// (refresh-trending) and served by get-trending.
+
+import { supabase } from "@/integrations/supabase/client";
+
+export interface TrendingHashtag {
+  tag: string;
+  score: number;
+  /** Recent engagement relative to the tag's baseline, 1 = flat */
+  lift: number;
+  recent_views: number;
+  video_count: number;
+}
+
+/** `categoriesOnly` keeps only tags that are active category slugs. */
+export const fetchTrendingHashtags = async (limit: number, categoriesOnly = false): Promise<TrendingHashtag[]> => {
+  const { data, error } = await supabase.functions.invoke('get-trending', {
+    body: { kind: 'hashtags', limit, categoriesOnly },
+  });
+  if (error) throw error;
+  return data?.hashtags || [];
+};
@@ -0,0 +1,185 @@
+// Minimal tus 1.0 client for Cloudflare Stream direct creator uploads.
+// Uploads in fixed-size chunks so a dropped connection only loses the current
+// chunk, and persists the upload URL so a reload can pick up where it stopped
+// (the user re-selects the same file; we match it by fingerprint).
+
+const TUS_VERSION = '1.0.0';
+
+// Cloudflare requires non-final chunks to be a multiple of 256 KiB and at least 5 MiB
+export const CHUNK_SIZE = 5 * 1024 * 1024;
+
+const RETRY_DELAYS_MS = [1000, 3000, 5000, 10000, 20000];
+const STORAGE_KEY = 'pending_stream_uploads_v1';
+// Cloudflare expires unfinished direct uploads; older entries are useless
+const PENDING_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface PendingUpload {
+  fingerprint: string;
+  userId: string;
+  videoId: string;
+  uploadUrl: string;
+  cloudflareUploadId: string;
+  fileName: string;
+  fileSize: number;
+  bytesUploaded: number;
+  createdAt: number;
+}
+
+/** The upload URL is gone (expired or finished elsewhere); a new one is needed. */
+export class UploadExpiredError extends Error {
+  constructor() {
+    super('Upload link expired');
+    this.name = 'UploadExpiredError';
+  }
+}
+
+export class UploadAbortedError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadAbortedError';
+  }
+}
+
+export const getFileFingerprint = (file: File, userId: string) =>
+  ['tus', userId, file.name, file.type, file.size, file.lastModified].join('-');
+
+// ---- Persistence ----
+
+export const loadPendingUploads = (): PendingUpload[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const entries: PendingUpload[] = raw ? JSON.parse(raw) : [];
+    return entries.filter(e => Date.now() - e.createdAt < PENDING_MAX_AGE_MS);
+  } catch { return []; }
+};
+
+const writePendingUploads = (entries: PendingUpload[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage full or disabled: uploads still work, just without resume
+  }
+};
+
+export const savePendingUpload = (entry: PendingUpload) => {
+  writePendingUploads([...loadPendingUploads().filter(e => e.fingerprint !== entry.fingerprint), entry]);
+};
+
+export const removePendingUpload = (fingerprint: string) => {
+  writePendingUploads(loadPendingUploads().filter(e => e.fingerprint !== fingerprint));
+};
+
+// ---- Protocol ----
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new UploadAbortedError());
+    }, { once: true });
+  });
+
+const waitForOnline = (signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (navigator.onLine) return resolve();
+    const onOnline = () => { window.removeEventListener('online', onOnline); resolve(); };
+    window.addEventListener('online', onOnline);
+    signal?.addEventListener('abort', () => {
+      window.removeEventListener('online', onOnline);
+      reject(new UploadAbortedError());
+    }, { once: true });
+  });
+
+/** Asks the server how many bytes it already has. */
+const fetchOffset = async (uploadUrl: string, signal?: AbortSignal): Promise<number> => {
+  const res = await fetch(uploadUrl, {
+    method: 'HEAD',
+    headers: { 'Tus-Resumable': TUS_VERSION },
+    signal,
+  });
+  if (res.status === 404 || res.status === 410 || res.status === 403) throw new UploadExpiredError();
+  if (!res.ok) throw new Error(`HEAD failed: ${res.status}`);
+  const offset = parseInt(res.headers.get('Upload-Offset') || '', 10);
+  if (Number.isNaN(offset)) throw new Error('Missing Upload-Offset');
+  return offset;
+};
+
+/** PATCHes one chunk. XHR rather than fetch so we get upload progress events. */
+const sendChunk = (
+  uploadUrl: string,
+  chunk: Blob,
+  offset: number,
+  onChunkProgress: (loaded: number) => void,
+  signal?: AbortSignal,
+): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', uploadUrl);
+    xhr.setRequestHeader('Tus-Resumable', TUS_VERSION);
+    xhr.setRequestHeader('Upload-Offset', String(offset));
+    xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = (e) => onChunkProgress(e.loaded);
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status === 404 || xhr.status === 410 || xhr.status === 403) return reject(new UploadExpiredError());
+      if (xhr.status < 200 || xhr.status >= 300) return reject(new Error(`PATCH failed: ${xhr.status}`));
+      const next = parseInt(xhr.getResponseHeader('Upload-Offset') || '', 10);
+      resolve(Number.isNaN(next) ? offset + chunk.size : next);
+    };
+    xhr.onerror = () => { cleanup(); reject(new Error('Network error')); };
+    xhr.onabort = () => { cleanup(); reject(new UploadAbortedError()); };
+    xhr.send(chunk);
+  });
+
+interface UploadOptions {
+  uploadUrl: string;
+  file: File;
+  signal?: AbortSignal;
+  /** Bytes acknowledged by the server plus bytes in flight */
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+  /** Called after every acknowledged chunk, for persisting resume state */
+  onChunkComplete?: (offset: number) => void;
+}
+
+/**
+ * Uploads `file` to a tus URL, resuming from whatever offset the server
+ * reports. Transient failures are retried with backoff (and wait for the
+ * device to come back online); each retry re-syncs the offset first.
+ */
+export const uploadResumable = async ({ uploadUrl, file, signal, onProgress, onChunkComplete }: UploadOptions) => {
+  let offset = await fetchOffset(uploadUrl, signal);
+  onProgress?.(offset, file.size);
+  let attempt = 0;
+
+  while (offset < file.size) {
+    if (signal?.aborted) throw new UploadAbortedError();
+    const chunk = file.slice(offset, Math.min(offset + CHUNK_SIZE, file.size));
+    try {
+      const base = offset;
+      offset = await sendChunk(uploadUrl, chunk, offset, (loaded) => onProgress?.(base + loaded, file.size), signal);
+      attempt = 0;
+      onProgress?.(offset, file.size);
+      onChunkComplete?.(offset);
+    } catch (err) {
+      if (err instanceof UploadExpiredError || err instanceof UploadAbortedError) throw err;
+      if (attempt >= RETRY_DELAYS_MS.length) throw err;
+      console.warn(`[tus] Chunk at ${offset} failed, retrying:`, err);
+      await sleep(RETRY_DELAYS_MS[attempt++], signal);
+      await waitForOnline(signal);
+      try {
+        offset = await fetchOffset(uploadUrl, signal);
+      } catch (headErr) {
+        // Still offline-ish: keep the last known offset and let the next PATCH retry
+        if (headErr instanceof UploadExpiredError) throw headErr;
+        if (signal?.aborted) throw new UploadAbortedError();
+      }
+      onProgress?.(offset, file.size);
+    }
+  }
+};
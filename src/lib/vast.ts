@@ -0,0 +1,180 @@
+/**
+ * Minimal VAST 3 / 4 client for third-party ads in the feed's ad slot.
+ *
+ * - Resolves Wrapper chains (up to MAX_WRAPPER_DEPTH), collecting every
+ *   level's impression, error, tracking and click-tracking URLs.
+ * - Uses the first InLine Linear creative with a progressive MediaFile the
+ *   browser can play; the playback controller sets it as a plain src.
+ * - A response without a playable ad is "no fill" (null), and the feed
+ *   falls back to one of our own ads.
+ *
+ * Local fixtures for testing live in public/vast/.
+ */
+
+const MAX_WRAPPER_DEPTH = 5;
+const FETCH_TIMEOUT_MS = 4000;
+// Preferred rendition width for a full-screen vertical slot
+const TARGET_WIDTH = 720;
+
+export type VastTrackingEvent =
+  | 'start'
+  | 'firstQuartile'
+  | 'midpoint'
+  | 'thirdQuartile'
+  | 'complete'
+  | 'mute'
+  | 'unmute'
+  | 'pause'
+  | 'resume';
+
+export interface VastAd {
+  mediaUrl: string;
+  durationSec: number | null;
+  clickThrough: string | null;
+  impressions: string[];
+  errors: string[];
+  clickTracking: string[];
+  tracking: Partial<Record<VastTrackingEvent, string[]>>;
+}
+
+// IAB VAST error codes we report
+export const VAST_ERROR = {
+  WRAPPER_LIMIT: 302,
+  NO_ADS: 303,
+  NO_SUPPORTED_MEDIA: 403,
+  MEDIA_FAILED: 405,
+  UNDEFINED: 900,
+} as const;
+
+interface Collected {
+  impressions: string[];
+  errors: string[];
+  clickTracking: string[];
+  tracking: Partial<Record<VastTrackingEvent, string[]>>;
+}
+
+const text = (el: Element | null | undefined): string => (el?.textContent || '').trim();
+
+const children = (parent: Element, tag: string): Element[] =>
+  Array.from(parent.getElementsByTagName(tag));
+
+function parseDuration(value: string): number | null {
+  const match = value.match(/^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+function collect(adEl: Element, into: Collected) {
+  children(adEl, 'Impression').forEach(el => text(el) && into.impressions.push(text(el)));
+  children(adEl, 'Error').forEach(el => text(el) && into.errors.push(text(el)));
+  children(adEl, 'ClickTracking').forEach(el => text(el) && into.clickTracking.push(text(el)));
+  children(adEl, 'Tracking').forEach(el => {
+    const event = el.getAttribute('event') as VastTrackingEvent | null;
+    if (!event || !text(el)) return;
+    (into.tracking[event] ||= []).push(text(el));
+  });
+}
+
+function pickMediaFile(linear: Element): string | null {
+  const video = document.createElement('video');
+  const candidates = children(linear, 'MediaFile')
+    .filter(el => (el.getAttribute('delivery') || 'progressive') === 'progressive')
+    .filter(el => {
+      const type = el.getAttribute('type') || '';
+      return type.startsWith('video/') && video.canPlayType(type) !== '' && text(el);
+    })
+    .sort((a, b) =>
+      Math.abs(Number(a.getAttribute('width') || 0) - TARGET_WIDTH) -
+      Math.abs(Number(b.getAttribute('width') || 0) - TARGET_WIDTH)
+    );
+  return candidates.length > 0 ? text(candidates[0]) : null;
+}
+
+async function fetchXml(url: string): Promise<Document> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { signal: controller.signal, credentials: 'omit' });
+    if (!res.ok) throw new Error(`VAST request failed: ${res.status}`);
+    const doc = new DOMParser().parseFromString(await res.text(), 'text/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Invalid VAST XML');
+    return doc;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Replaces the standard macros we can fill in client-side */
+export function expandVastMacros(url: string, errorCode?: number): string {
+  return url
+    .replace(/\[CACHEBUSTING\]/g, String(Math.floor(Math.random() * 1e8)).padStart(8, '0'))
+    .replace(/\[TIMESTAMP\]/g, encodeURIComponent(new Date().toISOString()))
+    .replace(/\[ERRORCODE\]/g, errorCode !== undefined ? String(errorCode) : '');
+}
+
+/** Fire-and-forget tracking pixels */
+export function fireVastPixels(urls: string[] | undefined, errorCode?: number) {
+  (urls || []).forEach(url => {
+    const img = new Image();
+    img.src = expandVastMacros(url, errorCode);
+  });
+}
+
+/**
+ * Fetches a VAST tag and resolves it to a playable linear ad, or null when
+ * the tag has no fill. Error pixels are fired for the levels reached.
+ */
+export async function fetchVastAd(tagUrl: string): Promise<VastAd | null> {
+  const collected: Collected = { impressions: [], errors: [], clickTracking: [], tracking: {} };
+  let url = tagUrl;
+
+  const noFill = (code: number) => {
+    fireVastPixels(collected.errors, code);
+    return null;
+  };
+
+  try {
+    for (let depth = 0; depth <= MAX_WRAPPER_DEPTH; depth++) {
+      const doc = await fetchXml(url);
+      const adEl = doc.getElementsByTagName('Ad')[0];
+      if (!adEl) {
+        // An empty <VAST> may still carry a root-level <Error>
+        children(doc.documentElement, 'Error').forEach(el => text(el) && collected.errors.push(text(el)));
+        return noFill(VAST_ERROR.NO_ADS);
+      }
+
+      collect(adEl, collected);
+
+      const wrapper = adEl.getElementsByTagName('Wrapper')[0];
+      if (wrapper) {
+        const next = text(wrapper.getElementsByTagName('VASTAdTagURI')[0]);
+        if (!next) return noFill(VAST_ERROR.UNDEFINED);
+        // Relative URIs resolve against the wrapper, which keeps local fixtures working
+        url = new URL(next, new URL(url, window.location.href)).toString();
+        continue;
+      }
+
+      const inline = adEl.getElementsByTagName('InLine')[0];
+      const linear = inline?.getElementsByTagName('Linear')[0];
+      if (!linear) return noFill(VAST_ERROR.NO_ADS);
+
+      const mediaUrl = pickMediaFile(linear);
+      if (!mediaUrl) return noFill(VAST_ERROR.NO_SUPPORTED_MEDIA);
+
+      return {
+        mediaUrl,
+        durationSec: parseDuration(text(linear.getElementsByTagName('Duration')[0])),
+        clickThrough: text(linear.getElementsByTagName('ClickThrough')[0]) || null,
+        impressions: collected.impressions,
+        errors: collected.errors,
+        clickTracking: collected.clickTracking,
+        tracking: collected.tracking,
+      };
+    }
+
+    return noFill(VAST_ERROR.WRAPPER_LIMIT);
+  } catch (err) {
+    console.warn('[VAST] No fill:', err);
+    return noFill(VAST_ERROR.UNDEFINED);
+  }
+}
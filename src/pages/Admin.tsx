@@ -7,10 +7,13 @@ import { AdminVideos } from "@/components/admin/AdminVideos";
 import { AdminAds } from "@/components/admin/AdminAds";
 import { AdminTracking } from "@/components/admin/AdminTracking";
 import { AdminSessionAnalysis } from "@/components/admin/AdminSessionAnalysis";
+import { AdminRankingReplay } from "@/components/admin/AdminRankingReplay";
+import { AdminExperiments } from "@/components/admin/AdminExperiments";
+import { AdminCategories } from "@/components/admin/AdminCategories";
 
 import { SEO } from "@/components/SEO";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, LayoutDashboard, Users, Video, ArrowLeft, Link2, Radio, AlertTriangle, Activity } from "lucide-react";
+import { Loader2, LayoutDashboard, Users, Video, ArrowLeft, Link2, Radio, AlertTriangle, Activity, FlaskConical, Split, Tags } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 
@@ -107,7 +110,7 @@ const Admin = () => {
 
       <main className="container mx-auto px-4 py-6">
         <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList className="grid w-full max-w-4xl grid-cols-6">
+          <TabsList className="grid w-full max-w-6xl grid-cols-9">
             <TabsTrigger value="overview" className="flex items-center gap-2">
               <LayoutDashboard className="h-4 w-4" />
               <span className="hidden sm:inline">Overview</span>
@@ -116,6 +119,14 @@ const Admin = () => {
               <Activity className="h-4 w-4" />
               <span className="hidden sm:inline">Sessions</span>
             </TabsTrigger>
+            <TabsTrigger value="replay" className="flex items-center gap-2">
+              <FlaskConical className="h-4 w-4" />
+              <span className="hidden sm:inline">Replay</span>
+            </TabsTrigger>
+            <TabsTrigger value="experiments" className="flex items-center gap-2">
+              <Split className="h-4 w-4" />
+              <span className="hidden sm:inline">Experiments</span>
+            </TabsTrigger>
             <TabsTrigger value="users" className="flex items-center gap-2">
               <Users className="h-4 w-4" />
               <span className="hidden sm:inline">Users</span>
@@ -124,6 +135,10 @@ const Admin = () => {
               <Video className="h-4 w-4" />
               <span className="hidden sm:inline">Videos</span>
             </TabsTrigger>
+            <TabsTrigger value="categories" className="flex items-center gap-2">
+              <Tags className="h-4 w-4" />
+              <span className="hidden sm:inline">Categories</span>
+            </TabsTrigger>
             <TabsTrigger value="ads" className="flex items-center gap-2">
               <Radio className="h-4 w-4" />
               <span className="hidden sm:inline">Ads</span>
@@ -142,6 +157,14 @@ const Admin = () => {
             <AdminSessionAnalysis datePreset={datePreset} onDatePresetChange={setDatePreset} />
           </TabsContent>
 
+          <TabsContent value="replay">
+            <AdminRankingReplay />
+          </TabsContent>
+
+          <TabsContent value="experiments">
+            <AdminExperiments />
+          </TabsContent>
+
           <TabsContent value="users">
             <AdminUsers />
           </TabsContent>
@@ -150,6 +173,10 @@ const Admin = () => {
             <AdminVideos />
           </TabsContent>
 
+          <TabsContent value="categories">
+            <AdminCategories />
+          </TabsContent>
+
           <TabsContent value="ads">
             <AdminAds />
           </TabsContent>
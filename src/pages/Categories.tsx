@@ -5,43 +5,20 @@ import { supabase } from "@/integrations/supabase/client";
 import { BottomNav } from "@/components/BottomNav";
 
 import { SEO } from "@/components/SEO";
-import { Grid3x3 } from "lucide-react";
+import { Grid3x3, TrendingUp } from "lucide-react";
 import { useUnreadNotifications } from "@/hooks/use-unread-notifications";
-
-const ALL_CATEGORIES = [
-  { id: "beauty", name: "Beauty" },
-  { id: "real", name: "Real" },
-  { id: "public", name: "Public" },
-  { id: "homemade", name: "Homemade" },
-  { id: "pov", name: "POV" },
-  { id: "mom", name: "Mom" },
-  { id: "milf", name: "MILF" },
-  { id: "amateur", name: "Amateur" },
-  { id: "latina", name: "Latina" },
-  { id: "asian", name: "Asian" },
-  { id: "big_ass", name: "Big Ass" },
-  { id: "big_tits", name: "Big Tits" },
-  { id: "lesbian", name: "Lesbian" },
-  { id: "blonde", name: "Blonde" },
-  { id: "brunettes", name: "Brunettes" },
-  { id: "red_head", name: "Red Head" },
-  { id: "small", name: "Small" },
-  { id: "stepsis", name: "Stepsis" },
-  { id: "anal", name: "Anal" },
-  { id: "blowjob", name: "Blowjob" },
-  { id: "teen", name: "Teen" },
-  { id: "goth", name: "Goth" },
-  { id: "cumshot", name: "Cumshot" },
-  { id: "squirt", name: "Squirt" },
-];
+import { useCategories, type Category } from "@/hooks/use-categories";
+import { fetchTrendingHashtags, type TrendingHashtag } from "@/lib/trending";
 
 const Categories = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   
-  const [categories, setCategories] = useState<typeof ALL_CATEGORIES>([]);
+  const { categories: allCategories, loading: categoriesLoading } = useCategories();
+  const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
+  const [trending, setTrending] = useState<TrendingHashtag[]>([]);
   const unreadCount = useUnreadNotifications(user?.id || null);
 
   useEffect(() => {
@@ -59,6 +36,8 @@ const Categories = () => {
   }, [navigate]);
 
   useEffect(() => {
+    if (categoriesLoading) return;
+
     const fetchCategoryCounts = async () => {
       setLoading(true);
       // Fetch all videos' tags to count per category
@@ -77,13 +56,35 @@ const Categories = () => {
         }
       }
 
-      setCategories(ALL_CATEGORIES.filter(c => (counts[c.id] || 0) >= 20));
+      setCategories(allCategories.filter(c => (counts[c.slug] || 0) >= 20));
       setLoading(false);
     };
 
     fetchCategoryCounts();
+  }, [allCategories, categoriesLoading]);
+
+  useEffect(() => {
+    fetchTrendingHashtags(6, true)
+      .then(setTrending)
+      .catch((error) => console.error("Error fetching trending categories:", error));
   }, []);
 
+  const openCategory = async (slug: string) => {
+    const sessionId = sessionStorage.getItem("session_id") || crypto.randomUUID();
+    sessionStorage.setItem("session_id", sessionId);
+    await supabase.from("category_clicks").insert({
+      category: slug,
+      user_id: user?.id || null,
+      session_id: sessionId,
+    });
+    navigate(`/?category=${encodeURIComponent(slug)}`);
+  };
+
+  const trendingCategories = trending.flatMap(t => {
+    const category = allCategories.find(c => c.slug.toLowerCase() === t.tag);
+    return category ? [{ category, lift: t.lift }] : [];
+  });
+
   return (
     <div className="min-h-screen bg-black pb-20">
       <SEO 
@@ -96,6 +97,29 @@ const Categories = () => {
           <h1 className="text-3xl font-bold text-white">Categories</h1>
         </div>
 
+        {trendingCategories.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+              <TrendingUp className="h-5 w-5 text-primary" />
+              Trending Now
+            </h2>
+            <div className="flex gap-2 overflow-x-auto scrollbar-hide pb-1">
+              {trendingCategories.map(({ category, lift }) => (
+                <button
+                  key={category.slug}
+                  onClick={() => openCategory(category.slug)}
+                  className="flex-shrink-0 flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 border border-white/10 hover:border-primary transition-colors"
+                >
+                  <span className="text-white font-medium">{category.display_name}</span>
+                  {lift >= 1.5 && (
+                    <span className="text-xs text-primary font-semibold">×{lift.toFixed(1)}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
           Most Popular 🔥
         </h2>
@@ -112,21 +136,22 @@ const Categories = () => {
           <div className="grid grid-cols-2 gap-4">
             {categories.map((category) => (
               <button
-                key={category.id}
-                onClick={async () => {
-                  const sessionId = sessionStorage.getItem("session_id") || crypto.randomUUID();
-                  sessionStorage.setItem("session_id", sessionId);
-                  await supabase.from("category_clicks").insert({
-                    category: category.id,
-                    user_id: user?.id || null,
-                    session_id: sessionId,
-                  });
-                  navigate(`/?category=${encodeURIComponent(category.id)}`);
-                }}
-                className="aspect-square bg-white/5 rounded-2xl border-2 border-white/10 hover:border-primary transition-colors flex items-center justify-center group"
+                key={category.slug}
+                onClick={() => openCategory(category.slug)}
+                className="relative aspect-square bg-white/5 rounded-2xl border-2 border-white/10 hover:border-primary transition-colors flex items-center justify-center group overflow-hidden"
               >
-                <span className="text-xl font-semibold text-white group-hover:text-primary transition-colors">
-                  {category.name}
+                {category.cover_image_url && (
+                  <>
+                    <img
+                      src={category.cover_image_url}
+                      alt=""
+                      className="absolute inset-0 w-full h-full object-cover"
+                    />
+                    <div className="absolute inset-0 bg-black/50" />
+                  </>
+                )}
+                <span className="relative text-xl font-semibold text-white group-hover:text-primary transition-colors">
+                  {category.display_name}
                 </span>
               </button>
             ))}
@@ -2,6 +2,8 @@ import { useEffect, useState, useRef } from "react";
 import { useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { getVideoSource, getCloudflareStreamUrl, supportsHlsNatively } from "@/lib/cloudinary";
+import { useCaptions } from "@/hooks/use-captions";
+import { getCaptionsEnabled, setCaptionsEnabled } from "@/lib/globalCaptions";
 import Hls from "hls.js";
 
 interface EmbedVideoData {
@@ -18,6 +20,9 @@ const EmbedVideo = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const hlsRef = useRef<Hls | null>(null);
 
+  // The native controls' CC menu picks the language; the on/off choice is remembered
+  const { tracks: captionTracks } = useCaptions({ videoId: video?.id, enabled: !!video, videoRef });
+
   useEffect(() => {
     if (!videoId) return;
     supabase
@@ -62,6 +67,17 @@ const EmbedVideo = () => {
     };
   }, [video]);
 
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!video || !el) return;
+    const onTracksChange = () => {
+      const showing = Array.from(el.textTracks).some(t => t.mode === "showing");
+      if (showing !== getCaptionsEnabled()) setCaptionsEnabled(showing);
+    };
+    el.textTracks.addEventListener("change", onTracksChange);
+    return () => el.textTracks.removeEventListener("change", onTracksChange);
+  }, [video]);
+
   if (error) {
     return (
       <div style={{ background: "#000", color: "#fff", display: "flex", alignItems: "center", justifyContent: "center", width: "100vw", height: "100vh", fontFamily: "sans-serif" }}>
@@ -89,7 +105,11 @@ const EmbedVideo = () => {
         muted
         style={{ maxWidth: "100%", maxHeight: "100%", objectFit: "contain" }}
         title={video.title}
-      />
+      >
+        {captionTracks.map(track => (
+          <track key={track.language} kind="subtitles" src={track.src} srcLang={track.language} label={track.label} />
+        ))}
+      </video>
     </div>
   );
 };
@@ -3,22 +3,35 @@ import { VideoFeed } from "@/components/VideoFeed";
 import { BottomNav } from "@/components/BottomNav";
 import { SEO } from "@/components/SEO";
 import { EntryGate } from "@/components/EntryGate";
-import { Search, X } from "lucide-react";
+import { KeyboardShortcutsHelp } from "@/components/KeyboardShortcutsHelp";
+import { Search, X, Loader2 } from "lucide-react";
 import { useUnreadNotifications } from "@/hooks/use-unread-notifications";
 import { useAdmin } from "@/hooks/useAdmin";
+import { useCategories } from "@/hooks/use-categories";
 import { useAuth } from "@/contexts/AuthContext";
 import { useState } from "react";
 
+const TAB_LABELS = {
+  following: 'Following',
+  for_you: 'For You',
+  trending: 'Trending',
+} as const;
+
 const Feed = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const searchQuery = searchParams.get('search') || '';
   const categoryFilter = searchParams.get('category') || '';
+  const tabParam = searchParams.get('tab');
+  const tab = tabParam === 'following' || tabParam === 'trending' ? tabParam : 'for_you';
+  const showTabs = !categoryFilter && !searchQuery;
   
   const { user, status: authStatus } = useAuth();
   const [refreshKey, setRefreshKey] = useState(0);
   const unreadCount = useUnreadNotifications(user?.id || null);
   const { isAdmin } = useAdmin();
+  const { categories } = useCategories();
+  const categoryName = categories.find(c => c.slug === categoryFilter)?.display_name || categoryFilter;
 
   const handleRefresh = () => {
     // If on a category feed, clicking Home should navigate to clean feed
@@ -28,13 +41,21 @@ const Feed = () => {
     setRefreshKey(prev => prev + 1);
   };
 
+  const handleTabChange = (next: typeof tab) => {
+    if (next === tab) {
+      setRefreshKey(prev => prev + 1);
+      return;
+    }
+    setSearchParams(next === 'for_you' ? {} : { tab: next }, { replace: true });
+  };
+
   return (
     <EntryGate>
       <div className="h-[100dvh] bg-black flex flex-col relative">
         <SEO 
-          title={categoryFilter ? `${categoryFilter} Videos` : undefined}
+          title={categoryFilter ? `${categoryName} Videos` : undefined}
           description={categoryFilter 
-            ? `Watch the best ${categoryFilter} porn videos on ShortPornVids. Free XXX clips updated daily.` 
+            ? `Watch the best ${categoryName} porn videos on ShortPornVids. Free XXX clips updated daily.` 
             : "Watch free short porn videos on ShortPornVids. Discover endless hot clips, trending XXX content, and personalized recommendations."
           }
         />
@@ -48,11 +69,27 @@ const Feed = () => {
             }}
             className="fixed top-4 left-4 z-[60] px-4 py-2 bg-black/50 backdrop-blur-sm hover:bg-black/70 rounded-full transition-colors flex items-center gap-2"
           >
-            <span className="text-white font-medium capitalize">{categoryFilter}</span>
+            <span className="text-white font-medium capitalize">{categoryName}</span>
             <X className="h-5 w-5 text-white" />
           </button>
         )}
 
+        {showTabs && (
+          <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-2 bg-black/30 backdrop-blur-sm rounded-full">
+            {(['following', 'for_you', 'trending'] as const).map((t) => (
+              <button
+                key={t}
+                onClick={() => handleTabChange(t)}
+                className={`text-sm font-semibold transition-colors ${
+                  tab === t ? 'text-white' : 'text-white/50 hover:text-white/80'
+                }`}
+              >
+                {TAB_LABELS[t]}
+              </button>
+            ))}
+          </div>
+        )}
+
         <button
           onClick={() => navigate("/search")}
           className="fixed top-4 right-4 z-50 p-2 bg-black/50 backdrop-blur-sm hover:bg-black/70 rounded-full transition-colors"
@@ -60,12 +97,22 @@ const Feed = () => {
           <Search className="h-6 w-6 text-white" />
         </button>
 
-        <VideoFeed 
-          key={refreshKey} 
-          searchQuery={searchQuery} 
-          categoryFilter={categoryFilter} 
-          userId={user?.id || null} 
-        />
+        <KeyboardShortcutsHelp className="fixed top-16 right-4 z-50" />
+
+        {showTabs && tab === 'following' && authStatus === 'loading' ? (
+          // Wait for the session so signed-in users don't flash the sign-in prompt
+          <div className="flex justify-center items-center h-[100dvh] bg-black">
+            <Loader2 className="h-10 w-10 animate-spin text-primary" />
+          </div>
+        ) : (
+          <VideoFeed 
+            key={`${tab}-${refreshKey}`} 
+            searchQuery={searchQuery} 
+            categoryFilter={categoryFilter} 
+            userId={user?.id || null} 
+            mode={showTabs ? tab : 'for_you'}
+          />
+        )}
         <BottomNav
           isAuthenticated={!!user}
           onHomeRefresh={handleRefresh}
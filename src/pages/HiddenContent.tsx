@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Loader2, ThumbsDown, UserX, EyeOff } from "lucide-react";
+import { toast } from "sonner";
+import { SEO } from "@/components/SEO";
+import { Button } from "@/components/ui/button";
+import { getThumbnailUrl, getOptimizedAvatarUrl } from "@/lib/cloudinary";
+import { listFeedHides, unhideFromFeed, type FeedHide, type FeedHideKind } from "@/lib/feedHides";
+
+const SECTIONS: { kind: FeedHideKind; title: string; empty: string }[] = [
+  { kind: "creator", title: "Hidden creators", empty: "You haven't hidden any creators." },
+  { kind: "category", title: "Hidden categories", empty: "You haven't hidden any categories." },
+  { kind: "video", title: "Not interested", empty: "You haven't marked any videos as not interested." },
+];
+
+const KIND_ICONS: Record<FeedHideKind, typeof EyeOff> = {
+  video: ThumbsDown,
+  creator: UserX,
+  category: EyeOff,
+};
+
+const HiddenContent = () => {
+  const navigate = useNavigate();
+  const [hides, setHides] = useState<FeedHide[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listFeedHides()
+      .then(setHides)
+      .catch(() => toast.error("Failed to load hidden content"))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleUnhide = async (hide: FeedHide) => {
+    setRemovingId(hide.id);
+    try {
+      await unhideFromFeed(hide.id);
+      setHides(prev => prev.filter(h => h.id !== hide.id));
+      toast.success(`${hide.label} will show in your feed again`);
+    } catch {
+      toast.error("Failed to update your feed");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const renderImage = (hide: FeedHide) => {
+    const Icon = KIND_ICONS[hide.kind];
+    if (hide.kind === "video" && (hide.cloudflareVideoId || hide.imageUrl)) {
+      return <img src={getThumbnailUrl(hide.cloudflareVideoId ?? null, hide.imageUrl)} alt="" className="w-10 h-14 rounded object-cover bg-muted" />;
+    }
+    if (hide.kind === "creator" && hide.imageUrl) {
+      return <img src={getOptimizedAvatarUrl(hide.imageUrl, 80)} alt="" className="w-10 h-10 rounded-full object-cover bg-muted" />;
+    }
+    return (
+      <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center">
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-[100dvh] bg-background flex flex-col">
+      <SEO title="Hidden content" noIndex />
+
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border sticky top-0 bg-background z-10">
+        <button onClick={() => navigate(-1)} className="p-1 text-foreground">
+          <ArrowLeft className="h-6 w-6" />
+        </button>
+        <h1 className="text-lg font-semibold text-foreground">Hidden content</h1>
+        <div className="w-10" />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="max-w-2xl w-full mx-auto p-4 space-y-6">
+          <p className="text-sm text-muted-foreground">
+            These never show in your For You feed. Show them again any time.
+          </p>
+          {SECTIONS.map(section => {
+            const items = hides.filter(h => h.kind === section.kind);
+            return (
+              <section key={section.kind} className="space-y-2">
+                <h2 className="text-sm font-semibold text-foreground">{section.title}</h2>
+                {items.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{section.empty}</p>
+                ) : (
+                  items.map(hide => (
+                    <div key={hide.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
+                      {renderImage(hide)}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground truncate">
+                          {hide.kind === "category" ? `#${hide.label}` : hide.label}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Hidden {new Date(hide.created_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleUnhide(hide)}
+                        disabled={removingId === hide.id}
+                      >
+                        {removingId === hide.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Show again"}
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HiddenContent;
@@ -5,14 +5,14 @@ import { supabase } from "@/integrations/supabase/client";
 import { BottomNav } from "@/components/BottomNav";
 
 import { SEO } from "@/components/SEO";
-import { Heart, MessageCircle, Bookmark, UserPlus, Search } from "lucide-react";
+import { Heart, MessageCircle, Bookmark, UserPlus, Search, CheckCircle2, AlertCircle } from "lucide-react";
 import { toast } from "sonner";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useUnreadNotifications } from "@/hooks/use-unread-notifications";
 
 interface Notification {
   id: string;
-  type: "like" | "comment" | "save" | "follow";
+  type: "like" | "comment" | "save" | "follow" | "video_ready" | "video_failed";
   actor_id: string;
   video_id: string | null;
   comment_id: string | null;
@@ -25,8 +25,15 @@ interface Notification {
   comment?: {
     content: string;
   };
+  video?: {
+    processing_error: string | null;
+  } | null;
 }
 
+// Sent by the upload pipeline; the uploader is their own actor
+const isUploadNotification = (type: Notification["type"]) =>
+  type === "video_ready" || type === "video_failed";
+
 const Inbox = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
@@ -70,7 +77,8 @@ const Inbox = () => {
           is_read,
           created_at,
           actor:profiles!notifications_actor_id_fkey(username, avatar_url),
-          comment:comments(content)
+          comment:comments(content),
+          video:videos(processing_error)
         `)
         .eq("user_id", userId)
         .order("created_at", { ascending: false })
@@ -122,6 +130,8 @@ const Inbox = () => {
     
     if (notification.type === "follow") {
       navigate(`/profile/${notification.actor_id}`);
+    } else if (notification.type === "video_failed") {
+      navigate("/upload");
     } else if (notification.video_id) {
       navigate(`/video/${notification.video_id}`);
     }
@@ -137,6 +147,10 @@ const Inbox = () => {
         return <Bookmark className="h-5 w-5 text-yellow-500 fill-yellow-500" />;
       case "follow":
         return <UserPlus className="h-5 w-5 text-primary" />;
+      case "video_ready":
+        return <CheckCircle2 className="h-5 w-5 text-green-500" />;
+      case "video_failed":
+        return <AlertCircle className="h-5 w-5 text-red-500" />;
       default:
         return null;
     }
@@ -152,6 +166,10 @@ const Inbox = () => {
         return "saved your video";
       case "follow":
         return "started following you";
+      case "video_ready":
+        return "Your video is live";
+      case "video_failed":
+        return `Your video couldn't be published${notification.video?.processing_error ? `: ${notification.video.processing_error}` : ""}`;
       default:
         return "";
     }
@@ -251,8 +269,14 @@ const Inbox = () => {
 
                 <div className="flex-1 min-w-0">
                   <p className="text-white text-sm">
-                    <span className="font-semibold">{notification.actor.username}</span>{" "}
-                    <span className="text-white/70">{getNotificationText(notification)}</span>
+                    {isUploadNotification(notification.type) ? (
+                      <span className="text-white/70">{getNotificationText(notification)}</span>
+                    ) : (
+                      <>
+                        <span className="font-semibold">{notification.actor.username}</span>{" "}
+                        <span className="text-white/70">{getNotificationText(notification)}</span>
+                      </>
+                    )}
                   </p>
                   <p className="text-white/50 text-xs mt-1">
                     {formatTimeAgo(notification.created_at)}
@@ -10,7 +10,7 @@ import { VideoModal } from "@/components/VideoModal";
 import { SEO } from "@/components/SEO";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { LogOut, ArrowLeft, UserPlus, UserMinus, Search, Camera, Loader2, MoreVertical, Trash2, Pencil } from "lucide-react";
+import { LogOut, ArrowLeft, UserPlus, UserMinus, Search, Camera, Loader2, MoreVertical, Trash2, Pencil, EyeOff } from "lucide-react";
 import { useUnreadNotifications } from "@/hooks/use-unread-notifications";
 import { VideoThumbnail } from "@/components/VideoThumbnail";
 import { EditVideoDialog } from "@/components/EditVideoDialog";
@@ -418,6 +418,15 @@ const Profile = () => {
           >
             <Search className="h-6 w-6 text-white" />
           </button>
+          {isOwnProfile && (
+            <button
+              onClick={() => navigate("/settings/hidden")}
+              className="p-2 hover:bg-white/10 rounded-full transition-colors"
+              aria-label="Hidden content"
+            >
+              <EyeOff className="h-6 w-6 text-white" />
+            </button>
+          )}
           {isOwnProfile && (
             <button onClick={handleLogout} className="p-2 hover:bg-white/10 rounded-full transition-colors">
               <LogOut className="h-6 w-6 text-white" />
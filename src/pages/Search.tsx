@@ -11,33 +11,8 @@ import { Input } from "@/components/ui/input";
 import { Search as SearchIcon, TrendingUp, Clock, ChevronRight, Grid3x3 } from "lucide-react";
 import { toast } from "sonner";
 import { useUnreadNotifications } from "@/hooks/use-unread-notifications";
-
-const ALL_CATEGORIES = [
-  { id: "beauty", name: "Beauty" },
-  { id: "real", name: "Real" },
-  { id: "public", name: "Public" },
-  { id: "homemade", name: "Homemade" },
-  { id: "pov", name: "POV" },
-  { id: "mom", name: "Mom" },
-  { id: "milf", name: "MILF" },
-  { id: "amateur", name: "Amateur" },
-  { id: "latina", name: "Latina" },
-  { id: "asian", name: "Asian" },
-  { id: "big_ass", name: "Big Ass" },
-  { id: "big_tits", name: "Big Tits" },
-  { id: "lesbian", name: "Lesbian" },
-  { id: "blonde", name: "Blonde" },
-  { id: "brunettes", name: "Brunettes" },
-  { id: "red_head", name: "Red Head" },
-  { id: "small", name: "Small" },
-  { id: "stepsis", name: "Stepsis" },
-  { id: "anal", name: "Anal" },
-  { id: "blowjob", name: "Blowjob" },
-  { id: "teen", name: "Teen" },
-  { id: "goth", name: "Goth" },
-  { id: "cumshot", name: "Cumshot" },
-  { id: "squirt", name: "Squirt" },
-];
+import { useCategories } from "@/hooks/use-categories";
+import { fetchTrendingHashtags, type TrendingHashtag } from "@/lib/trending";
 
 interface Video {
   id: string;
@@ -75,13 +50,14 @@ const Search = () => {
   const [session, setSession] = useState<Session | null>(null);
   
   const unreadCount = useUnreadNotifications(user?.id || null);
+  const { categories } = useCategories();
   const [inputValue, setInputValue] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<Video[]>([]);
   const [userResults, setUserResults] = useState<UserResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
-  const [trendingHashtags, setTrendingHashtags] = useState<string[]>([]);
+  const [trendingHashtags, setTrendingHashtags] = useState<TrendingHashtag[]>([]);
   const [videoModalOpen, setVideoModalOpen] = useState(false);
   const [selectedVideoId, setSelectedVideoId] = useState<string | null>(null);
 
@@ -106,47 +82,11 @@ const Search = () => {
       setRecentSearches(JSON.parse(saved));
     }
 
-    // Fetch trending hashtags
-    fetchTrendingHashtags();
+    fetchTrendingHashtags(8)
+      .then(setTrendingHashtags)
+      .catch((error) => console.error("Error fetching trending:", error));
   }, []);
 
-  const fetchTrendingHashtags = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("videos")
-        .select("tags")
-        .not("tags", "is", null)
-        .order("likes_count", { ascending: false })
-        .limit(50);
-
-      if (error) throw error;
-
-      // Aggregate all tags
-      const allTags: string[] = [];
-      data?.forEach((video) => {
-        if (video.tags) {
-          allTags.push(...video.tags);
-        }
-      });
-
-      // Count occurrences
-      const tagCounts = allTags.reduce((acc, tag) => {
-        acc[tag] = (acc[tag] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-
-      // Get top 10
-      const trending = Object.entries(tagCounts)
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 5)
-        .map(([tag]) => tag);
-
-      setTrendingHashtags(trending);
-    } catch (error) {
-      console.error("Error fetching trending:", error);
-    }
-  };
-
   const handleSearch = async (query: string) => {
     if (!query.trim()) {
       setSearchResults([]);
@@ -237,9 +177,10 @@ const Search = () => {
             </h2>
 
             {(() => {
-              const matchingCategories = ALL_CATEGORIES.filter((cat) => {
+              const matchingCategories = categories.filter((cat) => {
                 const term = searchQuery.toLowerCase();
-                return cat.id.includes(term) || cat.name.toLowerCase().includes(term);
+                return cat.slug.includes(term) || cat.display_name.toLowerCase().includes(term) ||
+                  cat.synonyms.some((syn) => syn.includes(term) || term.includes(syn));
               });
               const topVideos = searchResults.slice(0, 6);
               const remainingVideos = searchResults.slice(6);
@@ -288,16 +229,20 @@ const Search = () => {
                       <div className="space-y-2">
                         {matchingCategories.map((cat) => (
                           <button
-                            key={cat.id}
-                            onClick={() => navigate(`/?category=${cat.id}`)}
+                            key={cat.slug}
+                            onClick={() => navigate(`/?category=${cat.slug}`)}
                             className="w-full flex items-center gap-3 p-3 bg-white/5 rounded-xl hover:bg-white/10 transition-colors"
                           >
-                            <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center flex-shrink-0">
-                              <Grid3x3 className="h-5 w-5 text-primary" />
+                            <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center flex-shrink-0 overflow-hidden">
+                              {cat.cover_image_url ? (
+                                <img src={cat.cover_image_url} alt={cat.display_name} className="w-full h-full object-cover" />
+                              ) : (
+                                <Grid3x3 className="h-5 w-5 text-primary" />
+                              )}
                             </div>
                             <div className="flex-1 text-left">
-                              <p className="text-white font-semibold">{cat.name}</p>
-                              <p className="text-white/40 text-xs">Browse {cat.name} videos</p>
+                              <p className="text-white font-semibold">{cat.display_name}</p>
+                              <p className="text-white/40 text-xs">Browse {cat.display_name} videos</p>
                             </div>
                             <ChevronRight className="h-4 w-4 text-white/30" />
                           </button>
@@ -394,18 +339,16 @@ const Search = () => {
               <h2 className="text-lg font-semibold">Trending Hashtags</h2>
             </div>
             <div className="space-y-2">
-              {trendingHashtags.map((tag, idx) => (
+              {trendingHashtags.map(({ tag, video_count }, idx) => (
                 <button
-                  key={idx}
-                  onClick={() => {
-                    setInputValue(tag);
-                    handleSearch(tag);
-                  }}
+                  key={tag}
+                  onClick={() => navigate(`/tag/${encodeURIComponent(tag)}`)}
                   className="w-full flex items-center justify-between p-4 bg-white/5 rounded-lg hover:bg-white/10 transition-colors border border-white/10"
                 >
                   <div className="flex items-center gap-3">
                     <span className="text-primary font-bold text-xl">#{idx + 1}</span>
                     <span className="text-white font-semibold">#{tag}</span>
+                    <span className="text-white/40 text-xs">{video_count} {video_count === 1 ? "video" : "videos"}</span>
                   </div>
                   <TrendingUp className="h-4 w-4 text-primary" />
                 </button>
@@ -0,0 +1,301 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Hash, Loader2, Play, Plus, Check } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { BottomNav } from "@/components/BottomNav";
+import { SEO, generateTagSEO } from "@/components/SEO";
+import { VideoModal } from "@/components/VideoModal";
+import { VideoThumbnail } from "@/components/VideoThumbnail";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useUnreadNotifications } from "@/hooks/use-unread-notifications";
+
+interface TagVideo {
+  id: string;
+  title: string;
+  description: string | null;
+  video_url: string;
+  cloudflare_video_id: string | null;
+  thumbnail_url: string | null;
+  views_count: number;
+  likes_count: number;
+  comments_count: number;
+  tags: string[] | null;
+  user_id: string;
+  created_at: string;
+  profiles: {
+    username: string;
+    avatar_url: string | null;
+  };
+}
+
+interface TagStats {
+  videoCount: number;
+  totalViews: number;
+  followerCount: number;
+}
+
+const GRID_SIZE = 30;
+
+const TAG_VIDEO_COLUMNS = `
+  id, title, description, video_url, cloudflare_video_id, thumbnail_url,
+  views_count, likes_count, comments_count, tags, user_id, created_at,
+  profiles!inner(username, avatar_url)
+`;
+
+const formatCount = (n: number) =>
+  n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}K` : String(n);
+
+const VideoGrid = ({ videos, onOpen }: { videos: TagVideo[]; onOpen: (video: TagVideo) => void }) => (
+  <div className="grid grid-cols-3 gap-1">
+    {videos.length === 0 ? (
+      <div className="col-span-3 text-center py-12 text-white/50">No videos yet</div>
+    ) : (
+      videos.map((video) => (
+        <div
+          key={video.id}
+          className="aspect-[9/16] bg-white/5 rounded-lg overflow-hidden cursor-pointer hover:opacity-80 transition-opacity relative"
+          onClick={() => onOpen(video)}
+        >
+          <VideoThumbnail
+            cloudflareVideoId={video.cloudflare_video_id}
+            thumbnailUrl={video.thumbnail_url}
+            videoUrl={video.video_url}
+            title={video.title}
+            videoId={video.id}
+          />
+          <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-2">
+            <div className="text-white text-xs font-semibold">{formatCount(video.views_count)} views</div>
+          </div>
+        </div>
+      ))
+    )}
+  </div>
+);
+
+const Tag = () => {
+  const { tag: tagParam = "" } = useParams();
+  // useParams already decodes; decoding again breaks tags containing "%"
+  const tag = tagParam.trim().toLowerCase();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const unreadCount = useUnreadNotifications(user?.id || null);
+
+  const [stats, setStats] = useState<TagStats | null>(null);
+  const [topVideos, setTopVideos] = useState<TagVideo[]>([]);
+  const [recentVideos, setRecentVideos] = useState<TagVideo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [isFollowLoading, setIsFollowLoading] = useState(false);
+  const [modalVideos, setModalVideos] = useState<TagVideo[]>([]);
+  const [selectedVideoId, setSelectedVideoId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!tag) return;
+    const fetchTag = async () => {
+      setLoading(true);
+      try {
+        const [statsResult, topResult, recentResult] = await Promise.all([
+          supabase.rpc("get_tag_stats", { p_tag: tag }),
+          supabase
+            .from("videos")
+            .select(TAG_VIDEO_COLUMNS)
+            .contains("tags", [tag])
+            .not("cloudflare_video_id", "is", null)
+            .order("views_count", { ascending: false })
+            .limit(GRID_SIZE),
+          supabase
+            .from("videos")
+            .select(TAG_VIDEO_COLUMNS)
+            .contains("tags", [tag])
+            .not("cloudflare_video_id", "is", null)
+            .order("created_at", { ascending: false })
+            .limit(GRID_SIZE),
+        ]);
+        if (statsResult.error) throw statsResult.error;
+        if (topResult.error) throw topResult.error;
+        if (recentResult.error) throw recentResult.error;
+
+        const row = statsResult.data?.[0];
+        setStats({
+          videoCount: row?.video_count ?? 0,
+          totalViews: row?.total_views ?? 0,
+          followerCount: row?.follower_count ?? 0,
+        });
+        setTopVideos((topResult.data || []) as TagVideo[]);
+        setRecentVideos((recentResult.data || []) as TagVideo[]);
+      } catch (error) {
+        console.error("Error fetching tag:", error);
+        toast.error("Failed to load videos");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchTag();
+  }, [tag]);
+
+  useEffect(() => {
+    if (!user || !tag) {
+      setIsFollowing(false);
+      return;
+    }
+    supabase
+      .from("tag_follows")
+      .select("tag")
+      .eq("user_id", user.id)
+      .eq("tag", tag)
+      .maybeSingle()
+      .then(({ data }) => setIsFollowing(!!data));
+  }, [user, tag]);
+
+  const handleFollowToggle = async () => {
+    if (!user) {
+      toast("Sign in to follow tags", { action: { label: "Sign in", onClick: () => navigate("/auth") } });
+      return;
+    }
+
+    setIsFollowLoading(true);
+    try {
+      if (isFollowing) {
+        const { error } = await supabase
+          .from("tag_follows")
+          .delete()
+          .eq("user_id", user.id)
+          .eq("tag", tag);
+        if (error) throw error;
+        setIsFollowing(false);
+        setStats(s => s && { ...s, followerCount: Math.max(0, s.followerCount - 1) });
+        toast.success(`Unfollowed #${tag}`);
+      } else {
+        const { error } = await supabase.from("tag_follows").insert({ user_id: user.id, tag });
+        if (error) throw error;
+        setIsFollowing(true);
+        setStats(s => s && { ...s, followerCount: s.followerCount + 1 });
+        toast.success(`Following #${tag}`);
+      }
+    } catch (error) {
+      console.error("Error toggling tag follow:", error);
+      toast.error("Failed to update");
+    } finally {
+      setIsFollowLoading(false);
+    }
+  };
+
+  const openVideo = (videos: TagVideo[]) => (video: TagVideo) => {
+    setModalVideos(videos);
+    setSelectedVideoId(video.id);
+  };
+
+  const seo = generateTagSEO(
+    tag,
+    { videoCount: stats?.videoCount ?? 0, totalViews: stats?.totalViews ?? 0 },
+    topVideos.slice(0, 10)
+  );
+
+  return (
+    <div className="min-h-screen bg-black pb-20">
+      <SEO {...seo} noIndex={!loading && (stats?.videoCount ?? 0) === 0} />
+
+      <div className="flex items-center justify-between px-4 py-3 sticky top-0 bg-black/90 backdrop-blur-sm z-10">
+        <button onClick={() => navigate(-1)} className="p-1 text-white">
+          <ArrowLeft className="h-6 w-6" />
+        </button>
+        <h1 className="text-lg font-semibold text-white truncate">#{tag}</h1>
+        <div className="w-8" />
+      </div>
+
+      <div className="container max-w-2xl mx-auto px-4">
+        <div className="flex items-center gap-4 py-4">
+          <div className="h-20 w-20 rounded-2xl bg-white/5 border border-white/10 flex items-center justify-center flex-shrink-0">
+            <Hash className="h-10 w-10 text-primary" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <h2 className="text-white text-2xl font-bold truncate">#{tag}</h2>
+            {stats ? (
+              <p className="text-white/50 text-sm">
+                {formatCount(stats.videoCount)} videos · {formatCount(stats.totalViews)} views · {formatCount(stats.followerCount)} followers
+              </p>
+            ) : (
+              <div className="h-4 w-40 bg-white/10 rounded animate-pulse mt-1" />
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          <Button
+            variant={isFollowing ? "outline" : "default"}
+            className="flex-1"
+            onClick={handleFollowToggle}
+            disabled={isFollowLoading}
+          >
+            {isFollowing ? <Check className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+            {isFollowing ? "Following" : "Follow"}
+          </Button>
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => navigate(`/feed?category=${encodeURIComponent(tag)}`)}
+            disabled={!stats?.videoCount}
+          >
+            <Play className="h-4 w-4 mr-2" />
+            Watch in feed
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Tabs defaultValue="top" className="w-full">
+            <TabsList className="w-full grid grid-cols-2 bg-transparent border-b border-white/10 rounded-none h-auto p-0">
+              <TabsTrigger
+                value="top"
+                className="rounded-none border-b-2 border-transparent data-[state=active]:border-white data-[state=active]:bg-transparent text-white/50 data-[state=active]:text-white"
+              >
+                Top
+              </TabsTrigger>
+              <TabsTrigger
+                value="recent"
+                className="rounded-none border-b-2 border-transparent data-[state=active]:border-white data-[state=active]:bg-transparent text-white/50 data-[state=active]:text-white"
+              >
+                Recent
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="top" className="mt-4">
+              <VideoGrid videos={topVideos} onOpen={openVideo(topVideos)} />
+            </TabsContent>
+            <TabsContent value="recent" className="mt-4">
+              <VideoGrid videos={recentVideos} onOpen={openVideo(recentVideos)} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+
+      {selectedVideoId && (
+        <VideoModal
+          isOpen={!!selectedVideoId}
+          onClose={() => setSelectedVideoId(null)}
+          initialVideoId={selectedVideoId}
+          userId={user?.id || null}
+          videos={modalVideos}
+          onVideoLikeChange={(videoId, newLikesCount) => {
+            const update = (list: TagVideo[]) => list.map(v => v.id === videoId ? { ...v, likes_count: newLikesCount } : v);
+            setTopVideos(update);
+            setRecentVideos(update);
+          }}
+        />
+      )}
+
+      <BottomNav
+        isAuthenticated={!!user}
+        onHomeRefresh={undefined}
+        unreadCount={unreadCount}
+      />
+    </div>
+  );
+};
+
+export default Tag;
@@ -5,40 +5,15 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useAuth } from "@/contexts/AuthContext";
 import { useUpload } from "@/contexts/UploadContext";
+import { useCategories } from "@/hooks/use-categories";
 import { toast } from "sonner";
-import { ArrowLeft, Upload as UploadIcon } from "lucide-react";
-
-const CATEGORIES = [
-  { id: "beauty", name: "Beauty" },
-  { id: "real", name: "Real" },
-  { id: "public", name: "Public" },
-  { id: "homemade", name: "Homemade" },
-  { id: "pov", name: "POV" },
-  { id: "mom", name: "Mom" },
-  { id: "milf", name: "MILF" },
-  { id: "amateur", name: "Amateur" },
-  { id: "latina", name: "Latina" },
-  { id: "asian", name: "Asian" },
-  { id: "big_ass", name: "Big Ass" },
-  { id: "big_tits", name: "Big Tits" },
-  { id: "lesbian", name: "Lesbian" },
-  { id: "blonde", name: "Blonde" },
-  { id: "brunettes", name: "Brunettes" },
-  { id: "red_head", name: "Red Head" },
-  { id: "small", name: "Small" },
-  { id: "stepsis", name: "Stepsis" },
-  { id: "anal", name: "Anal" },
-  { id: "blowjob", name: "Blowjob" },
-  { id: "teen", name: "Teen" },
-  { id: "goth", name: "Goth" },
-  { id: "cumshot", name: "Cumshot" },
-  { id: "squirt", name: "Squirt" },
-];
+import { ArrowLeft, Upload as UploadIcon, RotateCcw, X } from "lucide-react";
 
 const Upload = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { uploadState, startUpload } = useUpload();
+  const { startUpload, pendingUploads, discardPendingUpload } = useUpload();
+  const { categories } = useCategories();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoPreview, setVideoPreview] = useState<string | null>(null);
@@ -115,6 +90,9 @@ const Upload = () => {
 
   if (!user) return null;
 
+  // Uploads interrupted by a reload; re-selecting the same file resumes them
+  const resumable = pendingUploads.filter(p => p.userId === user.id);
+
   return (
     <div className="min-h-[100dvh] bg-background flex flex-col">
       <input
@@ -133,6 +111,29 @@ const Upload = () => {
         <div className="w-10" />
       </div>
 
+      {resumable.length > 0 && !videoFile && (
+        <div className="p-4 space-y-2 border-b border-border">
+          {resumable.map((pending) => (
+            <div key={pending.fingerprint} className="flex items-center gap-3 p-3 rounded-lg bg-muted">
+              <RotateCcw className="h-4 w-4 text-primary flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{pending.fileName}</p>
+                <p className="text-xs text-muted-foreground">
+                  {Math.floor((pending.bytesUploaded / pending.fileSize) * 100)}% uploaded. Select this file again to resume.
+                </p>
+              </div>
+              <button
+                onClick={() => discardPendingUpload(pending.fingerprint)}
+                className="p-1 text-muted-foreground hover:text-foreground"
+                aria-label="Discard unfinished upload"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {videoPreview ? (
         <div className="flex-1 overflow-y-auto pb-24">
           <div className="flex gap-4 p-4">
@@ -162,20 +163,20 @@ const Upload = () => {
           <div className="p-4 space-y-3">
             <Label className="text-base font-semibold">Categories</Label>
             <div className="flex flex-wrap gap-2">
-              {CATEGORIES.map((category) => {
-                const isSelected = selectedCategories.includes(category.id);
+              {categories.map((category) => {
+                const isSelected = selectedCategories.includes(category.slug);
                 return (
                   <button
-                    key={category.id}
+                    key={category.slug}
                     type="button"
-                    onClick={() => toggleCategory(category.id)}
+                    onClick={() => toggleCategory(category.slug)}
                     className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors border ${
                       isSelected
                         ? "bg-primary text-primary-foreground border-primary"
                         : "bg-transparent text-foreground border-border hover:border-primary/50"
                     }`}
                   >
-                    {category.name}
+                    {category.display_name}
                   </button>
                 );
               })}
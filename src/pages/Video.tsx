@@ -3,6 +3,7 @@ import { useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { VideoCard } from "@/components/VideoCard";
 import { SEO, generateVideoSEO } from "@/components/SEO";
+import { KeyboardShortcutsHelp } from "@/components/KeyboardShortcutsHelp";
 import { X } from "lucide-react";
 import { toast } from "sonner";
 
@@ -100,6 +101,8 @@ const Video = () => {
         <X className="h-6 w-6 text-white" />
       </button>
 
+      <KeyboardShortcutsHelp className="fixed top-4 right-4 z-50" />
+
       {isLoading ? (
         <div className="flex items-center justify-center h-screen">
           <div className="text-primary text-lg">Loading...</div>
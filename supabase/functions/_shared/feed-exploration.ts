@@ -0,0 +1,184 @@
+// Cold-start exploration for new uploads. Pure like feed-ranking.ts:
+// refresh-feed-scores decides each test's state, get-for-you-feed places
+// testing videos into reserved slots.
+//
+// A new upload starts "testing" and is guaranteed a share of feed slots.
+// Slots are handed out by Thompson sampling on hook rate, so videos that
+// hook viewers get more of the budget while data is still thin. Once a test
+// has enough impressions (or runs out of time) it graduates into normal
+// ranking, or is retired from the For You feed. Retiring needs evidence: a
+// test that times out without enough impressions to judge its hook rate
+// returns to normal ranking instead.
+
+import { seededRandom } from "./feed-ranking.ts";
+
+export type ExplorationStatus = 'testing' | 'graduated' | 'retired';
+
+export interface ExplorationSettings {
+  enabled: boolean;
+  /** Share of feed positions reserved for testing videos, 0–0.5 */
+  reserved_slot_share: number;
+  /** Impressions after which a test is decided */
+  impression_target: number;
+  /** Hook rate needed to graduate */
+  graduation_hook_rate: number;
+  /** Impressions after which a clearly failing test is retired early */
+  early_retire_impressions: number;
+  early_retire_hook_rate: number;
+  /** Tests still undecided after this long are decided on what they have */
+  max_test_days: number;
+}
+
+export const DEFAULT_EXPLORATION_SETTINGS: ExplorationSettings = {
+  enabled: true,
+  reserved_slot_share: 0.15,
+  impression_target: 150,
+  graduation_hook_rate: 0.6,
+  early_retire_impressions: 40,
+  early_retire_hook_rate: 0.3,
+  max_test_days: 7,
+};
+
+export interface ExplorationState {
+  video_id: string;
+  status: ExplorationStatus;
+  impressions: number;
+  hook_passes: number;
+}
+
+export type ExplorationDecisionReason = 'target_reached' | 'early_low_hook' | 'timeout' | 'timeout_low_data' | 'dead';
+
+export interface ExplorationDecision {
+  status: ExplorationStatus;
+  reason: ExplorationDecisionReason | null;
+}
+
+export const hookRateOf = (s: Pick<ExplorationState, 'impressions' | 'hook_passes'>) =>
+  s.impressions > 0 ? s.hook_passes / s.impressions : -1;
+
+/**
+ * Next state for a video under test. Decided tests never reopen.
+ * `isDead` is hardFilterReason(...) === 'dead' from the ranker.
+ */
+export function decideExploration(
+  state: ExplorationState,
+  createdAt: string,
+  settings: ExplorationSettings,
+  now: number,
+  isDead = false,
+): ExplorationDecision {
+  if (state.status !== 'testing') return { status: state.status, reason: null };
+
+  const hookRate = hookRateOf(state);
+  if (isDead) return { status: 'retired', reason: 'dead' };
+
+  if (state.impressions >= settings.impression_target) {
+    return {
+      status: hookRate >= settings.graduation_hook_rate ? 'graduated' : 'retired',
+      reason: 'target_reached',
+    };
+  }
+
+  if (state.impressions >= settings.early_retire_impressions && hookRate < settings.early_retire_hook_rate) {
+    return { status: 'retired', reason: 'early_low_hook' };
+  }
+
+  const ageDays = (now - new Date(createdAt).getTime()) / 86400000;
+  if (ageDays >= settings.max_test_days) {
+    // Exploration never got it enough impressions: no evidence against it
+    if (state.impressions < settings.early_retire_impressions) {
+      return { status: 'graduated', reason: 'timeout_low_data' };
+    }
+    return { status: hookRate >= settings.graduation_hook_rate ? 'graduated' : 'retired', reason: 'timeout' };
+  }
+
+  return { status: 'testing', reason: null };
+}
+
+// ---------------------------------------------------------------------------
+// Slot allocation
+// ---------------------------------------------------------------------------
+
+function sampleStandardNormal(rng: () => number): number {
+  // Box-Muller; 1 - rng() keeps log away from 0
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Marsaglia-Tsang, shape >= 1 (our Beta parameters always are)
+function sampleGamma(shape: number, rng: () => number): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleStandardNormal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = 1 - rng();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number, rng: () => number): number {
+  const x = sampleGamma(alpha, rng);
+  const y = sampleGamma(beta, rng);
+  return x / (x + y);
+}
+
+/**
+ * Moves unviewed testing videos into reserved positions of an already ranked
+ * feed. Every `1 / reserved_slot_share`-th position (never the very first)
+ * is reserved; slots go to testing videos in order of a Beta(hook passes + 1,
+ * misses + 1) draw. Testing videos that don't win a slot keep their ranked
+ * position. Deterministic for a given seed.
+ */
+export function allocateExplorationSlots<V extends { id: string }>(
+  ordered: V[],
+  testing: Map<string, ExplorationState>,
+  viewedVideoIds: Set<string>,
+  settings: ExplorationSettings,
+  seed: string,
+): { ordered: V[]; slotted: string[] } {
+  const share = Math.min(Math.max(settings.reserved_slot_share, 0), 0.5);
+  if (!settings.enabled || share <= 0 || testing.size === 0) return { ordered, slotted: [] };
+
+  const rng = seededRandom(`${seed}-explore`);
+  const candidates = ordered
+    .filter(v => testing.has(v.id) && !viewedVideoIds.has(v.id))
+    .map(v => {
+      const s = testing.get(v.id)!;
+      const misses = Math.max(s.impressions - s.hook_passes, 0);
+      return { video: v, draw: sampleBeta(s.hook_passes + 1, misses + 1, rng) };
+    })
+    .sort((a, b) => b.draw - a.draw);
+  if (candidates.length === 0) return { ordered, slotted: [] };
+
+  const interval = Math.max(2, Math.round(1 / share));
+  const slotCount = Math.min(candidates.length, Math.floor(ordered.length / interval));
+  if (slotCount === 0) return { ordered, slotted: [] };
+
+  const winners = candidates.slice(0, slotCount).map(c => c.video);
+  const winnerIds = new Set(winners.map(v => v.id));
+  const rest = ordered.filter(v => !winnerIds.has(v.id));
+
+  // Reserved positions: interval-1, 2*interval-1, ... (0-based)
+  const result: V[] = [];
+  let winnerIdx = 0;
+  let restIdx = 0;
+  while (restIdx < rest.length || winnerIdx < winners.length) {
+    const isReserved = (result.length + 1) % interval === 0;
+    if (isReserved && winnerIdx < winners.length) {
+      result.push(winners[winnerIdx++]);
+    } else if (restIdx < rest.length) {
+      result.push(rest[restIdx++]);
+    } else {
+      result.push(winners[winnerIdx++]);
+    }
+  }
+
+  return { ordered: result, slotted: winners.map(v => v.id) };
+}
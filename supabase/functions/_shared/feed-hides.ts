@@ -0,0 +1,45 @@
+// Hard exclusions from "Not interested" / "Hide creator" / "Hide category".
+// Pure like feed-ranking.ts: the edge function loads the feed_hides rows.
+
+export interface FeedHideRow {
+  kind: string;
+  target: string;
+}
+
+export interface FeedHides {
+  videoIds: Set<string>;
+  creatorIds: Set<string>;
+  /** lowercased category slugs */
+  categories: Set<string>;
+}
+
+export function buildFeedHides(rows: FeedHideRow[]): FeedHides {
+  const hides: FeedHides = { videoIds: new Set(), creatorIds: new Set(), categories: new Set() };
+  for (const row of rows) {
+    if (row.kind === "video") hides.videoIds.add(row.target);
+    else if (row.kind === "creator") hides.creatorIds.add(row.target);
+    else if (row.kind === "category") hides.categories.add(row.target.toLowerCase());
+  }
+  return hides;
+}
+
+export function isHiddenFromFeed(
+  video: { id: string; user_id: string; tags?: string[] | null },
+  hides: FeedHides,
+): boolean {
+  if (hides.videoIds.has(video.id) || hides.creatorIds.has(video.user_id)) return true;
+  return !!video.tags?.some(tag => hides.categories.has(tag.toLowerCase()));
+}
+
+/**
+ * PostgREST `or` filter for the rows owned by this user and/or guest viewer.
+ * The guest viewer id acts as a bearer secret (see feed-hides), so it must
+ * be long enough not to be guessed; client ids are UUIDs or anon_<ts>_<rand>.
+ */
+export function feedHidesOwnerFilter(userId: string | null, viewerId: string | null): string | null {
+  const safeViewerId = viewerId && /^[A-Za-z0-9_-]{20,100}$/.test(viewerId) ? viewerId : null;
+  if (userId && safeViewerId) return `user_id.eq.${userId},and(user_id.is.null,viewer_id.eq.${safeViewerId})`;
+  if (userId) return `user_id.eq.${userId}`;
+  if (safeViewerId) return `and(user_id.is.null,viewer_id.eq.${safeViewerId})`;
+  return null;
+}
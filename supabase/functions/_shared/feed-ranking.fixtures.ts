@@ -0,0 +1,131 @@
+// Fixture pool for feed-ranking.test.ts: a small candidate set whose watch
+// history exercises each branch of the ranking (top performer, startup
+// filter, dead filter, no data, legacy source), plus two viewers.
+
+import type { RankableVideo, ShareRow, VideoMetrics, ViewerContext, WatchRow } from "./feed-ranking.ts";
+
+export const NOW = Date.parse("2026-04-20T12:00:00Z");
+
+const daysAgo = (days: number) => new Date(NOW - days * 86400000).toISOString();
+
+function video(id: string, user_id: string, tags: string[] | null, overrides: Partial<RankableVideo> = {}): RankableVideo {
+  return {
+    id,
+    user_id,
+    tags,
+    created_at: daysAgo(1),
+    likes_count: 10,
+    views_count: 100,
+    duration_seconds: 15,
+    cloudflare_video_id: `cf-${id}`,
+    optimized_video_url: null,
+    cloudinary_public_id: null,
+    ...overrides,
+  };
+}
+
+export const VIDEOS = {
+  /** Short loop everyone finishes; the most liked and shared */
+  hit: video("hit", "creator-a", ["comedy", "pets"], { likes_count: 120, views_count: 900, duration_seconds: 10, created_at: daysAgo(2) }),
+  solid: video("solid", "creator-b", ["cooking"], { likes_count: 40, views_count: 400, duration_seconds: 30 }),
+  /** No watch rows yet */
+  fresh: video("fresh", "creator-a", ["comedy"], { likes_count: 0, views_count: 5, created_at: daysAgo(0.2) }),
+  /** Most starts take 4s: hard-filtered as startup_unreliable */
+  slowStart: video("slowStart", "creator-c", ["travel"], { created_at: daysAgo(3) }),
+  /** Skipped in the first second by everyone: hard-filtered as dead */
+  dead: video("dead", "creator-d", ["comedy"], { created_at: daysAgo(4) }),
+  /** Original upload, no Cloudflare / optimized / Cloudinary asset */
+  legacy: video("legacy", "creator-e", ["music"], { cloudflare_video_id: null, created_at: daysAgo(6) }),
+  /** The only top performer (completion and watch time both at the p85) */
+  optimized: video("optimized", "creator-b", ["music"], { cloudflare_video_id: null, optimized_video_url: "https://cdn.example/optimized.mp4" }),
+  /** Weak completion; already watched by the signed-in viewer */
+  seen: video("seen", "creator-f", ["cooking"], { created_at: daysAgo(5) }),
+} satisfies Record<string, RankableVideo>;
+
+export const VIDEO_LIST: RankableVideo[] = Object.values(VIDEOS);
+
+function watches(video_id: string, count: number, completion: number, duration: number, ttffMs: number): WatchRow[] {
+  return Array.from({ length: count }, () => ({
+    video_id,
+    watch_completion_percent: completion,
+    watch_duration_seconds: duration,
+    time_to_first_frame_ms: ttffMs,
+  }));
+}
+
+export const WATCH_ROWS: WatchRow[] = [
+  ...watches("hit", 12, 95, 9.5, 350),
+  ...watches("solid", 8, 70, 20, 900),
+  ...watches("solid", 2, 10, 2, 1200),
+  ...watches("slowStart", 12, 40, 10, 4000),
+  ...watches("dead", 12, 5, 1, 600),
+  ...watches("legacy", 4, 50, 6, 2500),
+  ...watches("optimized", 5, 60, 12, 700),
+  ...watches("seen", 6, 30, 8, 800),
+];
+
+export const SHARE_ROWS: ShareRow[] = [
+  { video_id: "hit" },
+  { video_id: "hit" },
+  { video_id: "hit" },
+  { video_id: "solid" },
+];
+
+/** Healthy metrics with plenty of data; override one field per case */
+export function metrics(overrides: Partial<VideoMetrics> = {}): VideoMetrics {
+  return {
+    avg_completion: 65,
+    avg_watch_duration: 12,
+    view_count: 40,
+    share_count: 2,
+    early_skip_rate: 0.1,
+    hook_rate: 0.9,
+    rewatch_signal: 0,
+    avg_ttff_ms: 700,
+    fast_start_rate: 0.9,
+    slow_start_rate: 0.1,
+    stall_rate: 0,
+    retry_rate: 0.05,
+    startup_samples: 40,
+    qoe_samples: 0,
+    avg_stall_count: -1,
+    avg_stall_ms: -1,
+    fatal_error_rate: 0,
+    muted_fallback_rate: 0,
+    is_top_performer: false,
+    ...overrides,
+  };
+}
+
+export function anonymousViewer(overrides: Partial<ViewerContext> = {}): ViewerContext {
+  return {
+    seed: "guest-2026-04-20",
+    viewedVideoIds: new Set(),
+    sessionWatchData: [],
+    affinity: null,
+    isFirstPage: true,
+    ...overrides,
+  };
+}
+
+/**
+ * Likes creator-b and music, prefers cooking, has seen the top performer and
+ * a weak video, and this session watched cooking but skipped travel.
+ */
+export function signedInViewer(overrides: Partial<ViewerContext> = {}): ViewerContext {
+  return {
+    seed: "user-1-2026-04-20",
+    viewedVideoIds: new Set(["optimized", "seen"]),
+    sessionWatchData: [
+      { videoId: "s1", watchDuration: 12, tags: ["cooking"] },
+      { videoId: "s2", watchDuration: 1, tags: ["travel"] },
+    ],
+    affinity: {
+      likedUploaderIds: new Set(["creator-b"]),
+      likedTags: new Set(["music"]),
+      preferredCategories: new Map([["cooking", 40]]),
+    },
+    isFirstPage: true,
+    ...overrides,
+  };
+}
@@ -0,0 +1,475 @@
+// deno test supabase/functions/_shared/feed-ranking.test.ts
+
+import { assert, assertAlmostEquals, assertEquals, assertNotEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  applyDiversity,
+  buildRankingSnapshot,
+  buildRankingSnapshotFromMetrics,
+  buildQoeBuckets,
+  buildWatchBuckets,
+  buildSessionSignals,
+  CATEGORY_PREFERENCE_HALF_LIFE_DAYS,
+  computeAffinity,
+  computeVideoMetrics,
+  decayedPreferenceScore,
+  DEFAULT_WEIGHTS,
+  hardFilterReason,
+  rankFeed,
+  resolveWeights,
+  scoreVideo,
+  seededRandom,
+  type PlaybackEventRow,
+  type QoeBucket,
+  type RankableVideo,
+  type RankingWeights,
+  type ScoreBreakdown,
+  type ScoringContext,
+  type ViewerContext,
+} from "./feed-ranking.ts";
+import {
+  anonymousViewer,
+  metrics,
+  NOW,
+  SHARE_ROWS,
+  signedInViewer,
+  VIDEO_LIST,
+  VIDEOS,
+  WATCH_ROWS,
+} from "./feed-ranking.fixtures.ts";
+
+const snapshot = () => buildRankingSnapshot(VIDEO_LIST, WATCH_ROWS, SHARE_ROWS);
+
+function scoringContext(viewer: ViewerContext, weights: Partial<RankingWeights> = {}): ScoringContext {
+  const snap = snapshot();
+  return {
+    weights: resolveWeights(weights),
+    metricsMap: snap.metricsMap,
+    categoryScore: snap.categoryScore,
+    maxCatScore: snap.maxCatScore,
+    ...buildSessionSignals(viewer.sessionWatchData),
+    viewedVideoIds: viewer.viewedVideoIds,
+    maxLikes: snap.maxLikes,
+    maxViews: snap.maxViews,
+    maxShares: snap.maxShares,
+    seed: viewer.seed,
+    now: NOW,
+  };
+}
+
+function score(video: RankableVideo, viewer: ViewerContext, weights: Partial<RankingWeights> = {}) {
+  return scoreVideo(video, computeAffinity(video, viewer.affinity), scoringContext(viewer, weights));
+}
+
+const sumOf = (breakdown: ScoreBreakdown) =>
+  Object.values(breakdown).reduce<number>((sum, part) => (typeof part === "number" ? sum + part : sum), 0);
+
+const ids = (videos: { id: string }[]) => videos.map(v => v.id);
+
+// ---------------------------------------------------------------------------
+// Playback QoE
+// ---------------------------------------------------------------------------
+
+const event = (playback_id: string, event_type: string, value_ms: number | null = null): PlaybackEventRow =>
+  ({ video_id: "hit", playback_id, event_type, value_ms });
+
+Deno.test("buildQoeBuckets totals playbacks that started or failed", () => {
+  const bucket = buildQoeBuckets([
+    // Rebuffers under 250ms don't count as stalls
+    event("p1", "first_frame"), event("p1", "rebuffer_end", 400), event("p1", "rebuffer_end", 100),
+    event("p2", "startup_failed"), event("p2", "fatal_error"),
+    event("p3", "first_frame"), event("p3", "retry"), event("p3", "muted_fallback"),
+    // Cut off before a startup outcome: says nothing about the asset
+    event("p4", "rebuffer_end", 900),
+  ]).get("hit");
+
+  assertEquals(bucket, {
+    playbacks: 3,
+    stalledPlaybacks: 1,
+    stallCount: 1,
+    stallMs: 400,
+    retriedPlaybacks: 2,
+    fatalPlaybacks: 1,
+    mutedFallbacks: 1,
+  });
+});
+
+Deno.test("buildQoeBuckets leaves out videos without a finished startup", () => {
+  assertEquals(buildQoeBuckets([event("p1", "rebuffer_end", 900), event("p1", "retry")]).size, 0);
+});
+
+Deno.test("computeVideoMetrics uses measured QoE from 3 playbacks, the TTFF proxy before", () => {
+  // 4s starts: every one counts as a retry by proxy, none as a stall (over 8s)
+  const watch = buildWatchBuckets(WATCH_ROWS).get("slowStart");
+  const qoe: QoeBucket = {
+    playbacks: 4,
+    stalledPlaybacks: 1,
+    stallCount: 3,
+    stallMs: 1200,
+    retriedPlaybacks: 0,
+    fatalPlaybacks: 2,
+    mutedFallbacks: 1,
+  };
+
+  const proxy = computeVideoMetrics(watch, 0, { ...qoe, playbacks: 2 });
+  assertEquals([proxy.stall_rate, proxy.retry_rate, proxy.fatal_error_rate], [0, 1, 0]);
+  assertEquals([proxy.qoe_samples, proxy.avg_stall_count, proxy.avg_stall_ms], [2, -1, -1]);
+
+  const measured = computeVideoMetrics(watch, 0, qoe);
+  assertEquals(measured.stall_rate, 0.25);
+  assertEquals(measured.retry_rate, 0);
+  assertEquals(measured.fatal_error_rate, 0.5);
+  assertEquals(measured.muted_fallback_rate, 0.25);
+  assertEquals(measured.avg_stall_count, 0.75);
+  assertEquals(measured.avg_stall_ms, 300);
+});
+
+// ---------------------------------------------------------------------------
+// hardFilterReason
+// ---------------------------------------------------------------------------
+
+Deno.test("hardFilterReason keeps videos without metrics or with under 10 views", () => {
+  assertEquals(hardFilterReason(undefined), null);
+  assertEquals(hardFilterReason(metrics({ view_count: 9, avg_watch_duration: 1, early_skip_rate: 0.9, avg_completion: 5 })), null);
+});
+
+Deno.test("hardFilterReason keeps healthy videos", () => {
+  assertEquals(hardFilterReason(metrics()), null);
+});
+
+Deno.test("hardFilterReason drops startup-unreliable videos once there are 8 startup samples", () => {
+  assertEquals(hardFilterReason(metrics({ fast_start_rate: 0.2 })), "startup_unreliable");
+  assertEquals(hardFilterReason(metrics({ stall_rate: 0.25 })), "startup_unreliable");
+  assertEquals(hardFilterReason(metrics({ avg_ttff_ms: 6500 })), "startup_unreliable");
+  assertEquals(hardFilterReason(metrics({ qoe_samples: 8, fatal_error_rate: 0.3 })), "startup_unreliable");
+
+  assertEquals(hardFilterReason(metrics({ startup_samples: 7, fast_start_rate: 0.2 })), null);
+  assertEquals(hardFilterReason(metrics({ qoe_samples: 7, fatal_error_rate: 0.3 })), null);
+  // -1 means no TTFF data, not a slow start
+  assertEquals(hardFilterReason(metrics({ fast_start_rate: -1 })), null);
+});
+
+Deno.test("hardFilterReason drops dead videos only when all three signals agree", () => {
+  const dead = { avg_watch_duration: 2, early_skip_rate: 0.6, avg_completion: 10 };
+  assertEquals(hardFilterReason(metrics(dead)), "dead");
+  assertEquals(hardFilterReason(metrics({ ...dead, avg_watch_duration: 2.5 })), null);
+  assertEquals(hardFilterReason(metrics({ ...dead, early_skip_rate: 0.5 })), null);
+  assertEquals(hardFilterReason(metrics({ ...dead, avg_completion: 12 })), null);
+  assertEquals(hardFilterReason(metrics({ ...dead, avg_completion: -1 })), null);
+});
+
+Deno.test("hardFilterReason reports startup before dead", () => {
+  assertEquals(
+    hardFilterReason(metrics({ avg_watch_duration: 1, early_skip_rate: 0.9, avg_completion: 5, stall_rate: 0.5 })),
+    "startup_unreliable",
+  );
+});
+
+Deno.test("hardFilterReason on the fixture pool", () => {
+  const { metricsMap } = snapshot();
+  const reasons = Object.fromEntries(VIDEO_LIST.map(v => [v.id, hardFilterReason(metricsMap.get(v.id))]));
+  assertEquals(reasons, {
+    hit: null,
+    solid: null,
+    fresh: null,
+    slowStart: "startup_unreliable",
+    dead: "dead",
+    legacy: null,
+    optimized: null,
+    seen: null,
+  });
+});
+
+// ---------------------------------------------------------------------------
+// scoreVideo
+// ---------------------------------------------------------------------------
+
+Deno.test("scoreVideo breakdown for the fixture hit", () => {
+  const viewer = anonymousViewer();
+  const { score: total, breakdown } = score(VIDEOS.hit, viewer);
+  const w = DEFAULT_WEIGHTS;
+  const snap = snapshot();
+
+  const expected: ScoreBreakdown = {
+    // 95% completion, amplified above 60%
+    completionScore: w.completion * Math.pow(0.95, 0.7),
+    // 9.5s of a 10s video, short-video bonus ×1.2
+    watchTimeScore: w.watchTime * 0.95 * 1.2,
+    // Everyone past 2s, amplified ×1.4
+    hookScore: w.hook * 1.4,
+    // All starts fast and under 500ms, capped at 1.25
+    startupScore: w.startup * 1.25,
+    affinityScore: 0,
+    likesScore: w.likes,
+    // 3 shares / 12 views, ×10, capped at 1
+    sharesScore: w.shares,
+    recencyScore: w.recency * Math.exp(-2 / w.recencyDecayDays),
+    viewsScore: w.views,
+    explorationFactor: seededRandom(`${viewer.seed}-hit`)() * w.exploration,
+    qualityBonus: 0.15,
+    topPerformerBoost: 0,
+    // Rewatch signal (95 - 80) / 50 × 0.12, plus the ≤10s fairness boost
+    loopBoost: 0.3 * 0.12 + 0.05,
+    // "comedy" relative to the best category ("cooking"); "pets" has no score
+    categoryBoost: (snap.categoryScore.get("comedy")! / snap.maxCatScore) * w.categoryBoostPerTag,
+    sessionBoost: 0,
+    startupPenalty: 0,
+    earlySkipPenalty: 0,
+    lowQualityPenalty: 0,
+    viewedPenalty: 0,
+    sourceType: "cloudflare",
+  };
+
+  for (const key of Object.keys(expected) as (keyof ScoreBreakdown)[]) {
+    if (key === "sourceType") continue;
+    assertAlmostEquals(breakdown[key] as number, expected[key] as number, 1e-9, key);
+  }
+  assertEquals(breakdown.sourceType, "cloudflare");
+  assertAlmostEquals(total, sumOf(expected), 1e-9);
+});
+
+Deno.test("scoreVideo score is the sum of its breakdown for every fixture", () => {
+  for (const viewer of [anonymousViewer(), signedInViewer()]) {
+    for (const video of VIDEO_LIST) {
+      const { score: total, breakdown } = score(video, viewer);
+      assertAlmostEquals(total, sumOf(breakdown), 1e-9, `${video.id} for ${viewer.seed}`);
+    }
+  }
+});
+
+Deno.test("scoreVideo uses neutral defaults for videos without data", () => {
+  const { breakdown } = score(VIDEOS.fresh, anonymousViewer());
+  const w = DEFAULT_WEIGHTS;
+  assertAlmostEquals(breakdown.completionScore, w.completion * 0.5);
+  assertAlmostEquals(breakdown.watchTimeScore, w.watchTime * 0.5);
+  assertAlmostEquals(breakdown.hookScore, w.hook * 0.5);
+  assertAlmostEquals(breakdown.startupScore, w.startup * 0.5);
+  assertEquals(breakdown.sharesScore, 0);
+  assertEquals(breakdown.startupPenalty, 0);
+  assertEquals(breakdown.earlySkipPenalty, 0);
+  assertEquals(breakdown.lowQualityPenalty, 0);
+});
+
+Deno.test("scoreVideo penalizes original uploads and slow starts", () => {
+  const { breakdown } = score(VIDEOS.legacy, anonymousViewer());
+  assertEquals(breakdown.sourceType, "original");
+  assertEquals(breakdown.qualityBonus, -0.2);
+  // Fast-start rate under 50%, and an average TTFF of 2.5s crosses three thresholds
+  assertAlmostEquals(breakdown.startupPenalty, -0.18 - 0.10 - 0.18 - 0.25);
+  assertEquals(breakdown.startupScore, 0);
+
+  assertEquals(score(VIDEOS.optimized, anonymousViewer()).breakdown.sourceType, "optimized");
+  assertEquals(score(VIDEOS.optimized, anonymousViewer()).breakdown.qualityBonus, 0.1);
+});
+
+Deno.test("scoreVideo applies the viewed penalty by tier", () => {
+  const viewer = anonymousViewer({ viewedVideoIds: new Set(["optimized", "solid", "seen"]) });
+  // Top performer, completion above 50%, and the rest
+  assertEquals(score(VIDEOS.optimized, viewer).breakdown.viewedPenalty, -0.3);
+  assertEquals(score(VIDEOS.solid, viewer).breakdown.viewedPenalty, -0.7);
+  assertEquals(score(VIDEOS.seen, viewer).breakdown.viewedPenalty, -1.8);
+  assertEquals(score(VIDEOS.hit, viewer).breakdown.viewedPenalty, 0);
+});
+
+Deno.test("scoreVideo adds affinity and session signals for the signed-in viewer", () => {
+  const viewer = signedInViewer();
+  const w = DEFAULT_WEIGHTS;
+
+  // Liked creator (0.5) + preferred "cooking" (40 / 100, capped at 0.25)
+  assertAlmostEquals(score(VIDEOS.solid, viewer).breakdown.affinityScore, w.affinity * 0.75);
+  // Liked creator (0.5) + liked tag "music" (0.1)
+  assertAlmostEquals(score(VIDEOS.optimized, viewer).breakdown.affinityScore, w.affinity * 0.6);
+  assertEquals(score(VIDEOS.hit, viewer).breakdown.affinityScore, 0);
+
+  // 12s of cooking this session (capped at 0.15); one travel skip
+  assertAlmostEquals(score(VIDEOS.solid, viewer).breakdown.sessionBoost, 0.15);
+  assertAlmostEquals(score(VIDEOS.slowStart, viewer).breakdown.sessionBoost, -0.12);
+  assertEquals(score(VIDEOS.hit, viewer).breakdown.sessionBoost, 0);
+});
+
+Deno.test("scoreVideo exploration is seeded per viewer and video", () => {
+  const a = score(VIDEOS.hit, anonymousViewer()).breakdown.explorationFactor;
+  assertEquals(score(VIDEOS.hit, anonymousViewer()).breakdown.explorationFactor, a);
+  assertNotEquals(score(VIDEOS.hit, anonymousViewer({ seed: "guest-2026-04-21" })).breakdown.explorationFactor, a);
+  assert(a >= 0 && a < DEFAULT_WEIGHTS.exploration);
+  assertEquals(score(VIDEOS.hit, anonymousViewer(), { exploration: 0 }).breakdown.explorationFactor, 0);
+});
+
+Deno.test("scoreVideo honors weight overrides", () => {
+  const { breakdown } = score(VIDEOS.optimized, anonymousViewer(), { topPerformerBoost: 0, completion: 0 });
+  assertEquals(breakdown.topPerformerBoost, 0);
+  assertEquals(breakdown.completionScore, 0);
+  assertEquals(score(VIDEOS.optimized, anonymousViewer()).breakdown.topPerformerBoost, DEFAULT_WEIGHTS.topPerformerBoost);
+});
+
+// ---------------------------------------------------------------------------
+// decayedPreferenceScore
+// ---------------------------------------------------------------------------
+
+Deno.test("decayedPreferenceScore halves per half-life since the last interaction", () => {
+  const halfLife = CATEGORY_PREFERENCE_HALF_LIFE_DAYS * 86400000;
+  const last = new Date(NOW - halfLife).toISOString();
+  assertAlmostEquals(decayedPreferenceScore(40, last, NOW), 20);
+  assertAlmostEquals(decayedPreferenceScore(40, new Date(NOW - 2 * halfLife).toISOString(), NOW), 10);
+  // A clock-skewed future timestamp never grows the score
+  assertEquals(decayedPreferenceScore(40, new Date(NOW + halfLife).toISOString(), NOW), 40);
+});
+
+Deno.test("decayedPreferenceScore without a score or a timestamp", () => {
+  assertEquals(decayedPreferenceScore(null, new Date(NOW).toISOString(), NOW), 0);
+  assertEquals(decayedPreferenceScore(0, null, NOW), 0);
+  assertEquals(decayedPreferenceScore(40, null, NOW), 40);
+});
+
+// ---------------------------------------------------------------------------
+// applyDiversity
+// ---------------------------------------------------------------------------
+
+const item = (id: string, user_id: string, tag?: string) => ({ id, user_id, tags: tag ? [tag] : null });
+
+Deno.test("applyDiversity leaves lists no longer than the creator gap alone", () => {
+  const videos = [item("1", "a"), item("2", "a"), item("3", "a")];
+  assertEquals(applyDiversity(videos, 4, 3), videos);
+});
+
+Deno.test("applyDiversity spaces out creators", () => {
+  const videos = [item("a1", "a"), item("a2", "a"), item("a3", "a"), item("b1", "b"), item("b2", "b"), item("c1", "c")];
+  assertEquals(ids(applyDiversity(videos, 2, 0)), ["a1", "b1", "c1", "a2", "b2", "a3"]);
+});
+
+Deno.test("applyDiversity spaces out primary categories", () => {
+  const videos = [
+    item("1", "a", "comedy"),
+    item("2", "b", "comedy"),
+    item("3", "c", "Comedy"),
+    item("4", "d", "music"),
+    item("5", "e", "music"),
+    item("6", "f", "travel"),
+  ];
+  // Categories compare case-insensitively; the gap of 2 can't hold for the last comedy
+  assertEquals(ids(applyDiversity(videos, 1, 2)), ["1", "4", "6", "2", "5", "3"]);
+});
+
+Deno.test("applyDiversity falls back to creator-only, then to the next video", () => {
+  const sameCategory = [item("1", "a", "comedy"), item("2", "a", "comedy"), item("3", "b", "comedy")];
+  assertEquals(ids(applyDiversity(sameCategory, 1, 3)), ["1", "3", "2"]);
+
+  const sameCreator = [item("1", "a"), item("2", "a"), item("3", "a"), item("4", "b")];
+  assertEquals(ids(applyDiversity(sameCreator, 2, 0)), ["1", "4", "2", "3"]);
+});
+
+Deno.test("applyDiversity keeps input order among eligible videos", () => {
+  const videos = ["1", "2", "3", "4", "5", "6"].map(id => item(id, `creator-${id}`, `tag-${id}`));
+  assertEquals(ids(applyDiversity(videos, 4, 3)), ["1", "2", "3", "4", "5", "6"]);
+});
+
+// ---------------------------------------------------------------------------
+// rankFeed
+// ---------------------------------------------------------------------------
+
+Deno.test("rankFeed orders the fixture pool for an anonymous viewer", () => {
+  const result = rankFeed({ videos: VIDEO_LIST, watchRows: WATCH_ROWS, shareRows: SHARE_ROWS, viewer: anonymousViewer(), now: NOW });
+
+  // By score: hit, optimized, solid, seen, fresh, legacy. Diversity then
+  // moves solid (creator-b right after optimized) and fresh (creator-a) back.
+  assertEquals(ids(result.ordered), ["hit", "optimized", "seen", "legacy", "solid", "fresh"]);
+  assertEquals(result.stats.filteredOut, [
+    { videoId: "slowStart", reason: "startup_unreliable" },
+    { videoId: "dead", reason: "dead" },
+  ]);
+  assertEquals(result.stats.topPerformerCount, 1);
+  assertEquals(result.stats.completionP85, 60);
+  assertEquals(result.stats.watchDurationP85, 12);
+  assertEquals(result.stats.unviewed, 6);
+  assertEquals(result.stats.viewedTop, 0);
+  assertEquals(result.stats.viewedRegular, 0);
+  assertEquals(result.metricsMap.get("optimized")?.is_top_performer, true);
+
+  for (const video of result.ordered) {
+    assertEquals(video.isViewed, false);
+    assertEquals(video.score, score(video, anonymousViewer()).score);
+  }
+});
+
+Deno.test("rankFeed puts viewed videos after unviewed ones", () => {
+  const result = rankFeed({ videos: VIDEO_LIST, watchRows: WATCH_ROWS, shareRows: SHARE_ROWS, viewer: signedInViewer(), now: NOW });
+
+  // Four unviewed videos don't fill the five strict top slots, so they are
+  // tier-shuffled (solid, hit, fresh by score). The viewed top performer comes
+  // back after them (every 8th slot, or at the end of a short feed), and
+  // other viewed videos go last.
+  assertEquals(ids(result.ordered), ["hit", "fresh", "solid", "legacy", "optimized", "seen"]);
+  assertEquals(result.stats.unviewed, 4);
+  assertEquals(result.stats.viewedTop, 1);
+  assertEquals(result.stats.viewedRegular, 1);
+  assertEquals(result.stats.sessionBoostedCategories, 1);
+  assertEquals(result.stats.sessionSkippedCategories, 1);
+  assertEquals(result.ordered.filter(v => v.isViewed).map(v => v.id), ["optimized", "seen"]);
+});
+
+Deno.test("rankFeed interleaves viewed top performers every 8th slot", () => {
+  const unviewed = Array.from({ length: 10 }, (_, i) => ({
+    ...VIDEOS.fresh,
+    id: `u${i}`,
+    user_id: `creator-${i}`,
+    tags: [`tag-${i}`],
+  }));
+  const result = rankFeed({
+    videos: [...unviewed, VIDEOS.optimized],
+    watchRows: WATCH_ROWS,
+    viewer: anonymousViewer({ viewedVideoIds: new Set(["optimized"]) }),
+    now: NOW,
+  });
+  assertEquals(result.ordered.findIndex(v => v.id === "optimized"), 8);
+  assertEquals(result.ordered.length, 11);
+});
+
+Deno.test("rankFeed is deterministic for a seed", () => {
+  const input = { videos: VIDEO_LIST, watchRows: WATCH_ROWS, shareRows: SHARE_ROWS, now: NOW };
+  const first = rankFeed({ ...input, viewer: signedInViewer({ isFirstPage: false }) });
+  const second = rankFeed({ ...input, viewer: signedInViewer({ isFirstPage: false }) });
+  assertEquals(first.ordered.map(v => [v.id, v.score]), second.ordered.map(v => [v.id, v.score]));
+});
+
+Deno.test("rankFeed gives the same result from a prebuilt snapshot", () => {
+  const fromRows = rankFeed({ videos: VIDEO_LIST, watchRows: WATCH_ROWS, shareRows: SHARE_ROWS, viewer: signedInViewer(), now: NOW });
+  const fromSnapshot = rankFeed({ videos: VIDEO_LIST, snapshot: snapshot(), viewer: signedInViewer(), now: NOW });
+  assertEquals(fromSnapshot.ordered.map(v => [v.id, v.score]), fromRows.ordered.map(v => [v.id, v.score]));
+});
+
+Deno.test("buildRankingSnapshotFromMetrics matches the snapshot built from rows", () => {
+  // The precomputed video_feed_scores path hands over metrics already marked
+  const fromRows = snapshot();
+  const fromMetrics = buildRankingSnapshotFromMetrics(VIDEO_LIST, fromRows.metricsMap, fromRows.topPerformers);
+  assertEquals(fromMetrics, fromRows);
+});
+
+Deno.test("rankFeed uses playback events for QoE when building its own snapshot", () => {
+  // The live fallback in get-for-you-feed passes rows, not a snapshot
+  const playbackEventRows = ["p1", "p2", "p3"].flatMap(p => [event(p, "first_frame"), event(p, "rebuffer_end", 600)]);
+  const result = rankFeed({
+    videos: VIDEO_LIST, watchRows: WATCH_ROWS, shareRows: SHARE_ROWS, playbackEventRows, viewer: anonymousViewer(), now: NOW,
+  });
+  const hit = result.metricsMap.get("hit")!;
+  assertEquals([hit.qoe_samples, hit.stall_rate, hit.avg_stall_ms], [3, 1, 600]);
+  assertEquals(result.metricsMap.get("solid")!.qoe_samples, 0);
+});
+
+Deno.test("rankFeed keeps input order for tied scores at the top of the first page", () => {
+  // Identical videos from different creators: with exploration off every score ties
+  const clones = Array.from({ length: 6 }, (_, i) => ({ ...VIDEOS.fresh, id: `t${i}`, user_id: `creator-${i}`, tags: null }));
+  const rank = (isFirstPage: boolean) => rankFeed({
+    videos: clones,
+    viewer: anonymousViewer({ isFirstPage }),
+    weights: { exploration: 0 },
+    now: NOW,
+  });
+
+  const firstPage = rank(true);
+  assertEquals(new Set(firstPage.ordered.map(v => v.score)).size, 1);
+  assertEquals(ids(firstPage.ordered), ["t0", "t1", "t2", "t3", "t4", "t5"]);
+
+  // Later pages shuffle within tiers of 3, so ties only move inside their tier
+  const laterPage = ids(rank(false).ordered);
+  assertEquals([...laterPage.slice(0, 3)].sort(), ["t0", "t1", "t2"]);
+  assertEquals([...laterPage.slice(3)].sort(), ["t3", "t4", "t5"]);
+});
@@ -0,0 +1,1073 @@
+// Pure For You ranking: no I/O, no Deno APIs, no clock reads.
+// The edge function fetches rows and passes them in; everything here is
+// deterministic for a given input (seeded RNG + explicit `now`).
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RankableVideo {
+  id: string;
+  user_id: string;
+  tags: string[] | null;
+  created_at: string;
+  likes_count: number;
+  views_count: number;
+  duration_seconds?: number | null;
+  cloudflare_video_id?: string | null;
+  optimized_video_url?: string | null;
+  cloudinary_public_id?: string | null;
+  [key: string]: unknown;
+}
+
+export interface WatchRow {
+  video_id: string;
+  watch_completion_percent: number | null;
+  watch_duration_seconds: number | null;
+  time_to_first_frame_ms: number | null;
+}
+
+export interface ShareRow {
+  video_id: string;
+}
+
+/** playback_events rows, as reported by the client's QoE telemetry */
+export interface PlaybackEventRow {
+  video_id: string;
+  playback_id: string;
+  event_type: string;
+  value_ms: number | null;
+}
+
+export interface SessionWatchEntry {
+  videoId?: string;
+  watchDuration?: number;
+  tags?: string[];
+}
+
+export interface WatchBucket {
+  completions: number[];
+  durations: number[];
+  ttffMs: number[];
+  earlySkips: number;     // watched ≤2s
+  hookPasses: number;     // watched >2s
+  fastStarts: number;     // TTFF <= 2000ms
+  slowStarts: number;     // TTFF > 2000ms
+  stallStarts: number;    // TTFF > 8000ms
+  retryProxyStarts: number; // proxy for retry-heavy starts
+  totalViews: number;
+}
+
+/** Per-video QoE totals over playbacks that reached a startup outcome */
+export interface QoeBucket {
+  playbacks: number;
+  stalledPlaybacks: number;   // at least one rebuffer >= MIN_STALL_MS
+  stallCount: number;
+  stallMs: number;
+  retriedPlaybacks: number;   // controller did a full retry, or startup failed
+  fatalPlaybacks: number;
+  mutedFallbacks: number;
+}
+
+export interface VideoMetrics {
+  avg_completion: number;
+  avg_watch_duration: number;
+  view_count: number;
+  share_count: number;
+  early_skip_rate: number;
+  hook_rate: number;         // % of viewers who watch past 2s
+  rewatch_signal: number;
+  avg_ttff_ms: number;
+  fast_start_rate: number;
+  slow_start_rate: number;
+  stall_rate: number;        // measured rebuffers when qoe_samples >= 3, TTFF proxy otherwise
+  retry_rate: number;        // measured retries when qoe_samples >= 3, TTFF proxy otherwise
+  startup_samples: number;
+  qoe_samples: number;       // playbacks with QoE events
+  avg_stall_count: number;
+  avg_stall_ms: number;
+  fatal_error_rate: number;
+  muted_fallback_rate: number;
+  is_top_performer: boolean; // top ~15% by retention
+}
+
+/**
+ * Tunable knobs. The nine component weights are the "WEIGHT DISTRIBUTION";
+ * the rest are the additive boosts that were previously hardcoded inline.
+ */
+export interface RankingWeights {
+  completion: number;
+  watchTime: number;
+  hook: number;
+  startup: number;
+  affinity: number;
+  likes: number;
+  shares: number;
+  recency: number;
+  views: number;
+  /** Upper bound of the per-video seeded random term */
+  exploration: number;
+  topPerformerBoost: number;
+  /** Added per matching tag, scaled by that category's relative performance */
+  categoryBoostPerTag: number;
+  categoryBoostCap: number;
+  /** e-folding time of the recency score, in days */
+  recencyDecayDays: number;
+}
+
+// === WEIGHT DISTRIBUTION v2.3 (session-depth-optimized: startup reliability boosted further) ===
+// Completion:  22% — primary retention signal
+// Watch time:  19% — engagement depth
+// Hook:        16% — first impression quality
+// Startup:     16% — playback reliability (critical for session depth)
+// Affinity:    10% — personalization
+// Likes:        6% — social proof
+// Shares:       5% — viral signal
+// Recency:      4% — freshness
+// Views:        2% — popularity
+export const DEFAULT_WEIGHTS: RankingWeights = {
+  completion: 0.22,
+  watchTime: 0.19,
+  hook: 0.16,
+  startup: 0.16,
+  affinity: 0.10,
+  likes: 0.06,
+  shares: 0.05,
+  recency: 0.04,
+  views: 0.02,
+  exploration: 0.05,        // very low: 0-5%
+  topPerformerBoost: 0.30,  // stronger bonus for top 15% (was 0.25)
+  categoryBoostPerTag: 0.10, // slightly higher (was 0.08)
+  categoryBoostCap: 0.25,   // raised cap (was 0.2)
+  recencyDecayDays: 10,     // slower decay (10 day half-life)
+};
+
+/** Fills any missing knobs from DEFAULT_WEIGHTS so partial configs are safe */
+export function resolveWeights(overrides?: Partial<RankingWeights> | null): RankingWeights {
+  return { ...DEFAULT_WEIGHTS, ...(overrides || {}) };
+}
+
+export interface AffinitySignals {
+  likedUploaderIds: Set<string>;
+  likedTags: Set<string>;
+  /** lowercased category → interaction_score */
+  preferredCategories: Map<string, number>;
+}
+
+export interface ViewerContext {
+  /** Seed for all randomness, normally `${viewerIdentity}-${YYYY-MM-DD}` */
+  seed: string;
+  /** Videos this viewer watched in the last 7 days */
+  viewedVideoIds: Set<string>;
+  sessionWatchData: SessionWatchEntry[];
+  /** null for anonymous viewers — affinity is then always 0 */
+  affinity: AffinitySignals | null;
+  isFirstPage: boolean;
+}
+
+export interface ScoreBreakdown {
+  completionScore: number;
+  watchTimeScore: number;
+  hookScore: number;
+  startupScore: number;
+  affinityScore: number;
+  likesScore: number;
+  sharesScore: number;
+  recencyScore: number;
+  viewsScore: number;
+  explorationFactor: number;
+  qualityBonus: number;
+  topPerformerBoost: number;
+  loopBoost: number;
+  categoryBoost: number;
+  sessionBoost: number;
+  startupPenalty: number;
+  earlySkipPenalty: number;
+  lowQualityPenalty: number;
+  viewedPenalty: number;
+  sourceType: string;
+}
+
+export type ScoredVideo<V extends RankableVideo = RankableVideo> = V & {
+  score: number;
+  breakdown: ScoreBreakdown;
+  isViewed: boolean;
+};
+
+/**
+ * Everything about the candidate pool that does not depend on the viewer or
+ * the weights. Build once and reuse when ranking the same pool many times.
+ */
+export interface RankingSnapshot {
+  metricsMap: Map<string, VideoMetrics>;
+  categoryScore: Map<string, number>;
+  maxCatScore: number;
+  maxLikes: number;
+  maxViews: number;
+  maxShares: number;
+  topPerformers: { count: number; completionP85: number; watchDurationP85: number };
+}
+
+export interface RankInput<V extends RankableVideo = RankableVideo> {
+  videos: V[];
+  /** Ignored when `snapshot` is given */
+  watchRows?: WatchRow[];
+  /** Ignored when `snapshot` is given */
+  shareRows?: ShareRow[];
+  /** Ignored when `snapshot` is given; without it stall / retry rates use the TTFF proxies */
+  playbackEventRows?: PlaybackEventRow[];
+  snapshot?: RankingSnapshot;
+  viewer: ViewerContext;
+  weights?: Partial<RankingWeights> | null;
+  /** Epoch ms used for recency; pass Date.now() in production */
+  now: number;
+}
+
+export interface RankResult<V extends RankableVideo = RankableVideo> {
+  /** Final feed order, before cursor pagination */
+  ordered: ScoredVideo<V>[];
+  metricsMap: Map<string, VideoMetrics>;
+  stats: {
+    topPerformerCount: number;
+    completionP85: number;
+    watchDurationP85: number;
+    filteredOut: { videoId: string; reason: 'startup_unreliable' | 'dead' }[];
+    unviewed: number;
+    viewedTop: number;
+    viewedRegular: number;
+    sessionBoostedCategories: number;
+    sessionSkippedCategories: number;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Deterministic seeded RNG
+export function seededRandom(seed: string): () => number {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    const char = seed.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return function() {
+    hash |= 0;
+    hash = hash + 0x6D2B79F5 | 0;
+    let t = Math.imul(hash ^ hash >>> 15, 1 | hash);
+    t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffleArraySeeded<T>(array: T[], rng: () => number): T[] {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Creator + category diversity: no same creator within N, no same primary category within M
+export function applyDiversity<T extends { user_id: string; tags?: string[] | null }>(videos: T[], creatorGap = 4, categoryGap = 3): T[] {
+  if (videos.length <= creatorGap) return videos;
+  const result: T[] = [];
+  const remaining = [...videos];
+  const recentCreators: string[] = [];
+  const recentCategories: string[] = [];
+
+  while (remaining.length > 0 && result.length < videos.length) {
+    // Find first video that satisfies both creator and category diversity
+    let nextIdx = remaining.findIndex(v => {
+      const creatorOk = !recentCreators.slice(-creatorGap).includes(v.user_id);
+      const primaryCat = v.tags?.[0]?.toLowerCase() || '';
+      const catOk = !primaryCat || !recentCategories.slice(-categoryGap).includes(primaryCat);
+      return creatorOk && catOk;
+    });
+
+    // Fallback: just creator diversity
+    if (nextIdx === -1) {
+      nextIdx = remaining.findIndex(v => !recentCreators.slice(-creatorGap).includes(v.user_id));
+    }
+
+    // Fallback: take first
+    if (nextIdx === -1) nextIdx = 0;
+
+    const video = remaining.splice(nextIdx, 1)[0];
+    result.push(video);
+    recentCreators.push(video.user_id);
+    const primaryCat = video.tags?.[0]?.toLowerCase() || '';
+    if (primaryCat) recentCategories.push(primaryCat);
+  }
+
+  return result;
+}
+
+// Shuffle within consecutive tiers of `tierSize` so order stays roughly score-sorted
+function tierShuffle<T>(sorted: T[], rng: () => number, tierSize = 3): T[] {
+  const shuffled: T[] = [];
+  for (let i = 0; i < sorted.length; i += tierSize) {
+    shuffled.push(...shuffleArraySeeded(sorted.slice(i, i + tierSize), rng));
+  }
+  return shuffled;
+}
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+export function buildWatchBuckets(rows: WatchRow[]): Map<string, WatchBucket> {
+  const watchByVideo = new Map<string, WatchBucket>();
+  for (const row of rows) {
+    if (!watchByVideo.has(row.video_id)) {
+      watchByVideo.set(row.video_id, {
+        completions: [],
+        durations: [],
+        ttffMs: [],
+        earlySkips: 0,
+        hookPasses: 0,
+        fastStarts: 0,
+        slowStarts: 0,
+        stallStarts: 0,
+        retryProxyStarts: 0,
+        totalViews: 0,
+      });
+    }
+    const entry = watchByVideo.get(row.video_id)!;
+    entry.totalViews++;
+
+    if (row.watch_completion_percent != null && row.watch_completion_percent > 0) {
+      entry.completions.push(row.watch_completion_percent);
+    }
+    if (row.watch_duration_seconds != null) {
+      if (row.watch_duration_seconds <= 2) {
+        entry.earlySkips++;
+      } else {
+        entry.hookPasses++;
+      }
+      if (row.watch_duration_seconds > 0) {
+        entry.durations.push(row.watch_duration_seconds);
+      }
+    }
+
+    if (row.time_to_first_frame_ms != null && row.time_to_first_frame_ms > 0) {
+      const ttff = row.time_to_first_frame_ms;
+      entry.ttffMs.push(ttff);
+      if (ttff <= 2000) entry.fastStarts++;
+      if (ttff > 2000) entry.slowStarts++;
+      if (ttff > 3500) entry.retryProxyStarts++;
+      if (ttff > 8000) entry.stallStarts++;
+    }
+  }
+  return watchByVideo;
+}
+
+// Shorter rebuffers are decoder hiccups nobody notices
+const MIN_STALL_MS = 250;
+
+export function buildQoeBuckets(rows: PlaybackEventRow[]): Map<string, QoeBucket> {
+  const playbacksByVideo = new Map<string, Map<string, PlaybackEventRow[]>>();
+  for (const row of rows) {
+    let playbacks = playbacksByVideo.get(row.video_id);
+    if (!playbacks) {
+      playbacks = new Map();
+      playbacksByVideo.set(row.video_id, playbacks);
+    }
+    const events = playbacks.get(row.playback_id);
+    if (events) events.push(row);
+    else playbacks.set(row.playback_id, [row]);
+  }
+
+  const qoeByVideo = new Map<string, QoeBucket>();
+  for (const [videoId, playbacks] of playbacksByVideo) {
+    const bucket: QoeBucket = {
+      playbacks: 0,
+      stalledPlaybacks: 0,
+      stallCount: 0,
+      stallMs: 0,
+      retriedPlaybacks: 0,
+      fatalPlaybacks: 0,
+      mutedFallbacks: 0,
+    };
+    for (const events of playbacks.values()) {
+      const has = (type: string) => events.some(e => e.event_type === type);
+      // Playbacks cut off before starting or failing say nothing about the asset
+      if (!has("first_frame") && !has("startup_failed")) continue;
+      bucket.playbacks++;
+
+      const stalls = events.filter(e => e.event_type === "rebuffer_end" && (e.value_ms ?? 0) >= MIN_STALL_MS);
+      if (stalls.length > 0) bucket.stalledPlaybacks++;
+      bucket.stallCount += stalls.length;
+      bucket.stallMs += stalls.reduce((sum, e) => sum + (e.value_ms ?? 0), 0);
+      if (has("retry") || has("startup_failed")) bucket.retriedPlaybacks++;
+      if (has("fatal_error")) bucket.fatalPlaybacks++;
+      if (has("muted_fallback")) bucket.mutedFallbacks++;
+    }
+    if (bucket.playbacks > 0) qoeByVideo.set(videoId, bucket);
+  }
+  return qoeByVideo;
+}
+
+export function countShares(rows: ShareRow[]): Map<string, number> {
+  const sharesByVideo = new Map<string, number>();
+  for (const row of rows) {
+    sharesByVideo.set(row.video_id, (sharesByVideo.get(row.video_id) || 0) + 1);
+  }
+  return sharesByVideo;
+}
+
+export function computeVideoMetrics(bucket: WatchBucket | undefined, shareCount: number, qoe?: QoeBucket): VideoMetrics {
+  const wd = bucket;
+  const avgCompletion = wd && wd.completions.length > 0 ? mean(wd.completions) : -1;
+  const avgDuration = wd && wd.durations.length > 0 ? mean(wd.durations) : -1;
+
+  const earlySkipRate = wd && wd.totalViews >= 3
+    ? wd.earlySkips / wd.totalViews : 0;
+
+  // Hook rate: % of viewers watching >2s (Goal #4)
+  const hookRate = wd && wd.totalViews >= 3
+    ? wd.hookPasses / wd.totalViews : -1; // -1 = no data
+
+  const startupSamples = wd?.ttffMs.length || 0;
+  const avgTtffMs = startupSamples > 0 ? mean(wd!.ttffMs) : -1;
+  const fastStartRate = startupSamples >= 3 ? wd!.fastStarts / startupSamples : -1;
+  const slowStartRate = startupSamples >= 3 ? wd!.slowStarts / startupSamples : 0;
+  // Real rebuffer / retry counts replace the TTFF proxies once there are enough playbacks
+  const qoeSamples = qoe?.playbacks || 0;
+  const hasQoe = qoeSamples >= 3;
+  const stallRate = hasQoe
+    ? qoe!.stalledPlaybacks / qoeSamples
+    : startupSamples >= 3 ? wd!.stallStarts / startupSamples : 0;
+  const retryRate = hasQoe
+    ? qoe!.retriedPlaybacks / qoeSamples
+    : startupSamples >= 3 ? wd!.retryProxyStarts / startupSamples : 0;
+
+  const rewatchSignal = avgCompletion > 80 ? Math.min((avgCompletion - 80) / 50, 1) : 0;
+
+  return {
+    avg_completion: avgCompletion,
+    avg_watch_duration: avgDuration,
+    view_count: wd?.totalViews || 0,
+    share_count: shareCount,
+    early_skip_rate: earlySkipRate,
+    hook_rate: hookRate,
+    rewatch_signal: rewatchSignal,
+    avg_ttff_ms: avgTtffMs,
+    fast_start_rate: fastStartRate,
+    slow_start_rate: slowStartRate,
+    stall_rate: stallRate,
+    retry_rate: retryRate,
+    startup_samples: startupSamples,
+    qoe_samples: qoeSamples,
+    avg_stall_count: hasQoe ? qoe!.stallCount / qoeSamples : -1,
+    avg_stall_ms: hasQoe ? qoe!.stallMs / qoeSamples : -1,
+    fatal_error_rate: hasQoe ? qoe!.fatalPlaybacks / qoeSamples : 0,
+    muted_fallback_rate: hasQoe ? qoe!.mutedFallbacks / qoeSamples : 0,
+    is_top_performer: false, // set by markTopPerformers
+  };
+}
+
+export function buildMetricsMap(
+  videoIds: string[],
+  watchByVideo: Map<string, WatchBucket>,
+  sharesByVideo: Map<string, number>,
+  qoeByVideo?: Map<string, QoeBucket>,
+): Map<string, VideoMetrics> {
+  const metricsMap = new Map<string, VideoMetrics>();
+  for (const videoId of videoIds) {
+    metricsMap.set(videoId, computeVideoMetrics(
+      watchByVideo.get(videoId),
+      sharesByVideo.get(videoId) || 0,
+      qoeByVideo?.get(videoId),
+    ));
+  }
+  return metricsMap;
+}
+
+/**
+ * === IDENTIFY TOP PERFORMERS (Goal #1) ===
+ * Top 15% by completion AND watch time get "top performer" status.
+ * Mutates `is_top_performer` on the metrics in place.
+ */
+export function markTopPerformers(metricsMap: Map<string, VideoMetrics>) {
+  const allCompletions: number[] = [];
+  const allWatchDurations: number[] = [];
+  for (const m of metricsMap.values()) {
+    if (m.avg_completion >= 0 && m.view_count >= 3) allCompletions.push(m.avg_completion);
+    if (m.avg_watch_duration >= 0 && m.view_count >= 3) allWatchDurations.push(m.avg_watch_duration);
+  }
+
+  allCompletions.sort((a, b) => b - a);
+  allWatchDurations.sort((a, b) => b - a);
+  const completionP85 = allCompletions.length > 0 ? allCompletions[Math.floor(allCompletions.length * 0.15)] : 100;
+  const watchDurationP85 = allWatchDurations.length > 0 ? allWatchDurations[Math.floor(allWatchDurations.length * 0.15)] : 30;
+
+  let count = 0;
+  for (const m of metricsMap.values()) {
+    if (m.view_count >= 3 && m.avg_completion >= completionP85 && m.avg_watch_duration >= watchDurationP85) {
+      m.is_top_performer = true;
+      count++;
+    }
+  }
+  return { count, completionP85, watchDurationP85 };
+}
+
+// === CATEGORY PERFORMANCE (Goal #6) ===
+export function buildCategoryScores(videos: RankableVideo[], metricsMap: Map<string, VideoMetrics>) {
+  const categoryPerformance = new Map<string, { totalCompletion: number, totalWatchTime: number, count: number }>();
+  for (const video of videos) {
+    const metrics = metricsMap.get(video.id);
+    if (!metrics || metrics.avg_watch_duration < 0 || metrics.view_count < 2) continue;
+    for (const tag of (video.tags || [])) {
+      const tagLower = tag.toLowerCase();
+      const perf = categoryPerformance.get(tagLower) || { totalCompletion: 0, totalWatchTime: 0, count: 0 };
+      perf.totalWatchTime += metrics.avg_watch_duration;
+      perf.totalCompletion += metrics.avg_completion >= 0 ? metrics.avg_completion : 0;
+      perf.count++;
+      categoryPerformance.set(tagLower, perf);
+    }
+  }
+  const categoryScore = new Map<string, number>();
+  for (const [cat, perf] of categoryPerformance) {
+    if (perf.count >= 2) {
+      // Combined score: avg watch time + avg completion (normalized)
+      const avgWT = perf.totalWatchTime / perf.count;
+      const avgComp = perf.totalCompletion / perf.count;
+      categoryScore.set(cat, avgWT * 0.6 + avgComp * 0.4 / 10); // weight watch time more
+    }
+  }
+  const maxCatScore = Math.max(...Array.from(categoryScore.values()), 1);
+  return { categoryScore, maxCatScore };
+}
+
+// === SESSION ADAPTATION — triggers after just 2 videos (Goal #7) ===
+export function buildSessionSignals(sessionWatchData: SessionWatchEntry[]) {
+  const sessionCategoryBoost = new Map<string, number>();
+  const sessionSkippedCategories = new Map<string, number>();
+
+  if (sessionWatchData.length >= 2) {
+    for (const entry of sessionWatchData) {
+      const tags = entry.tags || [];
+      const duration = entry.watchDuration || 0;
+
+      for (const tag of tags) {
+        const tagLower = tag.toLowerCase();
+        if (duration >= 5) {
+          // Watched 5s+ → boost (lowered from 8s for faster adaptation)
+          sessionCategoryBoost.set(tagLower, (sessionCategoryBoost.get(tagLower) || 0) + duration);
+        }
+        if (duration <= 2) {
+          sessionSkippedCategories.set(tagLower, (sessionSkippedCategories.get(tagLower) || 0) + 1);
+        }
+      }
+    }
+  }
+  return { sessionCategoryBoost, sessionSkippedCategories };
+}
+
+// Must match half_life_days in public.bump_category_preference
+export const CATEGORY_PREFERENCE_HALF_LIFE_DAYS = 14;
+
+/**
+ * user_category_preferences.interaction_score is stored decayed up to
+ * last_interaction; this decays it the rest of the way to `now`.
+ */
+export function decayedPreferenceScore(score: number | null, lastInteraction: string | null, now = Date.now()): number {
+  if (!score) return 0;
+  if (!lastInteraction) return score;
+  const ageDays = Math.max(0, now - new Date(lastInteraction).getTime()) / 86400000;
+  return score * Math.pow(0.5, ageDays / CATEGORY_PREFERENCE_HALF_LIFE_DAYS);
+}
+
+export function computeAffinity(video: RankableVideo, signals: AffinitySignals | null): number {
+  if (!signals) return 0;
+  let affinity = 0;
+  if (signals.likedUploaderIds.has(video.user_id)) affinity += 0.5;
+  if (video.tags) {
+    for (const tag of video.tags) {
+      const catS = signals.preferredCategories.get(tag.toLowerCase());
+      if (catS) affinity += Math.min(catS / 100, 0.25);
+      if (signals.likedTags.has(tag)) affinity += 0.1;
+    }
+  }
+  return affinity;
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+export interface ScoringContext {
+  weights: RankingWeights;
+  metricsMap: Map<string, VideoMetrics>;
+  categoryScore: Map<string, number>;
+  maxCatScore: number;
+  sessionCategoryBoost: Map<string, number>;
+  sessionSkippedCategories: Map<string, number>;
+  viewedVideoIds: Set<string>;
+  maxLikes: number;
+  maxViews: number;
+  maxShares: number;
+  seed: string;
+  now: number;
+}
+
+export function scoreVideo(video: RankableVideo, affinityScore: number, ctx: ScoringContext): { score: number; breakdown: ScoreBreakdown } {
+  const w = ctx.weights;
+  const metrics = ctx.metricsMap.get(video.id);
+  const videoDuration = video.duration_seconds || 0;
+
+  const normalizedLikes = video.likes_count / ctx.maxLikes;
+  const normalizedViews = video.views_count / ctx.maxViews;
+
+  // Recency
+  const ageInDays = (ctx.now - new Date(video.created_at).getTime()) / (1000 * 60 * 60 * 24);
+  const recencyScore = Math.exp(-ageInDays / w.recencyDecayDays);
+
+  // === COMPLETION SCORE (Goal #3: relative to video length) ===
+  let completionScore = 0.5;
+  if (metrics && metrics.avg_completion >= 0) {
+    completionScore = Math.min(metrics.avg_completion / 100, 1);
+    // Strong exponential bonus for high completion
+    if (metrics.avg_completion > 60) {
+      completionScore = Math.pow(completionScore, 0.7); // amplify high values
+    }
+  }
+
+  // === WATCH TIME SCORE (Goal #3: relative to video length) ===
+  let watchTimeScore = 0.5;
+  if (metrics && metrics.avg_watch_duration >= 0) {
+    if (videoDuration > 0) {
+      // Normalize relative to video duration — a 7s video watched 6s = great
+      const relativeWatch = metrics.avg_watch_duration / videoDuration;
+      watchTimeScore = Math.min(relativeWatch, 1.5); // allow >1 for loops
+      // Extra bonus for high % watched on short videos (fairness)
+      if (videoDuration <= 12 && relativeWatch > 0.7) {
+        watchTimeScore = Math.min(watchTimeScore * 1.2, 1.6);
+      }
+    } else {
+      // Fallback: absolute, but cap at 20s
+      watchTimeScore = Math.min(metrics.avg_watch_duration / 20, 1);
+    }
+    // Bonus for 12s+ absolute watch time
+    if (metrics.avg_watch_duration >= 12) {
+      watchTimeScore = Math.min(watchTimeScore * 1.15, 1.8);
+    }
+  }
+
+  // === HOOK QUALITY (Goal #4: how many users watch past first 2s) ===
+  let hookScore = 0.5;
+  if (metrics && metrics.hook_rate >= 0) {
+    hookScore = metrics.hook_rate; // 0-1, direct mapping
+    // Stronger amplification: >75% hook rate = outstanding (lowered threshold)
+    if (hookScore > 0.75) {
+      hookScore = Math.min(hookScore * 1.4, 1.6); // stronger reward (was 1.3/1.5)
+    }
+  }
+
+  // Shares
+  let sharesScore = 0;
+  if (metrics && metrics.view_count > 0) {
+    sharesScore = Math.min((metrics.share_count / metrics.view_count) * 10, 1);
+  } else if (metrics && metrics.share_count > 0) {
+    sharesScore = metrics.share_count / ctx.maxShares;
+  }
+
+  // Startup reliability score from TTFF plus measured (or proxied) stalls and retries
+  let startupReliabilityScore = 0.5;
+  if (metrics && metrics.startup_samples >= 3) {
+    const fastRate = Math.max(metrics.fast_start_rate, 0);
+    const slowPenalty = metrics.slow_start_rate * 0.65; // increased from 0.55
+    const stallPenalty = metrics.stall_rate * 1.2; // increased from 1.1
+    const retryPenalty = metrics.retry_rate * 0.40; // increased from 0.35
+    const fatalPenalty = metrics.fatal_error_rate * 0.8; // 0 without QoE data
+    startupReliabilityScore = Math.max(0, Math.min(1.25, fastRate + 0.25 - slowPenalty - stallPenalty - retryPenalty - fatalPenalty));
+
+    // Bonus for very fast videos (tightened from 900ms to 500ms)
+    if (metrics.avg_ttff_ms > 0 && metrics.avg_ttff_ms < 500) {
+      startupReliabilityScore = Math.min(startupReliabilityScore + 0.15, 1.25);
+    }
+  }
+
+  // === TOP PERFORMER BOOST (Goal #1: concentrate impressions on winners) ===
+  const topPerformerBoost = metrics?.is_top_performer ? w.topPerformerBoost : 0;
+
+  // === EARLY SKIP PENALTY (Goal #4/#5: stronger) ===
+  let earlySkipPenalty = 0;
+  if (metrics && metrics.early_skip_rate > 0 && metrics.view_count >= 3) {
+    if (metrics.early_skip_rate > 0.6) {
+      earlySkipPenalty = -0.6; // near-death penalty
+    } else if (metrics.early_skip_rate > 0.4) {
+      earlySkipPenalty = -0.4;
+    } else if (metrics.early_skip_rate > 0.25) {
+      earlySkipPenalty = -0.2;
+    } else if (metrics.early_skip_rate > 0.1) {
+      earlySkipPenalty = -0.08;
+    }
+  }
+
+  // === LOW QUALITY FILTER (Goal #5: stronger) ===
+  let lowQualityPenalty = 0;
+  if (metrics && metrics.view_count >= 5) {
+    // Avg watch < 3s = almost remove from feed
+    if (metrics.avg_watch_duration >= 0 && metrics.avg_watch_duration < 3) {
+      lowQualityPenalty = -0.5;
+    }
+    // Very low completion (<15%) = strong penalty
+    else if (metrics.avg_completion >= 0 && metrics.avg_completion < 15) {
+      lowQualityPenalty = -0.35;
+    }
+    // Low completion (<25%) = moderate penalty
+    else if (metrics.avg_completion >= 0 && metrics.avg_completion < 25) {
+      lowQualityPenalty = -0.15;
+    }
+  }
+  // With 10+ views and still bad = even stronger
+  if (metrics && metrics.view_count >= 10) {
+    if (metrics.avg_watch_duration >= 0 && metrics.avg_watch_duration < 4) {
+      lowQualityPenalty = Math.min(lowQualityPenalty, -0.6);
+    }
+  }
+
+  // Loop boost (Goal #4: short videos that loop)
+  let loopBoost = 0;
+  if (videoDuration && videoDuration <= 15 && metrics && metrics.rewatch_signal > 0) {
+    loopBoost = metrics.rewatch_signal * 0.12;
+  }
+  // Short video fairness: don't penalize short videos with good completion
+  if (videoDuration && videoDuration <= 10 && completionScore > 0.6) {
+    loopBoost += 0.05; // small fairness boost
+  }
+
+  // Category performance boost (Goal #6: increased weight)
+  let categoryBoost = 0;
+  if (video.tags) {
+    for (const tag of video.tags) {
+      const cs = ctx.categoryScore.get(tag.toLowerCase());
+      if (cs) {
+        categoryBoost += (cs / ctx.maxCatScore) * w.categoryBoostPerTag;
+      }
+    }
+    categoryBoost = Math.min(categoryBoost, w.categoryBoostCap);
+  }
+
+  // Session adaptation (Goal #7: faster, stronger)
+  let sessionBoost = 0;
+  if (video.tags && (ctx.sessionCategoryBoost.size > 0 || ctx.sessionSkippedCategories.size > 0)) {
+    for (const tag of video.tags) {
+      const tagLower = tag.toLowerCase();
+      const boost = ctx.sessionCategoryBoost.get(tagLower);
+      if (boost) {
+        sessionBoost += Math.min(boost / 30, 0.15); // faster ramp: 30s = max (was 60)
+      }
+      const skipCount = ctx.sessionSkippedCategories.get(tagLower);
+      if (skipCount) {
+        sessionBoost -= 0.12 * skipCount; // stronger skip penalty
+      }
+    }
+    sessionBoost = Math.max(-0.4, Math.min(sessionBoost, 0.3));
+  }
+
+  // Exploration (Goal: minimal randomness)
+  const videoRng = seededRandom(`${ctx.seed}-${video.id}`);
+  const explorationFactor = videoRng() * w.exploration;
+
+  // Quality bonus: strongly prefer videos with optimized assets (faster loading)
+  let qualityBonus = 0;
+  const hasCloudflare = !!video.cloudflare_video_id;
+  const sourceType = hasCloudflare
+    ? 'cloudflare'
+    : video.optimized_video_url
+      ? 'optimized'
+      : video.cloudinary_public_id
+        ? 'cloudinary'
+        : 'original';
+
+  if (hasCloudflare) {
+    qualityBonus = 0.15; // strongest bonus for Cloudflare Stream
+  } else if (video.optimized_video_url) {
+    qualityBonus = 0.1;
+  } else if (video.cloudinary_public_id) {
+    qualityBonus = 0.03;
+  }
+  if (!hasCloudflare && !video.optimized_video_url && !video.cloudinary_public_id) {
+    qualityBonus = -0.2;
+  }
+
+  // Penalize assets with consistently poor startup behavior (tightened for session depth)
+  let startupPenalty = 0;
+  if (metrics && metrics.startup_samples >= 3) {
+    // Tighter thresholds — data shows <500ms TTFF = 2x session depth vs >800ms
+    if (metrics.fast_start_rate >= 0 && metrics.fast_start_rate < 0.5) {
+      startupPenalty -= 0.18; // more than half of starts are slow
+    }
+    if (metrics.avg_ttff_ms >= 800) {
+      startupPenalty -= 0.10; // avg over 800ms = noticeable delay
+    }
+    if (metrics.avg_ttff_ms >= 1200) {
+      startupPenalty -= 0.18; // avg over 1.2s = significant friction
+    }
+    if (metrics.avg_ttff_ms >= 2500) {
+      startupPenalty -= 0.25; // avg over 2.5s = near-removal
+    }
+    if (metrics.avg_ttff_ms >= 5000) {
+      startupPenalty -= 0.30; // avg over 5s = removal territory
+    }
+    if (metrics.stall_rate > 0.15) {
+      startupPenalty -= 0.25; // high stall rate = broken experience
+    }
+    if (metrics.retry_rate > 0.2) {
+      startupPenalty -= 0.15; // many retries = unreliable
+    }
+    if (metrics.fatal_error_rate > 0.1) {
+      startupPenalty -= 0.25; // playback errors out for 1 in 10 viewers
+    }
+  }
+
+  // === VIEWED PENALTY (Goal #2: reduce for top performers) ===
+  let viewedPenalty = 0;
+  if (ctx.viewedVideoIds.has(video.id)) {
+    if (metrics?.is_top_performer) {
+      viewedPenalty = -0.3; // mild penalty — allow re-showing winners
+    } else if (metrics && metrics.avg_completion >= 0 && metrics.avg_completion > 50) {
+      viewedPenalty = -0.7; // moderate — decent videos still get suppressed
+    } else {
+      viewedPenalty = -1.8; // heavy — seen low performers almost never return
+    }
+  }
+
+  const wCompletion  = w.completion * completionScore;
+  const wWatchTime   = w.watchTime * watchTimeScore;
+  const wHook        = w.hook * hookScore;
+  const wStartup     = w.startup * startupReliabilityScore;
+  const wAffinity    = w.affinity * Math.min(affinityScore, 1);
+  const wLikes       = w.likes * normalizedLikes;
+  const wShares      = w.shares * sharesScore;
+  const wRecency     = w.recency * recencyScore;
+  const wViews       = w.views * normalizedViews;
+
+  const score =
+    wCompletion +
+    wWatchTime +
+    wHook +
+    wStartup +
+    wAffinity +
+    wLikes +
+    wShares +
+    wRecency +
+    wViews +
+    explorationFactor +
+    qualityBonus +
+    topPerformerBoost +
+    loopBoost +
+    categoryBoost +
+    sessionBoost +
+    startupPenalty +
+    earlySkipPenalty +
+    lowQualityPenalty +
+    viewedPenalty;
+
+  return {
+    score,
+    breakdown: {
+      completionScore: wCompletion,
+      watchTimeScore: wWatchTime,
+      hookScore: wHook,
+      startupScore: wStartup,
+      affinityScore: wAffinity,
+      likesScore: wLikes,
+      sharesScore: wShares,
+      recencyScore: wRecency,
+      viewsScore: wViews,
+      explorationFactor,
+      qualityBonus,
+      topPerformerBoost,
+      loopBoost,
+      categoryBoost,
+      sessionBoost,
+      startupPenalty,
+      earlySkipPenalty,
+      lowQualityPenalty,
+      viewedPenalty,
+      sourceType,
+    }
+  };
+}
+
+/**
+ * === HARD FILTER: remove truly dead content (Goal #5) ===
+ * Returns the reason a video is excluded, or null to keep it.
+ */
+export function hardFilterReason(m: VideoMetrics | undefined): 'startup_unreliable' | 'dead' | null {
+  if (!m || m.view_count < 10) return null; // not enough data, keep
+
+  // Remove startup-unreliable videos from distribution until they are reprocessed
+  if (m.startup_samples >= 8) {
+    if ((m.fast_start_rate >= 0 && m.fast_start_rate < 0.3) || m.stall_rate > 0.2 || m.avg_ttff_ms > 6000 ||
+        (m.qoe_samples >= 8 && m.fatal_error_rate > 0.25)) {
+      return 'startup_unreliable';
+    }
+  }
+
+  // Remove if avg watch <2.5s AND skip rate >50% AND completion <12%
+  if (m.avg_watch_duration >= 0 && m.avg_watch_duration < 2.5 &&
+      m.early_skip_rate > 0.5 &&
+      m.avg_completion >= 0 && m.avg_completion < 12) {
+    return 'dead';
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Full pipeline
+// ---------------------------------------------------------------------------
+
+export function buildRankingSnapshot(
+  videos: RankableVideo[],
+  watchRows: WatchRow[],
+  shareRows: ShareRow[],
+  playbackEventRows?: PlaybackEventRow[],
+): RankingSnapshot {
+  const metricsMap = buildMetricsMap(
+    videos.map(v => v.id),
+    buildWatchBuckets(watchRows),
+    countShares(shareRows),
+    playbackEventRows && buildQoeBuckets(playbackEventRows),
+  );
+  const topPerformers = markTopPerformers(metricsMap);
+  return buildRankingSnapshotFromMetrics(videos, metricsMap, topPerformers);
+}
+
+/**
+ * Same as buildRankingSnapshot, for metrics that were already computed
+ * elsewhere (the precomputed video_feed_scores table). `topPerformers`
+ * describes how the `is_top_performer` flags were assigned.
+ */
+export function buildRankingSnapshotFromMetrics(
+  videos: RankableVideo[],
+  metricsMap: Map<string, VideoMetrics>,
+  topPerformers: RankingSnapshot['topPerformers'],
+): RankingSnapshot {
+  const { categoryScore, maxCatScore } = buildCategoryScores(videos, metricsMap);
+
+  // Normalization maxes
+  return {
+    metricsMap,
+    categoryScore,
+    maxCatScore,
+    maxLikes: Math.max(...videos.map(v => v.likes_count), 1),
+    maxViews: Math.max(...videos.map(v => v.views_count), 1),
+    maxShares: Math.max(...Array.from(metricsMap.values()).map(m => m.share_count), 1),
+    topPerformers,
+  };
+}
+
+/**
+ * Metrics → scores → hard filters → pools → tier shuffle → diversity →
+ * top-performer interleave. Returns the full ordered list; the caller
+ * applies cursor pagination.
+ */
+export function rankFeed<V extends RankableVideo>(input: RankInput<V>): RankResult<V> {
+  const { videos, viewer, now } = input;
+  const weights = resolveWeights(input.weights);
+  const rng = seededRandom(viewer.seed);
+
+  const { sessionCategoryBoost, sessionSkippedCategories } = buildSessionSignals(viewer.sessionWatchData);
+
+  const snapshot = input.snapshot ?? buildRankingSnapshot(videos, input.watchRows || [], input.shareRows || [], input.playbackEventRows);
+  const { metricsMap } = snapshot;
+  const top = snapshot.topPerformers;
+
+  const ctx: ScoringContext = {
+    weights,
+    metricsMap,
+    categoryScore: snapshot.categoryScore,
+    maxCatScore: snapshot.maxCatScore,
+    sessionCategoryBoost,
+    sessionSkippedCategories,
+    viewedVideoIds: viewer.viewedVideoIds,
+    maxLikes: snapshot.maxLikes,
+    maxViews: snapshot.maxViews,
+    maxShares: snapshot.maxShares,
+    seed: viewer.seed,
+    now,
+  };
+
+  const scoredVideos: ScoredVideo<V>[] = videos.map(video => {
+    const { score, breakdown } = scoreVideo(video, computeAffinity(video, viewer.affinity), ctx);
+    return { ...video, score, breakdown, isViewed: viewer.viewedVideoIds.has(video.id) };
+  });
+
+  const filteredOut: RankResult['stats']['filteredOut'] = [];
+  const filteredVideos = scoredVideos.filter(v => {
+    const reason = hardFilterReason(metricsMap.get(v.id));
+    if (reason) filteredOut.push({ videoId: v.id, reason });
+    return !reason;
+  });
+
+  // Separate unviewed and viewed
+  // BUT: top performers that are viewed go into a special "re-show" pool (Goal #2)
+  const byScore = (a: ScoredVideo<V>, b: ScoredVideo<V>) => b.score - a.score;
+  const sortedUnviewed = filteredVideos.filter(v => !v.isViewed).sort(byScore);
+  const sortedViewedTop = filteredVideos.filter(v => v.isViewed && metricsMap.get(v.id)?.is_top_performer).sort(byScore);
+  const sortedViewedRegular = filteredVideos.filter(v => v.isViewed && !metricsMap.get(v.id)?.is_top_performer).sort(byScore);
+
+  // === BUILD FINAL FEED ===
+  // First page: top 5 strictly by score, then small tier shuffle
+  const topSlotCount = viewer.isFirstPage ? 5 : 0;
+  let finalUnviewed: ScoredVideo<V>[];
+  if (viewer.isFirstPage && sortedUnviewed.length > topSlotCount) {
+    finalUnviewed = [
+      ...sortedUnviewed.slice(0, topSlotCount),
+      ...tierShuffle(sortedUnviewed.slice(topSlotCount), rng),
+    ];
+  } else {
+    finalUnviewed = tierShuffle(sortedUnviewed, rng);
+  }
+
+  // Interleave top performers back into feed (Goal #2: viral loops)
+  // Insert one top performer every ~8 videos
+  let ordered = applyDiversity(finalUnviewed, 4, 3);
+
+  if (sortedViewedTop.length > 0) {
+    const interleaved: ScoredVideo<V>[] = [];
+    let topIdx = 0;
+    for (let i = 0; i < ordered.length; i++) {
+      interleaved.push(ordered[i]);
+      // Every 8th position, insert a top performer if available
+      if ((i + 1) % 8 === 0 && topIdx < sortedViewedTop.length) {
+        interleaved.push(sortedViewedTop[topIdx]);
+        topIdx++;
+      }
+    }
+    // Add remaining top performers
+    while (topIdx < sortedViewedTop.length) {
+      interleaved.push(sortedViewedTop[topIdx++]);
+    }
+    ordered = interleaved;
+  }
+
+  // Add regular viewed videos at end
+  const shuffledViewed = shuffleArraySeeded(sortedViewedRegular, rng);
+  ordered = [...ordered, ...applyDiversity(shuffledViewed, 4, 3)];
+
+  return {
+    ordered,
+    metricsMap,
+    stats: {
+      topPerformerCount: top.count,
+      completionP85: top.completionP85,
+      watchDurationP85: top.watchDurationP85,
+      filteredOut,
+      unviewed: sortedUnviewed.length,
+      viewedTop: sortedViewedTop.length,
+      viewedRegular: sortedViewedRegular.length,
+      sessionBoostedCategories: sessionCategoryBoost.size,
+      sessionSkippedCategories: sessionSkippedCategories.size,
+    },
+  };
+}
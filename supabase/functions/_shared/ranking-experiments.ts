@@ -0,0 +1,54 @@
+// Deterministic viewer → variant assignment for ranking experiments.
+// Pure like feed-ranking.ts: the edge function loads the running experiment
+// and passes it in.
+
+import type { RankingWeights } from "./feed-ranking.ts";
+
+export interface ExperimentVariant {
+  id: string;
+  key: string;
+  name: string;
+  /** Partial overrides on top of DEFAULT_WEIGHTS; empty = control */
+  weights: Partial<RankingWeights>;
+  /** Relative share of traffic; 0 pauses the variant */
+  traffic_weight: number;
+}
+
+export interface RunningExperiment {
+  id: string;
+  name: string;
+  variants: ExperimentVariant[];
+}
+
+// FNV-1a, mapped to [0, 1). Stable across deploys and runtimes, unlike the
+// feed's daily seed, so a viewer keeps their variant for the whole experiment.
+export function hashToUnit(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
+/**
+ * Picks a variant for `identity` (userId || viewerId || sessionId). Salting
+ * with the experiment id reshuffles viewers between experiments. Returns null
+ * when no variant has traffic.
+ */
+export function assignVariant(experiment: RunningExperiment, identity: string): ExperimentVariant | null {
+  // Sort by key so the bucket layout does not depend on row order
+  const variants = [...experiment.variants]
+    .filter(v => v.traffic_weight > 0)
+    .sort((a, b) => a.key.localeCompare(b.key));
+  const total = variants.reduce((sum, v) => sum + v.traffic_weight, 0);
+  if (total <= 0) return null;
+
+  const point = hashToUnit(`${experiment.id}:${identity}`) * total;
+  let acc = 0;
+  for (const variant of variants) {
+    acc += variant.traffic_weight;
+    if (point < acc) return variant;
+  }
+  return variants[variants.length - 1];
+}
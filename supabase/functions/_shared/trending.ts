@@ -0,0 +1,184 @@
+// Trending = engagement velocity over the last day compared with each video's
+// own baseline. Pure: refresh-trending loads the rows and stores the result,
+// get-trending serves it.
+//
+// Every event is weighted into "engagement units" (a view, a completed view,
+// a like, a share). A video's recent units are compared with what its
+// baseline rate predicts for the same window; the ratio (lift) is smoothed so
+// a couple of views on a quiet video can't dominate, and multiplied with the
+// log of recent volume so big videos need a real spike to rank.
+
+export const RECENT_WINDOW_HOURS = 24;
+export const BASELINE_WINDOW_HOURS = 7 * 24;
+
+const HOUR_MS = 3600000;
+const COMPLETED_PERCENT = 80;
+const EVENT_WEIGHTS = { view: 1, completion: 2, like: 4, share: 8 };
+// Pseudo-units added to both sides of the lift ratio
+const LIFT_SMOOTHING = 5;
+const MAX_LIFT = 20;
+// Baselines shorter than this are too noisy; treated as "no history"
+const MIN_BASELINE_HOURS = 6;
+export const MIN_RECENT_VIEWS = 5;
+
+export interface TrendingViewRow {
+  video_id: string;
+  viewed_at: string;
+  watch_completion_percent: number | null;
+}
+
+export interface TrendingEventRow {
+  video_id: string;
+  created_at: string;
+}
+
+export interface TrendingVideoMeta {
+  id: string;
+  created_at: string;
+  tags: string[] | null;
+}
+
+interface WindowCounts {
+  views: number;
+  completions: number;
+  likes: number;
+  shares: number;
+}
+
+export interface TrendingVideoScore {
+  video_id: string;
+  score: number;
+  lift: number;
+  recent_events: number;
+  recent_views: number;
+  /** Engagement units per hour before the recent window */
+  baseline_rate: number;
+}
+
+export interface TrendingHashtagScore {
+  tag: string;
+  score: number;
+  lift: number;
+  recent_events: number;
+  recent_views: number;
+  video_count: number;
+}
+
+const emptyCounts = (): WindowCounts => ({ views: 0, completions: 0, likes: 0, shares: 0 });
+
+const engagementUnits = (c: WindowCounts) =>
+  c.views * EVENT_WEIGHTS.view +
+  c.completions * EVENT_WEIGHTS.completion +
+  c.likes * EVENT_WEIGHTS.like +
+  c.shares * EVENT_WEIGHTS.share;
+
+const liftOf = (recent: number, expected: number) =>
+  Math.min(MAX_LIFT, (recent + LIFT_SMOOTHING) / (expected + LIFT_SMOOTHING));
+
+const trendScore = (recentEvents: number, lift: number) =>
+  Math.log1p(recentEvents) * Math.sqrt(lift);
+
+/**
+ * Scores every video with enough recent views. Rows may span more than the
+ * two windows; anything older than the baseline window is ignored.
+ */
+export function computeTrendingVideos(
+  videos: TrendingVideoMeta[],
+  views: TrendingViewRow[],
+  likes: TrendingEventRow[],
+  shares: TrendingEventRow[],
+  now: number,
+): TrendingVideoScore[] {
+  const recentStart = now - RECENT_WINDOW_HOURS * HOUR_MS;
+  const baselineStart = recentStart - BASELINE_WINDOW_HOURS * HOUR_MS;
+  const windows = new Map<string, { recent: WindowCounts; baseline: WindowCounts }>();
+
+  const countsFor = (videoId: string, at: string) => {
+    const t = new Date(at).getTime();
+    if (t < baselineStart || t > now) return null;
+    let w = windows.get(videoId);
+    if (!w) {
+      w = { recent: emptyCounts(), baseline: emptyCounts() };
+      windows.set(videoId, w);
+    }
+    return t >= recentStart ? w.recent : w.baseline;
+  };
+
+  for (const v of views) {
+    const c = countsFor(v.video_id, v.viewed_at);
+    if (!c) continue;
+    c.views++;
+    if ((v.watch_completion_percent ?? 0) >= COMPLETED_PERCENT) c.completions++;
+  }
+  for (const l of likes) {
+    const c = countsFor(l.video_id, l.created_at);
+    if (c) c.likes++;
+  }
+  for (const s of shares) {
+    const c = countsFor(s.video_id, s.created_at);
+    if (c) c.shares++;
+  }
+
+  const results: TrendingVideoScore[] = [];
+  for (const video of videos) {
+    const w = windows.get(video.id);
+    if (!w || w.recent.views < MIN_RECENT_VIEWS) continue;
+
+    // Only the part of the baseline window the video existed for counts
+    const baselineFrom = Math.max(baselineStart, new Date(video.created_at).getTime());
+    const baselineHours = (recentStart - baselineFrom) / HOUR_MS;
+    const baselineRate = baselineHours >= MIN_BASELINE_HOURS ? engagementUnits(w.baseline) / baselineHours : 0;
+
+    const recentEvents = engagementUnits(w.recent);
+    const lift = liftOf(recentEvents, baselineRate * RECENT_WINDOW_HOURS);
+    results.push({
+      video_id: video.id,
+      score: trendScore(recentEvents, lift),
+      lift,
+      recent_events: recentEvents,
+      recent_views: w.recent.views,
+      baseline_rate: baselineRate,
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Rolls video scores up per hashtag: recent units and expected units are
+ * summed over the tag's videos before taking the lift, so one viral clip
+ * lifts its tags less than many videos rising together.
+ */
+export function computeTrendingHashtags(
+  videos: TrendingVideoMeta[],
+  scores: TrendingVideoScore[],
+): TrendingHashtagScore[] {
+  const tagsById = new Map(videos.map(v => [v.id, v.tags || []]));
+  const byTag = new Map<string, { recent: number; expected: number; views: number; videos: number }>();
+
+  for (const s of scores) {
+    const tags = new Set((tagsById.get(s.video_id) || []).map(t => t.toLowerCase()));
+    for (const tag of tags) {
+      const agg = byTag.get(tag) || { recent: 0, expected: 0, views: 0, videos: 0 };
+      agg.recent += s.recent_events;
+      agg.expected += s.baseline_rate * RECENT_WINDOW_HOURS;
+      agg.views += s.recent_views;
+      agg.videos++;
+      byTag.set(tag, agg);
+    }
+  }
+
+  return Array.from(byTag.entries())
+    .map(([tag, agg]) => {
+      const lift = liftOf(agg.recent, agg.expected);
+      return {
+        tag,
+        score: trendScore(agg.recent, lift),
+        lift,
+        recent_events: agg.recent,
+        recent_views: agg.views,
+        video_count: agg.videos,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,149 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Ad click redirect. LivestreamAdItem opens
+//   GET /ad-click?ad=<id>&viewer=<viewerId>&session=<sessionId>&source=<feedSource>
+// Every click is logged; repeats, bots and bursts are kept but flagged invalid
+// so AdminAds can show raw vs. valid and the ad picker only learns from real
+// clicks. The visitor is always redirected, with UTM parameters appended.
+// VAST ads open their own ClickThrough and only log here with &redirect=0,
+// which answers 204 instead of redirecting.
+
+const BASE_URL = "https://shortpornvids.com";
+
+// Same viewer (or IP) clicking the same ad again inside this window is a duplicate
+const DEDUPE_WINDOW_MINUTES = 30;
+// More clicks than this from one viewer / IP across all ads in a minute is a burst
+const RATE_WINDOW_SECONDS = 60;
+const RATE_LIMIT = 5;
+
+const BOT_UA = /bot|crawl|spider|slurp|facebookexternalhit|preview|headless|phantom|selenium|puppeteer|playwright|curl|wget|python|httpclient|okhttp|go-http|java\//i;
+
+const ID_PATTERN = /^[\w-]{1,64}$/;
+
+type InvalidReason = "duplicate" | "bot" | "rate_limited";
+
+interface AdRow {
+  id: string;
+  external_link: string | null;
+}
+
+interface UtmSettings {
+  utm_source: string;
+  utm_medium: string;
+  utm_campaign: string;
+}
+
+const redirect = (location: string) =>
+  new Response(null, {
+    status: 302,
+    headers: { Location: location, "Cache-Control": "no-store", "Referrer-Policy": "no-referrer" },
+  });
+
+// Peppered with the service key so stored hashes can't be reversed by
+// enumerating the IPv4 space
+async function hashIp(ip: string, pepper: string): Promise<string | null> {
+  if (!ip) return null;
+  const data = new TextEncoder().encode(`${pepper}:${ip}`);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Keeps any UTM values the advertiser already put in the link
+function withUtm(link: string, adId: string, feedSource: string | null, utm: UtmSettings | null): string {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return link;
+  }
+  const params: Record<string, string | null> = {
+    utm_source: utm?.utm_source || null,
+    utm_medium: utm?.utm_medium || null,
+    utm_campaign: utm?.utm_campaign ? utm.utm_campaign.replace(/\{ad_id\}/g, adId) : null,
+    utm_content: feedSource,
+  };
+  for (const [key, value] of Object.entries(params)) {
+    if (value && !url.searchParams.has(key)) url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const url = new URL(req.url);
+  const adId = url.searchParams.get("ad") || "";
+  const param = (name: string) => {
+    const value = url.searchParams.get(name);
+    return value && ID_PATTERN.test(value) ? value : null;
+  };
+  const viewerId = param("viewer");
+  const sessionId = param("session");
+  const feedSource = param("source");
+  const logOnly = url.searchParams.get("redirect") === "0";
+  const done = (location: string) => (logOnly ? new Response(null, { status: 204 }) : redirect(location));
+
+  if (!ID_PATTERN.test(adId)) return done(BASE_URL);
+
+  try {
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, supabaseKey);
+
+    const [{ data: ad }, { data: utm }] = await Promise.all([
+      supabase.from("ads").select("id, external_link").eq("id", adId).maybeSingle(),
+      supabase.from("ad_settings").select("utm_source, utm_medium, utm_campaign").maybeSingle(),
+    ]);
+    const adRow = ad as AdRow | null;
+    if (!adRow) return done(BASE_URL);
+
+    const userAgent = req.headers.get("user-agent") || "";
+    const forwarded = req.headers.get("x-forwarded-for");
+    const ipHash = await hashIp(forwarded?.split(",")[0]?.trim() || "", supabaseKey);
+
+    // Match on viewer id and IP so clearing storage doesn't reset the checks
+    const who = [viewerId && `viewer_id.eq.${viewerId}`, ipHash && `ip_hash.eq.${ipHash}`].filter(Boolean).join(",");
+
+    let invalidReason: InvalidReason | null = null;
+    if (!userAgent || BOT_UA.test(userAgent)) {
+      invalidReason = "bot";
+    } else if (who) {
+      const now = Date.now();
+      const [{ count: recentCount }, { count: duplicateCount }] = await Promise.all([
+        supabase
+          .from("ad_clicks")
+          .select("id", { count: "exact", head: true })
+          .or(who)
+          .gte("clicked_at", new Date(now - RATE_WINDOW_SECONDS * 1000).toISOString()),
+        supabase
+          .from("ad_clicks")
+          .select("id", { count: "exact", head: true })
+          .eq("ad_id", adRow.id)
+          .eq("is_valid", true)
+          .or(who)
+          .gte("clicked_at", new Date(now - DEDUPE_WINDOW_MINUTES * 60 * 1000).toISOString()),
+      ]);
+      if ((recentCount || 0) >= RATE_LIMIT) invalidReason = "rate_limited";
+      else if ((duplicateCount || 0) > 0) invalidReason = "duplicate";
+    }
+
+    const { error } = await supabase.from("ad_clicks").insert({
+      ad_id: adRow.id,
+      viewer_id: viewerId,
+      session_id: sessionId,
+      feed_source: feedSource,
+      user_agent: userAgent.slice(0, 512) || null,
+      ip_hash: ipHash,
+      is_valid: invalidReason === null,
+      invalid_reason: invalidReason,
+    });
+    if (error) console.error("[ad-click] Failed to log click:", error);
+
+    if (!adRow.external_link) return done(BASE_URL);
+    return done(withUtm(adRow.external_link, adRow.id, feedSource, utm as UtmSettings | null));
+  } catch (error) {
+    console.error("[ad-click] Error:", error);
+    return done(BASE_URL);
+  }
+});
@@ -8,6 +8,68 @@ const corsHeaders = {
 // Reliable tracking started after this date (when viewer_id + session_id became mandatory)
 const RELIABLE_TRACKING_DATE = "2024-12-17";
 
+// Per-variant session depth / watch time / return rate for a ranking experiment.
+// Same definitions as the core metrics below, applied to each variant's views.
+interface ExperimentViewRow {
+  experiment_variant_id: string | null;
+  viewer_id: string | null;
+  session_id: string | null;
+  viewed_at: string;
+  watch_duration_seconds: number | null;
+  watch_completion_percent: number | null;
+}
+
+const summarizeVariantViews = (views: ExperimentViewRow[]) => {
+  const reliableViews = views.filter(v => v.session_id);
+  const viewsBySession = new Map<string, number>();
+  const daysByViewer = new Map<string, Set<string>>();
+  let totalWatchTimeSeconds = 0;
+  let viewsWithWatchDuration = 0;
+  let completionSum = 0;
+  let completionCount = 0;
+
+  reliableViews.forEach(v => {
+    const sessionId = v.session_id as string;
+    viewsBySession.set(sessionId, (viewsBySession.get(sessionId) || 0) + 1);
+    const duration = v.watch_duration_seconds || 0;
+    if (duration > 0) {
+      totalWatchTimeSeconds += duration;
+      viewsWithWatchDuration++;
+    }
+    if (v.watch_completion_percent != null) {
+      completionSum += v.watch_completion_percent;
+      completionCount++;
+    }
+    if (v.viewer_id) {
+      if (!daysByViewer.has(v.viewer_id)) daysByViewer.set(v.viewer_id, new Set());
+      daysByViewer.get(v.viewer_id)!.add(v.viewed_at.substring(0, 10));
+    }
+  });
+
+  const totalSessions = viewsBySession.size;
+  const videosPerSessionArray = Array.from(viewsBySession.values()).sort((a, b) => a - b);
+  const viewers = daysByViewer.size;
+  // Return rate: viewers in the variant who came back on a later (UTC) day
+  const returnedViewers = Array.from(daysByViewer.values()).filter(days => days.size > 1).length;
+
+  return {
+    views: reliableViews.length,
+    viewers,
+    sessions: totalSessions,
+    avgVideosPerSession: totalSessions > 0 ? Math.round((reliableViews.length / totalSessions) * 10) / 10 : 0,
+    medianVideosPerSession: videosPerSessionArray.length > 0
+      ? videosPerSessionArray[Math.floor(videosPerSessionArray.length / 2)]
+      : 0,
+    avgWatchTimePerView: viewsWithWatchDuration > 0 ? Math.round(totalWatchTimeSeconds / viewsWithWatchDuration) : 0,
+    avgWatchTimePerSession: totalSessions > 0 ? Math.round(totalWatchTimeSeconds / totalSessions) : 0,
+    avgCompletion: completionCount > 0 ? Math.round(completionSum / completionCount) : 0,
+    scrollContinuationRate: totalSessions > 0
+      ? Math.round((videosPerSessionArray.filter(n => n > 1).length / totalSessions) * 1000) / 10
+      : 0,
+    returnRate: viewers > 0 ? Math.round((returnedViewers / viewers) * 1000) / 10 : 0,
+  };
+};
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -61,6 +123,60 @@ Deno.serve(async (req) => {
     }
 
     const url = new URL(req.url);
+    const experimentId = url.searchParams.get("experimentId");
+
+    if (experimentId) {
+      const { data: variants, error: variantsError } = await serviceClient
+        .from("ranking_experiment_variants")
+        .select("id, key, name, traffic_weight")
+        .eq("experiment_id", experimentId)
+        .order("key");
+      if (variantsError) throw variantsError;
+
+      const variantIds = (variants || []).map((v: { id: string }) => v.id);
+      const experimentViews: ExperimentViewRow[] = [];
+      let expOffset = 0;
+      let expHasMore = variantIds.length > 0;
+      // Set when the summary covers only the newest views (cap or a failed page)
+      let expTruncated = false;
+
+      while (expHasMore) {
+        const { data: pageData, error: pageError } = await serviceClient
+          .from("video_views")
+          .select("experiment_variant_id, viewer_id, session_id, viewed_at, watch_duration_seconds, watch_completion_percent")
+          .in("experiment_variant_id", variantIds)
+          .order("viewed_at", { ascending: false })
+          .order("id", { ascending: false })
+          .range(expOffset, expOffset + 999);
+
+        if (pageError) {
+          console.error("Error fetching experiment views page:", pageError);
+          expTruncated = true;
+          break;
+        }
+        experimentViews.push(...(pageData || []));
+        expOffset += 1000;
+        expHasMore = (pageData?.length || 0) === 1000;
+        if (expHasMore && experimentViews.length >= 50000) {
+          expTruncated = true;
+          expHasMore = false;
+        }
+      }
+
+      console.log(`Experiment ${experimentId}: ${experimentViews.length} views across ${variantIds.length} variants${expTruncated ? " (truncated)" : ""}`);
+
+      return new Response(JSON.stringify({
+        experimentId,
+        truncated: expTruncated,
+        variants: (variants || []).map((variant: { id: string; key: string; name: string; traffic_weight: number }) => ({
+          ...variant,
+          ...summarizeVariantViews(experimentViews.filter(v => v.experiment_variant_id === variant.id)),
+        })),
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     const startDate = url.searchParams.get("startDate");
     const endDate = url.searchParams.get("endDate");
     const isLifetime = url.searchParams.get("lifetime") === "true";
@@ -186,6 +186,30 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Cold-start exploration outcome, for videos that were tested
+    const explorationMap = new Map<string, {
+      status: string;
+      impressions: number;
+      hook_rate: number;
+      decided_at: string | null;
+      decision_reason: string | null;
+    }>();
+    if (videoIds.length > 0) {
+      const { data: explorationRows } = await serviceClient
+        .from("video_exploration")
+        .select("video_id, status, impressions, hook_rate, decided_at, decision_reason")
+        .in("video_id", videoIds);
+      explorationRows?.forEach((row) => {
+        explorationMap.set(row.video_id, {
+          status: row.status,
+          impressions: row.impressions,
+          hook_rate: row.hook_rate,
+          decided_at: row.decided_at,
+          decision_reason: row.decision_reason,
+        });
+      });
+    }
+
     // Get uploader emails from auth
     const { data: authUsers } = await serviceClient.auth.admin.listUsers();
     
@@ -217,6 +241,7 @@ Deno.serve(async (req) => {
         startup_stall_rate: startup?.stall_rate ?? -1,
         startup_retry_rate: startup?.retry_rate ?? -1,
         startup_samples: startup?.startup_samples ?? 0,
+        exploration: explorationMap.get(v.id) ?? null,
       };
     }) || [];
 
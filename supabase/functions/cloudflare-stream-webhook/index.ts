@@ -0,0 +1,236 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Receives Cloudflare Stream "video ready / error" events and finalizes uploads.
+//
+// Register once per account (the response contains the signing secret, store
+// it as CLOUDFLARE_WEBHOOK_SECRET):
+//   PUT /accounts/{account_id}/stream/webhook
+//   { "notificationUrl": "https://<project>.supabase.co/functions/v1/cloudflare-stream-webhook" }
+
+const CLOUDFLARE_SUBDOMAIN = "customer-qb7mect5e41byr1i";
+const MIN_DURATION_SECONDS = 10;
+const MAX_DURATION_SECONDS = 90;
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+interface StreamEvent {
+  uid: string;
+  readyToStream?: boolean;
+  duration?: number;
+  status?: {
+    state?: string;
+    errorReasonCode?: string;
+    errorReasonText?: string;
+  };
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, "0")).join("");
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+/**
+ * Webhook-Signature: time=<unix seconds>,sig1=<hex HMAC-SHA256 of "<time>.<raw body>">
+ */
+async function verifySignature(header: string | null, body: string, secret: string): Promise<boolean> {
+  if (!header) return false;
+  const parts = Object.fromEntries(
+    header.split(",").map(part => {
+      const [key, ...rest] = part.split("=");
+      return [key.trim(), rest.join("=").trim()];
+    })
+  );
+  const time = parseInt(parts.time, 10);
+  if (!time || !parts.sig1) return false;
+  if (Math.abs(Date.now() / 1000 - time) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, encoder.encode(`${time}.${body}`));
+  return timingSafeEqual(toHex(mac), parts.sig1.toLowerCase());
+}
+
+// Cloudflare reports -1 (or leaves duration out) until it has probed the
+// asset; ask the Stream API directly before giving up on the event
+async function fetchStreamDuration(uid: string, accountId?: string, apiToken?: string): Promise<number> {
+  if (!accountId || !apiToken) return 0;
+  const res = await fetch(
+    `https://api.cloudflare.com/client/v4/accounts/${accountId}/stream/${uid}`,
+    { headers: { "Authorization": `Bearer ${apiToken}` } }
+  );
+  if (!res.ok) return 0;
+  const result = await res.json();
+  return result.success && typeof result.result?.duration === "number" ? result.result.duration : 0;
+}
+
+// Fetch manifest + first variant playlist + first segment so the first
+// viewers get an edge-cached start
+async function warmEdgeCache(cloudflareVideoId: string) {
+  const manifestUrl = `https://${CLOUDFLARE_SUBDOMAIN}.cloudflarestream.com/${cloudflareVideoId}/manifest/video.m3u8`;
+  const manifestRes = await fetch(manifestUrl);
+  if (!manifestRes.ok) return;
+  const variantLine = (await manifestRes.text()).split("\n").map(l => l.trim()).find(l => l && !l.startsWith("#"));
+  if (!variantLine) return;
+  const variantUrl = variantLine.startsWith("http") ? variantLine : new URL(variantLine, manifestUrl).href;
+  const variantRes = await fetch(variantUrl);
+  if (!variantRes.ok) return;
+  const segLine = (await variantRes.text()).split("\n").map(l => l.trim()).find(l => l && !l.startsWith("#"));
+  if (!segLine) return;
+  await fetch(segLine.startsWith("http") ? segLine : new URL(segLine, variantUrl).href);
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const CLOUDFLARE_ACCOUNT_ID = Deno.env.get("CLOUDFLARE_ACCOUNT_ID");
+    const CLOUDFLARE_API_TOKEN = Deno.env.get("CLOUDFLARE_API_TOKEN");
+    const CLOUDFLARE_WEBHOOK_SECRET = Deno.env.get("CLOUDFLARE_WEBHOOK_SECRET");
+    if (!CLOUDFLARE_WEBHOOK_SECRET) {
+      throw new Error("CLOUDFLARE_WEBHOOK_SECRET not configured");
+    }
+
+    const rawBody = await req.text();
+    const valid = await verifySignature(req.headers.get("Webhook-Signature"), rawBody, CLOUDFLARE_WEBHOOK_SECRET);
+    if (!valid) {
+      console.warn("[stream-webhook] Invalid signature");
+      return json({ error: "Invalid signature" }, 401);
+    }
+
+    const event = JSON.parse(rawBody) as StreamEvent;
+    if (!event.uid) {
+      return json({ error: "Missing uid" }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    // Only uploads started through create-stream-upload / process-video-cloudflare
+    // are tracked by upload id; ads and migrations finalize themselves.
+    const { data: video, error: videoError } = await supabase
+      .from("videos")
+      .select("id, user_id, processing_status")
+      .eq("cloudflare_upload_id", event.uid)
+      .maybeSingle();
+    if (videoError) throw videoError;
+
+    if (!video) {
+      console.log(`[stream-webhook] No video for uid ${event.uid}, ignoring`);
+      return json({ received: true, matched: false });
+    }
+
+    // Cloudflare retries deliveries; finalize each video once
+    if (video.processing_status === "completed" || video.processing_status === "failed") {
+      return json({ received: true, duplicate: true });
+    }
+
+    const state = event.status?.state;
+    const markFailed = async (reason: string) => {
+      await supabase
+        .from("videos")
+        .update({ processing_status: "failed", processing_error: reason })
+        .eq("id", video.id);
+      await supabase.from("notifications").insert({
+        user_id: video.user_id,
+        actor_id: video.user_id,
+        type: "video_failed",
+        video_id: video.id,
+      });
+    };
+
+    if (state === "error") {
+      const reason = event.status?.errorReasonText || event.status?.errorReasonCode || "Cloudflare processing failed";
+      console.error(`[stream-webhook] Video ${video.id} failed: ${reason}`);
+      await markFailed(reason);
+      return json({ received: true, status: "failed" });
+    }
+
+    if (!event.readyToStream && state !== "ready") {
+      // Intermediate event (e.g. inprogress); wait for the final one
+      return json({ received: true, status: state || "unknown" });
+    }
+
+    let duration = event.duration ?? 0;
+    if (duration <= 0) {
+      duration = await fetchStreamDuration(event.uid, CLOUDFLARE_ACCOUNT_ID, CLOUDFLARE_API_TOKEN).catch(() => 0);
+    }
+    if (duration <= 0) {
+      // Never publish without the length check: leave the row processing and
+      // fail the delivery so Cloudflare retries it
+      console.warn(`[stream-webhook] Video ${video.id} ready without a known duration, retrying later`);
+      return json({ received: true, status: "duration_unknown" }, 503);
+    }
+
+    if (duration < MIN_DURATION_SECONDS || duration > MAX_DURATION_SECONDS) {
+      const reason = duration < MIN_DURATION_SECONDS
+        ? `Video must be at least ${MIN_DURATION_SECONDS} seconds long`
+        : `Video must be ${MAX_DURATION_SECONDS} seconds or shorter`;
+      console.error(`[stream-webhook] Video ${video.id} duration invalid: ${duration}s`);
+
+      if (CLOUDFLARE_ACCOUNT_ID && CLOUDFLARE_API_TOKEN) {
+        await fetch(
+          `https://api.cloudflare.com/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/stream/${event.uid}`,
+          {
+            method: "DELETE",
+            headers: { "Authorization": `Bearer ${CLOUDFLARE_API_TOKEN}` },
+          }
+        ).catch(() => {});
+      }
+
+      await markFailed(reason);
+      return json({ received: true, status: "rejected", reason });
+    }
+
+    const { error: updateError } = await supabase
+      .from("videos")
+      .update({
+        cloudflare_video_id: event.uid,
+        processing_status: "completed",
+        processing_error: null,
+        duration_seconds: Math.round(duration),
+      })
+      .eq("id", video.id);
+    if (updateError) throw updateError;
+
+    await supabase.from("notifications").insert({
+      user_id: video.user_id,
+      actor_id: video.user_id,
+      type: "video_ready",
+      video_id: video.id,
+    });
+
+    console.log(`[stream-webhook] Video ${video.id} ready (${duration}s)`);
+
+    try {
+      await warmEdgeCache(event.uid);
+    } catch (warmErr) {
+      console.warn("[stream-webhook] Edge cache warm-up failed (non-critical):", warmErr);
+    }
+
+    return json({ received: true, status: "completed" });
+  } catch (error) {
+    console.error("[stream-webhook] Error:", error);
+    // 500 makes Cloudflare retry the delivery
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
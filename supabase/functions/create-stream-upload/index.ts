@@ -0,0 +1,148 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const CLOUDFLARE_SUBDOMAIN = "customer-qb7mect5e41byr1i";
+const MAX_DURATION_SECONDS = 90;
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024; // 2 GB
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// tus Upload-Metadata values are base64 encoded
+const tusMetadata = (values: Record<string, string>) =>
+  Object.entries(values).map(([key, value]) => `${key} ${btoa(value)}`).join(",");
+
+/**
+ * Issues a Cloudflare Stream direct creator upload (tus) URL so the browser can
+ * upload straight to Cloudflare in resumable chunks.
+ *
+ * New upload:   { uploadLength, description, categories } → creates the video row
+ * Re-issue:     { uploadLength, videoId } → fresh URL for an own video still uploading
+ *               (the previous URL expired or was lost)
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const CLOUDFLARE_ACCOUNT_ID = Deno.env.get("CLOUDFLARE_ACCOUNT_ID");
+    const CLOUDFLARE_API_TOKEN = Deno.env.get("CLOUDFLARE_API_TOKEN");
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+
+    if (!CLOUDFLARE_ACCOUNT_ID || !CLOUDFLARE_API_TOKEN) {
+      throw new Error("Cloudflare credentials not configured");
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return json({ error: "Missing authorization header" }, 401);
+    }
+
+    const userSupabase = createClient(SUPABASE_URL!, SUPABASE_ANON_KEY!, {
+      global: { headers: { Authorization: authHeader } }
+    });
+    const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+    const { data: { user }, error: userError } = await userSupabase.auth.getUser(token);
+    if (userError || !user) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const { uploadLength, videoId: existingVideoId, description = "", categories = [] } = await req.json() as {
+      uploadLength?: number;
+      videoId?: string;
+      description?: string;
+      categories?: string[];
+    };
+
+    if (!uploadLength || uploadLength <= 0) {
+      return json({ error: "Missing uploadLength" }, 400);
+    }
+    if (uploadLength > MAX_UPLOAD_BYTES) {
+      return json({ error: "Video file is too large" }, 413);
+    }
+
+    const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+
+    if (existingVideoId) {
+      const { data: video } = await supabase
+        .from("videos")
+        .select("user_id, processing_status")
+        .eq("id", existingVideoId)
+        .maybeSingle();
+      if (!video) return json({ error: "Video not found" }, 404);
+      if (video.user_id !== user.id) return json({ error: "Forbidden: You do not own this video" }, 403);
+      if (video.processing_status !== "uploading") {
+        return json({ error: "Video is no longer waiting for an upload" }, 409);
+      }
+    }
+
+    const videoId = existingVideoId || crypto.randomUUID();
+
+    // meta.name carries our video id so Cloudflare events can be matched back
+    const cfResponse = await fetch(
+      `https://api.cloudflare.com/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/stream?direct_user=true`,
+      {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${CLOUDFLARE_API_TOKEN}`,
+          "Tus-Resumable": "1.0.0",
+          "Upload-Length": String(uploadLength),
+          "Upload-Creator": user.id,
+          "Upload-Metadata": tusMetadata({
+            name: videoId,
+            maxdurationseconds: String(MAX_DURATION_SECONDS),
+          }),
+        },
+      }
+    );
+
+    const uploadUrl = cfResponse.headers.get("Location");
+    const cloudflareUploadId = cfResponse.headers.get("stream-media-id");
+    if (!cfResponse.ok || !uploadUrl || !cloudflareUploadId) {
+      const body = await cfResponse.text().catch(() => "");
+      console.error("Cloudflare direct upload error:", cfResponse.status, body);
+      throw new Error("Could not start upload");
+    }
+
+    console.log(`Issued direct upload ${cloudflareUploadId} for video ${videoId} (${uploadLength} bytes)`);
+
+    const manifestUrl = `https://${CLOUDFLARE_SUBDOMAIN}.cloudflarestream.com/${cloudflareUploadId}/manifest/video.m3u8`;
+
+    if (existingVideoId) {
+      const { error: updateError } = await supabase
+        .from("videos")
+        .update({ cloudflare_upload_id: cloudflareUploadId, video_url: manifestUrl, processing_error: null })
+        .eq("id", videoId);
+      if (updateError) throw updateError;
+    } else {
+      const { error: insertError } = await supabase.from("videos").insert({
+        id: videoId,
+        user_id: user.id,
+        title: `Video ${Date.now()}`,
+        description: description.trim() || null,
+        video_url: manifestUrl,
+        tags: categories.length > 0 ? categories : null,
+        processing_status: "uploading",
+        cloudflare_upload_id: cloudflareUploadId,
+      });
+      if (insertError) throw insertError;
+    }
+
+    return json({ videoId, uploadUrl, cloudflareUploadId });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error creating stream upload:", errorMessage);
+    return json({ error: errorMessage }, 500);
+  }
+});
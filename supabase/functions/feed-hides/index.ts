@@ -0,0 +1,175 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { feedHidesOwnerFilter } from "../_shared/feed-hides.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const HIDE_KINDS = ["video", "creator", "category"] as const;
+type HideKind = typeof HIDE_KINDS[number];
+
+interface HiddenVideo {
+  id: string;
+  description: string | null;
+  thumbnail_url: string | null;
+  cloudflare_video_id: string | null;
+}
+
+interface HiddenCreator {
+  id: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+interface HiddenCategory {
+  slug: string;
+  display_name: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+/**
+ * Feed feedback: "Not interested" (video), "Hide creator" and "Hide category".
+ *
+ * Signed-in users are identified by their JWT, guests by the anonymous
+ * viewerId the feed already uses. A signed-in user also sees (and can undo)
+ * whatever they hid as a guest on this device.
+ *
+ * A guest's viewerId is not verified: it is a random id that only lives in
+ * that device's localStorage, and whoever presents it can list and unhide
+ * that guest's hides (same trust model as guest likes' client id). Hides
+ * only steer the viewer's own feed, so nothing more is exposed; ids too
+ * short to be unguessable are refused.
+ *
+ *   { action: "list", viewerId? }
+ *   { action: "hide", kind, target, viewerId? }
+ *   { action: "unhide", id, viewerId? }
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, kind, target, id, viewerId } = await req.json() as {
+      action?: string;
+      kind?: string;
+      target?: string;
+      id?: string;
+      viewerId?: string;
+    };
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    let userId: string | null = null;
+    const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "").trim();
+    if (token) {
+      // The anon key is sent as the bearer token for guests; getUser just fails
+      const { data: { user } } = await supabase.auth.getUser(token);
+      userId = user?.id ?? null;
+    }
+
+    // Also drops malformed viewer ids, which end up inside a filter string
+    const ownerFilter = feedHidesOwnerFilter(userId, viewerId ?? null);
+    if (!ownerFilter) {
+      return json({ error: "Missing viewer" }, 400);
+    }
+
+    if (action === "hide") {
+      if (!kind || !HIDE_KINDS.includes(kind as HideKind) || !target) {
+        return json({ error: "Invalid kind or target" }, 400);
+      }
+
+      const { data: existing } = await supabase
+        .from("feed_hides")
+        .select("id")
+        .or(ownerFilter)
+        .eq("kind", kind)
+        .eq("target", target)
+        .limit(1)
+        .maybeSingle();
+      if (existing) return json({ id: existing.id });
+
+      const { data, error } = await supabase
+        .from("feed_hides")
+        .insert({ user_id: userId, viewer_id: userId ? null : viewerId, kind, target })
+        .select("id")
+        .single();
+      if (error) throw error;
+      return json({ id: data.id });
+    }
+
+    if (action === "unhide") {
+      if (!id) return json({ error: "Missing id" }, 400);
+      const { error } = await supabase
+        .from("feed_hides")
+        .delete()
+        .eq("id", id)
+        .or(ownerFilter);
+      if (error) throw error;
+      return json({ success: true });
+    }
+
+    if (action === "list") {
+      const { data: hides, error } = await supabase
+        .from("feed_hides")
+        .select("id, kind, target, created_at")
+        .or(ownerFilter)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+
+      const idsOf = (k: HideKind) => (hides || []).filter(h => h.kind === k).map(h => h.target);
+      const videoIds = idsOf("video");
+      const creatorIds = idsOf("creator");
+      const categorySlugs = idsOf("category");
+
+      const [videosResult, profilesResult, categoriesResult] = await Promise.all([
+        videoIds.length > 0
+          ? supabase.from("videos").select("id, description, thumbnail_url, cloudflare_video_id").in("id", videoIds)
+          : Promise.resolve({ data: [] }),
+        creatorIds.length > 0
+          ? supabase.from("profiles").select("id, username, avatar_url").in("id", creatorIds)
+          : Promise.resolve({ data: [] }),
+        categorySlugs.length > 0
+          ? supabase.from("categories").select("slug, display_name").in("slug", categorySlugs)
+          : Promise.resolve({ data: [] }),
+      ]);
+
+      const videos = new Map(((videosResult.data || []) as HiddenVideo[]).map(v => [v.id, v]));
+      const profiles = new Map(((profilesResult.data || []) as HiddenCreator[]).map(p => [p.id, p]));
+      const categories = new Map(((categoriesResult.data || []) as HiddenCategory[]).map(c => [c.slug, c]));
+
+      return json({
+        hides: (hides || []).map(h => {
+          if (h.kind === "video") {
+            const video = videos.get(h.target);
+            return {
+              ...h,
+              label: video?.description || "Deleted video",
+              imageUrl: video?.thumbnail_url || null,
+              cloudflareVideoId: video?.cloudflare_video_id || null,
+            };
+          }
+          if (h.kind === "creator") {
+            const profile = profiles.get(h.target);
+            return { ...h, label: profile ? `@${profile.username}` : "Deleted account", imageUrl: profile?.avatar_url || null };
+          }
+          return { ...h, label: categories.get(h.target)?.display_name || h.target, imageUrl: null };
+        }),
+      });
+    }
+
+    return json({ error: "Invalid action" }, 400);
+  } catch (error) {
+    console.error("[feed-hides] Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
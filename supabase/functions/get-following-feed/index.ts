@@ -0,0 +1,174 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { applyDiversity } from "../_shared/feed-ranking.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_FOLLOWING = 1000;
+const SUGGESTION_COUNT = 8;
+
+interface FollowingVideo {
+  id: string;
+  created_at: string;
+  user_id: string;
+  tags: string[] | null;
+  [key: string]: unknown;
+}
+
+interface FollowingCursor {
+  created_at: string;
+  id: string;
+}
+
+// The cursor goes into a PostgREST filter string, so only exact shapes pass
+const TIMESTAMP_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isValidCursor(cursor: unknown): cursor is FollowingCursor {
+  if (!cursor || typeof cursor !== "object") return false;
+  const { created_at, id } = cursor as Record<string, unknown>;
+  return typeof created_at === "string" && TIMESTAMP_RE.test(created_at) && !Number.isNaN(Date.parse(created_at))
+    && typeof id === "string" && UUID_RE.test(id);
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { userId, cursor = null, limit = 10 } = await req.json() as {
+      userId?: string | null;
+      cursor?: FollowingCursor | null;
+      limit?: number;
+    };
+
+    if (cursor !== null && !isValidCursor(cursor)) {
+      return new Response(
+        JSON.stringify({ error: "Invalid cursor" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to see videos from accounts you follow" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: follows, error: followsError } = await supabaseClient
+      .from("follows")
+      .select("following_id")
+      .eq("follower_id", userId)
+      .limit(MAX_FOLLOWING);
+    if (followsError) throw followsError;
+
+    const followingIds = (follows || []).map(f => f.following_id);
+    console.log(`[following] User ${userId.substring(0, 8)}... follows ${followingIds.length}`);
+
+    let videos: FollowingVideo[] = [];
+    if (followingIds.length > 0) {
+      // Keyset pagination on (created_at, id) so equal timestamps never skip or repeat
+      let query = supabaseClient
+        .from("videos")
+        .select(`
+          id, title, description, video_url, optimized_video_url, stream_url,
+          cloudinary_public_id, cloudflare_video_id, thumbnail_url, processing_status,
+          views_count, likes_count, comments_count, tags, created_at, user_id,
+          duration_seconds,
+          profiles!inner(username, avatar_url)
+        `)
+        .in("user_id", followingIds)
+        .not("cloudflare_video_id", "is", null) // Only show HLS-ready videos
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(limit + 1);
+
+      if (cursor) {
+        query = query.or(
+          `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+        );
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      videos = (data || []) as FollowingVideo[];
+    }
+
+    const hasMore = videos.length > limit;
+    const page = videos.slice(0, limit);
+    // Cursor comes from the chronological page, before reordering
+    const last = page[page.length - 1];
+    const nextCursor: FollowingCursor | null = hasMore && last ? { created_at: last.created_at, id: last.id } : null;
+
+    // Light diversity: only reorder inside the page, so pagination stays strictly chronological
+    const ordered = applyDiversity(page, 1, 1);
+
+    // Empty state: suggest creators with the most views on recent uploads
+    let suggestedCreators: { id: string; username: string; avatar_url: string | null; followers_count: number }[] = [];
+    if (!cursor && page.length === 0) {
+      const thirtyDaysAgo = new Date();
+      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+
+      const { data: recent } = await supabaseClient
+        .from("videos")
+        .select("user_id, views_count")
+        .gte("created_at", thirtyDaysAgo.toISOString())
+        .not("cloudflare_video_id", "is", null)
+        .order("views_count", { ascending: false })
+        .limit(300);
+
+      const exclude = new Set([userId, ...followingIds]);
+      const viewsByCreator = new Map<string, number>();
+      for (const v of recent || []) {
+        if (exclude.has(v.user_id)) continue;
+        viewsByCreator.set(v.user_id, (viewsByCreator.get(v.user_id) || 0) + (v.views_count || 0));
+      }
+      const topCreatorIds = Array.from(viewsByCreator.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, SUGGESTION_COUNT)
+        .map(([id]) => id);
+
+      if (topCreatorIds.length > 0) {
+        const { data: profiles } = await supabaseClient
+          .from("profiles")
+          .select("id, username, avatar_url, followers_count")
+          .in("id", topCreatorIds);
+        const byId = new Map((profiles || []).map(p => [p.id, p]));
+        suggestedCreators = topCreatorIds.flatMap(id => byId.get(id) ?? []);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        videos: ordered,
+        nextCursor,
+        hasMore,
+        followingCount: followingIds.length,
+        ...(suggestedCreators.length > 0 ? { suggestedCreators } : {}),
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+          "Cache-Control": "private, max-age=0",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("[following] Error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,77 +1,45 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  rankFeed,
+  buildRankingSnapshotFromMetrics,
+  computeVideoMetrics,
+  decayedPreferenceScore,
+  type AffinitySignals,
+  type RankingSnapshot,
+  type VideoMetrics,
+  type WatchRow,
+  type ShareRow,
+  type PlaybackEventRow,
+} from "../_shared/feed-ranking.ts";
+import { assignVariant, type ExperimentVariant, type RunningExperiment } from "../_shared/ranking-experiments.ts";
+import { buildFeedHides, feedHidesOwnerFilter, isHiddenFromFeed, type FeedHideRow } from "../_shared/feed-hides.ts";
+import {
+  allocateExplorationSlots,
+  DEFAULT_EXPLORATION_SETTINGS,
+  type ExplorationSettings,
+  type ExplorationState,
+} from "../_shared/feed-exploration.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Deterministic seeded RNG
-function seededRandom(seed: string): () => number {
-  let hash = 0;
-  for (let i = 0; i < seed.length; i++) {
-    const char = seed.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return function() {
-    hash |= 0;
-    hash = hash + 0x6D2B79F5 | 0;
-    let t = Math.imul(hash ^ hash >>> 15, 1 | hash);
-    t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
-    return ((t ^ t >>> 14) >>> 0) / 4294967296;
-  };
-}
+// refresh-feed-scores runs every 10 minutes; older than this means the job is stuck
+const FEED_SCORES_MAX_AGE_MS = 30 * 60 * 1000;
+
+// Live fallback reads one page of the newest playback events for QoE, not
+// the full 7 days refresh-feed-scores aggregates
+const LIVE_QOE_EVENT_LIMIT = 1000;
+
+const FEED_SCORE_COLUMNS = "video_id, avg_completion, avg_watch_duration, view_count, share_count, early_skip_rate, hook_rate, rewatch_signal, avg_ttff_ms, fast_start_rate, slow_start_rate, stall_rate, retry_rate, startup_samples, qoe_samples, avg_stall_count, avg_stall_ms, fatal_error_rate, muted_fallback_rate, is_top_performer";
 
 function getTodayDateString(): string {
   const now = new Date();
   return `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}-${String(now.getUTCDate()).padStart(2, '0')}`;
 }
 
-// Creator + category diversity: no same creator within N, no same primary category within M
-function applyDiversity(videos: any[], creatorGap = 4, categoryGap = 3): any[] {
-  if (videos.length <= creatorGap) return videos;
-  const result: any[] = [];
-  const remaining = [...videos];
-  const recentCreators: string[] = [];
-  const recentCategories: string[] = [];
-
-  while (remaining.length > 0 && result.length < videos.length) {
-    // Find first video that satisfies both creator and category diversity
-    let nextIdx = remaining.findIndex(v => {
-      const creatorOk = !recentCreators.slice(-creatorGap).includes(v.user_id);
-      const primaryCat = v.tags?.[0]?.toLowerCase() || '';
-      const catOk = !primaryCat || !recentCategories.slice(-categoryGap).includes(primaryCat);
-      return creatorOk && catOk;
-    });
-
-    // Fallback: just creator diversity
-    if (nextIdx === -1) {
-      nextIdx = remaining.findIndex(v => !recentCreators.slice(-creatorGap).includes(v.user_id));
-    }
-
-    // Fallback: take first
-    if (nextIdx === -1) nextIdx = 0;
-
-    const video = remaining.splice(nextIdx, 1)[0];
-    result.push(video);
-    recentCreators.push(video.user_id);
-    const primaryCat = video.tags?.[0]?.toLowerCase() || '';
-    if (primaryCat) recentCategories.push(primaryCat);
-  }
-
-  return result;
-}
-
-function shuffleArraySeeded<T>(array: T[], rng: () => number): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(rng() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -100,35 +68,11 @@ serve(async (req) => {
     const viewerIdentity = userId || viewerId || sessionId || 'anonymous';
     const dateStr = getTodayDateString();
     const seed = `${viewerIdentity}-${dateStr}`;
-    const rng = seededRandom(seed);
 
     console.log(`[feed] Viewer: ${viewerIdentity.substring(0, 8)}..., sessionWatch: ${sessionWatchData.length}`);
 
     const sessionExcludeSet = new Set<string>(sessionViewedIds || []);
 
-    // === SESSION ADAPTATION — triggers after just 2 videos (Goal #7) ===
-    const sessionCategoryBoost = new Map<string, number>();
-    const sessionSkippedCategories = new Map<string, number>();
-
-    if (sessionWatchData.length >= 2) {
-      for (const entry of sessionWatchData) {
-        const tags = entry.tags || [];
-        const duration = entry.watchDuration || 0;
-
-        for (const tag of tags) {
-          const tagLower = tag.toLowerCase();
-          if (duration >= 5) {
-            // Watched 5s+ → boost (lowered from 8s for faster adaptation)
-            sessionCategoryBoost.set(tagLower, (sessionCategoryBoost.get(tagLower) || 0) + duration);
-          }
-          if (duration <= 2) {
-            sessionSkippedCategories.set(tagLower, (sessionSkippedCategories.get(tagLower) || 0) + 1);
-          }
-        }
-      }
-      console.log(`[feed] Session adapt: +${sessionCategoryBoost.size} cats, -${sessionSkippedCategories.size} cats`);
-    }
-
     // Fetch recent videos (last 30 days, up to 500)
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -138,7 +82,7 @@ serve(async (req) => {
       .select(`
         id, title, description, video_url, optimized_video_url, stream_url,
         cloudinary_public_id, cloudflare_video_id, thumbnail_url, processing_status,
-        views_count, likes_count, tags, created_at, user_id,
+        views_count, likes_count, comments_count, tags, created_at, user_id,
         duration_seconds,
         profiles!inner(username, avatar_url)
       `)
@@ -151,177 +95,126 @@ serve(async (req) => {
       query = query.contains("tags", [categoryFilter]);
     }
 
-    const { data: recentVideos, error } = await query;
+    // "Not interested" / hidden creators / hidden categories are hard exclusions
+    const hidesFilter = feedHidesOwnerFilter(userId || null, viewerId || null);
+    const [{ data: recentVideos, error }, hidesResult] = await Promise.all([
+      query,
+      hidesFilter
+        ? supabaseClient.from("feed_hides").select("kind, target").or(hidesFilter)
+        : Promise.resolve({ data: [] as FeedHideRow[] }),
+    ]);
     if (error) throw error;
+    const hides = buildFeedHides((hidesResult.data || []) as FeedHideRow[]);
 
     const eligibleVideos = (recentVideos || []).filter(
-      (v: any) => !sessionExcludeSet.has(v.id)
+      (v: any) => !sessionExcludeSet.has(v.id) && !isHiddenFromFeed(v, hides)
     );
-    console.log(`[feed] Eligible: ${eligibleVideos.length} videos (HLS-only)`);
+    console.log(`[feed] Eligible: ${eligibleVideos.length} videos (HLS-only, ${hidesResult.data?.length || 0} hides)`);
 
     const videoIds = eligibleVideos.map((v: any) => v.id);
 
-    // Fetch 7-day watch metrics + early skip data
+    // Engagement metrics: precomputed table when fresh, live 7-day aggregation otherwise
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
-    const [watchResult, shareResult] = await Promise.all([
-      supabaseClient
-        .from("video_views")
-        .select("video_id, watch_completion_percent, watch_duration_seconds, time_to_first_frame_ms")
-        .in("video_id", videoIds)
-        .gte("viewed_at", sevenDaysAgo.toISOString()),
-      supabaseClient
-        .from("shares")
-        .select("video_id")
-        .in("video_id", videoIds)
-        .gte("created_at", sevenDaysAgo.toISOString())
-    ]);
-
-    // Build per-video metrics
-    interface WatchBucket {
-      completions: number[];
-      durations: number[];
-      ttffMs: number[];
-      earlySkips: number;     // watched ≤2s
-      hookPasses: number;     // watched >2s
-      fastStarts: number;     // TTFF <= 2000ms
-      slowStarts: number;     // TTFF > 2000ms
-      stallStarts: number;    // TTFF > 8000ms
-      retryProxyStarts: number; // proxy for retry-heavy starts
-      totalViews: number;
-    }
-    const watchByVideo = new Map<string, WatchBucket>();
-    for (const row of (watchResult.data || [])) {
-      if (!watchByVideo.has(row.video_id)) {
-        watchByVideo.set(row.video_id, {
-          completions: [],
-          durations: [],
-          ttffMs: [],
-          earlySkips: 0,
-          hookPasses: 0,
-          fastStarts: 0,
-          slowStarts: 0,
-          stallStarts: 0,
-          retryProxyStarts: 0,
-          totalViews: 0,
+    let snapshot: RankingSnapshot | undefined;
+    let watchRows: WatchRow[] = [];
+    let shareRows: ShareRow[] = [];
+    let playbackEventRows: PlaybackEventRow[] | undefined;
+
+    const { data: lastRun } = await supabaseClient
+      .from("video_feed_score_runs")
+      .select("computed_at, completion_p85, watch_duration_p85")
+      .order("computed_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const scoresFresh = !!lastRun && Date.now() - new Date(lastRun.computed_at).getTime() < FEED_SCORES_MAX_AGE_MS;
+    if (scoresFresh && videoIds.length > 0) {
+      const { data: scoreRows, error: scoresError } = await supabaseClient
+        .from("video_feed_scores")
+        .select(FEED_SCORE_COLUMNS)
+        .in("video_id", videoIds);
+
+      if (!scoresError) {
+        const scoresById = new Map<string, VideoMetrics>(
+          (scoreRows || []).map(({ video_id, ...metrics }: VideoMetrics & { video_id: string }) => [video_id, metrics])
+        );
+        // Top-performer flags come from the whole 30-day pool, not just this
+        // (possibly category-filtered) page. Uploads newer than the last
+        // refresh have no row yet: same as "no data" live.
+        const metricsMap = new Map<string, VideoMetrics>(
+          videoIds.map(id => [id, scoresById.get(id) ?? computeVideoMetrics(undefined, 0)])
+        );
+        snapshot = buildRankingSnapshotFromMetrics(eligibleVideos, metricsMap, {
+          count: Array.from(metricsMap.values()).filter(m => m.is_top_performer).length,
+          completionP85: lastRun.completion_p85,
+          watchDurationP85: lastRun.watch_duration_p85,
         });
+      } else {
+        console.error("[feed] Score table read failed, computing live:", scoresError);
       }
-      const entry = watchByVideo.get(row.video_id)!;
-      entry.totalViews++;
-
-      if (row.watch_completion_percent != null && row.watch_completion_percent > 0) {
-        entry.completions.push(row.watch_completion_percent);
-      }
-      if (row.watch_duration_seconds != null) {
-        if (row.watch_duration_seconds <= 2) {
-          entry.earlySkips++;
-        } else {
-          entry.hookPasses++;
-        }
-        if (row.watch_duration_seconds > 0) {
-          entry.durations.push(row.watch_duration_seconds);
-        }
-      }
-
-      if (row.time_to_first_frame_ms != null && row.time_to_first_frame_ms > 0) {
-        const ttff = row.time_to_first_frame_ms;
-        entry.ttffMs.push(ttff);
-        if (ttff <= 2000) entry.fastStarts++;
-        if (ttff > 2000) entry.slowStarts++;
-        if (ttff > 3500) entry.retryProxyStarts++;
-        if (ttff > 8000) entry.stallStarts++;
-      }
-    }
-
-    const sharesByVideo = new Map<string, number>();
-    for (const row of (shareResult.data || [])) {
-      sharesByVideo.set(row.video_id, (sharesByVideo.get(row.video_id) || 0) + 1);
-    }
-
-    // Build metrics map
-    interface VideoMetrics {
-      avg_completion: number;
-      avg_watch_duration: number;
-      view_count: number;
-      share_count: number;
-      early_skip_rate: number;
-      hook_rate: number;         // % of viewers who watch past 2s
-      rewatch_signal: number;
-      avg_ttff_ms: number;
-      fast_start_rate: number;
-      slow_start_rate: number;
-      stall_rate: number;
-      retry_rate: number;
-      startup_samples: number;
-      is_top_performer: boolean; // top ~15% by retention
-    }
-
-    const metricsMap = new Map<string, VideoMetrics>();
-    // First pass: compute raw metrics
-    const allCompletions: number[] = [];
-    const allWatchDurations: number[] = [];
-
-    for (const videoId of videoIds) {
-      const wd = watchByVideo.get(videoId);
-      const avgCompletion = wd && wd.completions.length > 0
-        ? wd.completions.reduce((a, b) => a + b, 0) / wd.completions.length : -1;
-      const avgDuration = wd && wd.durations.length > 0
-        ? wd.durations.reduce((a, b) => a + b, 0) / wd.durations.length : -1;
-
-      const earlySkipRate = wd && wd.totalViews >= 3
-        ? wd.earlySkips / wd.totalViews : 0;
-
-      // Hook rate: % of viewers watching >2s (Goal #4)
-      const hookRate = wd && wd.totalViews >= 3
-        ? wd.hookPasses / wd.totalViews : -1; // -1 = no data
-
-      const startupSamples = wd?.ttffMs.length || 0;
-      const avgTtffMs = startupSamples > 0
-        ? wd!.ttffMs.reduce((a, b) => a + b, 0) / startupSamples : -1;
-      const fastStartRate = startupSamples >= 3 ? wd!.fastStarts / startupSamples : -1;
-      const slowStartRate = startupSamples >= 3 ? wd!.slowStarts / startupSamples : 0;
-      const stallRate = startupSamples >= 3 ? wd!.stallStarts / startupSamples : 0;
-      const retryRate = startupSamples >= 3 ? wd!.retryProxyStarts / startupSamples : 0;
-
-      const rewatchSignal = avgCompletion > 80 ? Math.min((avgCompletion - 80) / 50, 1) : 0;
-
-      metricsMap.set(videoId, {
-        avg_completion: avgCompletion,
-        avg_watch_duration: avgDuration,
-        view_count: wd?.totalViews || 0,
-        share_count: sharesByVideo.get(videoId) || 0,
-        early_skip_rate: earlySkipRate,
-        hook_rate: hookRate,
-        rewatch_signal: rewatchSignal,
-        avg_ttff_ms: avgTtffMs,
-        fast_start_rate: fastStartRate,
-        slow_start_rate: slowStartRate,
-        stall_rate: stallRate,
-        retry_rate: retryRate,
-        startup_samples: startupSamples,
-        is_top_performer: false, // set below
-      });
-
-      if (avgCompletion >= 0 && wd && wd.totalViews >= 3) allCompletions.push(avgCompletion);
-      if (avgDuration >= 0 && wd && wd.totalViews >= 3) allWatchDurations.push(avgDuration);
     }
 
-    // === IDENTIFY TOP PERFORMERS (Goal #1) ===
-    // Top 15% by completion AND watch time get "top performer" status
-    allCompletions.sort((a, b) => b - a);
-    allWatchDurations.sort((a, b) => b - a);
-    const completionP85 = allCompletions.length > 0 ? allCompletions[Math.floor(allCompletions.length * 0.15)] : 100;
-    const watchDurationP85 = allWatchDurations.length > 0 ? allWatchDurations[Math.floor(allWatchDurations.length * 0.15)] : 30;
-
-    let topPerformerCount = 0;
-    for (const [videoId, m] of metricsMap) {
-      if (m.view_count >= 3 && m.avg_completion >= completionP85 && m.avg_watch_duration >= watchDurationP85) {
-        m.is_top_performer = true;
-        topPerformerCount++;
+    if (snapshot) {
+      console.log(`[feed] Metrics: precomputed (${lastRun!.computed_at})`);
+    } else {
+      console.log(`[feed] Metrics: live (${lastRun ? `scores stale since ${lastRun.computed_at}` : "no score runs"})`);
+      const [watchResult, shareResult, playbackResult] = await Promise.all([
+        supabaseClient
+          .from("video_views")
+          .select("video_id, watch_completion_percent, watch_duration_seconds, time_to_first_frame_ms")
+          .in("video_id", videoIds)
+          .gte("viewed_at", sevenDaysAgo.toISOString()),
+        supabaseClient
+          .from("shares")
+          .select("video_id")
+          .in("video_id", videoIds)
+          .gte("created_at", sevenDaysAgo.toISOString()),
+        // Newest first, so the playback cut at the limit loses its first_frame
+        // and is skipped by buildQoeBuckets rather than counted half-seen
+        supabaseClient
+          .from("playback_events")
+          .select("video_id, playback_id, event_type, value_ms")
+          .in("video_id", videoIds)
+          .in("event_type", ["first_frame", "startup_failed", "retry", "muted_fallback", "rebuffer_end", "fatal_error"])
+          .gte("created_at", sevenDaysAgo.toISOString())
+          .order("created_at", { ascending: false })
+          .order("id", { ascending: false })
+          .limit(LIVE_QOE_EVENT_LIMIT),
+      ]);
+      watchRows = (watchResult.data || []) as WatchRow[];
+      shareRows = (shareResult.data || []) as ShareRow[];
+      if (playbackResult.error) {
+        console.error("[feed] Playback events read failed, using TTFF proxies:", playbackResult.error);
+      } else {
+        playbackEventRows = (playbackResult.data || []) as PlaybackEventRow[];
       }
     }
-    console.log(`[feed] Top performers: ${topPerformerCount} (completion≥${Math.round(completionP85)}%, watch≥${Math.round(watchDurationP85)}s)`);
+
+    // Cold-start exploration: testing videos get reserved slots after ranking,
+    // retired ones leave the unfiltered For You feed
+    const [settingsResult, explorationResult] = videoIds.length > 0
+      ? await Promise.all([
+        supabaseClient.from("feed_exploration_settings").select("*").maybeSingle(),
+        supabaseClient
+          .from("video_exploration")
+          .select("video_id, status, impressions, hook_passes")
+          .in("video_id", videoIds)
+          .in("status", ["testing", "retired"]),
+      ])
+      : [{ data: null }, { data: [] }];
+    const explorationSettings: ExplorationSettings = { ...DEFAULT_EXPLORATION_SETTINGS, ...(settingsResult.data || {}) };
+    const explorationRows = (explorationResult.data || []) as ExplorationState[];
+    const testingVideos = new Map(
+      explorationRows.filter(r => r.status === 'testing').map(r => [r.video_id, r])
+    );
+    const retiredIds = new Set(
+      categoryFilter ? [] : explorationRows.filter(r => r.status === 'retired').map(r => r.video_id)
+    );
+    const rankableVideos = retiredIds.size > 0
+      ? eligibleVideos.filter(v => !retiredIds.has(v.id))
+      : eligibleVideos;
 
     // View history for "seen" penalty
     let viewedVideoIds = new Set<string>();
@@ -337,457 +230,93 @@ serve(async (req) => {
       viewedVideoIds = new Set(recentViews?.map(v => v.video_id) || []);
     }
 
-    // Normalization maxes
-    const maxLikes = Math.max(...eligibleVideos.map((v: any) => v.likes_count), 1);
-    const maxViews = Math.max(...eligibleVideos.map((v: any) => v.views_count), 1);
-    const maxShares = Math.max(...Array.from(metricsMap.values()).map(m => m.share_count), 1);
-
-    // === CATEGORY PERFORMANCE (Goal #6) ===
-    const categoryPerformance = new Map<string, { totalCompletion: number, totalWatchTime: number, count: number }>();
-    for (const video of eligibleVideos) {
-      const metrics = metricsMap.get(video.id);
-      if (!metrics || metrics.avg_watch_duration < 0 || metrics.view_count < 2) continue;
-      for (const tag of (video.tags || [])) {
-        const tagLower = tag.toLowerCase();
-        const perf = categoryPerformance.get(tagLower) || { totalCompletion: 0, totalWatchTime: 0, count: 0 };
-        perf.totalWatchTime += metrics.avg_watch_duration;
-        perf.totalCompletion += metrics.avg_completion >= 0 ? metrics.avg_completion : 0;
-        perf.count++;
-        categoryPerformance.set(tagLower, perf);
-      }
-    }
-    const categoryScore = new Map<string, number>();
-    for (const [cat, perf] of categoryPerformance) {
-      if (perf.count >= 2) {
-        // Combined score: avg watch time + avg completion (normalized)
-        const avgWT = perf.totalWatchTime / perf.count;
-        const avgComp = perf.totalCompletion / perf.count;
-        categoryScore.set(cat, avgWT * 0.6 + avgComp * 0.4 / 10); // weight watch time more
-      }
-    }
-    const maxCatScore = Math.max(...Array.from(categoryScore.values()), 1);
-
-    // === SCORING FUNCTION ===
-    const scoreVideo = (video: any, affinityScore: number = 0): { score: number; breakdown: any } => {
-      const metrics = metricsMap.get(video.id);
-      const videoDuration = video.duration_seconds || 0;
-
-      const normalizedLikes = video.likes_count / maxLikes;
-      const normalizedViews = video.views_count / maxViews;
-
-      // Recency
-      const ageInDays = (Date.now() - new Date(video.created_at).getTime()) / (1000 * 60 * 60 * 24);
-      const recencyScore = Math.exp(-ageInDays / 10); // slower decay (10 day half-life)
-
-      // === COMPLETION SCORE (Goal #3: relative to video length) ===
-      let completionScore = 0.5;
-      if (metrics && metrics.avg_completion >= 0) {
-        completionScore = Math.min(metrics.avg_completion / 100, 1);
-        // Strong exponential bonus for high completion
-        if (metrics.avg_completion > 60) {
-          completionScore = Math.pow(completionScore, 0.7); // amplify high values
-        }
-      }
-
-      // === WATCH TIME SCORE (Goal #3: relative to video length) ===
-      let watchTimeScore = 0.5;
-      if (metrics && metrics.avg_watch_duration >= 0) {
-        if (videoDuration > 0) {
-          // Normalize relative to video duration — a 7s video watched 6s = great
-          const relativeWatch = metrics.avg_watch_duration / videoDuration;
-          watchTimeScore = Math.min(relativeWatch, 1.5); // allow >1 for loops
-          // Extra bonus for high % watched on short videos (fairness)
-          if (videoDuration <= 12 && relativeWatch > 0.7) {
-            watchTimeScore = Math.min(watchTimeScore * 1.2, 1.6);
-          }
-        } else {
-          // Fallback: absolute, but cap at 20s
-          watchTimeScore = Math.min(metrics.avg_watch_duration / 20, 1);
-        }
-        // Bonus for 12s+ absolute watch time
-        if (metrics.avg_watch_duration >= 12) {
-          watchTimeScore = Math.min(watchTimeScore * 1.15, 1.8);
-        }
-      }
-
-      // === HOOK QUALITY (Goal #4: how many users watch past first 2s) ===
-      let hookScore = 0.5;
-      if (metrics && metrics.hook_rate >= 0) {
-        hookScore = metrics.hook_rate; // 0-1, direct mapping
-        // Stronger amplification: >75% hook rate = outstanding (lowered threshold)
-        if (hookScore > 0.75) {
-          hookScore = Math.min(hookScore * 1.4, 1.6); // stronger reward (was 1.3/1.5)
-        }
-      }
-
-      // Shares
-      let sharesScore = 0;
-      if (metrics && metrics.view_count > 0) {
-        sharesScore = Math.min((metrics.share_count / metrics.view_count) * 10, 1);
-      } else if (metrics && metrics.share_count > 0) {
-        sharesScore = metrics.share_count / maxShares;
-      }
-
-      // Startup reliability score from TTFF and stall proxies
-      let startupReliabilityScore = 0.5;
-      if (metrics && metrics.startup_samples >= 3) {
-        const fastRate = Math.max(metrics.fast_start_rate, 0);
-        const slowPenalty = metrics.slow_start_rate * 0.65; // increased from 0.55
-        const stallPenalty = metrics.stall_rate * 1.2; // increased from 1.1
-        const retryPenalty = metrics.retry_rate * 0.40; // increased from 0.35
-        startupReliabilityScore = Math.max(0, Math.min(1.25, fastRate + 0.25 - slowPenalty - stallPenalty - retryPenalty));
-
-        // Bonus for very fast videos (tightened from 900ms to 500ms)
-        if (metrics.avg_ttff_ms > 0 && metrics.avg_ttff_ms < 500) {
-          startupReliabilityScore = Math.min(startupReliabilityScore + 0.15, 1.25);
-        }
-      }
-
-      // === TOP PERFORMER BOOST (Goal #1: concentrate impressions on winners) ===
-      let topPerformerBoost = 0;
-      if (metrics?.is_top_performer) {
-        topPerformerBoost = 0.30; // stronger bonus for top 15% (was 0.25)
-      }
-
-      // === EARLY SKIP PENALTY (Goal #4/#5: stronger) ===
-      let earlySkipPenalty = 0;
-      if (metrics && metrics.early_skip_rate > 0 && metrics.view_count >= 3) {
-        if (metrics.early_skip_rate > 0.6) {
-          earlySkipPenalty = -0.6; // near-death penalty
-        } else if (metrics.early_skip_rate > 0.4) {
-          earlySkipPenalty = -0.4;
-        } else if (metrics.early_skip_rate > 0.25) {
-          earlySkipPenalty = -0.2;
-        } else if (metrics.early_skip_rate > 0.1) {
-          earlySkipPenalty = -0.08;
-        }
-      }
-
-      // === LOW QUALITY FILTER (Goal #5: stronger) ===
-      let lowQualityPenalty = 0;
-      if (metrics && metrics.view_count >= 5) {
-        // Avg watch < 3s = almost remove from feed
-        if (metrics.avg_watch_duration >= 0 && metrics.avg_watch_duration < 3) {
-          lowQualityPenalty = -0.5;
-        }
-        // Very low completion (<15%) = strong penalty
-        else if (metrics.avg_completion >= 0 && metrics.avg_completion < 15) {
-          lowQualityPenalty = -0.35;
-        }
-        // Low completion (<25%) = moderate penalty
-        else if (metrics.avg_completion >= 0 && metrics.avg_completion < 25) {
-          lowQualityPenalty = -0.15;
-        }
-      }
-      // With 10+ views and still bad = even stronger
-      if (metrics && metrics.view_count >= 10) {
-        if (metrics.avg_watch_duration >= 0 && metrics.avg_watch_duration < 4) {
-          lowQualityPenalty = Math.min(lowQualityPenalty, -0.6);
-        }
-      }
-
-      // Loop boost (Goal #4: short videos that loop)
-      let loopBoost = 0;
-      if (videoDuration && videoDuration <= 15 && metrics && metrics.rewatch_signal > 0) {
-        loopBoost = metrics.rewatch_signal * 0.12;
-      }
-      // Short video fairness: don't penalize short videos with good completion
-      if (videoDuration && videoDuration <= 10 && completionScore > 0.6) {
-        loopBoost += 0.05; // small fairness boost
-      }
-
-      // Category performance boost (Goal #6: increased weight)
-      let categoryBoost = 0;
-      if (video.tags) {
-        for (const tag of video.tags) {
-          const cs = categoryScore.get(tag.toLowerCase());
-          if (cs) {
-            categoryBoost += (cs / maxCatScore) * 0.10; // slightly higher (was 0.08)
-          }
-        }
-        categoryBoost = Math.min(categoryBoost, 0.25); // raised cap (was 0.2)
-      }
-
-      // Session adaptation (Goal #7: faster, stronger)
-      let sessionBoost = 0;
-      if (video.tags && (sessionCategoryBoost.size > 0 || sessionSkippedCategories.size > 0)) {
-        for (const tag of video.tags) {
-          const tagLower = tag.toLowerCase();
-          const boost = sessionCategoryBoost.get(tagLower);
-          if (boost) {
-            sessionBoost += Math.min(boost / 30, 0.15); // faster ramp: 30s = max (was 60)
-          }
-          const skipCount = sessionSkippedCategories.get(tagLower);
-          if (skipCount) {
-            sessionBoost -= 0.12 * skipCount; // stronger skip penalty
-          }
-        }
-        sessionBoost = Math.max(-0.4, Math.min(sessionBoost, 0.3));
-      }
-
-      // Exploration (Goal: minimal randomness)
-      const videoRng = seededRandom(`${seed}-${video.id}`);
-      const explorationFactor = videoRng() * 0.05; // very low: 0-5%
-
-      // Quality bonus: strongly prefer videos with optimized assets (faster loading)
-      let qualityBonus = 0;
-      const hasCloudflare = !!(video as any).cloudflare_video_id;
-      const sourceType = hasCloudflare
-        ? 'cloudflare'
-        : video.optimized_video_url
-          ? 'optimized'
-          : video.cloudinary_public_id
-            ? 'cloudinary'
-            : 'original';
-
-      if (hasCloudflare) {
-        qualityBonus = 0.15; // strongest bonus for Cloudflare Stream
-      } else if (video.optimized_video_url) {
-        qualityBonus = 0.1;
-      } else if (video.cloudinary_public_id) {
-        qualityBonus = 0.03;
-      }
-      if (!hasCloudflare && !video.optimized_video_url && !video.cloudinary_public_id) {
-        qualityBonus = -0.2;
-      }
-
-      // Penalize assets with consistently poor startup behavior (tightened for session depth)
-      let startupPenalty = 0;
-      if (metrics && metrics.startup_samples >= 3) {
-        // Tighter thresholds — data shows <500ms TTFF = 2x session depth vs >800ms
-        if (metrics.fast_start_rate >= 0 && metrics.fast_start_rate < 0.5) {
-          startupPenalty -= 0.18; // more than half of starts are slow
-        }
-        if (metrics.avg_ttff_ms >= 800) {
-          startupPenalty -= 0.10; // avg over 800ms = noticeable delay
-        }
-        if (metrics.avg_ttff_ms >= 1200) {
-          startupPenalty -= 0.18; // avg over 1.2s = significant friction
-        }
-        if (metrics.avg_ttff_ms >= 2500) {
-          startupPenalty -= 0.25; // avg over 2.5s = near-removal
-        }
-        if (metrics.avg_ttff_ms >= 5000) {
-          startupPenalty -= 0.30; // avg over 5s = removal territory
-        }
-        if (metrics.stall_rate > 0.15) {
-          startupPenalty -= 0.25; // high stall rate = broken experience
-        }
-        if (metrics.retry_rate > 0.2) {
-          startupPenalty -= 0.15; // many retries = unreliable
-        }
-      }
-
-      // === VIEWED PENALTY (Goal #2: reduce for top performers) ===
-      let viewedPenalty = 0;
-      if (viewedVideoIds.has(video.id)) {
-        if (metrics?.is_top_performer) {
-          viewedPenalty = -0.3; // mild penalty — allow re-showing winners
-        } else if (metrics && metrics.avg_completion >= 0 && metrics.avg_completion > 50) {
-          viewedPenalty = -0.7; // moderate — decent videos still get suppressed
-        } else {
-          viewedPenalty = -1.8; // heavy — seen low performers almost never return
-        }
-      }
-
-      // === WEIGHT DISTRIBUTION v2.3 (session-depth-optimized: startup reliability boosted further) ===
-      // Completion:  22% — primary retention signal
-      // Watch time:  19% — engagement depth
-      // Hook:        16% — first impression quality
-      // Startup:     16% — playback reliability (critical for session depth)
-      // Affinity:    10% — personalization
-      // Likes:        6% — social proof
-      // Shares:       5% — viral signal
-      // Recency:      4% — freshness
-      // Views:        2% — popularity
-
-      const wCompletion  = 0.22 * completionScore;
-      const wWatchTime   = 0.19 * watchTimeScore;
-      const wHook        = 0.16 * hookScore;
-      const wStartup     = 0.16 * startupReliabilityScore;
-      const wAffinity    = 0.10 * Math.min(affinityScore, 1);
-      const wLikes       = 0.06 * normalizedLikes;
-      const wShares      = 0.05 * sharesScore;
-      const wRecency     = 0.04 * recencyScore;
-      const wViews       = 0.02 * normalizedViews;
-
-      const score =
-        wCompletion +
-        wWatchTime +
-        wHook +
-        wStartup +
-        wAffinity +
-        wLikes +
-        wShares +
-        wRecency +
-        wViews +
-        explorationFactor +
-        qualityBonus +
-        topPerformerBoost +
-        loopBoost +
-        categoryBoost +
-        sessionBoost +
-        startupPenalty +
-        earlySkipPenalty +
-        lowQualityPenalty +
-        viewedPenalty;
-
-      return {
-        score,
-        breakdown: {
-          completionScore: wCompletion,
-          watchTimeScore: wWatchTime,
-          hookScore: wHook,
-          startupScore: wStartup,
-          affinityScore: wAffinity,
-          likesScore: wLikes,
-          sharesScore: wShares,
-          recencyScore: wRecency,
-          viewsScore: wViews,
-          explorationFactor,
-          qualityBonus,
-          topPerformerBoost,
-          loopBoost,
-          categoryBoost,
-          sessionBoost,
-          startupPenalty,
-          earlySkipPenalty,
-          lowQualityPenalty,
-          viewedPenalty,
-          sourceType,
-        }
-      };
-    };
-
-    // Score all videos
-    let scoredVideos: any[];
-
-    if (!userId) {
-      scoredVideos = eligibleVideos.map((video: any) => {
-        const { score, breakdown } = scoreVideo(video, 0);
-        return { ...video, score, breakdown, isViewed: viewedVideoIds.has(video.id) };
-      });
-    } else {
+    // Personalization signals (logged-in only)
+    let affinity: AffinitySignals | null = null;
+    if (userId) {
       const [likesResult, prefsResult] = await Promise.all([
         supabaseClient.from("likes").select("video_id, videos(user_id, tags)").eq("user_id", userId),
+        // Stored scores are only decayed up to each row's last interaction, so
+        // over-fetch and re-rank after decaying to now
         supabaseClient.from("user_category_preferences")
-          .select("category, interaction_score").eq("user_id", userId)
-          .order("interaction_score", { ascending: false }).limit(10)
+          .select("category, interaction_score, last_interaction").eq("user_id", userId)
+          .order("interaction_score", { ascending: false }).limit(50)
       ]);
 
-      const likedUploaderIds = new Set(
-        likesResult.data?.map((l: any) => l.videos?.user_id).filter(Boolean) || []
-      );
-      const likedTags = new Set(
-        likesResult.data?.flatMap((l: any) => l.videos?.tags || []) || []
-      );
-      const preferredCategories = new Map(
-        prefsResult.data?.map(p => [p.category.toLowerCase(), p.interaction_score]) || []
-      );
-
-      scoredVideos = eligibleVideos.map((video: any) => {
-        let affinity = 0;
-        if (likedUploaderIds.has(video.user_id)) affinity += 0.5;
-        if (video.tags) {
-          for (const tag of video.tags) {
-            const catS = preferredCategories.get(tag.toLowerCase());
-            if (catS) affinity += Math.min(catS / 100, 0.25);
-            if (likedTags.has(tag)) affinity += 0.1;
-          }
-        }
-        const { score, breakdown } = scoreVideo(video, affinity);
-        return { ...video, score, breakdown, isViewed: viewedVideoIds.has(video.id) };
-      });
-    }
+      const now = Date.now();
+      const topPreferences = (prefsResult.data || [])
+        .map(p => ({ category: p.category.toLowerCase(), score: decayedPreferenceScore(p.interaction_score, p.last_interaction, now) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 10);
 
-    // === HARD FILTER: remove truly dead content (Goal #5) ===
-    const filteredVideos = scoredVideos.filter(v => {
-      const m = metricsMap.get(v.id);
-      if (!m || m.view_count < 10) return true; // not enough data, keep
+      affinity = {
+        likedUploaderIds: new Set(
+          likesResult.data?.map((l: any) => l.videos?.user_id).filter(Boolean) || []
+        ),
+        likedTags: new Set(
+          likesResult.data?.flatMap((l: any) => l.videos?.tags || []) || []
+        ),
+        preferredCategories: new Map(topPreferences.map(p => [p.category, p.score])),
+      };
+    }
 
-      // Remove startup-unreliable videos from distribution until they are reprocessed
-      if (m.startup_samples >= 8) {
-        if ((m.fast_start_rate >= 0 && m.fast_start_rate < 0.3) || m.stall_rate > 0.2 || m.avg_ttff_ms > 6000) {
-          console.log(`[feed] Filtered startup-unreliable video: ${v.id}`);
-          return false;
+    // Ranking experiment: at most one runs at a time (enforced by a unique index)
+    let variant: ExperimentVariant | null = null;
+    if (viewerIdentity !== 'anonymous') {
+      const { data: experiment } = await supabaseClient
+        .from("ranking_experiments")
+        .select("id, name, ranking_experiment_variants(id, key, name, weights, traffic_weight)")
+        .eq("status", "running")
+        .maybeSingle();
+
+      if (experiment) {
+        const running: RunningExperiment = {
+          id: experiment.id,
+          name: experiment.name,
+          variants: experiment.ranking_experiment_variants || [],
+        };
+        variant = assignVariant(running, viewerIdentity);
+        if (variant) {
+          console.log(`[feed] Experiment "${running.name}": variant ${variant.key}`);
         }
       }
+    }
 
-      // Remove if avg watch <2.5s AND skip rate >50% AND completion <12%
-      if (m.avg_watch_duration >= 0 && m.avg_watch_duration < 2.5 &&
-          m.early_skip_rate > 0.5 &&
-          m.avg_completion >= 0 && m.avg_completion < 12) {
-        console.log(`[feed] Filtered out dead video: ${v.id}`);
-        return false;
-      }
-      return true;
+    // === RANKING (pure — see _shared/feed-ranking.ts) ===
+    const { ordered: rankedResult, metricsMap, stats } = rankFeed({
+      videos: rankableVideos,
+      watchRows,
+      shareRows,
+      playbackEventRows,
+      snapshot,
+      viewer: {
+        seed,
+        viewedVideoIds,
+        sessionWatchData,
+        affinity,
+        isFirstPage: !cursor,
+      },
+      weights: variant?.weights,
+      now: Date.now(),
     });
 
-    // Separate unviewed and viewed
-    // BUT: top performers that are viewed go into a special "re-show" pool (Goal #2)
-    const unviewedVideos = filteredVideos.filter(v => !v.isViewed);
-    const viewedTopPerformers = filteredVideos.filter(v => v.isViewed && metricsMap.get(v.id)?.is_top_performer);
-    const viewedRegular = filteredVideos.filter(v => v.isViewed && !metricsMap.get(v.id)?.is_top_performer);
-
-    console.log(`[feed] Unviewed: ${unviewedVideos.length}, Viewed top: ${viewedTopPerformers.length}, Viewed regular: ${viewedRegular.length}`);
-
-    // Sort all pools by score
-    const sortedUnviewed = unviewedVideos.sort((a, b) => b.score - a.score);
-    const sortedViewedTop = viewedTopPerformers.sort((a, b) => b.score - a.score);
-    const sortedViewedRegular = viewedRegular.sort((a, b) => b.score - a.score);
-
-    // === BUILD FINAL FEED ===
-    const isFirstPage = !cursor;
-    const topSlotCount = isFirstPage ? 5 : 0;
-
-    // First page: top 5 strictly by score, then small tier shuffle
-    let finalUnviewed: typeof sortedUnviewed;
-    if (isFirstPage && sortedUnviewed.length > topSlotCount) {
-      const topSlot = sortedUnviewed.slice(0, topSlotCount);
-      const rest = sortedUnviewed.slice(topSlotCount);
-      const shuffledRest: typeof rest = [];
-      const tierSize = 3;
-      for (let i = 0; i < rest.length; i += tierSize) {
-        const tier = rest.slice(i, i + tierSize);
-        shuffledRest.push(...shuffleArraySeeded(tier, rng));
-      }
-      finalUnviewed = [...topSlot, ...shuffledRest];
-    } else {
-      const shuffled: typeof sortedUnviewed = [];
-      const tierSize = 3;
-      for (let i = 0; i < sortedUnviewed.length; i += tierSize) {
-        const tier = sortedUnviewed.slice(i, i + tierSize);
-        shuffled.push(...shuffleArraySeeded(tier, rng));
-      }
-      finalUnviewed = shuffled;
+    if (sessionWatchData.length >= 2) {
+      console.log(`[feed] Session adapt: +${stats.sessionBoostedCategories} cats, -${stats.sessionSkippedCategories} cats`);
     }
-
-    // Interleave top performers back into feed (Goal #2: viral loops)
-    // Insert one top performer every ~8 videos
-    let finalResult = applyDiversity(finalUnviewed, 4, 3);
-
-    if (sortedViewedTop.length > 0) {
-      const interleaved: any[] = [];
-      let topIdx = 0;
-      for (let i = 0; i < finalResult.length; i++) {
-        interleaved.push(finalResult[i]);
-        // Every 8th position, insert a top performer if available
-        if ((i + 1) % 8 === 0 && topIdx < sortedViewedTop.length) {
-          interleaved.push(sortedViewedTop[topIdx]);
-          topIdx++;
-        }
-      }
-      // Add remaining top performers
-      while (topIdx < sortedViewedTop.length) {
-        interleaved.push(sortedViewedTop[topIdx++]);
-      }
-      finalResult = interleaved;
+    console.log(`[feed] Top performers: ${stats.topPerformerCount} (completion≥${Math.round(stats.completionP85)}%, watch≥${Math.round(stats.watchDurationP85)}s)`);
+    for (const f of stats.filteredOut) {
+      console.log(`[feed] Filtered ${f.reason === 'dead' ? 'out dead' : 'startup-unreliable'} video: ${f.videoId}`);
     }
-
-    // Add regular viewed videos at end
-    const shuffledViewed = shuffleArraySeeded(sortedViewedRegular, rng);
-    const diverseViewed = applyDiversity(shuffledViewed, 4, 3);
-    finalResult = [...finalResult, ...diverseViewed];
+    console.log(`[feed] Unviewed: ${stats.unviewed}, Viewed top: ${stats.viewedTop}, Viewed regular: ${stats.viewedRegular}`);
+
+    const { ordered: finalResult, slotted } = allocateExplorationSlots(
+      rankedResult,
+      testingVideos,
+      viewedVideoIds,
+      explorationSettings,
+      seed,
+    );
+    const slottedIds = new Set(slotted);
+    console.log(`[feed] Exploration: ${slotted.length}/${testingVideos.size} testing videos slotted, ${retiredIds.size} retired excluded`);
 
     // Cursor-based pagination
     let startIndex = 0;
@@ -816,7 +345,10 @@ serve(async (req) => {
         fastStartRate: metricsMap.get(v.id)?.fast_start_rate ?? -1,
         stallRate: metricsMap.get(v.id)?.stall_rate ?? -1,
         retryRate: metricsMap.get(v.id)?.retry_rate ?? -1,
+        fatalErrorRate: metricsMap.get(v.id)?.fatal_error_rate ?? -1,
+        qoeSamples: metricsMap.get(v.id)?.qoe_samples ?? 0,
         sourceType: v.breakdown?.sourceType,
+        exploration: slottedIds.has(v.id) ? 'slotted' : testingVideos.has(v.id) ? 'testing' : null,
         optimized: !!v.optimized_video_url,
         components: Object.fromEntries(
           Object.entries(v.breakdown).map(([k, val]) => [
@@ -838,6 +370,7 @@ serve(async (req) => {
         videos: responseVideos,
         nextCursor,
         hasMore,
+        experimentVariantId: variant?.id ?? null,
         ...(debugInfo ? { debug: debugInfo } : {})
       }),
       {
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decayedPreferenceScore } from "../_shared/feed-ranking.ts";
+import { buildFeedHides, feedHidesOwnerFilter, isHiddenFromFeed, type FeedHideRow } from "../_shared/feed-hides.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,7 +15,7 @@ serve(async (req) => {
   }
 
   try {
-    const { userId, page = 0, limit = 10, minimal = false } = await req.json();
+    const { userId, viewerId = null, page = 0, limit = 10, minimal = false } = await req.json();
     
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -21,6 +23,14 @@ serve(async (req) => {
 
     console.log(`Feed request: userId=${userId}, page=${page}, limit=${limit}, minimal=${minimal}`);
 
+    // Hidden videos, creators and categories never show, in either mode
+    const hidesFilter = feedHidesOwnerFilter(userId || null, viewerId);
+    const { data: hideRows } = hidesFilter
+      ? await supabase.from("feed_hides").select("kind, target").or(hidesFilter)
+      : { data: [] as FeedHideRow[] };
+    const hides = buildFeedHides((hideRows || []) as FeedHideRow[]);
+    const hideCount = hideRows?.length || 0;
+
     // For minimal mode (first paint), skip heavy operations
     if (minimal && page === 0) {
       // Fetch only essential columns for instant first paint
@@ -28,18 +38,19 @@ serve(async (req) => {
         .from("videos")
         .select(`
           id, video_url, optimized_video_url, stream_url, cloudinary_public_id, cloudflare_video_id, thumbnail_url,
-          views_count, likes_count, user_id
+          views_count, likes_count, user_id, tags
         `)
         .not("cloudflare_video_id", "is", null)
         .order("created_at", { ascending: false })
-        .limit(limit);
+        .limit(hideCount > 0 ? limit * 2 : limit);
 
       if (error) throw error;
+      const visible = (videos || []).filter(v => !isHiddenFromFeed(v, hides)).slice(0, limit);
 
-      console.log(`Returning ${videos?.length || 0} minimal videos`);
+      console.log(`Returning ${visible.length} minimal videos`);
       
       return new Response(
-        JSON.stringify({ videos: videos || [], minimal: true }),
+        JSON.stringify({ videos: visible, minimal: true }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -76,13 +87,18 @@ serve(async (req) => {
     if (userId) {
       const { data: prefs } = await supabase
         .from("user_category_preferences")
-        .select("category, interaction_score")
+        .select("category, interaction_score, last_interaction")
         .eq("user_id", userId);
       
       if (prefs && prefs.length > 0) {
-        const totalScore = prefs.reduce((sum, p) => sum + (p.interaction_score || 0), 0);
-        prefs.forEach(p => {
-          categoryScores.set(p.category, totalScore > 0 ? p.interaction_score / totalScore : 0);
+        const now = Date.now();
+        const decayed = prefs.map(p => ({
+          category: p.category,
+          score: decayedPreferenceScore(p.interaction_score, p.last_interaction, now),
+        }));
+        const totalScore = decayed.reduce((sum, p) => sum + p.score, 0);
+        decayed.forEach(p => {
+          categoryScores.set(p.category, totalScore > 0 ? p.score / totalScore : 0);
         });
       }
     }
@@ -107,20 +123,22 @@ serve(async (req) => {
 
     if (error) throw error;
 
-    if (!videos || videos.length === 0) {
+    const candidates = (videos || []).filter(v => !isHiddenFromFeed(v, hides));
+
+    if (candidates.length === 0) {
       return new Response(
         JSON.stringify({ videos: [] }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    console.log(`Scoring ${videos.length} candidate videos`);
+    console.log(`Scoring ${candidates.length} candidate videos (${hideCount} hides)`);
 
     // Score videos
     const now = Date.now();
     const ONE_DAY = 86400000;
 
-    const scored = videos.map((video: any) => {
+    const scored = candidates.map((video: any) => {
       let score = 0;
 
       // Category relevance (0-40 pts)
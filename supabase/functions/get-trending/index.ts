@@ -0,0 +1,164 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { applyDiversity } from "../_shared/feed-ranking.ts";
+import { buildFeedHides, feedHidesOwnerFilter, isHiddenFromFeed, type FeedHideRow } from "../_shared/feed-hides.ts";
+
+// Serves what refresh-trending precomputed:
+//   { kind: "videos", cursor, limit, userId?, viewerId? } -> Trending feed tab
+//   { kind: "hashtags", limit, categoriesOnly? }          -> Search chips, Categories section
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_LIMIT = 50;
+
+interface TrendingCursor {
+  rank: number;
+}
+
+interface TrendingVideo {
+  id: string;
+  user_id: string;
+  tags: string[] | null;
+  [key: string]: unknown;
+}
+
+interface TrendingVideoRow {
+  rank: number;
+  score: number;
+  lift: number;
+  computed_at: string;
+  videos: TrendingVideo | null;
+}
+
+const json = (body: unknown, cacheControl: string, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", "Cache-Control": cacheControl },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      kind = "videos",
+      cursor = null,
+      limit: requestedLimit = 10,
+      userId = null,
+      viewerId = null,
+      categoriesOnly = false,
+    } = await req.json().catch(() => ({})) as {
+      kind?: "videos" | "hashtags";
+      cursor?: TrendingCursor | null;
+      limit?: number;
+      userId?: string | null;
+      viewerId?: string | null;
+      categoriesOnly?: boolean;
+    };
+    const limit = Math.min(Math.max(1, Number(requestedLimit) || 10), MAX_LIMIT);
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    if (kind === "hashtags") {
+      let slugs: Set<string> | null = null;
+      if (categoriesOnly) {
+        const { data: categories, error: categoriesError } = await supabase
+          .from("categories")
+          .select("slug")
+          .eq("is_active", true);
+        if (categoriesError) throw categoriesError;
+        slugs = new Set((categories || []).map(c => c.slug.toLowerCase()));
+      }
+
+      const { data, error } = await supabase
+        .from("trending_hashtags")
+        .select("tag, score, lift, recent_views, video_count, computed_at")
+        .order("rank", { ascending: true })
+        .limit(slugs ? 200 : limit);
+      if (error) throw error;
+
+      const hashtags = (data || []).filter(h => !slugs || slugs.has(h.tag)).slice(0, limit);
+      return json(
+        {
+          hashtags: hashtags.map(({ computed_at, ...h }) => h),
+          computedAt: data?.[0]?.computed_at ?? null,
+        },
+        "public, max-age=300, stale-while-revalidate=600"
+      );
+    }
+
+    // Hidden videos, creators and categories never show, as in the other feeds
+    const hidesFilter = feedHidesOwnerFilter(userId, viewerId);
+    const { data: hideRows, error: hidesError } = hidesFilter
+      ? await supabase.from("feed_hides").select("kind, target").or(hidesFilter)
+      : { data: [] as FeedHideRow[], error: null };
+    if (hidesError) throw hidesError;
+    const hides = buildFeedHides((hideRows || []) as FeedHideRow[]);
+
+    // Hides can empty a whole batch, so keep reading ranks until the page
+    // fills or the list runs out; an empty page with hasMore would stall the client
+    const videos: (TrendingVideo & { trending_rank: number })[] = [];
+    let lastRank = cursor?.rank ?? 0;
+    let computedAt: string | null = null;
+    let hasMore = true;
+    for (let batch = 0; videos.length < limit && hasMore; batch++) {
+      // Later batches only happen when hides are dense, so read ahead more
+      const batchSize = (batch === 0 ? limit : MAX_LIMIT) + 1;
+      const { data, error } = await supabase
+        .from("trending_videos")
+        .select(`
+          rank, score, lift, computed_at,
+          videos!inner(
+            id, title, description, video_url, optimized_video_url, stream_url,
+            cloudinary_public_id, cloudflare_video_id, thumbnail_url, processing_status,
+            views_count, likes_count, comments_count, tags, created_at, user_id,
+            duration_seconds,
+            profiles!inner(username, avatar_url)
+          )
+        `)
+        .gt("rank", lastRank)
+        .order("rank", { ascending: true })
+        .limit(batchSize);
+      if (error) throw error;
+
+      const rows = (data || []) as unknown as TrendingVideoRow[];
+      let consumed = 0;
+      for (const row of rows) {
+        if (videos.length === limit) break;
+        consumed++;
+        lastRank = row.rank;
+        computedAt ??= row.computed_at;
+        if (row.videos && !isHiddenFromFeed(row.videos, hides)) {
+          videos.push({ ...row.videos, trending_rank: row.rank });
+        }
+      }
+      // Unread rows, or a full batch, mean there may be more after lastRank
+      hasMore = consumed < rows.length || rows.length === batchSize;
+    }
+    const nextCursor: TrendingCursor | null = hasMore ? { rank: lastRank } : null;
+
+    // Reorder only inside the page so ranks keep paginating cleanly
+    const ordered = applyDiversity(videos, 2, 1);
+    console.log(`[trending] Returning ${ordered.length} videos after rank ${cursor?.rank ?? 0}`);
+
+    return json(
+      {
+        videos: ordered,
+        nextCursor,
+        hasMore,
+        computedAt,
+      },
+      userId ? "private, max-age=0" : "public, max-age=60, stale-while-revalidate=120"
+    );
+  } catch (error) {
+    console.error("[trending] Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, "no-store", 500);
+  }
+});
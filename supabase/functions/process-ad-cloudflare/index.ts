@@ -70,6 +70,7 @@ serve(async (req) => {
         .select("id, video_url, cloudflare_video_id")
         .eq("id", adId)
         .is("cloudflare_video_id", null)
+        .not("video_url", "is", null)
         .maybeSingle();
       if (error) throw error;
       adsToMigrate = data ? [data] : [];
@@ -77,7 +78,8 @@ serve(async (req) => {
       const { data, error } = await supabase
         .from("ads")
         .select("id, video_url, cloudflare_video_id")
-        .is("cloudflare_video_id", null);
+        .is("cloudflare_video_id", null)
+        .not("video_url", "is", null); // VAST-tag ads have no video of their own
       if (error) throw error;
       adsToMigrate = data || [];
     }
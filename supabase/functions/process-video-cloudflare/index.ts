@@ -44,9 +44,11 @@ serve(async (req) => {
       );
     }
 
-    const { videoUrl, videoId } = await req.json();
-    if (!videoUrl || !videoId) {
-      throw new Error("Missing videoUrl or videoId");
+    // videoUrl: copy from storage by URL. cloudflareUploadId: the file was
+    // already uploaded directly to Cloudflare (see create-stream-upload).
+    const { videoUrl, videoId, cloudflareUploadId } = await req.json();
+    if (!videoId || (!videoUrl && !cloudflareUploadId)) {
+      throw new Error("Missing videoUrl/cloudflareUploadId or videoId");
     }
 
     console.log(`Processing video: ${videoId} for user: ${user.id}`);
@@ -56,7 +58,7 @@ serve(async (req) => {
     // Verify user owns the video
     const { data: video, error: videoError } = await supabase
       .from("videos")
-      .select("user_id")
+      .select("user_id, cloudflare_upload_id")
       .eq("id", videoId)
       .single();
 
@@ -74,178 +76,68 @@ serve(async (req) => {
       );
     }
 
-    // Update status to processing
-    await supabase
-      .from("videos")
-      .update({ processing_status: "processing" })
-      .eq("id", videoId);
-
-    console.log(`Uploading to Cloudflare Stream via URL: ${videoUrl}`);
-
-    // Upload to Cloudflare Stream using URL-to-copy method
-    const cfResponse = await fetch(
-      `https://api.cloudflare.com/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/stream/copy`,
-      {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${CLOUDFLARE_API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          url: videoUrl,
-          meta: {
-            name: videoId,
-          },
-        }),
-      }
-    );
-
-    const cfResult = await cfResponse.json();
-
-    if (!cfResult.success) {
-      console.error("Cloudflare Stream error:", cfResult.errors);
-      throw new Error(cfResult.errors?.[0]?.message || "Cloudflare Stream upload failed");
+    if (cloudflareUploadId && video.cloudflare_upload_id !== cloudflareUploadId) {
+      return new Response(
+        JSON.stringify({ error: "Upload does not belong to this video" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    const cloudflareVideoId = cfResult.result.uid;
-    console.log(`Cloudflare Stream upload initiated. Video ID: ${cloudflareVideoId}`);
-
-    // Poll Cloudflare for processing completion (up to 2 minutes)
-    let isReady = false;
-    const maxAttempts = 60;
-    for (let i = 0; i < maxAttempts; i++) {
-      await new Promise(resolve => setTimeout(resolve, 2000));
+    let cloudflareVideoId: string;
+    if (cloudflareUploadId) {
+      cloudflareVideoId = cloudflareUploadId;
+      console.log(`Direct upload finished. Video ID: ${cloudflareVideoId}`);
+    } else {
+      console.log(`Uploading to Cloudflare Stream via URL: ${videoUrl}`);
 
-      const statusResponse = await fetch(
-        `https://api.cloudflare.com/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/stream/${cloudflareVideoId}`,
+      // Upload to Cloudflare Stream using URL-to-copy method
+      const cfResponse = await fetch(
+        `https://api.cloudflare.com/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/stream/copy`,
         {
-          headers: { "Authorization": `Bearer ${CLOUDFLARE_API_TOKEN}` },
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${CLOUDFLARE_API_TOKEN}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            url: videoUrl,
+            meta: {
+              name: videoId,
+            },
+          }),
         }
       );
 
-      const statusResult = await statusResponse.json();
-      if (statusResult.success && statusResult.result) {
-        const status = statusResult.result.status;
-        console.log(`Cloudflare processing status: ${JSON.stringify(status)}`);
-
-        if (status?.state === "ready") {
-          isReady = true;
-
-           // Check duration - reject if under 10 seconds or over 90 seconds
-          const duration = statusResult.result.duration;
-          if (duration && (duration < 10 || duration > 90)) {
-            const reason = duration < 10 ? "Video must be at least 10 seconds long" : "Video must be 90 seconds or shorter";
-            console.error(`Video duration invalid: ${duration}s`);
-
-            // Delete from Cloudflare
-            await fetch(
-              `https://api.cloudflare.com/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/stream/${cloudflareVideoId}`,
-              {
-                method: "DELETE",
-                headers: { "Authorization": `Bearer ${CLOUDFLARE_API_TOKEN}` },
-              }
-            ).catch(() => {});
-
-            // Delete video record
-            await supabase.from("videos").delete().eq("id", videoId);
-
-            return new Response(
-              JSON.stringify({ error: reason }),
-              { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-            );
-          }
+      const cfResult = await cfResponse.json();
 
-          break;
-        }
-
-        if (status?.state === "error") {
-          throw new Error(`Cloudflare processing failed: ${status.errorReasonText || "Unknown error"}`);
-        }
+      if (!cfResult.success) {
+        console.error("Cloudflare Stream error:", cfResult.errors);
+        throw new Error(cfResult.errors?.[0]?.message || "Cloudflare Stream upload failed");
       }
-    }
 
-    // Only save cloudflare_video_id once the video is fully ready to stream
-    if (!isReady) {
-      console.error("Cloudflare processing did not complete within timeout");
-      
-      // Clean up the Cloudflare video since it's not ready
-      await fetch(
-        `https://api.cloudflare.com/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/stream/${cloudflareVideoId}`,
-        {
-          method: "DELETE",
-          headers: { "Authorization": `Bearer ${CLOUDFLARE_API_TOKEN}` },
-        }
-      ).catch(() => {});
-
-      await supabase
-        .from("videos")
-        .update({ processing_status: "failed", processing_error: "Cloudflare processing timed out" })
-        .eq("id", videoId);
-
-      return new Response(
-        JSON.stringify({ error: "Video processing timed out. Please try again." }),
-        { status: 504, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      cloudflareVideoId = cfResult.result.uid;
+      console.log(`Cloudflare Stream upload initiated. Video ID: ${cloudflareVideoId}`);
     }
 
+    // cloudflare-stream-webhook finalizes the video (status, duration, rule
+    // checks, notification) once Cloudflare is done; match it by upload id.
+    // Skip if the webhook already got there first.
     const { error: updateError } = await supabase
       .from("videos")
-      .update({
-        cloudflare_video_id: cloudflareVideoId,
-        processing_status: "completed",
-      })
-      .eq("id", videoId);
+      .update({ processing_status: "processing", cloudflare_upload_id: cloudflareVideoId })
+      .eq("id", videoId)
+      .or("processing_status.is.null,processing_status.not.in.(completed,failed)");
 
     if (updateError) {
       console.error("Error updating video record:", updateError);
       throw updateError;
     }
 
-    // Warm CDN edge cache: fetch manifest + first variant playlist + first segment
-    // This ensures users hitting this video see instant TTFF
-    try {
-      const manifestUrl = `https://customer-qb7mect5e41byr1i.cloudflarestream.com/${cloudflareVideoId}/manifest/video.m3u8`;
-      const manifestRes = await fetch(manifestUrl);
-      if (manifestRes.ok) {
-        const manifest = await manifestRes.text();
-        const lines = manifest.split('\n');
-        for (const line of lines) {
-          const trimmed = line.trim();
-          if (trimmed && !trimmed.startsWith('#')) {
-            const variantUrl = trimmed.startsWith('http')
-              ? trimmed
-              : new URL(trimmed, manifestUrl).href;
-            const variantRes = await fetch(variantUrl);
-            if (variantRes.ok) {
-              const variantManifest = await variantRes.text();
-              const segLines = variantManifest.split('\n');
-              for (const segLine of segLines) {
-                const seg = segLine.trim();
-                if (seg && !seg.startsWith('#')) {
-                  const segUrl = seg.startsWith('http')
-                    ? seg
-                    : new URL(seg, variantUrl).href;
-                  await fetch(segUrl);
-                  break;
-                }
-              }
-            }
-            break;
-          }
-        }
-      }
-      console.log("CDN edge cache warmed for video:", cloudflareVideoId);
-    } catch (warmErr) {
-      console.warn("Edge cache warm-up failed (non-critical):", warmErr);
-    }
-
-    console.log("Video processing completed successfully");
-
     return new Response(
       JSON.stringify({
         success: true,
         cloudflareVideoId,
-        ready: isReady,
+        ready: false,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
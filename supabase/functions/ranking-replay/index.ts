@@ -0,0 +1,392 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  rankFeed,
+  buildRankingSnapshot,
+  resolveWeights,
+  DEFAULT_WEIGHTS,
+  type RankingSnapshot,
+  type RankableVideo,
+  type WatchRow,
+  type ShareRow,
+  type ScoredVideo,
+} from "../_shared/feed-ranking.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PAGE = 1000;
+const MAX_VIEW_ROWS = 50000; // safety cap, same as the session analysis tab
+const DEFAULT_MAX_SESSIONS = 100;
+const MAX_SESSIONS_LIMIT = 300;
+const DEFAULT_TOP_N = 10;
+const ENGAGED_SECONDS = 2; // matches the ranker's hook threshold
+
+interface ViewRow {
+  session_id: string;
+  user_id: string | null;
+  viewer_id: string | null;
+  video_id: string;
+  viewed_at: string;
+  watch_duration_seconds: number | null;
+}
+
+interface ReplaySession {
+  sessionId: string;
+  identity: string;
+  startedAt: string;
+  views: ViewRow[];
+}
+
+interface SideStats {
+  predictedCompletion: number;
+  predictedHookRate: number;
+  engagedRecall: number;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const round = (n: number, digits = 3) => Math.round(n * 10 ** digits) / 10 ** digits;
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+function dateString(iso: string): string {
+  return iso.substring(0, 10);
+}
+
+// Paginated fetch to bypass 1000-row limit
+async function fetchAllPages<T>(
+  build: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  let rows: T[] = [];
+  let offset = 0;
+  while (offset < MAX_VIEW_ROWS) {
+    const { data, error } = await build(offset, offset + PAGE - 1);
+    if (error) throw error;
+    rows = rows.concat(data || []);
+    if ((data?.length || 0) < PAGE) break;
+    offset += PAGE;
+  }
+  return rows;
+}
+
+/** Spearman correlation over the items both orderings contain */
+function spearman(a: string[], b: string[]): number {
+  const rankB = new Map(b.map((id, i) => [id, i]));
+  const shared = a.filter(id => rankB.has(id));
+  const n = shared.length;
+  if (n < 2) return 1;
+  const sharedSet = new Set(shared);
+  const sharedB = b.filter(id => sharedSet.has(id));
+  const posB = new Map(sharedB.map((id, i) => [id, i]));
+  let d2 = 0;
+  shared.forEach((id, i) => {
+    const d = i - (posB.get(id) as number);
+    d2 += d * d;
+  });
+  return 1 - (6 * d2) / (n * (n * n - 1));
+}
+
+function topNOverlap(a: string[], b: string[], n: number): number {
+  const topA = new Set(a.slice(0, n));
+  const topB = b.slice(0, n);
+  const denom = Math.min(n, topA.size, topB.length);
+  if (denom === 0) return 1;
+  return topB.filter(id => topA.has(id)).length / denom;
+}
+
+function sideStats(ordered: ScoredVideo[], snapshot: RankingSnapshot, engaged: Set<string>, n: number): SideStats {
+  const top = ordered.slice(0, n);
+  const completions: number[] = [];
+  const hooks: number[] = [];
+  for (const v of top) {
+    const m = snapshot.metricsMap.get(v.id);
+    // -1 means "no data" in VideoMetrics; leave those out of the averages
+    if (m && m.avg_completion >= 0) completions.push(m.avg_completion);
+    if (m && m.hook_rate >= 0) hooks.push(m.hook_rate);
+  }
+  const hits = engaged.size ? top.filter(v => engaged.has(v.id)).length / engaged.size : 0;
+  return {
+    predictedCompletion: mean(completions),
+    predictedHookRate: mean(hooks),
+    engagedRecall: hits,
+  };
+}
+
+/** Evenly spaced pick so a long window is not dominated by its busiest day */
+function sampleSessions(sessions: ReplaySession[], max: number): ReplaySession[] {
+  if (sessions.length <= max) return sessions;
+  const step = sessions.length / max;
+  return Array.from({ length: max }, (_, i) => sessions[Math.floor(i * step)]);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    // Verify admin status
+    const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      console.error("Auth error:", authError);
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    // Use service role to check admin status
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: adminRole, error: roleError } = await serviceClient
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "admin")
+      .maybeSingle();
+
+    if (roleError || !adminRole) {
+      console.error("Role check error:", roleError);
+      return json({ error: "Forbidden - Admin access required" }, 403);
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    if (body.action === "defaults") {
+      return json({ weights: DEFAULT_WEIGHTS });
+    }
+
+    const { startDate, endDate } = body;
+    if (!startDate || !endDate || isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate))) {
+      return json({ error: "startDate and endDate are required" }, 400);
+    }
+    if (Date.parse(startDate) >= Date.parse(endDate)) {
+      return json({ error: "startDate must be before endDate" }, 400);
+    }
+
+    const baselineWeights = resolveWeights(body.baselineWeights);
+    const candidateWeights = resolveWeights(body.weights);
+    const topN = Math.max(1, Math.min(50, Number(body.topN) || DEFAULT_TOP_N));
+    const maxSessions = Math.max(1, Math.min(MAX_SESSIONS_LIMIT, Number(body.maxSessions) || DEFAULT_MAX_SESSIONS));
+
+    console.log(`[replay] Window ${startDate} → ${endDate}, sessions≤${maxSessions}, top ${topN}`);
+
+    // Candidate pool as the feed would have seen it at the end of the window:
+    // last 30 days of HLS-ready uploads, 7-day engagement metrics.
+    const windowEnd = new Date(endDate);
+    const poolStart = new Date(windowEnd);
+    poolStart.setDate(poolStart.getDate() - 30);
+    const metricsStart = new Date(windowEnd);
+    metricsStart.setDate(metricsStart.getDate() - 7);
+
+    const { data: poolVideos, error: poolError } = await serviceClient
+      .from("videos")
+      .select("id, title, tags, created_at, user_id, likes_count, views_count, duration_seconds, cloudflare_video_id, optimized_video_url, cloudinary_public_id")
+      .gte("created_at", poolStart.toISOString())
+      .lte("created_at", windowEnd.toISOString())
+      .not("cloudflare_video_id", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(500);
+    if (poolError) throw poolError;
+
+    const videos = (poolVideos || []) as RankableVideo[];
+    if (videos.length === 0) {
+      return json({ error: "No candidate videos in this window" }, 400);
+    }
+    const videoIds = videos.map(v => v.id);
+
+    // Paged queries need a total order (unique id last) or pages can overlap or skip rows
+    const [watchRows, shareRows, windowViews] = await Promise.all([
+      fetchAllPages<WatchRow>((from, to) =>
+        serviceClient
+          .from("video_views")
+          .select("video_id, watch_completion_percent, watch_duration_seconds, time_to_first_frame_ms")
+          .in("video_id", videoIds)
+          .gte("viewed_at", metricsStart.toISOString())
+          .lte("viewed_at", windowEnd.toISOString())
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages<ShareRow>((from, to) =>
+        serviceClient
+          .from("shares")
+          .select("video_id")
+          .in("video_id", videoIds)
+          .gte("created_at", metricsStart.toISOString())
+          .lte("created_at", windowEnd.toISOString())
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages<ViewRow>((from, to) =>
+        serviceClient
+          .from("video_views")
+          .select("session_id, user_id, viewer_id, video_id, viewed_at, watch_duration_seconds")
+          .not("session_id", "is", null)
+          .gte("viewed_at", startDate)
+          .lte("viewed_at", endDate)
+          .order("viewed_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+    ]);
+
+    // The snapshot does not depend on weights or viewer, so both configs and
+    // every session share it.
+    const snapshot = buildRankingSnapshot(videos, watchRows, shareRows);
+
+    // Group window views into sessions
+    const sessionMap = new Map<string, ReplaySession>();
+    for (const row of windowViews) {
+      const existing = sessionMap.get(row.session_id);
+      if (existing) {
+        existing.views.push(row);
+      } else {
+        sessionMap.set(row.session_id, {
+          sessionId: row.session_id,
+          identity: row.user_id || row.viewer_id || row.session_id,
+          startedAt: row.viewed_at,
+          views: [row],
+        });
+      }
+    }
+    const sessions = sampleSessions(Array.from(sessionMap.values()), maxSessions);
+
+    // Watch history per identity, used for the "seen" penalty. Views are
+    // ordered by time, so everything before the session start is history.
+    const historyByIdentity = new Map<string, ViewRow[]>();
+    for (const row of windowViews) {
+      const identity = row.user_id || row.viewer_id || row.session_id;
+      const list = historyByIdentity.get(identity) || [];
+      list.push(row);
+      historyByIdentity.set(identity, list);
+    }
+
+    const titleById = new Map(videos.map(v => [v.id, (v.title as string) || "Untitled"]));
+    const rankSums = new Map<string, { baseline: number; candidate: number; count: number }>();
+    const perSession: {
+      sessionId: string;
+      startedAt: string;
+      watched: number;
+      engaged: number;
+      spearman: number;
+      overlap: number;
+    }[] = [];
+    const baselineSides: SideStats[] = [];
+    const candidateSides: SideStats[] = [];
+
+    for (const session of sessions) {
+      const history = historyByIdentity.get(session.identity) || [];
+      const viewedVideoIds = new Set(
+        history.filter(r => r.viewed_at < session.startedAt).map(r => r.video_id)
+      );
+      const engaged = new Set(
+        session.views
+          .filter(r => (r.watch_duration_seconds || 0) > ENGAGED_SECONDS && snapshot.metricsMap.has(r.video_id))
+          .map(r => r.video_id)
+      );
+
+      // Affinity and live session signals are not replayed: both configs see
+      // the same anonymous first-page request so only the weights differ.
+      const viewer = {
+        seed: `${session.identity}-${dateString(session.startedAt)}`,
+        viewedVideoIds,
+        sessionWatchData: [],
+        affinity: null,
+        isFirstPage: true,
+      };
+      const now = Date.parse(session.startedAt);
+
+      const baseline = rankFeed({ videos, snapshot, viewer, weights: baselineWeights, now }).ordered;
+      const candidate = rankFeed({ videos, snapshot, viewer, weights: candidateWeights, now }).ordered;
+      const baselineIds = baseline.map(v => v.id);
+      const candidateIds = candidate.map(v => v.id);
+
+      const candidateRank = new Map(candidateIds.map((id, i) => [id, i]));
+      baselineIds.forEach((id, i) => {
+        const j = candidateRank.get(id);
+        if (j === undefined) return;
+        const sums = rankSums.get(id) || { baseline: 0, candidate: 0, count: 0 };
+        sums.baseline += i + 1;
+        sums.candidate += j + 1;
+        sums.count++;
+        rankSums.set(id, sums);
+      });
+
+      const rho = spearman(baselineIds, candidateIds);
+      const overlap = topNOverlap(baselineIds, candidateIds, topN);
+      baselineSides.push(sideStats(baseline, snapshot, engaged, topN));
+      candidateSides.push(sideStats(candidate, snapshot, engaged, topN));
+      perSession.push({
+        sessionId: session.sessionId,
+        startedAt: session.startedAt,
+        watched: session.views.length,
+        engaged: engaged.size,
+        spearman: round(rho),
+        overlap: round(overlap),
+      });
+    }
+
+    const summarize = (sides: SideStats[], withEngaged: boolean[]) => ({
+      predictedCompletion: round(mean(sides.map(s => s.predictedCompletion)), 1),
+      predictedHookRate: round(mean(sides.map(s => s.predictedHookRate)), 1),
+      // Recall only makes sense for sessions that engaged with something in the pool
+      engagedRecall: round(mean(sides.filter((_, i) => withEngaged[i]).map(s => s.engagedRecall))),
+    });
+    const withEngaged = perSession.map(s => s.engaged > 0);
+
+    const movers = Array.from(rankSums.entries())
+      .map(([videoId, s]) => {
+        const baselineRank = s.baseline / s.count;
+        const candidateRank = s.candidate / s.count;
+        return {
+          videoId,
+          title: titleById.get(videoId)?.substring(0, 60),
+          baselineRank: round(baselineRank, 1),
+          candidateRank: round(candidateRank, 1),
+          delta: round(baselineRank - candidateRank, 1), // positive = moved up
+        };
+      })
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+      .slice(0, 20);
+
+    console.log(`[replay] Replayed ${perSession.length} of ${sessionMap.size} sessions over ${videos.length} candidates`);
+
+    return json({
+      window: { startDate, endDate },
+      candidates: videos.length,
+      totalSessions: sessionMap.size,
+      sessionsReplayed: perSession.length,
+      topN,
+      baselineWeights,
+      candidateWeights,
+      summary: {
+        spearman: round(mean(perSession.map(s => s.spearman))),
+        topNOverlap: round(mean(perSession.map(s => s.overlap))),
+        baseline: summarize(baselineSides, withEngaged),
+        candidate: summarize(candidateSides, withEngaged),
+      },
+      movers,
+      sessions: perSession.slice(0, 50),
+    });
+  } catch (error) {
+    console.error("[replay] Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,325 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildWatchBuckets,
+  buildQoeBuckets,
+  countShares,
+  buildMetricsMap,
+  markTopPerformers,
+  hardFilterReason,
+  type WatchRow,
+  type ShareRow,
+  type PlaybackEventRow,
+  type WatchBucket,
+} from "../_shared/feed-ranking.ts";
+import {
+  DEFAULT_EXPLORATION_SETTINGS,
+  decideExploration,
+  hookRateOf,
+  type ExplorationSettings,
+  type ExplorationState,
+  type ExplorationStatus,
+} from "../_shared/feed-exploration.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PAGE = 1000;
+const MAX_ROWS = 200000; // safety cap per query
+const UPSERT_CHUNK = 500;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Paginated fetch to bypass 1000-row limit. Queries must end in a unique
+// order (e.g. .order("id")) or offset pages can repeat and skip tied rows.
+// Hitting the cap throws: scores built from part of the window would be wrong.
+async function fetchAllPages<T>(
+  label: string,
+  build: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  let rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE) {
+    if (offset >= MAX_ROWS) {
+      throw new Error(`${label} has more than ${MAX_ROWS} rows in the window; not scoring a truncated sample`);
+    }
+    const { data, error } = await build(offset, offset + PAGE - 1);
+    if (error) throw error;
+    rows = rows.concat(data || []);
+    if ((data?.length || 0) < PAGE) return rows;
+  }
+}
+
+interface ExplorationRow extends ExplorationState {
+  started_at: string;
+}
+
+/**
+ * Enrolls new uploads into cold-start testing and decides running tests.
+ * Impressions come from the same 7-day view window as the metrics, which
+ * covers a test's whole life because max_test_days is capped at 7.
+ */
+async function updateExploration(
+  serviceClient: ReturnType<typeof createClient>,
+  pool: { id: string; created_at: string }[],
+  buckets: Map<string, WatchBucket>,
+  metricsMap: ReturnType<typeof buildMetricsMap>,
+  runAt: string,
+) {
+  const { data: settingsRow } = await serviceClient
+    .from("feed_exploration_settings")
+    .select("*")
+    .maybeSingle();
+  const settings: ExplorationSettings = { ...DEFAULT_EXPLORATION_SETTINGS, ...(settingsRow || {}) };
+  const now = new Date(runAt).getTime();
+
+  // Running tests, plus recently decided ones so they are not re-enrolled
+  const enrollWindowStart = new Date(now - settings.max_test_days * 2 * 86400000).toISOString();
+  const recent = await fetchAllPages<ExplorationRow>("video_exploration", (from, to) =>
+    serviceClient
+      .from("video_exploration")
+      .select("video_id, status, impressions, hook_passes, started_at")
+      .or(`status.eq.testing,started_at.gte.${enrollWindowStart}`)
+      .order("video_id")
+      .range(from, to)
+  );
+  const existing = recent.filter(r => r.status === "testing");
+  const testing = new Map(existing.map(r => [r.video_id, r]));
+  const knownIds = new Set(recent.map(r => r.video_id));
+
+  const rows: Record<string, unknown>[] = [];
+  const counts: Record<ExplorationStatus | "enrolled", number> = { enrolled: 0, testing: 0, graduated: 0, retired: 0 };
+
+  for (const video of pool) {
+    const row = testing.get(video.id);
+    const ageDays = (now - new Date(video.created_at).getTime()) / 86400000;
+    if (!row && (knownIds.has(video.id) || ageDays >= settings.max_test_days)) continue;
+    if (!settings.enabled && !row) continue;
+
+    const bucket = buckets.get(video.id);
+    const state: ExplorationState = {
+      video_id: video.id,
+      status: "testing",
+      impressions: bucket?.totalViews ?? 0,
+      hook_passes: bucket?.hookPasses ?? 0,
+    };
+    const decision = decideExploration(
+      state,
+      video.created_at,
+      settings,
+      now,
+      hardFilterReason(metricsMap.get(video.id)) === "dead",
+    );
+
+    if (!row) counts.enrolled++;
+    counts[decision.status]++;
+    rows.push({
+      video_id: video.id,
+      status: decision.status,
+      impressions: state.impressions,
+      hook_passes: state.hook_passes,
+      hook_rate: hookRateOf(state),
+      started_at: row?.started_at ?? runAt,
+      decided_at: decision.status === "testing" ? null : runAt,
+      decision_reason: decision.reason,
+      updated_at: runAt,
+    });
+  }
+
+  // Tests whose video left the pool (deleted or unpublished) are retired
+  const poolIds = new Set(pool.map(v => v.id));
+  for (const row of existing) {
+    if (poolIds.has(row.video_id)) continue;
+    counts.retired++;
+    rows.push({
+      video_id: row.video_id,
+      status: "retired",
+      impressions: row.impressions,
+      hook_passes: row.hook_passes,
+      hook_rate: hookRateOf(row),
+      started_at: row.started_at,
+      decided_at: runAt,
+      decision_reason: "timeout",
+      updated_at: runAt,
+    });
+  }
+
+  for (let i = 0; i < rows.length; i += UPSERT_CHUNK) {
+    const { error } = await serviceClient
+      .from("video_exploration")
+      .upsert(rows.slice(i, i + UPSERT_CHUNK), { onConflict: "video_id" });
+    if (error) throw error;
+  }
+
+  return counts;
+}
+
+const percentile = (sorted: number[], p: number): number | null =>
+  sorted.length > 0 ? Math.round(sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))]) : null;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const serviceClient = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    // Called by pg_cron with the service role key, or by an admin by hand
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+    const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: authError } = await serviceClient.auth.getUser(token);
+      if (authError || !user) {
+        return json({ error: "Unauthorized" }, 401);
+      }
+      const { data: adminRole } = await serviceClient
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .eq("role", "admin")
+        .maybeSingle();
+      if (!adminRole) {
+        return json({ error: "Forbidden - Admin access required" }, 403);
+      }
+    }
+
+    const startedAt = Date.now();
+    const runAt = new Date(startedAt).toISOString();
+
+    // Same candidate pool and metric window as get-for-you-feed, minus the 500 cap
+    const thirtyDaysAgo = new Date(startedAt);
+    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+    const sevenDaysAgo = new Date(startedAt);
+    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+
+    const [pool, watchRows, shareRows, playbackEventRows] = await Promise.all([
+      fetchAllPages<{ id: string; created_at: string }>("videos", (from, to) =>
+        serviceClient
+          .from("videos")
+          .select("id, created_at")
+          .gte("created_at", thirtyDaysAgo.toISOString())
+          .not("cloudflare_video_id", "is", null)
+          .order("created_at", { ascending: false })
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      // Fetched by time window and filtered in memory; an .in() over every
+      // pool id would overflow the request URL.
+      fetchAllPages<WatchRow>("video_views", (from, to) =>
+        serviceClient
+          .from("video_views")
+          .select("video_id, watch_completion_percent, watch_duration_seconds, time_to_first_frame_ms")
+          .gte("viewed_at", sevenDaysAgo.toISOString())
+          .order("viewed_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages<ShareRow>("shares", (from, to) =>
+        serviceClient
+          .from("shares")
+          .select("video_id")
+          .gte("created_at", sevenDaysAgo.toISOString())
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      // Level switches and rebuffer starts aren't needed for the aggregates
+      fetchAllPages<PlaybackEventRow>("playback_events", (from, to) =>
+        serviceClient
+          .from("playback_events")
+          .select("video_id, playback_id, event_type, value_ms")
+          .in("event_type", ["first_frame", "startup_failed", "retry", "muted_fallback", "rebuffer_end", "fatal_error"])
+          .gte("created_at", sevenDaysAgo.toISOString())
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+    ]);
+
+    const videoIds = pool.map(v => v.id);
+    const poolSet = new Set(videoIds);
+    const buckets = buildWatchBuckets(watchRows.filter(r => poolSet.has(r.video_id)));
+    const metricsMap = buildMetricsMap(
+      videoIds,
+      buckets,
+      countShares(shareRows.filter(r => poolSet.has(r.video_id))),
+      buildQoeBuckets(playbackEventRows.filter(r => poolSet.has(r.video_id))),
+    );
+    const top = markTopPerformers(metricsMap);
+
+    const rows = videoIds.map(videoId => {
+      const m = metricsMap.get(videoId)!;
+      const ttffs = [...(buckets.get(videoId)?.ttffMs || [])].sort((a, b) => a - b);
+      return {
+        video_id: videoId,
+        ...m,
+        ttff_p50_ms: percentile(ttffs, 0.5),
+        ttff_p90_ms: percentile(ttffs, 0.9),
+        computed_at: runAt,
+      };
+    });
+
+    for (let i = 0; i < rows.length; i += UPSERT_CHUNK) {
+      const { error } = await serviceClient
+        .from("video_feed_scores")
+        .upsert(rows.slice(i, i + UPSERT_CHUNK), { onConflict: "video_id" });
+      if (error) throw error;
+    }
+
+    // Videos that aged out of the pool
+    const { error: pruneError } = await serviceClient
+      .from("video_feed_scores")
+      .delete()
+      .lt("computed_at", runAt);
+    if (pruneError) console.error("[feed-scores] Prune error:", pruneError);
+
+    let exploration: Awaited<ReturnType<typeof updateExploration>> | null = null;
+    try {
+      exploration = await updateExploration(serviceClient, pool, buckets, metricsMap, runAt);
+    } catch (explorationError) {
+      // Scores are already written; a failed exploration pass retries next run
+      console.error("[feed-scores] Exploration update error:", explorationError);
+    }
+
+    const durationMs = Date.now() - startedAt;
+    const { error: runError } = await serviceClient.from("video_feed_score_runs").insert({
+      computed_at: runAt,
+      video_count: rows.length,
+      top_performer_count: top.count,
+      completion_p85: top.completionP85,
+      watch_duration_p85: top.watchDurationP85,
+      duration_ms: durationMs,
+    });
+    if (runError) throw runError;
+
+    // Keep a week of run history
+    await serviceClient
+      .from("video_feed_score_runs")
+      .delete()
+      .lt("computed_at", sevenDaysAgo.toISOString());
+
+    console.log(`[feed-scores] Scored ${rows.length} videos from ${watchRows.length} views and ${playbackEventRows.length} playback events in ${durationMs}ms (top performers: ${top.count})`, exploration ? `exploration: ${JSON.stringify(exploration)}` : "");
+
+    return json({
+      success: true,
+      videos: rows.length,
+      views: watchRows.length,
+      playbackEvents: playbackEventRows.length,
+      topPerformers: top.count,
+      exploration,
+      durationMs,
+    });
+  } catch (error) {
+    console.error("[feed-scores] Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
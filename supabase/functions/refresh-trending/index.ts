@@ -0,0 +1,160 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  BASELINE_WINDOW_HOURS,
+  RECENT_WINDOW_HOURS,
+  computeTrendingHashtags,
+  computeTrendingVideos,
+  type TrendingEventRow,
+  type TrendingVideoMeta,
+  type TrendingViewRow,
+} from "../_shared/trending.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PAGE = 1000;
+const MAX_ROWS = 300000; // safety cap per table
+const ID_CHUNK = 200;
+const MAX_TRENDING_VIDEOS = 500;
+const MAX_TRENDING_HASHTAGS = 200;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Paginated fetch to bypass 1000-row limit. Queries must end in a unique
+// order (e.g. .order("id")) or offset pages can repeat and skip tied rows.
+// Hitting the cap throws: trends built from part of the window would be wrong.
+async function fetchAllPages<T>(
+  label: string,
+  build: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  let rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE) {
+    if (offset >= MAX_ROWS) {
+      throw new Error(`${label} has more than ${MAX_ROWS} rows in the window; not ranking a truncated sample`);
+    }
+    const { data, error } = await build(offset, offset + PAGE - 1);
+    if (error) throw error;
+    rows = rows.concat(data || []);
+    if ((data?.length || 0) < PAGE) return rows;
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const serviceClient = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    // Called by pg_cron with the service role key, or by an admin by hand
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+    const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: authError } = await serviceClient.auth.getUser(token);
+      if (authError || !user) {
+        return json({ error: "Unauthorized" }, 401);
+      }
+      const { data: adminRole } = await serviceClient
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .eq("role", "admin")
+        .maybeSingle();
+      if (!adminRole) {
+        return json({ error: "Forbidden - Admin access required" }, 403);
+      }
+    }
+
+    const startedAt = Date.now();
+    const runAt = new Date(startedAt).toISOString();
+    const windowStart = new Date(startedAt - (RECENT_WINDOW_HOURS + BASELINE_WINDOW_HOURS) * 3600000).toISOString();
+
+    const [views, likes, shares] = await Promise.all([
+      fetchAllPages<TrendingViewRow>("video_views", (from, to) =>
+        serviceClient
+          .from("video_views")
+          .select("video_id, viewed_at, watch_completion_percent")
+          .gte("viewed_at", windowStart)
+          .order("viewed_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages<TrendingEventRow>("likes", (from, to) =>
+        serviceClient
+          .from("likes")
+          .select("video_id, created_at")
+          .gte("created_at", windowStart)
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages<TrendingEventRow>("shares", (from, to) =>
+        serviceClient
+          .from("shares")
+          .select("video_id, created_at")
+          .gte("created_at", windowStart)
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+    ]);
+
+    // Metadata for every video with activity; only HLS-ready videos can trend
+    const activeIds = Array.from(new Set([...views, ...likes, ...shares].map(r => r.video_id)));
+    const videos: TrendingVideoMeta[] = [];
+    for (let i = 0; i < activeIds.length; i += ID_CHUNK) {
+      const { data, error } = await serviceClient
+        .from("videos")
+        .select("id, created_at, tags")
+        .in("id", activeIds.slice(i, i + ID_CHUNK))
+        .not("cloudflare_video_id", "is", null);
+      if (error) throw error;
+      videos.push(...((data || []) as TrendingVideoMeta[]));
+    }
+
+    const videoScores = computeTrendingVideos(videos, views, likes, shares, startedAt);
+    const hashtagScores = computeTrendingHashtags(videos, videoScores);
+
+    const videoRows = videoScores.slice(0, MAX_TRENDING_VIDEOS).map((s, i) => ({
+      ...s,
+      rank: i + 1,
+      computed_at: runAt,
+    }));
+    const hashtagRows = hashtagScores.slice(0, MAX_TRENDING_HASHTAGS).map((s, i) => ({
+      ...s,
+      rank: i + 1,
+      computed_at: runAt,
+    }));
+
+    // One transaction, so readers never see a half-written ranking
+    const { error: replaceError } = await serviceClient.rpc("replace_trending", {
+      p_videos: videoRows,
+      p_hashtags: hashtagRows,
+    });
+    if (replaceError) throw replaceError;
+
+    const durationMs = Date.now() - startedAt;
+    console.log(`[trending] ${videoRows.length} videos, ${hashtagRows.length} hashtags from ${views.length} views, ${likes.length} likes, ${shares.length} shares in ${durationMs}ms`);
+
+    return json({
+      success: true,
+      videos: videoRows.length,
+      hashtags: hashtagRows.length,
+      durationMs,
+    });
+  } catch (error) {
+    console.error("[trending] Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
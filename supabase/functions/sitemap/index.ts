@@ -7,9 +7,7 @@ const corsHeaders = {
 };
 
 const BASE_URL = "https://shortpornvids.com";
-
-// Categories for the platform
-const CATEGORIES = ["Beauty", "Real", "Public", "Homemade", "POV", "Mom", "MILF", "Amateur", "Latina", "Asian", "Big Ass", "Big Tits", "Lesbian", "Blonde", "Brunettes", "Red Head", "Small", "Stepsis", "Anal", "Blowjob", "Teen", "Goth", "Cumshot", "Squirt"];
+const MIN_TAG_VIDEOS = 3;
 
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -24,13 +22,24 @@ Deno.serve(async (req) => {
     // Fetch all videos
     const { data: videos, error: videosError } = await supabase
       .from("videos")
-      .select("id, created_at, updated_at")
+      .select("id, created_at, updated_at, tags, cloudflare_video_id")
       .order("created_at", { ascending: false });
 
     if (videosError) {
       console.error("Error fetching videos:", videosError);
     }
 
+    // Fetch active categories
+    const { data: categories, error: categoriesError } = await supabase
+      .from("categories")
+      .select("slug")
+      .eq("is_active", true)
+      .order("sort_order", { ascending: true });
+
+    if (categoriesError) {
+      console.error("Error fetching categories:", categoriesError);
+    }
+
     // Fetch all profiles
     const { data: profiles, error: profilesError } = await supabase
       .from("profiles")
@@ -89,18 +98,42 @@ Deno.serve(async (req) => {
   </url>
 `;
 
-    // Add category pages
-    for (const category of CATEGORIES) {
+    // Add category pages (the feed filters on the slug stored in videos.tags)
+    for (const category of categories || []) {
       sitemap += `
-  <!-- Category: ${category} -->
   <url>
-    <loc>${BASE_URL}/feed?category=${encodeURIComponent(category)}</loc>
+    <loc>${BASE_URL}/feed?category=${encodeURIComponent(category.slug)}</loc>
     <lastmod>${now}</lastmod>
     <changefreq>daily</changefreq>
     <priority>0.8</priority>
   </url>`;
     }
 
+    // Add tag landing pages for tags with enough playable videos
+    const tagStats = new Map<string, { count: number; lastmod: string }>();
+    for (const video of videos || []) {
+      if (!video.cloudflare_video_id) continue;
+      const lastmod = new Date(video.updated_at || video.created_at).toISOString().split("T")[0];
+      const tags: string[] = (video.tags || []).map((t: string) => t.trim().toLowerCase());
+      for (const tag of new Set(tags)) {
+        if (!tag) continue;
+        const stats = tagStats.get(tag) || { count: 0, lastmod };
+        stats.count++;
+        if (lastmod > stats.lastmod) stats.lastmod = lastmod;
+        tagStats.set(tag, stats);
+      }
+    }
+    for (const [tag, stats] of tagStats) {
+      if (stats.count < MIN_TAG_VIDEOS) continue;
+      sitemap += `
+  <url>
+    <loc>${BASE_URL}/tag/${encodeURIComponent(tag)}</loc>
+    <lastmod>${stats.lastmod}</lastmod>
+    <changefreq>daily</changefreq>
+    <priority>0.7</priority>
+  </url>`;
+    }
+
     // Add video pages
     if (videos && videos.length > 0) {
       for (const video of videos) {
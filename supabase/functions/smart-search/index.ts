@@ -7,81 +7,6 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
-// Synonym map: search term → related category tags
-const SYNONYM_MAP: Record<string, string[]> = {
-  // Mom / MILF related
-  stepmom: ["mom", "milf"],
-  "step mom": ["mom", "milf"],
-  "step-mom": ["mom", "milf"],
-  mother: ["mom", "milf"],
-  mommy: ["mom", "milf"],
-  mature: ["mom", "milf"],
-  cougar: ["mom", "milf"],
-  // Stepsis related
-  stepsister: ["stepsis"],
-  "step sister": ["stepsis"],
-  "step-sister": ["stepsis"],
-  sis: ["stepsis"],
-  sister: ["stepsis"],
-  // Body type related
-  pawg: ["big_ass"],
-  booty: ["big_ass"],
-  thicc: ["big_ass"],
-  thick: ["big_ass"],
-  busty: ["big_tits"],
-  tits: ["big_tits"],
-  boobs: ["big_tits"],
-  breasts: ["big_tits"],
-  petite: ["small", "teen"],
-  tiny: ["small"],
-  skinny: ["small"],
-  // Ethnicity related
-  japanese: ["asian"],
-  chinese: ["asian"],
-  korean: ["asian"],
-  filipina: ["asian"],
-  thai: ["asian"],
-  mexican: ["latina"],
-  colombian: ["latina"],
-  brazilian: ["latina"],
-  spanish: ["latina"],
-  // Hair related
-  redhead: ["red_head"],
-  "red head": ["red_head"],
-  ginger: ["red_head"],
-  brunette: ["brunettes"],
-  // Act related
-  bj: ["blowjob"],
-  blowjobs: ["blowjob"],
-  oral: ["blowjob"],
-  suck: ["blowjob"],
-  sucking: ["blowjob"],
-  cum: ["cumshot"],
-  cumshots: ["cumshot"],
-  facial: ["cumshot"],
-  creampie: ["cumshot"],
-  squirting: ["squirt"],
-  // Style related
-  homevideo: ["homemade"],
-  "home video": ["homemade"],
-  "home made": ["homemade"],
-  selfmade: ["homemade"],
-  amatuer: ["amateur"], // common typo
-  amature: ["amateur"], // common typo
-  emo: ["goth"],
-  alternative: ["goth"],
-  punk: ["goth"],
-  // POV related
-  "point of view": ["pov"],
-  firstperson: ["pov"],
-  "first person": ["pov"],
-  // Lesbian related
-  lesbians: ["lesbian"],
-  girl: ["lesbian"],
-  "girl on girl": ["lesbian"],
-  gg: ["lesbian"],
-};
-
 // Blocked search terms — return empty results immediately
 const BLOCKED_KEYWORDS = [
   "rape", "child", "kids", "minor", "underage", "teen",
@@ -89,47 +14,69 @@ const BLOCKED_KEYWORDS = [
   "cp", "kidnap", "forced", "nonconsent", "non-consent",
 ];
 
-// Build a reverse lookup: category → all synonyms that map to it
-const CATEGORY_SYNONYMS: Record<string, string[]> = {};
-for (const [synonym, categories] of Object.entries(SYNONYM_MAP)) {
-  for (const cat of categories) {
-    if (!CATEGORY_SYNONYMS[cat]) CATEGORY_SYNONYMS[cat] = [];
-    CATEGORY_SYNONYMS[cat].push(synonym);
+interface CategoryRow {
+  slug: string;
+  synonyms: string[] | null;
+}
+
+// Categories change rarely; keep them warm per isolate
+const CATEGORY_CACHE_MS = 5 * 60 * 1000;
+let categoryCache: { loadedAt: number; categories: CategoryRow[] } | null = null;
+
+async function loadCategories(supabase: ReturnType<typeof createClient>): Promise<CategoryRow[]> {
+  if (categoryCache && Date.now() - categoryCache.loadedAt < CATEGORY_CACHE_MS) {
+    return categoryCache.categories;
   }
+  const { data, error } = await supabase
+    .from("categories")
+    .select("slug, synonyms")
+    .eq("is_active", true);
+  if (error) {
+    console.error("Error fetching categories:", error);
+    return categoryCache?.categories || [];
+  }
+  categoryCache = { loadedAt: Date.now(), categories: data || [] };
+  return categoryCache.categories;
 }
 
-// All known category IDs
-const ALL_CATEGORIES = [
-  "beauty", "real", "public", "homemade", "pov", "mom", "milf",
-  "amateur", "latina", "asian", "big_ass", "big_tits", "lesbian",
-  "blonde", "brunettes", "red_head", "small", "stepsis", "anal",
-  "blowjob", "teen", "goth", "cumshot", "squirt",
-];
+// Synonym map: search term → related category tags
+function buildSynonymMap(categories: CategoryRow[]): Record<string, string[]> {
+  const map: Record<string, string[]> = {};
+  for (const cat of categories) {
+    for (const synonym of cat.synonyms || []) {
+      const key = synonym.toLowerCase();
+      if (!map[key]) map[key] = [];
+      map[key].push(cat.slug);
+    }
+  }
+  return map;
+}
 
 /**
  * Get expanded category tags that match the search term.
  * Checks: exact category match, synonym map, reverse partial (tag inside search), search inside tag.
  */
-function getMatchingCategories(searchTerm: string): string[] {
+function getMatchingCategories(searchTerm: string, categories: CategoryRow[]): string[] {
   const matched = new Set<string>();
+  const synonymMap = buildSynonymMap(categories);
 
   // 1. Direct category match
-  for (const cat of ALL_CATEGORIES) {
+  for (const { slug: cat } of categories) {
     if (cat === searchTerm || cat.includes(searchTerm) || searchTerm.includes(cat)) {
       matched.add(cat);
     }
   }
 
   // 2. Synonym map lookup
-  const synonymHits = SYNONYM_MAP[searchTerm];
+  const synonymHits = synonymMap[searchTerm];
   if (synonymHits) {
     synonymHits.forEach((cat) => matched.add(cat));
   }
 
   // 3. Partial synonym matching: check if any synonym key is contained in or contains the search
-  for (const [synonym, categories] of Object.entries(SYNONYM_MAP)) {
+  for (const [synonym, slugs] of Object.entries(synonymMap)) {
     if (synonym !== searchTerm && (synonym.includes(searchTerm) || searchTerm.includes(synonym))) {
-      categories.forEach((cat) => matched.add(cat));
+      slugs.forEach((cat) => matched.add(cat));
     }
   }
 
@@ -197,7 +144,7 @@ serve(async (req) => {
     console.log(`Searching for: "${searchTerm}"`);
 
     // Get expanded matching categories for synonym/category-aware boosting
-    const matchingCategories = getMatchingCategories(searchTerm);
+    const matchingCategories = getMatchingCategories(searchTerm, await loadCategories(supabase));
     console.log(`Matching categories: ${matchingCategories.join(", ") || "none"}`);
 
     // Search videos
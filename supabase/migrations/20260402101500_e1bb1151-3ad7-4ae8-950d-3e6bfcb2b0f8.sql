@@ -0,0 +1,2 @@
+-- Stream comment inserts/updates/deletes to the comments drawer
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
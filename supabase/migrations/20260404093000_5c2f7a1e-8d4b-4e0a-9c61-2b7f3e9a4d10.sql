@@ -0,0 +1,52 @@
+
+-- Ranking experiments: named A/B tests over For You ranking weights
+CREATE TABLE public.ranking_experiments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'stopped')),
+  started_at timestamp with time zone,
+  ended_at timestamp with time zone,
+  created_by uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Only one experiment can drive the feed at a time
+CREATE UNIQUE INDEX idx_ranking_experiments_one_running
+  ON public.ranking_experiments ((true)) WHERE status = 'running';
+
+-- Variants: `weights` holds partial RankingWeights overrides (empty = current defaults)
+CREATE TABLE public.ranking_experiment_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  experiment_id uuid NOT NULL REFERENCES public.ranking_experiments(id) ON DELETE CASCADE,
+  key text NOT NULL,
+  name text NOT NULL,
+  weights jsonb NOT NULL DEFAULT '{}'::jsonb,
+  traffic_weight integer NOT NULL DEFAULT 50 CHECK (traffic_weight >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (experiment_id, key)
+);
+
+CREATE INDEX idx_ranking_experiment_variants_experiment ON public.ranking_experiment_variants(experiment_id);
+
+ALTER TABLE public.ranking_experiments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ranking_experiment_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage ranking experiments" ON public.ranking_experiments
+  FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can manage ranking experiment variants" ON public.ranking_experiment_variants
+  FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Which variant ranked the feed a view came from
+ALTER TABLE public.video_views
+  ADD COLUMN IF NOT EXISTS experiment_variant_id uuid
+  REFERENCES public.ranking_experiment_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_video_views_experiment_variant
+  ON public.video_views(experiment_variant_id) WHERE experiment_variant_id IS NOT NULL;
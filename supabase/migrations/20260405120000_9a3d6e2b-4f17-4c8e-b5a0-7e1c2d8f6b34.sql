@@ -0,0 +1,72 @@
+
+-- Precomputed For You ranking metrics, refreshed by the refresh-feed-scores function.
+-- Column names match VideoMetrics in supabase/functions/_shared/feed-ranking.ts;
+-- -1 means "not enough data", exactly as in the live computation.
+CREATE TABLE public.video_feed_scores (
+  video_id uuid PRIMARY KEY REFERENCES public.videos(id) ON DELETE CASCADE,
+  avg_completion double precision NOT NULL DEFAULT -1,
+  avg_watch_duration double precision NOT NULL DEFAULT -1,
+  view_count integer NOT NULL DEFAULT 0,
+  share_count integer NOT NULL DEFAULT 0,
+  early_skip_rate double precision NOT NULL DEFAULT 0,
+  hook_rate double precision NOT NULL DEFAULT -1,
+  rewatch_signal double precision NOT NULL DEFAULT 0,
+  avg_ttff_ms double precision NOT NULL DEFAULT -1,
+  ttff_p50_ms integer,
+  ttff_p90_ms integer,
+  fast_start_rate double precision NOT NULL DEFAULT -1,
+  slow_start_rate double precision NOT NULL DEFAULT 0,
+  stall_rate double precision NOT NULL DEFAULT 0,
+  retry_rate double precision NOT NULL DEFAULT 0,
+  startup_samples integer NOT NULL DEFAULT 0,
+  is_top_performer boolean NOT NULL DEFAULT false,
+  computed_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_video_feed_scores_top ON public.video_feed_scores(video_id) WHERE is_top_performer;
+
+-- One row per refresh; the newest row tells the feed whether scores are fresh
+CREATE TABLE public.video_feed_score_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  computed_at timestamp with time zone NOT NULL DEFAULT now(),
+  video_count integer NOT NULL DEFAULT 0,
+  top_performer_count integer NOT NULL DEFAULT 0,
+  completion_p85 double precision NOT NULL DEFAULT 100,
+  watch_duration_p85 double precision NOT NULL DEFAULT 30,
+  duration_ms integer
+);
+
+CREATE INDEX idx_video_feed_score_runs_computed_at ON public.video_feed_score_runs(computed_at DESC);
+
+ALTER TABLE public.video_feed_scores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.video_feed_score_runs ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only; admins can inspect
+CREATE POLICY "Admins can view video feed scores" ON public.video_feed_scores
+  FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view video feed score runs" ON public.video_feed_score_runs
+  FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Refresh every 10 minutes. Reads the service role key from Vault
+-- (secret name: service_role_key); without it the call is rejected and the
+-- feed keeps using live computation.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'refresh-feed-scores',
+  '*/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://mbuajcicosojebakdtsn.supabase.co/functions/v1/refresh-feed-scores',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,53 @@
+
+-- Single source of truth for video categories. videos.tags stores the slug;
+-- synonyms feed smart-search query expansion.
+CREATE TABLE public.categories (
+  slug text PRIMARY KEY CHECK (slug ~ '^[a-z0-9_]+$'),
+  display_name text NOT NULL,
+  synonyms text[] NOT NULL DEFAULT '{}',
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  cover_image_url text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_categories_active_sort ON public.categories(sort_order) WHERE is_active;
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Categories are viewable by everyone" ON public.categories
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage categories" ON public.categories
+  FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Seed with the list previously hardcoded across the app and edge functions
+INSERT INTO public.categories (slug, display_name, synonyms, sort_order) VALUES
+  ('beauty', 'Beauty', ARRAY[]::text[], 10),
+  ('real', 'Real', ARRAY[]::text[], 20),
+  ('public', 'Public', ARRAY[]::text[], 30),
+  ('homemade', 'Homemade', ARRAY['homevideo', 'home video', 'home made', 'selfmade'], 40),
+  ('pov', 'POV', ARRAY['point of view', 'firstperson', 'first person'], 50),
+  ('mom', 'Mom', ARRAY['stepmom', 'step mom', 'step-mom', 'mother', 'mommy', 'mature', 'cougar'], 60),
+  ('milf', 'MILF', ARRAY['stepmom', 'step mom', 'step-mom', 'mother', 'mommy', 'mature', 'cougar'], 70),
+  ('amateur', 'Amateur', ARRAY['amatuer', 'amature'], 80),
+  ('latina', 'Latina', ARRAY['mexican', 'colombian', 'brazilian', 'spanish'], 90),
+  ('asian', 'Asian', ARRAY['japanese', 'chinese', 'korean', 'filipina', 'thai'], 100),
+  ('big_ass', 'Big Ass', ARRAY['pawg', 'booty', 'thicc', 'thick'], 110),
+  ('big_tits', 'Big Tits', ARRAY['busty', 'tits', 'boobs', 'breasts'], 120),
+  ('lesbian', 'Lesbian', ARRAY['lesbians', 'girl', 'girl on girl', 'gg'], 130),
+  ('blonde', 'Blonde', ARRAY[]::text[], 140),
+  ('brunettes', 'Brunettes', ARRAY['brunette'], 150),
+  ('red_head', 'Red Head', ARRAY['redhead', 'red head', 'ginger'], 160),
+  ('small', 'Small', ARRAY['petite', 'tiny', 'skinny'], 170),
+  ('stepsis', 'Stepsis', ARRAY['stepsister', 'step sister', 'step-sister', 'sis', 'sister'], 180),
+  ('anal', 'Anal', ARRAY[]::text[], 190),
+  ('blowjob', 'Blowjob', ARRAY['bj', 'blowjobs', 'oral', 'suck', 'sucking'], 200),
+  ('teen', 'Teen', ARRAY['petite'], 210),
+  ('goth', 'Goth', ARRAY['emo', 'alternative', 'punk'], 220),
+  ('cumshot', 'Cumshot', ARRAY['cum', 'cumshots', 'facial', 'creampie'], 230),
+  ('squirt', 'Squirt', ARRAY['squirting'], 240);
@@ -0,0 +1,7 @@
+
+-- Stream uid issued for a direct (tus) upload. cloudflare_video_id stays null
+-- until the video is ready to stream, since feeds use it as the "playable" flag.
+ALTER TABLE public.videos ADD COLUMN cloudflare_upload_id text;
+
+CREATE UNIQUE INDEX idx_videos_cloudflare_upload_id ON public.videos(cloudflare_upload_id)
+  WHERE cloudflare_upload_id IS NOT NULL;
@@ -0,0 +1,6 @@
+
+-- Upload results are delivered by the cloudflare-stream-webhook function.
+-- The uploader is both recipient and actor for these.
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('like', 'comment', 'save', 'follow', 'video_ready', 'video_failed'));
@@ -0,0 +1,254 @@
+-- Category preferences from real interactions, with time decay.
+--
+-- interaction_score is an exponentially decayed sum: every new interaction
+-- first decays the stored score from last_interaction to now (14 day
+-- half-life), then adds its own weight. Readers decay once more from
+-- last_interaction to read time (see decayedPreferenceScore in
+-- _shared/feed-ranking.ts), so no scheduled job is needed to age scores.
+--
+-- Weights:
+--   view            0.2 for a quick skip (<3s) up to 3.0 for a full watch
+--   like            5
+--   save            8
+--   comment         10
+--   share           12
+--   category click  2
+
+CREATE INDEX IF NOT EXISTS idx_user_category_preferences_user_score
+  ON public.user_category_preferences(user_id, interaction_score DESC);
+
+-- Writes are trigger-only; clients never need to touch this table directly
+DROP POLICY IF EXISTS "Users can insert their own category preferences" ON public.user_category_preferences;
+DROP POLICY IF EXISTS "Users can update their own category preferences" ON public.user_category_preferences;
+
+CREATE OR REPLACE FUNCTION public.bump_category_preference(
+  p_user_id uuid,
+  p_category text,
+  p_weight numeric,
+  p_views integer DEFAULT 0,
+  p_likes integer DEFAULT 0,
+  p_comments integer DEFAULT 0,
+  p_shares integer DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  half_life_days CONSTANT numeric := 14;
+BEGIN
+  IF p_user_id IS NULL OR p_category IS NULL OR btrim(p_category) = '' THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.user_category_preferences (
+    user_id, category, interaction_score,
+    view_count, like_count, comment_count, share_count, last_interaction
+  )
+  VALUES (
+    p_user_id, lower(btrim(p_category)), p_weight,
+    p_views, p_likes, p_comments, p_shares, now()
+  )
+  ON CONFLICT (user_id, category)
+  DO UPDATE SET
+    interaction_score = COALESCE(user_category_preferences.interaction_score, 0)
+      * power(0.5, GREATEST(EXTRACT(EPOCH FROM now() - COALESCE(user_category_preferences.last_interaction, now())), 0) / 86400.0 / half_life_days)
+      + p_weight,
+    view_count = COALESCE(user_category_preferences.view_count, 0) + p_views,
+    like_count = COALESCE(user_category_preferences.like_count, 0) + p_likes,
+    comment_count = COALESCE(user_category_preferences.comment_count, 0) + p_comments,
+    share_count = COALESCE(user_category_preferences.share_count, 0) + p_shares,
+    last_interaction = now(),
+    updated_at = now();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.bump_category_preference(uuid, text, numeric, integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Watch-time weighted view score, shared by the trigger and the backfill
+CREATE OR REPLACE FUNCTION public.view_preference_weight(
+  p_watch_seconds integer,
+  p_completion_percent numeric
+)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN COALESCE(p_watch_seconds, 0) < 3 AND COALESCE(p_completion_percent, 0) < 20 THEN 0.2
+    ELSE 0.5 + 2.5 * LEAST(GREATEST(COALESCE(p_completion_percent, 0), 0), 100) / 100.0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_category_preference()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  video_tags TEXT[];
+  tag TEXT;
+  weight NUMERIC;
+BEGIN
+  IF NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Category clicks carry the category directly. Their user_id isn't a
+  -- foreign key, so check it before it hits ours.
+  IF TG_TABLE_NAME = 'category_clicks' THEN
+    IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = NEW.user_id) THEN
+      RETURN NEW;
+    END IF;
+    PERFORM public.bump_category_preference(NEW.user_id, NEW.category, 2.0);
+    RETURN NEW;
+  END IF;
+
+  SELECT tags INTO video_tags FROM public.videos WHERE id = NEW.video_id;
+
+  IF video_tags IS NULL OR array_length(video_tags, 1) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- NEW.watch_* only exists on video_views, so it can't sit in the CASE below
+  IF TG_TABLE_NAME = 'video_views' THEN
+    weight := public.view_preference_weight(NEW.watch_duration_seconds, NEW.watch_completion_percent);
+  ELSE
+    weight := CASE TG_TABLE_NAME
+      WHEN 'likes' THEN 5.0
+      WHEN 'saved_videos' THEN 8.0
+      WHEN 'comments' THEN 10.0
+      WHEN 'shares' THEN 12.0
+      ELSE 1.0
+    END;
+  END IF;
+
+  FOREACH tag IN ARRAY video_tags LOOP
+    PERFORM public.bump_category_preference(
+      NEW.user_id,
+      tag,
+      weight,
+      CASE WHEN TG_TABLE_NAME = 'video_views' THEN 1 ELSE 0 END,
+      CASE WHEN TG_TABLE_NAME = 'likes' THEN 1 ELSE 0 END,
+      CASE WHEN TG_TABLE_NAME = 'comments' THEN 1 ELSE 0 END,
+      CASE WHEN TG_TABLE_NAME = 'shares' THEN 1 ELSE 0 END
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- (Re)create every trigger; earlier deployments may be missing some
+DROP TRIGGER IF EXISTS update_category_on_view ON public.video_views;
+CREATE TRIGGER update_category_on_view
+  AFTER INSERT ON public.video_views
+  FOR EACH ROW
+  WHEN (NEW.user_id IS NOT NULL)
+  EXECUTE FUNCTION public.update_category_preference();
+
+DROP TRIGGER IF EXISTS update_category_on_like ON public.likes;
+CREATE TRIGGER update_category_on_like
+  AFTER INSERT ON public.likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_category_preference();
+
+DROP TRIGGER IF EXISTS update_category_on_comment ON public.comments;
+CREATE TRIGGER update_category_on_comment
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_category_preference();
+
+DROP TRIGGER IF EXISTS update_category_on_save ON public.saved_videos;
+CREATE TRIGGER update_category_on_save
+  AFTER INSERT ON public.saved_videos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_category_preference();
+
+DROP TRIGGER IF EXISTS update_category_on_share ON public.shares;
+CREATE TRIGGER update_category_on_share
+  AFTER INSERT ON public.shares
+  FOR EACH ROW
+  WHEN (NEW.user_id IS NOT NULL)
+  EXECUTE FUNCTION public.update_category_preference();
+
+DROP TRIGGER IF EXISTS update_category_on_category_click ON public.category_clicks;
+CREATE TRIGGER update_category_on_category_click
+  AFTER INSERT ON public.category_clicks
+  FOR EACH ROW
+  WHEN (NEW.user_id IS NOT NULL)
+  EXECUTE FUNCTION public.update_category_preference();
+
+-- Backfill from history, decayed to now. Replaces whatever is there since
+-- earlier counts were partial (and shares used to be counted from saves).
+WITH events AS (
+  SELECT vv.user_id, lower(btrim(tag)) AS category, vv.viewed_at AS at,
+         public.view_preference_weight(vv.watch_duration_seconds, vv.watch_completion_percent) AS weight,
+         1 AS views, 0 AS likes, 0 AS comments, 0 AS shares
+  FROM public.video_views vv
+  JOIN public.videos v ON v.id = vv.video_id
+  CROSS JOIN LATERAL unnest(v.tags) AS tag
+  WHERE vv.user_id IS NOT NULL
+  UNION ALL
+  SELECT l.user_id, lower(btrim(tag)), l.created_at, 5.0, 0, 1, 0, 0
+  FROM public.likes l
+  JOIN public.videos v ON v.id = l.video_id
+  CROSS JOIN LATERAL unnest(v.tags) AS tag
+  UNION ALL
+  SELECT s.user_id, lower(btrim(tag)), s.created_at, 8.0, 0, 0, 0, 0
+  FROM public.saved_videos s
+  JOIN public.videos v ON v.id = s.video_id
+  CROSS JOIN LATERAL unnest(v.tags) AS tag
+  UNION ALL
+  SELECT c.user_id, lower(btrim(tag)), c.created_at, 10.0, 0, 0, 1, 0
+  FROM public.comments c
+  JOIN public.videos v ON v.id = c.video_id
+  CROSS JOIN LATERAL unnest(v.tags) AS tag
+  UNION ALL
+  SELECT sh.user_id, lower(btrim(tag)), sh.created_at, 12.0, 0, 0, 0, 1
+  FROM public.shares sh
+  JOIN public.videos v ON v.id = sh.video_id
+  CROSS JOIN LATERAL unnest(v.tags) AS tag
+  WHERE sh.user_id IS NOT NULL
+  UNION ALL
+  SELECT cc.user_id, lower(btrim(cc.category)), cc.created_at, 2.0, 0, 0, 0, 0
+  FROM public.category_clicks cc
+  WHERE cc.user_id IS NOT NULL
+),
+totals AS (
+  SELECT
+    e.user_id,
+    e.category,
+    SUM(e.weight * power(0.5, GREATEST(EXTRACT(EPOCH FROM now() - e.at), 0) / 86400.0 / 14)) AS score,
+    SUM(e.views)::integer AS views,
+    SUM(e.likes)::integer AS likes,
+    SUM(e.comments)::integer AS comments,
+    SUM(e.shares)::integer AS shares
+  FROM events e
+  -- category_clicks.user_id has no FK; skip deleted accounts
+  JOIN auth.users u ON u.id = e.user_id
+  WHERE e.category <> ''
+  GROUP BY e.user_id, e.category
+)
+INSERT INTO public.user_category_preferences (
+  user_id, category, interaction_score,
+  view_count, like_count, comment_count, share_count, last_interaction, updated_at
+)
+SELECT user_id, category, score, views, likes, comments, shares, now(), now()
+FROM totals
+ON CONFLICT (user_id, category)
+DO UPDATE SET
+  interaction_score = EXCLUDED.interaction_score,
+  view_count = EXCLUDED.view_count,
+  like_count = EXCLUDED.like_count,
+  comment_count = EXCLUDED.comment_count,
+  share_count = EXCLUDED.share_count,
+  last_interaction = EXCLUDED.last_interaction,
+  updated_at = now();
+
+-- Existing mixed-case rows from the old trigger are now duplicates of the
+-- lowercased ones written above
+DELETE FROM public.user_category_preferences
+WHERE category <> lower(btrim(category));
@@ -0,0 +1,31 @@
+-- "Not interested" / "Hide creator" / "Hide category" feedback from the feed.
+-- Rows belong to a signed-in user or, for guests, to the anonymous viewer id
+-- the feed already sends. Feeds treat every row as a hard exclusion.
+CREATE TABLE public.feed_hides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  viewer_id text,
+  -- video: target is a video id; creator: a user id; category: a category slug
+  kind text NOT NULL CHECK (kind IN ('video', 'creator', 'category')),
+  target text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (user_id IS NOT NULL OR viewer_id IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX feed_hides_user_unique
+  ON public.feed_hides(user_id, kind, target) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX feed_hides_viewer_unique
+  ON public.feed_hides(viewer_id, kind, target) WHERE user_id IS NULL;
+CREATE INDEX idx_feed_hides_viewer_id ON public.feed_hides(viewer_id) WHERE viewer_id IS NOT NULL;
+
+ALTER TABLE public.feed_hides ENABLE ROW LEVEL SECURITY;
+
+-- Guests go through the feed-hides function; signed-in users may also read
+-- and manage their own rows directly
+CREATE POLICY "Users can view their own feed hides"
+  ON public.feed_hides FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own feed hides"
+  ON public.feed_hides FOR DELETE
+  USING (auth.uid() = user_id);
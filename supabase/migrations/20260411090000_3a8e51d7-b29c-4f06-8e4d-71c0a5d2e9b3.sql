@@ -0,0 +1,53 @@
+-- Cold-start exploration for new uploads. refresh-feed-scores enrolls new
+-- videos, keeps their impression / hook counts current and decides each test;
+-- get-for-you-feed reserves a share of slots for videos still testing.
+
+-- Single-row settings, edited from AdminVideos
+CREATE TABLE public.feed_exploration_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  enabled boolean NOT NULL DEFAULT true,
+  reserved_slot_share numeric NOT NULL DEFAULT 0.15 CHECK (reserved_slot_share >= 0 AND reserved_slot_share <= 0.5),
+  impression_target integer NOT NULL DEFAULT 150 CHECK (impression_target > 0),
+  graduation_hook_rate numeric NOT NULL DEFAULT 0.6 CHECK (graduation_hook_rate BETWEEN 0 AND 1),
+  early_retire_impressions integer NOT NULL DEFAULT 40 CHECK (early_retire_impressions > 0),
+  early_retire_hook_rate numeric NOT NULL DEFAULT 0.3 CHECK (early_retire_hook_rate BETWEEN 0 AND 1),
+  -- Impressions are counted from the 7-day metrics window, so tests can't run longer
+  max_test_days integer NOT NULL DEFAULT 7 CHECK (max_test_days BETWEEN 1 AND 7),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.feed_exploration_settings (id) VALUES (true);
+
+ALTER TABLE public.feed_exploration_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view feed exploration settings" ON public.feed_exploration_settings
+  FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update feed exploration settings" ON public.feed_exploration_settings
+  FOR UPDATE TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- One row per video that entered testing. Written by the service role only.
+CREATE TABLE public.video_exploration (
+  video_id uuid PRIMARY KEY REFERENCES public.videos(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'testing' CHECK (status IN ('testing', 'graduated', 'retired')),
+  impressions integer NOT NULL DEFAULT 0,
+  hook_passes integer NOT NULL DEFAULT 0,
+  hook_rate double precision NOT NULL DEFAULT -1,
+  started_at timestamp with time zone NOT NULL DEFAULT now(),
+  decided_at timestamp with time zone,
+  -- target_reached | early_low_hook | timeout | dead
+  decision_reason text,
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_video_exploration_status ON public.video_exploration(status);
+CREATE INDEX idx_video_exploration_started_at ON public.video_exploration(started_at);
+
+ALTER TABLE public.video_exploration ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view video exploration" ON public.video_exploration
+  FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
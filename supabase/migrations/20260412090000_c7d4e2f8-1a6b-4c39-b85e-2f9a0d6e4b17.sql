@@ -0,0 +1,56 @@
+-- Trending videos and hashtags, refreshed by the refresh-trending function
+-- and served by get-trending. Column names match TrendingVideoScore /
+-- TrendingHashtagScore in supabase/functions/_shared/trending.ts.
+CREATE TABLE public.trending_videos (
+  video_id uuid PRIMARY KEY REFERENCES public.videos(id) ON DELETE CASCADE,
+  rank integer NOT NULL,
+  score double precision NOT NULL,
+  lift double precision NOT NULL,
+  recent_events double precision NOT NULL DEFAULT 0,
+  recent_views integer NOT NULL DEFAULT 0,
+  baseline_rate double precision NOT NULL DEFAULT 0,
+  computed_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_trending_videos_rank ON public.trending_videos(rank);
+
+CREATE TABLE public.trending_hashtags (
+  tag text PRIMARY KEY,
+  rank integer NOT NULL,
+  score double precision NOT NULL,
+  lift double precision NOT NULL,
+  recent_events double precision NOT NULL DEFAULT 0,
+  recent_views integer NOT NULL DEFAULT 0,
+  video_count integer NOT NULL DEFAULT 0,
+  computed_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_trending_hashtags_rank ON public.trending_hashtags(rank);
+
+ALTER TABLE public.trending_videos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.trending_hashtags ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only; admins can inspect
+CREATE POLICY "Admins can view trending videos" ON public.trending_videos
+  FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view trending hashtags" ON public.trending_hashtags
+  FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Same Vault secret as refresh-feed-scores
+SELECT cron.schedule(
+  'refresh-trending',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://mbuajcicosojebakdtsn.supabase.co/functions/v1/refresh-trending',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,61 @@
+-- Tag landing pages (/tag/:tag): followers per tag and header stats.
+-- Tags are the lowercase slugs stored in videos.tags.
+CREATE TABLE public.tag_follows (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tag text NOT NULL CHECK (tag = lower(btrim(tag)) AND tag <> ''),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, tag)
+);
+
+CREATE INDEX idx_tag_follows_tag ON public.tag_follows(tag);
+
+ALTER TABLE public.tag_follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tag follows"
+  ON public.tag_follows FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can follow tags"
+  ON public.tag_follows FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unfollow tags"
+  ON public.tag_follows FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Following a tag is a strong preference signal for the For You ranker
+CREATE OR REPLACE FUNCTION public.tag_follow_preference()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.bump_category_preference(NEW.user_id, NEW.tag, 15);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_tag_follow_preference
+  AFTER INSERT ON public.tag_follows
+  FOR EACH ROW EXECUTE FUNCTION public.tag_follow_preference();
+
+-- Header numbers; follower counts aren't readable through RLS
+CREATE OR REPLACE FUNCTION public.get_tag_stats(p_tag text)
+RETURNS TABLE (video_count bigint, total_views bigint, follower_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT count(*) FROM public.videos
+      WHERE tags @> ARRAY[lower(p_tag)] AND cloudflare_video_id IS NOT NULL),
+    (SELECT COALESCE(sum(views_count), 0) FROM public.videos
+      WHERE tags @> ARRAY[lower(p_tag)] AND cloudflare_video_id IS NOT NULL),
+    (SELECT count(*) FROM public.tag_follows WHERE tag = lower(p_tag));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_tag_stats(text) TO anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_videos_tags ON public.videos USING gin(tags);
@@ -0,0 +1,56 @@
+-- Ad rotation: feed cadence and per-viewer frequency cap, edited in AdminAds
+CREATE TABLE public.ad_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  cadence integer NOT NULL DEFAULT 10 CHECK (cadence BETWEEN 3 AND 100),
+  frequency_cap integer NOT NULL DEFAULT 3 CHECK (frequency_cap >= 0),
+  frequency_window_hours integer NOT NULL DEFAULT 24 CHECK (frequency_window_hours BETWEEN 1 AND 720),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.ad_settings (id) VALUES (true);
+
+ALTER TABLE public.ad_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Ad settings are viewable by everyone" ON public.ad_settings
+  FOR SELECT TO public USING (true);
+
+CREATE POLICY "Admins can update ad settings" ON public.ad_settings
+  FOR UPDATE TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_ad_views_ad_id ON public.ad_views(ad_id);
+CREATE INDEX IF NOT EXISTS idx_ad_clicks_ad_id ON public.ad_clicks(ad_id);
+CREATE INDEX IF NOT EXISTS idx_ad_views_viewer_viewed_at ON public.ad_views(viewer_id, viewed_at);
+CREATE INDEX IF NOT EXISTS idx_ad_views_user_viewed_at ON public.ad_views(user_id, viewed_at);
+
+-- Bandit inputs for the feed's ad picker. ad_views / ad_clicks are admin-only
+-- through RLS, so totals and the caller's own impressions inside the cap
+-- window come back through here. Signed-in viewers are also matched by
+-- user id so the cap holds across devices.
+CREATE OR REPLACE FUNCTION public.get_ad_rotation_stats(p_viewer_id text)
+RETURNS TABLE (ad_id uuid, views bigint, clicks bigint, viewer_impressions bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH win AS (
+    SELECT now() - make_interval(hours => COALESCE(
+      (SELECT frequency_window_hours FROM public.ad_settings WHERE id), 24
+    )) AS since
+  )
+  SELECT
+    a.id,
+    (SELECT count(*) FROM public.ad_views v WHERE v.ad_id = a.id),
+    (SELECT count(*) FROM public.ad_clicks c WHERE c.ad_id = a.id),
+    (SELECT count(*) FROM public.ad_views v, win
+      WHERE v.ad_id = a.id
+        AND v.viewed_at >= win.since
+        AND ((p_viewer_id IS NOT NULL AND v.viewer_id = p_viewer_id)
+          OR (auth.uid() IS NOT NULL AND v.user_id = auth.uid())))
+  FROM public.ads a
+  WHERE a.is_active;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_ad_rotation_stats(text) TO anon, authenticated;
@@ -0,0 +1,62 @@
+-- Ad campaigns: schedule, daily impression cap with pacing, targeting and priority.
+-- Empty target arrays mean "everywhere".
+ALTER TABLE public.ads
+  ADD COLUMN starts_at timestamp with time zone,
+  ADD COLUMN ends_at timestamp with time zone,
+  ADD COLUMN daily_impression_cap integer CHECK (daily_impression_cap IS NULL OR daily_impression_cap > 0),
+  ADD COLUMN target_categories text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN target_feed_sources text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN priority integer NOT NULL DEFAULT 5 CHECK (priority BETWEEN 1 AND 10),
+  ADD CONSTRAINT ads_schedule_order CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at);
+
+CREATE INDEX IF NOT EXISTS idx_ad_views_ad_viewed_at ON public.ad_views(ad_id, viewed_at);
+
+-- Same bandit inputs as before, now limited to ads that may serve right now:
+-- inside their schedule and under their paced share of today's (UTC) cap.
+-- Pacing releases the cap evenly over the day plus one hour of headroom, so
+-- a campaign doesn't burn its whole budget in the first busy hour.
+DROP FUNCTION IF EXISTS public.get_ad_rotation_stats(text);
+
+CREATE OR REPLACE FUNCTION public.get_ad_rotation_stats(p_viewer_id text)
+RETURNS TABLE (ad_id uuid, views bigint, clicks bigint, viewer_impressions bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH win AS (
+    SELECT
+      now() - make_interval(hours => COALESCE(
+        (SELECT frequency_window_hours FROM public.ad_settings WHERE id), 24
+      )) AS since,
+      date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS day_start
+  ),
+  live AS (
+    SELECT
+      a.id,
+      a.daily_impression_cap,
+      (SELECT count(*) FROM public.ad_views v, win
+        WHERE v.ad_id = a.id AND v.viewed_at >= win.day_start) AS today_views
+    FROM public.ads a
+    WHERE a.is_active
+      AND (a.starts_at IS NULL OR a.starts_at <= now())
+      AND (a.ends_at IS NULL OR a.ends_at > now())
+  )
+  SELECT
+    l.id,
+    (SELECT count(*) FROM public.ad_views v WHERE v.ad_id = l.id),
+    (SELECT count(*) FROM public.ad_clicks c WHERE c.ad_id = l.id),
+    (SELECT count(*) FROM public.ad_views v, win
+      WHERE v.ad_id = l.id
+        AND v.viewed_at >= win.since
+        AND ((p_viewer_id IS NOT NULL AND v.viewer_id = p_viewer_id)
+          OR (auth.uid() IS NOT NULL AND v.user_id = auth.uid())))
+  FROM live l, win
+  WHERE l.daily_impression_cap IS NULL
+    OR l.today_views < LEAST(
+      l.daily_impression_cap,
+      ceil(l.daily_impression_cap * (extract(epoch FROM now() - win.day_start) / 86400 + 1.0 / 24))
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_ad_rotation_stats(text) TO anon, authenticated;
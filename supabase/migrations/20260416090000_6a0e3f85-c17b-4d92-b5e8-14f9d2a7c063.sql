@@ -0,0 +1,64 @@
+-- Ad clicks now go through the ad-click edge function, which logs every
+-- click and flags duplicates, bots and bursts as invalid before redirecting.
+ALTER TABLE public.ad_clicks
+  ADD COLUMN is_valid boolean NOT NULL DEFAULT true,
+  ADD COLUMN invalid_reason text CHECK (invalid_reason IN ('duplicate', 'bot', 'rate_limited')),
+  ADD COLUMN feed_source text,
+  ADD COLUMN user_agent text,
+  ADD COLUMN ip_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_ad_clicks_viewer_clicked_at ON public.ad_clicks(viewer_id, clicked_at);
+CREATE INDEX IF NOT EXISTS idx_ad_clicks_ip_clicked_at ON public.ad_clicks(ip_hash, clicked_at);
+
+-- Only the edge function (service role) writes clicks
+DROP POLICY IF EXISTS "Anyone can insert ad clicks" ON public.ad_clicks;
+
+-- UTM parameters appended to external_link on redirect. utm_campaign may
+-- use {ad_id}; utm_content is the feed the click came from.
+ALTER TABLE public.ad_settings
+  ADD COLUMN utm_source text NOT NULL DEFAULT 'shortpornvids',
+  ADD COLUMN utm_medium text NOT NULL DEFAULT 'video_ad',
+  ADD COLUMN utm_campaign text NOT NULL DEFAULT '{ad_id}';
+
+-- Bandit stats count valid clicks only
+CREATE OR REPLACE FUNCTION public.get_ad_rotation_stats(p_viewer_id text)
+RETURNS TABLE (ad_id uuid, views bigint, clicks bigint, viewer_impressions bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH win AS (
+    SELECT
+      now() - make_interval(hours => COALESCE(
+        (SELECT frequency_window_hours FROM public.ad_settings WHERE id), 24
+      )) AS since,
+      date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS day_start
+  ),
+  live AS (
+    SELECT
+      a.id,
+      a.daily_impression_cap,
+      (SELECT count(*) FROM public.ad_views v, win
+        WHERE v.ad_id = a.id AND v.viewed_at >= win.day_start) AS today_views
+    FROM public.ads a
+    WHERE a.is_active
+      AND (a.starts_at IS NULL OR a.starts_at <= now())
+      AND (a.ends_at IS NULL OR a.ends_at > now())
+  )
+  SELECT
+    l.id,
+    (SELECT count(*) FROM public.ad_views v WHERE v.ad_id = l.id),
+    (SELECT count(*) FROM public.ad_clicks c WHERE c.ad_id = l.id AND c.is_valid),
+    (SELECT count(*) FROM public.ad_views v, win
+      WHERE v.ad_id = l.id
+        AND v.viewed_at >= win.since
+        AND ((p_viewer_id IS NOT NULL AND v.viewer_id = p_viewer_id)
+          OR (auth.uid() IS NOT NULL AND v.user_id = auth.uid())))
+  FROM live l, win
+  WHERE l.daily_impression_cap IS NULL
+    OR l.today_views < LEAST(
+      l.daily_impression_cap,
+      ceil(l.daily_impression_cap * (extract(epoch FROM now() - win.day_start) / 86400 + 1.0 / 24))
+    );
+$$;
@@ -0,0 +1,56 @@
+-- Viewability-based ad impressions. LivestreamAdItem now writes one ad_views
+-- row per exposure, only once the ad played long enough while visible enough,
+-- with how long it was watched and whether it played through. Earlier rows
+-- were logged on activation and stay viewable = false.
+ALTER TABLE public.ad_views
+  ADD COLUMN viewable boolean NOT NULL DEFAULT false,
+  ADD COLUMN watch_ms integer CHECK (watch_ms IS NULL OR watch_ms >= 0),
+  ADD COLUMN ad_duration_ms integer CHECK (ad_duration_ms IS NULL OR ad_duration_ms >= 0),
+  ADD COLUMN completed boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.ad_settings
+  ADD COLUMN viewability_min_ms integer NOT NULL DEFAULT 2000 CHECK (viewability_min_ms BETWEEN 0 AND 30000),
+  ADD COLUMN viewability_min_visible numeric NOT NULL DEFAULT 0.5 CHECK (viewability_min_visible > 0 AND viewability_min_visible <= 1);
+
+-- Bandit CTR is over viewable impressions
+CREATE OR REPLACE FUNCTION public.get_ad_rotation_stats(p_viewer_id text)
+RETURNS TABLE (ad_id uuid, views bigint, clicks bigint, viewer_impressions bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH win AS (
+    SELECT
+      now() - make_interval(hours => COALESCE(
+        (SELECT frequency_window_hours FROM public.ad_settings WHERE id), 24
+      )) AS since,
+      date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS day_start
+  ),
+  live AS (
+    SELECT
+      a.id,
+      a.daily_impression_cap,
+      (SELECT count(*) FROM public.ad_views v, win
+        WHERE v.ad_id = a.id AND v.viewed_at >= win.day_start) AS today_views
+    FROM public.ads a
+    WHERE a.is_active
+      AND (a.starts_at IS NULL OR a.starts_at <= now())
+      AND (a.ends_at IS NULL OR a.ends_at > now())
+  )
+  SELECT
+    l.id,
+    (SELECT count(*) FROM public.ad_views v WHERE v.ad_id = l.id AND v.viewable),
+    (SELECT count(*) FROM public.ad_clicks c WHERE c.ad_id = l.id AND c.is_valid),
+    (SELECT count(*) FROM public.ad_views v, win
+      WHERE v.ad_id = l.id
+        AND v.viewed_at >= win.since
+        AND ((p_viewer_id IS NOT NULL AND v.viewer_id = p_viewer_id)
+          OR (auth.uid() IS NOT NULL AND v.user_id = auth.uid())))
+  FROM live l, win
+  WHERE l.daily_impression_cap IS NULL
+    OR l.today_views < LEAST(
+      l.daily_impression_cap,
+      ceil(l.daily_impression_cap * (extract(epoch FROM now() - win.day_start) / 86400 + 1.0 / 24))
+    );
+$$;
@@ -0,0 +1,10 @@
+-- Third-party ads: an ad may reference a VAST 3/4 tag instead of an uploaded
+-- video. The client resolves the tag, plays its media file and fires its
+-- tracking pixels; on no fill the slot falls back to one of our own ads.
+ALTER TABLE public.ads
+  ADD COLUMN vast_tag_url text,
+  ALTER COLUMN video_url DROP NOT NULL,
+  ALTER COLUMN external_link DROP NOT NULL,
+  ADD CONSTRAINT ads_creative_source CHECK (
+    vast_tag_url IS NOT NULL OR (video_url IS NOT NULL AND external_link IS NOT NULL)
+  );
@@ -0,0 +1,46 @@
+-- Playback QoE events. FeedItem and the playback controller report what
+-- actually happened during a playback (first frame, rebuffers, hls.js level
+-- switches, fatal errors, muted-fallback autoplay) instead of the ranker
+-- inferring stalls and retries from TTFF thresholds. Rows are batched by
+-- the client; playback_id groups the events of one activation.
+CREATE TABLE public.playback_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id uuid NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  playback_id text NOT NULL,
+  viewer_id text NOT NULL,
+  session_id text,
+  user_id uuid,
+  event_type text NOT NULL CHECK (event_type IN (
+    'first_frame', 'startup_failed', 'retry', 'muted_fallback',
+    'rebuffer_start', 'rebuffer_end', 'level_switch', 'fatal_error'
+  )),
+  -- first_frame: time to first frame; rebuffer_end: stall duration
+  value_ms integer CHECK (value_ms IS NULL OR value_ms >= 0),
+  level integer,
+  bitrate integer,
+  detail text,
+  feed_source text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_playback_events_created_at ON public.playback_events(created_at);
+CREATE INDEX idx_playback_events_video_created ON public.playback_events(video_id, created_at);
+
+ALTER TABLE public.playback_events ENABLE ROW LEVEL SECURITY;
+
+-- Playback events: anyone can insert, admins can read
+CREATE POLICY "Anyone can insert playback events" ON public.playback_events
+  FOR INSERT TO public WITH CHECK (true);
+
+CREATE POLICY "Admins can view playback events" ON public.playback_events
+  FOR SELECT TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+-- Per-video QoE aggregates, written by refresh-feed-scores next to the
+-- startup metrics. With enough QoE samples stall_rate and retry_rate are
+-- measured from these events rather than the TTFF proxies.
+ALTER TABLE public.video_feed_scores
+  ADD COLUMN qoe_samples integer NOT NULL DEFAULT 0,
+  ADD COLUMN avg_stall_count double precision NOT NULL DEFAULT -1,
+  ADD COLUMN avg_stall_ms double precision NOT NULL DEFAULT -1,
+  ADD COLUMN fatal_error_rate double precision NOT NULL DEFAULT 0,
+  ADD COLUMN muted_fallback_rate double precision NOT NULL DEFAULT 0;
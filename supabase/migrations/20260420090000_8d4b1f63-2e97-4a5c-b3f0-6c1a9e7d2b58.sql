@@ -0,0 +1,11 @@
+-- Startup quality selection. The playback controller picks the first hls.js
+-- rendition from the viewer's Data saver / Auto / High preference, measured
+-- throughput, navigator.connection and the player's rendered size (native
+-- HLS gets a bandwidth hint). The choice is stored with each view so startup
+-- quality can be compared against TTFF and watch time.
+ALTER TABLE public.video_views
+  ADD COLUMN quality_preference text CHECK (quality_preference IS NULL OR quality_preference IN ('data-saver', 'auto', 'high')),
+  ADD COLUMN startup_height integer,
+  ADD COLUMN startup_bitrate integer,
+  ADD COLUMN startup_estimate_kbps integer,
+  ADD COLUMN startup_quality_source text;
@@ -0,0 +1,6 @@
+-- Warm-player pool. Upcoming feed items are pre-buffered by a paused hls.js
+-- instance; views record whether playback started from one so TTFF can be
+-- compared between warm and cold starts. NULL for views without a startup
+-- quality report (progressive fallback, older clients).
+ALTER TABLE public.video_views
+  ADD COLUMN startup_warm boolean;
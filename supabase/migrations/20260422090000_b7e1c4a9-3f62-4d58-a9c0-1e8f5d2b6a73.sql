@@ -0,0 +1,82 @@
+-- Captions. Creators upload one WebVTT file per language from the edit
+-- dialog (SRT is converted to WebVTT in the browser before upload). Files
+-- live in the public captions bucket under <user id>/<video id>/<language>.vtt
+-- and are linked to the video here.
+CREATE TABLE public.video_captions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id uuid NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  -- BCP 47 tag, e.g. en, pt-BR
+  language text NOT NULL CHECK (language ~ '^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$'),
+  label text NOT NULL CHECK (char_length(label) BETWEEN 1 AND 60),
+  storage_path text NOT NULL,
+  created_by uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (video_id, language)
+);
+
+CREATE INDEX idx_video_captions_video_id ON public.video_captions(video_id);
+
+ALTER TABLE public.video_captions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Captions are viewable by everyone" ON public.video_captions
+  FOR SELECT USING (true);
+
+-- The video's creator (or an admin) manages its captions
+CREATE POLICY "Video owners can add captions" ON public.video_captions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND (
+      EXISTS (SELECT 1 FROM public.videos v WHERE v.id = video_id AND v.user_id = auth.uid())
+      OR public.has_role(auth.uid(), 'admin')
+    )
+  );
+
+CREATE POLICY "Video owners can update captions" ON public.video_captions
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.videos v WHERE v.id = video_id AND v.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Video owners can delete captions" ON public.video_captions
+  FOR DELETE TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.videos v WHERE v.id = video_id AND v.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+-- Caption files
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('captions', 'captions', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Caption files are publicly accessible"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'captions');
+
+CREATE POLICY "Users can upload their own caption files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'captions'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can update their own caption files"
+ON storage.objects
+FOR UPDATE
+USING (
+  bucket_id = 'captions'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can delete their own caption files"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'captions'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
@@ -0,0 +1,12 @@
+-- Timed-out exploration tests without enough impressions to judge are
+-- returned to normal ranking instead of retired (decision_reason
+-- timeout_low_data). Un-bury the ones already retired that way.
+UPDATE public.video_exploration e
+SET status = 'graduated',
+    decision_reason = 'timeout_low_data',
+    updated_at = now()
+FROM public.feed_exploration_settings s
+WHERE e.status = 'retired'
+  AND e.decision_reason = 'timeout'
+  AND e.impressions < s.early_retire_impressions
+  AND EXISTS (SELECT 1 FROM public.videos v WHERE v.id = e.video_id);
@@ -0,0 +1,56 @@
+-- Ad CTR counts only clicks from when impressions became viewability-based.
+-- Views are viewable-only, so clicks from before that point had no matching
+-- view and inflated CTR. viewability_since marks the cutover; it is
+-- backfilled from the first viewable impression (now() if there is none).
+ALTER TABLE public.ad_settings
+  ADD COLUMN viewability_since timestamptz NOT NULL DEFAULT now();
+
+UPDATE public.ad_settings
+SET viewability_since = COALESCE(
+  (SELECT min(viewed_at) FROM public.ad_views WHERE viewable),
+  now()
+);
+
+CREATE OR REPLACE FUNCTION public.get_ad_rotation_stats(p_viewer_id text)
+RETURNS TABLE (ad_id uuid, views bigint, clicks bigint, viewer_impressions bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH win AS (
+    SELECT
+      now() - make_interval(hours => COALESCE(
+        (SELECT frequency_window_hours FROM public.ad_settings WHERE id), 24
+      )) AS since,
+      date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS day_start,
+      COALESCE((SELECT viewability_since FROM public.ad_settings WHERE id), now()) AS clicks_since
+  ),
+  live AS (
+    SELECT
+      a.id,
+      a.daily_impression_cap,
+      (SELECT count(*) FROM public.ad_views v, win
+        WHERE v.ad_id = a.id AND v.viewed_at >= win.day_start) AS today_views
+    FROM public.ads a
+    WHERE a.is_active
+      AND (a.starts_at IS NULL OR a.starts_at <= now())
+      AND (a.ends_at IS NULL OR a.ends_at > now())
+  )
+  SELECT
+    l.id,
+    (SELECT count(*) FROM public.ad_views v WHERE v.ad_id = l.id AND v.viewable),
+    (SELECT count(*) FROM public.ad_clicks c, win
+      WHERE c.ad_id = l.id AND c.is_valid AND c.clicked_at >= win.clicks_since),
+    (SELECT count(*) FROM public.ad_views v, win
+      WHERE v.ad_id = l.id
+        AND v.viewed_at >= win.since
+        AND ((p_viewer_id IS NOT NULL AND v.viewer_id = p_viewer_id)
+          OR (auth.uid() IS NOT NULL AND v.user_id = auth.uid())))
+  FROM live l, win
+  WHERE l.daily_impression_cap IS NULL
+    OR l.today_views < LEAST(
+      l.daily_impression_cap,
+      ceil(l.daily_impression_cap * (extract(epoch FROM now() - win.day_start) / 86400 + 1.0 / 24))
+    );
+$$;
@@ -0,0 +1,37 @@
+-- refresh-trending used to upsert each run and then delete rows from older
+-- runs, so get-trending could read a mix of two rankings in between.
+-- replace_trending swaps the whole run in one transaction instead. Videos
+-- deleted since scoring are skipped rather than failing the swap.
+CREATE OR REPLACE FUNCTION public.replace_trending(p_videos jsonb, p_hashtags jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.trending_videos WHERE true;
+  INSERT INTO public.trending_videos (
+    video_id, rank, score, lift, recent_events, recent_views, baseline_rate, computed_at
+  )
+  SELECT r.video_id, r.rank, r.score, r.lift, r.recent_events, r.recent_views, r.baseline_rate, r.computed_at
+  FROM jsonb_to_recordset(COALESCE(p_videos, '[]'::jsonb)) AS r(
+    video_id uuid, rank integer, score double precision, lift double precision,
+    recent_events double precision, recent_views integer, baseline_rate double precision,
+    computed_at timestamptz
+  )
+  JOIN public.videos v ON v.id = r.video_id;
+
+  DELETE FROM public.trending_hashtags WHERE true;
+  INSERT INTO public.trending_hashtags (
+    tag, rank, score, lift, recent_events, recent_views, video_count, computed_at
+  )
+  SELECT r.tag, r.rank, r.score, r.lift, r.recent_events, r.recent_views, r.video_count, r.computed_at
+  FROM jsonb_to_recordset(COALESCE(p_hashtags, '[]'::jsonb)) AS r(
+    tag text, rank integer, score double precision, lift double precision,
+    recent_events double precision, recent_views integer, video_count integer,
+    computed_at timestamptz
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.replace_trending(jsonb, jsonb) FROM PUBLIC, anon, authenticated;